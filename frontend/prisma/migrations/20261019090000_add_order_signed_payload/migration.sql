@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "signedOrder" TEXT;
+
+-- Backfill: orders created before nonces were enforced were all saved with nonce 0.
+-- Keep the first row of each (userAddress, chainId, nonce) and give the later ones
+-- a unique negative nonce, which no signed order can use and /api/orders/nonce ignores.
+UPDATE "Order" SET "nonce" = -"Order".rowid
+WHERE EXISTS (
+    SELECT 1 FROM "Order" AS "earlier"
+    WHERE "earlier"."userAddress" = "Order"."userAddress"
+      AND "earlier"."chainId" = "Order"."chainId"
+      AND "earlier"."nonce" = "Order"."nonce"
+      AND "earlier".rowid < "Order".rowid
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Order_userAddress_chainId_nonce_key" ON "Order"("userAddress", "chainId", "nonce");
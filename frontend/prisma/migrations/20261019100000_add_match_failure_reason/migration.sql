@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "OrderMatch" ADD COLUMN "failureReason" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "orderType" TEXT NOT NULL DEFAULT 'LIMIT';
+ALTER TABLE "Order" ADD COLUMN "timeInForce" TEXT NOT NULL DEFAULT 'GTC';
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "collateralStatus" TEXT NOT NULL DEFAULT 'UNCHECKED';
+ALTER TABLE "Order" ADD COLUMN "collateralCheckedAt" DATETIME;
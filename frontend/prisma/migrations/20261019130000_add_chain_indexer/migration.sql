@@ -0,0 +1,143 @@
+-- CreateTable
+CREATE TABLE "ChainEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "chainId" INTEGER NOT NULL,
+    "contract" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "eventName" TEXT NOT NULL,
+    "entityType" TEXT,
+    "entityId" TEXT,
+    "args" TEXT NOT NULL,
+    "blockNumber" INTEGER NOT NULL,
+    "blockHash" TEXT NOT NULL,
+    "blockTimestamp" DATETIME NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "IndexerCursor" (
+    "chainId" INTEGER NOT NULL PRIMARY KEY,
+    "lastBlock" INTEGER NOT NULL,
+    "lastBlockHash" TEXT,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "IndexedAsset" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "chainId" INTEGER NOT NULL,
+    "assetId" INTEGER NOT NULL,
+    "creator" TEXT NOT NULL,
+    "nftContract" TEXT NOT NULL,
+    "tokenId" TEXT NOT NULL,
+    "metadataURI" TEXT NOT NULL,
+    "royaltyBPS" INTEGER NOT NULL,
+    "blockNumber" INTEGER NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "registeredAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "IndexedPool" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "chainId" INTEGER NOT NULL,
+    "poolId" INTEGER NOT NULL,
+    "assetId" INTEGER NOT NULL,
+    "ftAddress" TEXT NOT NULL,
+    "owner" TEXT NOT NULL,
+    "totalSupply" TEXT NOT NULL,
+    "salePricePerToken" TEXT NOT NULL,
+    "amountForSale" TEXT NOT NULL,
+    "amountSold" TEXT NOT NULL DEFAULT '0',
+    "totalDividends" TEXT NOT NULL DEFAULT '0',
+    "claimedDividends" TEXT NOT NULL DEFAULT '0',
+    "recombined" BOOLEAN NOT NULL DEFAULT false,
+    "blockNumber" INTEGER NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "IndexedLicenseOffer" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "chainId" INTEGER NOT NULL,
+    "offerId" INTEGER NOT NULL,
+    "assetId" INTEGER NOT NULL,
+    "seller" TEXT NOT NULL,
+    "price" TEXT NOT NULL,
+    "licenseType" INTEGER NOT NULL,
+    "preset" INTEGER NOT NULL,
+    "maxSupply" TEXT NOT NULL,
+    "sold" INTEGER NOT NULL DEFAULT 0,
+    "revenue" TEXT NOT NULL DEFAULT '0',
+    "blockNumber" INTEGER NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "IndexedListing" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "chainId" INTEGER NOT NULL,
+    "listingId" INTEGER NOT NULL,
+    "poolId" INTEGER NOT NULL,
+    "seller" TEXT NOT NULL,
+    "ftAddress" TEXT NOT NULL,
+    "amount" TEXT NOT NULL,
+    "pricePerToken" TEXT NOT NULL,
+    "filledAmount" TEXT NOT NULL DEFAULT '0',
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "blockNumber" INTEGER NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "ChainEvent_chainId_entityType_entityId_idx" ON "ChainEvent"("chainId", "entityType", "entityId");
+
+-- CreateIndex
+CREATE INDEX "ChainEvent_chainId_eventName_idx" ON "ChainEvent"("chainId", "eventName");
+
+-- CreateIndex
+CREATE INDEX "ChainEvent_chainId_blockNumber_idx" ON "ChainEvent"("chainId", "blockNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChainEvent_chainId_blockNumber_txHash_logIndex_key" ON "ChainEvent"("chainId", "blockNumber", "txHash", "logIndex");
+
+-- CreateIndex
+CREATE INDEX "IndexedAsset_creator_idx" ON "IndexedAsset"("creator");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IndexedAsset_chainId_assetId_key" ON "IndexedAsset"("chainId", "assetId");
+
+-- CreateIndex
+CREATE INDEX "IndexedPool_assetId_idx" ON "IndexedPool"("assetId");
+
+-- CreateIndex
+CREATE INDEX "IndexedPool_ftAddress_idx" ON "IndexedPool"("ftAddress");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IndexedPool_chainId_poolId_key" ON "IndexedPool"("chainId", "poolId");
+
+-- CreateIndex
+CREATE INDEX "IndexedLicenseOffer_assetId_idx" ON "IndexedLicenseOffer"("assetId");
+
+-- CreateIndex
+CREATE INDEX "IndexedLicenseOffer_seller_idx" ON "IndexedLicenseOffer"("seller");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IndexedLicenseOffer_chainId_offerId_key" ON "IndexedLicenseOffer"("chainId", "offerId");
+
+-- CreateIndex
+CREATE INDEX "IndexedListing_poolId_idx" ON "IndexedListing"("poolId");
+
+-- CreateIndex
+CREATE INDEX "IndexedListing_seller_idx" ON "IndexedListing"("seller");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IndexedListing_chainId_listingId_key" ON "IndexedListing"("chainId", "listingId");
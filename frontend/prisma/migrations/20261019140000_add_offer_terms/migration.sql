@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "IndexedLicenseOffer" ADD COLUMN "uri" TEXT;
+ALTER TABLE "IndexedLicenseOffer" ADD COLUMN "duration" TEXT;
+ALTER TABLE "IndexedLicenseOffer" ADD COLUMN "royaltyBPS" INTEGER;
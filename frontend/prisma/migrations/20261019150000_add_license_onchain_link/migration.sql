@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "License" ADD COLUMN "chainId" INTEGER;
+ALTER TABLE "License" ADD COLUMN "offerId" INTEGER;
+ALTER TABLE "License" ADD COLUMN "licenseTokenId" TEXT;
+ALTER TABLE "License" ADD COLUMN "syncStatus" TEXT NOT NULL DEFAULT 'UNVERIFIED';
+ALTER TABLE "License" ADD COLUMN "verifiedAt" DATETIME;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "License_licenseTokenId_key" ON "License"("licenseTokenId");
+
+-- CreateIndex
+CREATE INDEX "License_txHash_idx" ON "License"("txHash");
+
+-- CreateIndex
+CREATE INDEX "License_syncStatus_idx" ON "License"("syncStatus");
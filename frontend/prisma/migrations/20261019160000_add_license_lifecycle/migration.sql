@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "License" ADD COLUMN "revokedAt" DATETIME;
+ALTER TABLE "License" ADD COLUMN "revokedBy" TEXT;
+ALTER TABLE "License" ADD COLUMN "revokedReason" TEXT;
+
+-- CreateIndex
+CREATE INDEX "License_status_expiresAt_idx" ON "License"("status", "expiresAt");
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "CustomLicenseTerms" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "chainId" INTEGER NOT NULL,
+    "offerId" INTEGER NOT NULL,
+    "creator" TEXT NOT NULL,
+    "termsCid" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "commercialUse" BOOLEAN NOT NULL,
+    "inGameUse" BOOLEAN NOT NULL,
+    "marketingUse" BOOLEAN NOT NULL,
+    "modificationAllowed" BOOLEAN NOT NULL,
+    "resaleAllowed" BOOLEAN NOT NULL,
+    "attributionRequired" BOOLEAN NOT NULL,
+    "transferable" BOOLEAN NOT NULL,
+    "revenueCap" TEXT NOT NULL,
+    "legalText" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomLicenseTerms_chainId_offerId_key" ON "CustomLicenseTerms"("chainId", "offerId");
+
+-- CreateIndex
+CREATE INDEX "CustomLicenseTerms_creator_idx" ON "CustomLicenseTerms"("creator");
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "RoyaltyReport" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "licenseId" TEXT NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "assetId" INTEGER NOT NULL,
+    "offerId" INTEGER NOT NULL,
+    "poolId" INTEGER NOT NULL,
+    "licensee" TEXT NOT NULL,
+    "periodStart" DATETIME NOT NULL,
+    "periodEnd" DATETIME NOT NULL,
+    "revenue" TEXT NOT NULL,
+    "royaltyBPS" INTEGER NOT NULL,
+    "royaltyDue" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'OUTSTANDING',
+    "txHash" TEXT,
+    "paidAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "RoyaltyReport_licenseId_fkey" FOREIGN KEY ("licenseId") REFERENCES "License" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RoyaltyReport_txHash_key" ON "RoyaltyReport"("txHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RoyaltyReport_licenseId_periodStart_periodEnd_key" ON "RoyaltyReport"("licenseId", "periodStart", "periodEnd");
+
+-- CreateIndex
+CREATE INDEX "RoyaltyReport_licensee_idx" ON "RoyaltyReport"("licensee");
+
+-- CreateIndex
+CREATE INDEX "RoyaltyReport_status_idx" ON "RoyaltyReport"("status");
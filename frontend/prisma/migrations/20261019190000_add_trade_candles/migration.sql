@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "TradeCandle" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "ftAddress" TEXT NOT NULL,
+    "poolId" TEXT NOT NULL,
+    "interval" TEXT NOT NULL,
+    "openTime" DATETIME NOT NULL,
+    "open" TEXT NOT NULL,
+    "high" TEXT NOT NULL,
+    "low" TEXT NOT NULL,
+    "close" TEXT NOT NULL,
+    "volume" TEXT NOT NULL DEFAULT '0',
+    "baseVolume" TEXT NOT NULL DEFAULT '0',
+    "trades" INTEGER NOT NULL DEFAULT 0,
+    "firstTradeAt" DATETIME NOT NULL,
+    "lastTradeAt" DATETIME NOT NULL,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "TradeCandle_poolId_idx" ON "TradeCandle"("poolId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TradeCandle_ftAddress_interval_openTime_key" ON "TradeCandle"("ftAddress", "interval", "openTime");
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "ApiKey" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userAddress" TEXT NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "label" TEXT NOT NULL,
+    "scopes" TEXT NOT NULL,
+    "rateLimit" INTEGER NOT NULL,
+    "secretHash" TEXT NOT NULL,
+    "requestHash" TEXT NOT NULL,
+    "expiresAt" DATETIME,
+    "revokedAt" DATETIME,
+    "lastUsedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApiKey_requestHash_key" ON "ApiKey"("requestHash");
+
+-- CreateIndex
+CREATE INDEX "ApiKey_userAddress_idx" ON "ApiKey"("userAddress");
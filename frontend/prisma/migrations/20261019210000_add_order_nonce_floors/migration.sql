@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "OrderNonceFloor" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userAddress" TEXT NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "poolId" TEXT NOT NULL DEFAULT '',
+    "minNonce" INTEGER NOT NULL,
+    "signature" TEXT NOT NULL,
+    "txHash" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderNonceFloor_userAddress_chainId_poolId_key" ON "OrderNonceFloor"("userAddress", "chainId", "poolId");
@@ -0,0 +1,3 @@
+-- A pair can be matched again after a FAILED or CANCELLED settlement
+-- DropIndex
+DROP INDEX "OrderMatch_buyOrderId_sellOrderId_key";
@@ -0,0 +1,6 @@
+-- LicenseNFT tokenIds are only unique within one chain
+-- DropIndex
+DROP INDEX "License_licenseTokenId_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "License_chainId_licenseTokenId_key" ON "License"("chainId", "licenseTokenId");
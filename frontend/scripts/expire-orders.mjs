@@ -0,0 +1,80 @@
+/**
+ * Maintenance runner
+ *
+ * Calls the expiry sweeper (/api/orders/expire), the collateral
+ * re-validation (/api/orders/revalidate), the license reconciliation
+ * (/api/license/reconcile), the license expiry (/api/license/expire) and/or
+ * the relayer batch settlement (/api/settlement/batch) once, or every N
+ * seconds with --interval.
+ * Sends CRON_SECRET as a bearer token when it is set (required for settle).
+ *
+ * Usage:
+ *   node scripts/expire-orders.mjs [baseUrl=http://localhost:3000] [--interval 60] [--job expire|revalidate|licenses|license-expiry|settle|all]
+ */
+const args = process.argv.slice(2);
+const flagValue = (name, fallback) => {
+  const idx = args.indexOf(name);
+  return idx >= 0 ? args[idx + 1] ?? fallback : undefined;
+};
+const intervalSec = parseInt(flagValue('--interval', '60') ?? '0', 10);
+const job = flagValue('--job', 'expire') ?? 'expire';
+const BASE_URL =
+  args.find((a, i) => !a.startsWith('--') && !args[i - 1]?.startsWith('--')) || 'http://localhost:3000';
+
+const JOBS = {
+  expire: {
+    path: '/api/orders/expire',
+    summary: (body) => `expired ${body.expiredCount} order(s), cancelled ${body.cancelledCount} match(es)`,
+  },
+  revalidate: {
+    path: '/api/orders/revalidate',
+    summary: (body) => `checked ${body.checked} order(s), pulled ${body.pulledCount}`,
+  },
+  licenses: {
+    path: '/api/license/reconcile',
+    summary: (body) =>
+      `recovered ${body.recoveredCount}, verified ${body.verifiedCount}, orphaned ${body.orphanedCount} license(s)`,
+  },
+  'license-expiry': {
+    path: '/api/license/expire',
+    summary: (body) => `expired ${body.expiredCount} license(s)`,
+  },
+  settle: {
+    path: '/api/settlement/batch',
+    summary: (body) =>
+      `settled ${body.settledCount}, failed ${body.failedCount}, skipped ${body.skipped.length} match(es)`,
+  },
+};
+
+async function runJob(name) {
+  const { path, summary } = JOBS[name];
+  const headers = process.env.CRON_SECRET
+    ? { Authorization: `Bearer ${process.env.CRON_SECRET}` }
+    : {};
+  const res = await fetch(`${BASE_URL}${path}`, { method: 'POST', headers });
+  const body = await res.json();
+  if (!res.ok) {
+    throw new Error(body.error || `${name} failed with ${res.status}`);
+  }
+  console.log(`[${new Date().toISOString()}] ${name}: ${summary(body)}`);
+}
+
+async function sweep() {
+  const names = job === 'all' ? Object.keys(JOBS) : [job];
+  for (const name of names) {
+    if (!JOBS[name]) throw new Error(`Unknown job: ${name}`);
+    await runJob(name);
+  }
+}
+
+async function main() {
+  await sweep();
+  if (intervalSec > 0) {
+    setInterval(() => sweep().catch((error) => console.error(error.message)), intervalSec * 1000);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,70 @@
+/**
+ * Chain event indexer runner
+ *
+ * Calls /api/indexer/sync until the indexer has caught up with the chain head,
+ * then optionally keeps following new blocks every N seconds with --interval.
+ * --from-block backfills from that block first (e.g. 0 against a fresh Anvil).
+ * Sends CRON_SECRET as a bearer token when it is set.
+ *
+ * Usage:
+ *   node scripts/index-events.mjs [baseUrl=http://localhost:3000] [--chain-id 31337] [--from-block 0] [--interval 5]
+ */
+const args = process.argv.slice(2);
+const flagValue = (name) => {
+  const idx = args.indexOf(name);
+  return idx >= 0 ? args[idx + 1] : undefined;
+};
+const chainId = parseInt(flagValue('--chain-id') ?? '31337', 10);
+const fromBlockFlag = flagValue('--from-block');
+const intervalSec = parseInt(flagValue('--interval') ?? '0', 10);
+const BASE_URL =
+  args.find((a, i) => !a.startsWith('--') && !args[i - 1]?.startsWith('--')) || 'http://localhost:3000';
+
+async function syncOnce(fromBlock) {
+  const headers = { 'Content-Type': 'application/json' };
+  if (process.env.CRON_SECRET) {
+    headers.Authorization = `Bearer ${process.env.CRON_SECRET}`;
+  }
+  const res = await fetch(`${BASE_URL}/api/indexer/sync`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ chainId, ...(fromBlock !== undefined && { fromBlock }) }),
+  });
+  const body = await res.json();
+  if (!res.ok) {
+    throw new Error(body.details || body.error || `sync failed with ${res.status}`);
+  }
+  const reorg = body.reorgedFrom !== undefined ? ` (reorg, re-indexed from ${body.reorgedFrom})` : '';
+  console.log(
+    `[${new Date().toISOString()}] blocks ${body.fromBlock}-${body.toBlock} of ${body.head}: ${body.indexed} event(s)${reorg}`
+  );
+  return body;
+}
+
+let running = false;
+
+async function catchUp(fromBlock) {
+  // Skip a tick while the previous catch-up is still running
+  if (running) return;
+  running = true;
+  try {
+    let result = await syncOnce(fromBlock);
+    while (!result.caughtUp) {
+      result = await syncOnce();
+    }
+  } finally {
+    running = false;
+  }
+}
+
+async function main() {
+  await catchUp(fromBlockFlag !== undefined ? parseInt(fromBlockFlag, 10) : undefined);
+  if (intervalSec > 0) {
+    setInterval(() => catchUp().catch((error) => console.error(error.message)), intervalSec * 1000);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
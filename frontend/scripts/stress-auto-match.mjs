@@ -0,0 +1,102 @@
+/**
+ * Stress test for /api/orders/auto-match
+ *
+ * Seeds one large resting ASK and many crossing BIDs in the SQLite database,
+ * fires auto-match for every BID concurrently, then checks that no order was
+ * filled past its amount and that filledAmount equals the sum of its matches.
+ *
+ * Usage (with `npm run dev` running):
+ *   node scripts/stress-auto-match.mjs [bids=50] [baseUrl=http://localhost:3000]
+ */
+import { PrismaClient } from '@prisma/client';
+import { randomUUID } from 'crypto';
+
+const prisma = new PrismaClient();
+
+const BIDS = parseInt(process.argv[2] || '50', 10);
+const BASE_URL = process.argv[3] || 'http://localhost:3000';
+const ONE = 10n ** 18n;
+
+async function createOrder(runId, side, userAddress, amount, price, nonce) {
+  return prisma.order.create({
+    data: {
+      orderId: `stress-${runId}-${side}-${nonce}`,
+      userAddress,
+      side,
+      poolId: `stress-${runId}`,
+      ftAddress: '0x000000000000000000000000000000000000f7f7',
+      amount: amount.toString(),
+      pricePerToken: price.toString(),
+      totalValue: ((amount * price) / ONE).toString(),
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      chainId: 31337,
+      nonce,
+    },
+  });
+}
+
+async function main() {
+  const runId = randomUUID().slice(0, 8);
+  const seller = '0x00000000000000000000000000000000000000a1';
+
+  // Resting ask only covers half of the incoming bids
+  const ask = await createOrder(runId, 'SELL', seller, BigInt(BIDS / 2) * ONE, ONE / 100n, 0);
+  const bids = [];
+  for (let i = 0; i < BIDS; i++) {
+    const buyer = `0x${(0xb0 + i).toString(16).padStart(40, '0')}`;
+    bids.push(await createOrder(runId, 'BUY', buyer, ONE, ONE / 50n, i + 1));
+  }
+
+  console.log(`Seeded pool stress-${runId}: 1 ask, ${bids.length} bids`);
+
+  const started = Date.now();
+  const responses = await Promise.all(
+    bids.map((bid) =>
+      fetch(`${BASE_URL}/api/orders/auto-match`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ orderId: bid.id }),
+      }).then((res) => res.status)
+    )
+  );
+  const failedRequests = responses.filter((status) => status !== 200).length;
+  console.log(`Fired ${responses.length} requests in ${Date.now() - started}ms (${failedRequests} non-200)`);
+
+  const orders = await prisma.order.findMany({
+    where: { poolId: `stress-${runId}` },
+    include: { buyMatches: true, sellMatches: true },
+  });
+
+  const violations = [];
+  for (const order of orders) {
+    const filled = BigInt(order.filledAmount);
+    const matched = [...order.buyMatches, ...order.sellMatches].reduce(
+      (sum, m) => sum + BigInt(m.matchedAmount),
+      0n
+    );
+    if (filled > BigInt(order.amount)) {
+      violations.push(`${order.orderId}: filled ${filled} > amount ${order.amount}`);
+    }
+    if (filled !== matched) {
+      violations.push(`${order.orderId}: filled ${filled} != matched ${matched}`);
+    }
+  }
+
+  const askAfter = orders.find((o) => o.id === ask.id);
+  console.log(`Ask filled ${askAfter.filledAmount} / ${askAfter.amount} (${askAfter.status})`);
+
+  if (violations.length > 0) {
+    console.error('\nInvariant violations:');
+    violations.forEach((v) => console.error('  ' + v));
+    process.exitCode = 1;
+  } else {
+    console.log('OK: no order over-filled, fills match OrderMatch rows');
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@prisma/client";
+import { Address, Hex, isAddress } from "viem";
+import {
+  ApiKeyError,
+  DEFAULT_RATE_LIMIT,
+  authenticateApiKey,
+  issueApiKey,
+  listApiKeys,
+  revokeApiKey,
+  revokeApiKeyWithSignature,
+} from "@/lib/apiKeys";
+
+const prisma = new PrismaClient();
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof ApiKeyError) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode });
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback, details: (error as Error).message }, { status: 500 });
+}
+
+/**
+ * GET /api/api-keys?userAddress=0x...
+ * Keys of a wallet (metadata only, never the secret)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userAddress = request.nextUrl.searchParams.get("userAddress");
+    if (!userAddress || !isAddress(userAddress)) {
+      return NextResponse.json({ error: "Valid userAddress parameter is required" }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, data: await listApiKeys(prisma, userAddress) });
+  } catch (error) {
+    return errorResponse(error, "Failed to list API keys");
+  }
+}
+
+/**
+ * POST /api/api-keys
+ * Issue a key from an EIP-712 ApiKeyRequest signed by the wallet (order book domain).
+ * Body: { chainId, userAddress, label, scopes, rateLimit?, expiresAt?, issuedAt, signature }
+ * The response holds the full key once; store it, it cannot be shown again.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { chainId, userAddress, label, scopes, rateLimit, expiresAt, issuedAt, signature } = body;
+
+    if (!chainId || !userAddress || !label || !scopes || !issuedAt || !signature) {
+      return NextResponse.json(
+        { error: "Missing chainId, userAddress, label, scopes, issuedAt or signature" },
+        { status: 400 }
+      );
+    }
+
+    const issued = await issueApiKey(prisma, {
+      chainId: Number(chainId),
+      request: {
+        userAddress: userAddress as Address,
+        label: String(label),
+        scopes: String(scopes),
+        rateLimit: Number(rateLimit ?? DEFAULT_RATE_LIMIT),
+        expiresAt: Number(expiresAt ?? 0),
+        issuedAt: Number(issuedAt),
+      },
+      signature: signature as Hex,
+    });
+
+    return NextResponse.json({ success: true, ...issued }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, "Failed to issue API key");
+  }
+}
+
+/**
+ * DELETE /api/api-keys
+ * Revoke a key, either with the key itself (Authorization: Bearer, body optional)
+ * or with an EIP-712 ApiKeyRevocation from its wallet: { keyId, issuedAt, signature }
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    if (request.headers.get("authorization") || request.headers.get("x-api-key")) {
+      const key = await authenticateApiKey(prisma, request);
+      return NextResponse.json({ success: true, key: await revokeApiKey(prisma, key) });
+    }
+
+    const { keyId, issuedAt, signature } = await request.json();
+    if (!keyId || !issuedAt || !signature) {
+      return NextResponse.json({ error: "Missing keyId, issuedAt or signature" }, { status: 400 });
+    }
+
+    const key = await revokeApiKeyWithSignature(prisma, {
+      keyId: String(keyId),
+      issuedAt: Number(issuedAt),
+      signature: signature as Hex,
+    });
+    return NextResponse.json({ success: true, key });
+  } catch (error) {
+    return errorResponse(error, "Failed to revoke API key");
+  }
+}
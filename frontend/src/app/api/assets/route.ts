@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import { IndexedAsset, Prisma, PrismaClient } from "@prisma/client";
+import {
+  inPageOrder,
+  isOfferActive,
+  loadAssetMetadata,
+  loadTokenMetadata,
+  pageArgs,
+  pageIdsByAmount,
+  parseCatalogQuery,
+  resolveAssetIdFilter,
+  toAssetMetadata,
+  toOfferSummary,
+  toPagination,
+  toTokenMetadata,
+} from "@/lib/catalog";
+
+const prisma = new PrismaClient();
+
+type OfferAmounts = { price: string; revenue: string; maxSupply: string; sold: number };
+
+// Cheapest active offer
+function floorPrice(offers: OfferAmounts[]): string | null {
+  const prices = offers.filter(isOfferActive).map((o) => BigInt(o.price));
+  return prices.length > 0 ? prices.reduce((a, b) => (a < b ? a : b)).toString() : null;
+}
+
+function licenseVolume(offers: OfferAmounts[]): string {
+  return offers.reduce((sum, o) => sum + BigInt(o.revenue), BigInt(0)).toString();
+}
+
+/**
+ * GET /api/assets?chainId=31337&limit=20&offset=0&sort=newest|price|volume&order=asc|desc
+ *   &creator=0x..&category=3d|image|audio|other&preset=0|1|2
+ * Registered assets from the chain indexer, joined with upload metadata (Asset),
+ * their license offers and fractional pool (FractionalToken).
+ * price = cheapest active license offer, volume = license revenue.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const query = parseCatalogQuery(request.nextUrl.searchParams);
+    const { chainId, creator, category, preset } = query;
+
+    const assetIdFilter = await resolveAssetIdFilter(prisma, { chainId, category, preset });
+    const where: Prisma.IndexedAssetWhereInput = {
+      chainId,
+      ...(creator && { creator }),
+      ...(assetIdFilter && { assetId: assetIdFilter }),
+    };
+    const newest: Prisma.IndexedAssetOrderByWithRelationInput[] = [
+      { registeredAt: query.order },
+      { id: query.order },
+    ];
+
+    let assets: IndexedAsset[];
+    let total: number;
+    if (query.sort === "newest") {
+      [assets, total] = await Promise.all([
+        prisma.indexedAsset.findMany({ where, orderBy: newest, ...pageArgs(query) }),
+        prisma.indexedAsset.count({ where }),
+      ]);
+    } else {
+      const ids = await prisma.indexedAsset.findMany({ where, select: { assetId: true }, orderBy: newest });
+      const amounts = await prisma.indexedLicenseOffer.findMany({
+        where: { chainId, assetId: { in: ids.map((a) => a.assetId) } },
+        select: { assetId: true, price: true, revenue: true, maxSupply: true, sold: true },
+      });
+      const pageIds = pageIdsByAmount(
+        ids.map(({ assetId }) => {
+          const own = amounts.filter((o) => o.assetId === assetId);
+          return { id: assetId, amount: query.sort === "price" ? floorPrice(own) : licenseVolume(own) };
+        }),
+        query
+      );
+      const rows = await prisma.indexedAsset.findMany({ where: { chainId, assetId: { in: pageIds } } });
+      assets = inPageOrder(rows, pageIds, (a) => a.assetId);
+      total = ids.length;
+    }
+
+    const assetIds = assets.map((a) => a.assetId);
+
+    const [offers, pools, metadata] = await Promise.all([
+      prisma.indexedLicenseOffer.findMany({
+        where: { chainId, assetId: { in: assetIds } },
+        orderBy: { offerId: "asc" },
+      }),
+      prisma.indexedPool.findMany({ where: { chainId, assetId: { in: assetIds } } }),
+      loadAssetMetadata(prisma, assetIds),
+    ]);
+    const tokens = await loadTokenMetadata(prisma, pools.map((p) => p.poolId));
+
+    const data = assets.map((asset) => {
+      const assetOffers = offers.filter((o) => o.assetId === asset.assetId).map(toOfferSummary);
+      const pool = pools.find((p) => p.assetId === asset.assetId);
+
+      return {
+        assetId: asset.assetId,
+        chainId: asset.chainId,
+        creator: asset.creator,
+        nftContract: asset.nftContract,
+        tokenId: asset.tokenId,
+        metadataURI: asset.metadataURI,
+        royaltyBPS: asset.royaltyBPS,
+        registeredAt: asset.registeredAt,
+        txHash: asset.txHash,
+        metadata: toAssetMetadata(metadata.get(asset.assetId)),
+        offers: assetOffers,
+        floorPrice: floorPrice(assetOffers),
+        licenseVolume: licenseVolume(assetOffers),
+        pool: pool
+          ? {
+              poolId: pool.poolId,
+              ftAddress: pool.ftAddress,
+              salePricePerToken: pool.salePricePerToken,
+              active: !pool.recombined,
+              token: toTokenMetadata(tokens.get(pool.ftAddress)),
+            }
+          : null,
+      };
+    });
+
+    return NextResponse.json({ success: true, data, pagination: toPagination(query, total) });
+  } catch (error) {
+    console.error("Error fetching assets:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch assets", details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@prisma/client";
+import { Address, isAddress } from "viem";
+import { getDividendHistory, toDividendCsv } from "@/lib/dividends";
+
+const prisma = new PrismaClient();
+
+/**
+ * GET /api/dividends/history?chainId=31337&holder=0x...&poolIds=1,2&format=json|csv
+ * Deposit/claim timeline, realised vs unclaimed totals and annualised yield per pool.
+ * format=csv downloads the wallet's events for tax reporting.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const holder = searchParams.get("holder");
+    const chainId = parseInt(searchParams.get("chainId") || "31337", 10);
+    const poolIdsParam = searchParams.get("poolIds");
+
+    if (!holder || !isAddress(holder)) {
+      return NextResponse.json({ error: "Valid holder address is required" }, { status: 400 });
+    }
+    const poolIds = poolIdsParam
+      ? poolIdsParam.split(",").map((id) => parseInt(id, 10)).filter((id) => !isNaN(id))
+      : undefined;
+
+    const history = await getDividendHistory(prisma, { chainId, holder: holder as Address, poolIds });
+
+    if (searchParams.get("format") === "csv") {
+      return new NextResponse(toDividendCsv(history), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="dividends-${history.holder}-${chainId}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ success: true, data: history });
+  } catch (error) {
+    console.error("Error fetching dividend history:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch dividend history", details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
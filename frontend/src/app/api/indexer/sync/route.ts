@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@prisma/client";
+import { IndexerError, syncChainEvents } from "@/lib/chainIndexer";
+import { isCronAuthorized } from "@/lib/cron";
+
+const prisma = new PrismaClient();
+
+const DEFAULT_CHAIN_ID = 31337;
+
+/**
+ * GET /api/indexer/sync?chainId=31337
+ * Indexer cursor and stored event count for a chain
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const chainId = parseInt(request.nextUrl.searchParams.get("chainId") || String(DEFAULT_CHAIN_ID), 10);
+
+    const [cursor, eventCount] = await Promise.all([
+      prisma.indexerCursor.findUnique({ where: { chainId } }),
+      prisma.chainEvent.count({ where: { chainId } }),
+    ]);
+
+    return NextResponse.json({ success: true, chainId, cursor, eventCount });
+  } catch (error) {
+    console.error("Error fetching indexer status:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch indexer status", details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/indexer/sync
+ * Index the next block range into ChainEvent + projections.
+ * Body (all optional): { chainId, fromBlock, maxBlocks } - `fromBlock` forces a backfill.
+ * Intended for `scripts/index-events.mjs`, which repeats until `caughtUp`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!isCronAuthorized(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const chainId = body.chainId !== undefined ? Number(body.chainId) : DEFAULT_CHAIN_ID;
+    const fromBlock = body.fromBlock !== undefined ? Number(body.fromBlock) : undefined;
+    const maxBlocks = body.maxBlocks !== undefined ? Number(body.maxBlocks) : undefined;
+
+    if (
+      !Number.isInteger(chainId) ||
+      (fromBlock !== undefined && (!Number.isInteger(fromBlock) || fromBlock < 0)) ||
+      (maxBlocks !== undefined && (!Number.isInteger(maxBlocks) || maxBlocks <= 0))
+    ) {
+      return NextResponse.json(
+        { error: "Invalid chainId, fromBlock or maxBlocks" },
+        { status: 400 }
+      );
+    }
+
+    const result = await syncChainEvents(prisma, { chainId, fromBlock, maxBlocks });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof IndexerError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    console.error("Error syncing chain events:", error);
+    return NextResponse.json(
+      { error: "Failed to sync chain events", details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -7,6 +7,33 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: "PINATA_JWT not set" }, { status: 500 });
   }
 
+  // JSON documents (e.g. custom license terms) are pinned as-is
+  if (req.headers.get("content-type")?.includes("application/json")) {
+    const { name, content } = await req.json();
+    if (!content || typeof content !== "object") {
+      return NextResponse.json({ error: "content required" }, { status: 400 });
+    }
+
+    try {
+      const res = await fetch("https://api.pinata.cloud/pinning/pinJSONToIPFS", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${process.env.PINATA_JWT}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ pinataContent: content, pinataMetadata: { name: name || "document" } }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        return NextResponse.json({ error: json }, { status: 500 });
+      }
+      return NextResponse.json({ uri: `ipfs://${json.IpfsHash}`, cid: json.IpfsHash });
+    } catch (err) {
+      console.error("IPFS JSON upload error", err);
+      return NextResponse.json({ error: "upload failed" }, { status: 500 });
+    }
+  }
+
   const form = await req.formData();
   const file = form.get("file") as File | null;
   const name = (form.get("name") as string | null) ?? "Asset";
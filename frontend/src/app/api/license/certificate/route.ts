@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@prisma/client";
+import {
+  LicenseCertificateError,
+  findCertificateLicense,
+  issueLicenseCertificate,
+  renderCertificateHtml,
+} from "@/lib/licenseCertificate";
+
+/**
+ * GET /api/license/certificate?licenseId=...&format=json|html
+ * GET /api/license/certificate?chainId=31337&tokenId=...
+ * Signed certificate for a valid, on-chain verified license. `json` is the
+ * machine-verifiable document, `html` a printable rendition with the JSON embedded.
+ */
+export async function GET(req: NextRequest) {
+  let prisma: PrismaClient | null = null;
+
+  try {
+    prisma = new PrismaClient();
+
+    const searchParams = req.nextUrl.searchParams;
+    const licenseId = searchParams.get("licenseId");
+    const tokenId = searchParams.get("tokenId");
+    const chainId = parseInt(searchParams.get("chainId") || "31337", 10);
+    const format = searchParams.get("format") === "html" ? "html" : "json";
+
+    if (!licenseId && !tokenId) {
+      return NextResponse.json({ error: "Missing licenseId or tokenId" }, { status: 400 });
+    }
+
+    const license = await findCertificateLicense(prisma, { licenseId, chainId, tokenId });
+    const signed = await issueLicenseCertificate(prisma, license);
+
+    if (format === "html") {
+      return new NextResponse(renderCertificateHtml(signed), {
+        headers: { "Content-Type": "text/html; charset=utf-8" },
+      });
+    }
+
+    return NextResponse.json(signed, {
+      headers: { "Content-Disposition": `attachment; filename="license-${license.id}.json"` },
+    });
+  } catch (error) {
+    if (error instanceof LicenseCertificateError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    console.error("Error issuing license certificate:", error);
+    return NextResponse.json(
+      { error: "Failed to issue license certificate", details: (error as Error).message },
+      { status: 500 }
+    );
+  } finally {
+    if (prisma) {
+      await prisma.$disconnect().catch(() => {});
+    }
+  }
+}
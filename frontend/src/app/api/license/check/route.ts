@@ -1,8 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { PrismaClient } from "@prisma/client";
+import { findValidLicense, getLicenseValidity } from "@/lib/licenseLifecycle";
+
+/**
+ * GET /api/license/check?assetId=1&buyerAddress=0x...
+ * Only licenses that are ACTIVE, not past expiresAt and verified on-chain
+ * (syncStatus VERIFIED or RECOVERED) count; remainingSeconds
+ * is null for a perpetual license.
+ */
 
 export async function GET(req: NextRequest) {
-  let prisma: any = null;
+  let prisma: PrismaClient | null = null;
 
   try {
     prisma = new PrismaClient();
@@ -18,20 +26,15 @@ export async function GET(req: NextRequest) {
       );
     }
 
-    const buyer = buyerAddress.toLowerCase();
-
-    // Check if license exists
-    const license = await prisma.license.findFirst({
-      where: {
-        assetId: parseInt(assetId),
-        buyer,
-      },
-      orderBy: { createdAt: "desc" },
-    });
+    const now = new Date();
+    const license = await findValidLicense(prisma, { assetId: parseInt(assetId), buyer: buyerAddress }, now);
+    const validity = license ? getLicenseValidity(license, now) : null;
 
     return NextResponse.json({
       hasLicense: !!license,
       license: license || null,
+      expiresAt: license?.expiresAt ?? null,
+      remainingSeconds: validity ? validity.remainingSeconds : 0,
     });
   } catch (error) {
     console.error("License check error:", error);
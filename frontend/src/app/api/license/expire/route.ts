@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@prisma/client";
+import { isCronAuthorized } from "@/lib/cron";
+import { expireLicenses } from "@/lib/licenseLifecycle";
+
+const prisma = new PrismaClient();
+
+/**
+ * GET|POST /api/license/expire
+ * Move ACTIVE licenses past their expiresAt to EXPIRED. Intended for a
+ * scheduler (`scripts/expire-orders.mjs --job license-expiry`).
+ */
+async function handleExpire(request: NextRequest) {
+  try {
+    if (!isCronAuthorized(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const expiredCount = await expireLicenses(prisma);
+
+    return NextResponse.json({ success: true, expiredCount });
+  } catch (error) {
+    console.error("Error expiring licenses:", error);
+    return NextResponse.json(
+      { error: "Failed to expire licenses", details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = handleExpire;
+export const POST = handleExpire;
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@prisma/client";
+import { isAddress } from "viem";
+import { LICENSE_USE_CASES, parseUseCase } from "@/lib/licenseTerms";
+import { resolveLicensePermissions } from "@/lib/licensePermissions";
+
+/**
+ * GET /api/license/permissions?assetId=1&address=0x...&useCase=in-game&revenue=<wei>&chainId=31337&source=mirror|chain
+ * Whether the address holds a currently valid license for the asset that permits
+ * the use case (commercial | in-game | marketing | modification, or 0-3) and,
+ * when revenue is given, keeps it under the preset revenue cap (EDU_INDIE).
+ * Meant for build pipelines: `permitted` is the single gate, `licenses` the detail.
+ */
+export async function GET(req: NextRequest) {
+  let prisma: PrismaClient | null = null;
+
+  try {
+    prisma = new PrismaClient();
+
+    const searchParams = req.nextUrl.searchParams;
+    const assetId = searchParams.get("assetId");
+    const address = searchParams.get("address");
+    const useCaseParam = searchParams.get("useCase");
+    const revenueParam = searchParams.get("revenue");
+    const chainId = parseInt(searchParams.get("chainId") || "31337", 10);
+    const source = searchParams.get("source") === "chain" ? "chain" : "mirror";
+
+    if (!assetId || !address) {
+      return NextResponse.json({ error: "Missing assetId or address" }, { status: 400 });
+    }
+    if (!isAddress(address)) {
+      return NextResponse.json({ error: "Invalid address" }, { status: 400 });
+    }
+
+    const useCase = useCaseParam ? parseUseCase(useCaseParam) : undefined;
+    if (useCase === null) {
+      return NextResponse.json(
+        { error: `Invalid useCase, expected one of ${LICENSE_USE_CASES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if (revenueParam !== null && !/^\d+$/.test(revenueParam)) {
+      return NextResponse.json({ error: "revenue must be a non-negative integer (wei)" }, { status: 400 });
+    }
+
+    const result = await resolveLicensePermissions(prisma, {
+      chainId,
+      assetId: parseInt(assetId, 10),
+      address,
+      useCase,
+      revenue: revenueParam !== null ? BigInt(revenueParam) : undefined,
+      source,
+    });
+
+    return NextResponse.json({
+      success: true,
+      assetId: parseInt(assetId, 10),
+      address: address.toLowerCase(),
+      useCase: useCase ?? null,
+      revenue: revenueParam,
+      source,
+      ...result,
+    });
+  } catch (error) {
+    console.error("Error resolving license permissions:", error);
+    return NextResponse.json(
+      { error: "Failed to resolve license permissions", details: (error as Error).message },
+      { status: 500 }
+    );
+  } finally {
+    if (prisma) {
+      await prisma.$disconnect().catch(() => {});
+    }
+  }
+}
@@ -1,59 +1,57 @@
 import { NextRequest, NextResponse } from "next/server";
 import { PrismaClient } from "@prisma/client";
+import { Hex, isHash } from "viem";
+import { LicenseVerificationError, recordVerifiedLicense, verifyLicensePurchase } from "@/lib/licenseSync";
 
+/**
+ * POST /api/license/purchase
+ * Record a license bought via LicenseManager.buyLicense.
+ * Body: { txHash, buyerAddress, chainId, offerId? } - asset, type, price and
+ * licenseTokenId are taken from the LicensePurchased event in the receipt.
+ */
 export async function POST(req: NextRequest) {
   let prisma: any = null;
 
   try {
     prisma = new PrismaClient();
-    const { assetId, buyerAddress, priceInEth, licenseType, ltype, txHash, uri } = await req.json();
+    const { buyerAddress, txHash, chainId, offerId } = await req.json();
 
-    if (!assetId || !buyerAddress || !priceInEth) {
+    if (!buyerAddress || !txHash || !chainId) {
       return NextResponse.json(
-        { error: "Missing assetId, buyerAddress, or priceInEth" },
+        { error: "Missing txHash, buyerAddress, or chainId" },
         { status: 400 }
       );
     }
-
-    const normalizedBuyer = buyerAddress.toLowerCase();
-    const numericType = typeof ltype === "number" ? ltype : typeof licenseType === "number" ? licenseType : undefined;
-    const typeName =
-      numericType === 1 ? "EXCLUSIVE" : numericType === 2 ? "DERIVATIVE" : (licenseType as string) || "NON_EXCLUSIVE";
-
-    // Exclusive: only one per user per asset
-    if (typeName === "EXCLUSIVE" || numericType === 1) {
-      const existing = await prisma.license.findFirst({
-        where: { assetId: parseInt(assetId), buyer: normalizedBuyer },
-      });
-      if (existing) {
-        return NextResponse.json(
-          { error: "Exclusive license already owned by this address" },
-          { status: 409 }
-        );
-      }
+    if (!isHash(txHash)) {
+      return NextResponse.json({ error: "Invalid txHash" }, { status: 400 });
     }
 
-    // Convert price to wei (assuming priceInEth is a string decimal like "0.1")
-    const priceInWei = (parseFloat(priceInEth) * 1e18).toString();
+    const purchases = await verifyLicensePurchase(
+      Number(chainId),
+      txHash as Hex,
+      buyerAddress,
+      offerId !== undefined && offerId !== null ? Number(offerId) : undefined
+    );
 
-    const license = await prisma.license.create({
-      data: {
-        assetId: parseInt(assetId),
-        buyer: normalizedBuyer,
-        price: priceInWei,
-        status: "ACTIVE",
-        licenseType: typeName.toUpperCase(),
-        txHash,
-        uri,
-      },
-    });
+    const licenses = [];
+    for (const purchase of purchases) {
+      licenses.push(await recordVerifiedLicense(prisma, purchase));
+    }
 
     return NextResponse.json({
       success: true,
-      license,
-      message: `License purchased for asset #${assetId}`,
+      license: licenses[0],
+      licenses,
+      message: `License purchased for asset #${licenses[0].assetId}`,
     });
   } catch (error) {
+    if (error instanceof LicenseVerificationError) {
+      return NextResponse.json(
+        { error: error.message, success: false },
+        { status: error.statusCode }
+      );
+    }
+
     console.error("License purchase error:", error);
     return NextResponse.json(
       {
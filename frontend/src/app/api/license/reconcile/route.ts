@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@prisma/client";
+import { isCronAuthorized } from "@/lib/cron";
+import { reconcileLicenses } from "@/lib/licenseSync";
+
+const prisma = new PrismaClient();
+
+/**
+ * GET|POST /api/license/reconcile?chainId=31337
+ * Recreate License rows for indexed LicensePurchased events and flag rows
+ * without an on-chain purchase as ORPHANED. Intended for a scheduler
+ * (`scripts/expire-orders.mjs --job licenses`).
+ */
+async function handleReconcile(request: NextRequest) {
+  try {
+    if (!isCronAuthorized(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const chainId = parseInt(request.nextUrl.searchParams.get("chainId") || "31337", 10);
+    const result = await reconcileLicenses(prisma, chainId);
+
+    return NextResponse.json({
+      success: true,
+      recoveredCount: result.recovered.length,
+      verifiedCount: result.verified.length,
+      orphanedCount: result.orphaned.length,
+      ...result,
+    });
+  } catch (error) {
+    console.error("Error reconciling licenses:", error);
+    return NextResponse.json(
+      { error: "Failed to reconcile licenses", details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = handleReconcile;
+export const POST = handleReconcile;
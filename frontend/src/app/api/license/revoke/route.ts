@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@prisma/client";
+import { Address, Hex, isAddress } from "viem";
+import { LicenseRevocationError, revokeLicense } from "@/lib/licenseLifecycle";
+
+/**
+ * POST /api/license/revoke
+ * Creator-initiated revocation.
+ * Body: { licenseId, creatorAddress, reason, signature } - signature is a
+ * personal_sign of buildRevocationMessage(licenseId, reason).
+ */
+export async function POST(req: NextRequest) {
+  let prisma: PrismaClient | null = null;
+
+  try {
+    prisma = new PrismaClient();
+    const { licenseId, creatorAddress, reason, signature } = await req.json();
+
+    if (!licenseId || !creatorAddress || !reason || !signature) {
+      return NextResponse.json(
+        { error: "Missing licenseId, creatorAddress, reason, or signature" },
+        { status: 400 }
+      );
+    }
+    if (!isAddress(creatorAddress)) {
+      return NextResponse.json({ error: "Invalid creatorAddress" }, { status: 400 });
+    }
+
+    const license = await revokeLicense(prisma, {
+      licenseId: String(licenseId),
+      creatorAddress: creatorAddress as Address,
+      reason: String(reason),
+      signature: signature as Hex,
+    });
+
+    return NextResponse.json({
+      success: true,
+      license,
+      message: `License ${license.id} revoked`,
+    });
+  } catch (error) {
+    if (error instanceof LicenseRevocationError) {
+      return NextResponse.json(
+        { error: error.message, success: false },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("License revoke error:", error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to revoke license",
+        success: false
+      },
+      { status: 500 }
+    );
+  } finally {
+    if (prisma) {
+      await prisma.$disconnect().catch(() => {});
+    }
+  }
+}
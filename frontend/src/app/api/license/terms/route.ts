@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@prisma/client";
+import { Hex, isHash } from "viem";
+import {
+  LicenseTermsError,
+  syncCustomTerms,
+  syncCustomTermsFromTx,
+  toLicenseTerms,
+} from "@/lib/customLicenseTerms";
+
+/**
+ * GET /api/license/terms?chainId=31337&offerIds=1,2,3
+ * Stored custom terms of CUSTOM-preset offers, keyed by offerId.
+ */
+export async function GET(req: NextRequest) {
+  let prisma: PrismaClient | null = null;
+
+  try {
+    prisma = new PrismaClient();
+
+    const searchParams = req.nextUrl.searchParams;
+    const chainId = parseInt(searchParams.get("chainId") || "31337", 10);
+    const offerIds = (searchParams.get("offerIds") || "")
+      .split(",")
+      .map((id) => parseInt(id, 10))
+      .filter((id) => !isNaN(id));
+
+    if (offerIds.length === 0) {
+      return NextResponse.json({ error: "Missing offerIds" }, { status: 400 });
+    }
+
+    const rows = await prisma.customLicenseTerms.findMany({
+      where: { chainId, offerId: { in: offerIds } },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: Object.fromEntries(
+        rows.map((row) => [
+          row.offerId,
+          {
+            offerId: row.offerId,
+            creator: row.creator,
+            termsCid: row.termsCid,
+            legalText: row.legalText,
+            terms: toLicenseTerms(row),
+          },
+        ])
+      ),
+    });
+  } catch (error) {
+    console.error("Error fetching custom license terms:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch custom license terms", details: (error as Error).message },
+      { status: 500 }
+    );
+  } finally {
+    if (prisma) {
+      await prisma.$disconnect().catch(() => {});
+    }
+  }
+}
+
+/**
+ * POST /api/license/terms
+ * Body: { chainId, txHash } (the createOffer tx) or { chainId, offerId }.
+ * Reads the offer on-chain and stores the terms document its uri points to.
+ */
+export async function POST(req: NextRequest) {
+  let prisma: PrismaClient | null = null;
+
+  try {
+    prisma = new PrismaClient();
+    const { chainId, txHash, offerId } = await req.json();
+
+    if (!chainId || (!txHash && (offerId === undefined || offerId === null))) {
+      return NextResponse.json({ error: "Missing chainId and txHash or offerId" }, { status: 400 });
+    }
+    if (txHash && !isHash(txHash)) {
+      return NextResponse.json({ error: "Invalid txHash" }, { status: 400 });
+    }
+
+    const rows = txHash
+      ? await syncCustomTermsFromTx(prisma, Number(chainId), txHash as Hex)
+      : [await syncCustomTerms(prisma, Number(chainId), Number(offerId))];
+
+    return NextResponse.json({
+      success: true,
+      data: rows.map((row) => ({ offerId: row.offerId, termsCid: row.termsCid, terms: toLicenseTerms(row) })),
+    });
+  } catch (error) {
+    if (error instanceof LicenseTermsError) {
+      return NextResponse.json({ error: error.message, success: false }, { status: error.statusCode });
+    }
+
+    console.error("Error storing custom license terms:", error);
+    return NextResponse.json(
+      { error: "Failed to store custom license terms", details: (error as Error).message },
+      { status: 500 }
+    );
+  } finally {
+    if (prisma) {
+      await prisma.$disconnect().catch(() => {});
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@prisma/client";
+import { LicenseCertificateError, verifyLicenseCertificate } from "@/lib/licenseCertificate";
+
+/**
+ * POST /api/license/verify?offline=1
+ * Body: a certificate from /api/license/certificate ({ certificate, signer, signature }).
+ * The platform signature and expiry are always checked; the purchase tx,
+ * LicenseNFT owner and revocation status are added when chain/DB are reachable.
+ */
+export async function POST(req: NextRequest) {
+  let prisma: PrismaClient | null = null;
+
+  try {
+    prisma = new PrismaClient();
+    const signed = await req.json();
+    const offline = req.nextUrl.searchParams.get("offline") === "1";
+
+    const result = await verifyLicenseCertificate(prisma, signed, { offline });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof LicenseCertificateError) {
+      return NextResponse.json({ error: error.message, success: false }, { status: error.statusCode });
+    }
+
+    console.error("Error verifying license certificate:", error);
+    return NextResponse.json(
+      { error: "Failed to verify license certificate", details: (error as Error).message, success: false },
+      { status: 500 }
+    );
+  } finally {
+    if (prisma) {
+      await prisma.$disconnect().catch(() => {});
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { IndexedLicenseOffer, Prisma, PrismaClient } from "@prisma/client";
+import {
+  inPageOrder,
+  isOfferActive,
+  loadAssetMetadata,
+  pageArgs,
+  pageIdsByAmount,
+  parseCatalogQuery,
+  resolveAssetIdFilter,
+  toAssetMetadata,
+  toOfferSummary,
+  toPagination,
+} from "@/lib/catalog";
+
+const prisma = new PrismaClient();
+
+/**
+ * GET /api/offers?chainId=31337&limit=20&offset=0&sort=newest|price|volume&order=asc|desc
+ *   &creator=0x..&category=3d|image|audio|other&preset=0|1|2&assetId=1&active=true
+ * License offers from the chain indexer, joined with the asset they license.
+ * price = offer price, volume = license revenue.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const query = parseCatalogQuery(searchParams);
+    const { chainId, creator, category, preset } = query;
+    const assetId = searchParams.get("assetId");
+    const active = searchParams.get("active");
+
+    // preset is a column of the offer itself here, creator/category belong to its asset
+    const assetIdFilter = await resolveAssetIdFilter(prisma, { chainId, creator, category });
+    const where: Prisma.IndexedLicenseOfferWhereInput = {
+      chainId,
+      ...(preset !== undefined && { preset }),
+      ...((assetId || assetIdFilter) && {
+        assetId: { ...assetIdFilter, ...(assetId && { equals: parseInt(assetId, 10) }) },
+      }),
+    };
+    if (active !== null) {
+      // Derived from supply (maxSupply is a string), so resolved to ids first
+      const supply = await prisma.indexedLicenseOffer.findMany({
+        where,
+        select: { id: true, maxSupply: true, sold: true },
+      });
+      where.id = { in: supply.filter((o) => isOfferActive(o) === (active === "true")).map((o) => o.id) };
+    }
+    const newest: Prisma.IndexedLicenseOfferOrderByWithRelationInput[] = [
+      { createdAt: query.order },
+      { id: query.order },
+    ];
+
+    let offers: IndexedLicenseOffer[];
+    let total: number;
+    if (query.sort === "newest") {
+      [offers, total] = await Promise.all([
+        prisma.indexedLicenseOffer.findMany({ where, orderBy: newest, ...pageArgs(query) }),
+        prisma.indexedLicenseOffer.count({ where }),
+      ]);
+    } else {
+      const ids = await prisma.indexedLicenseOffer.findMany({
+        where,
+        select: { id: true, price: true, revenue: true },
+        orderBy: newest,
+      });
+      const pageIds = pageIdsByAmount(
+        ids.map((o) => ({ id: o.id, amount: query.sort === "price" ? o.price : o.revenue })),
+        query
+      );
+      const rows = await prisma.indexedLicenseOffer.findMany({ where: { id: { in: pageIds } } });
+      offers = inPageOrder(rows, pageIds, (o) => o.id);
+      total = ids.length;
+    }
+
+    const assetIds = [...new Set(offers.map((o) => o.assetId))];
+
+    const [assets, metadata] = await Promise.all([
+      prisma.indexedAsset.findMany({ where: { chainId, assetId: { in: assetIds } } }),
+      loadAssetMetadata(prisma, assetIds),
+    ]);
+    const assetsById = new Map(assets.map((a) => [a.assetId, a]));
+
+    const data = offers.map((offer) => {
+      const asset = assetsById.get(offer.assetId);
+      return {
+        ...toOfferSummary(offer),
+        chainId: offer.chainId,
+        creator: asset?.creator ?? null,
+        metadataURI: asset?.metadataURI ?? null,
+        metadata: toAssetMetadata(metadata.get(offer.assetId)),
+      };
+    });
+
+    return NextResponse.json({ success: true, data, pagination: toPagination(query, total) });
+  } catch (error) {
+    console.error("Error fetching offers:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch offers", details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
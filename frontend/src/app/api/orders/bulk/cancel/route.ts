@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@prisma/client";
+import { ApiKeyError, authenticateApiKey, consumeRateLimit, rateLimitHeaders } from "@/lib/apiKeys";
+import { MAX_BULK_ORDERS, bulkCancelOrders } from "@/lib/bulkOrders";
+
+const prisma = new PrismaClient();
+
+/**
+ * POST /api/orders/bulk/cancel
+ * Cancel orders of the key wallet by Order row id (same id as /api/orders/cancel).
+ * Auth: API key with orders:cancel; costs one rate limit unit per order.
+ * Body: { orderIds: [...] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const key = await authenticateApiKey(prisma, request, ["orders:cancel"]);
+    const { orderIds } = await request.json();
+
+    if (!Array.isArray(orderIds) || orderIds.length === 0 || orderIds.length > MAX_BULK_ORDERS) {
+      return NextResponse.json(
+        { error: `orderIds must be an array of 1-${MAX_BULK_ORDERS} order ids` },
+        { status: 400 }
+      );
+    }
+
+    const rateLimit = consumeRateLimit(key, orderIds.length);
+    const results = await bulkCancelOrders(prisma, key, orderIds);
+    const failed = results.filter((r) => !r.success).length;
+
+    return NextResponse.json(
+      { success: failed === 0, succeeded: results.length - failed, failed, results },
+      { headers: rateLimitHeaders(rateLimit) }
+    );
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode, headers: error.rateLimit && rateLimitHeaders(error.rateLimit, true) }
+      );
+    }
+
+    console.error("Error in bulk cancel:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel orders", details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
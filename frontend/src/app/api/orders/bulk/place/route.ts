@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@prisma/client";
+import { ApiKeyError, authenticateApiKey, consumeRateLimit, rateLimitHeaders } from "@/lib/apiKeys";
+import { MAX_BULK_ORDERS, bulkPlaceOrders } from "@/lib/bulkOrders";
+
+const prisma = new PrismaClient();
+
+/**
+ * POST /api/orders/bulk/place
+ * Place up to MAX_BULK_ORDERS signed orders (same body as /api/orders/create each).
+ * Auth: API key with orders:place; costs one rate limit unit per order.
+ * Body: { orders: [...] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const key = await authenticateApiKey(prisma, request, ["orders:place"]);
+    const { orders } = await request.json();
+
+    if (!Array.isArray(orders) || orders.length === 0 || orders.length > MAX_BULK_ORDERS) {
+      return NextResponse.json(
+        { error: `orders must be an array of 1-${MAX_BULK_ORDERS} orders` },
+        { status: 400 }
+      );
+    }
+
+    const rateLimit = consumeRateLimit(key, orders.length);
+    const results = await bulkPlaceOrders(prisma, key, orders);
+    const failed = results.filter((r) => !r.success).length;
+
+    return NextResponse.json(
+      { success: failed === 0, succeeded: results.length - failed, failed, results },
+      { headers: rateLimitHeaders(rateLimit) }
+    );
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode, headers: error.rateLimit && rateLimitHeaders(error.rateLimit, true) }
+      );
+    }
+
+    console.error("Error in bulk place:", error);
+    return NextResponse.json(
+      { error: "Failed to place orders", details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@prisma/client";
+import { ApiKeyError, authenticateApiKey, consumeRateLimit, rateLimitHeaders } from "@/lib/apiKeys";
+import { MAX_BULK_ORDERS, bulkReplaceOrders } from "@/lib/bulkOrders";
+
+const prisma = new PrismaClient();
+
+/**
+ * POST /api/orders/bulk/replace
+ * Cancel-then-place per item (not atomic, see bulkReplaceOrders).
+ * Auth: API key with orders:place and orders:cancel; costs two rate limit units per item.
+ * Body: { replacements: [{ cancelOrderId, order }] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const key = await authenticateApiKey(prisma, request, ["orders:place", "orders:cancel"]);
+    const { replacements } = await request.json();
+
+    if (!Array.isArray(replacements) || replacements.length === 0 || replacements.length > MAX_BULK_ORDERS) {
+      return NextResponse.json(
+        { error: `replacements must be an array of 1-${MAX_BULK_ORDERS} items` },
+        { status: 400 }
+      );
+    }
+
+    const rateLimit = consumeRateLimit(key, replacements.length * 2);
+    const results = await bulkReplaceOrders(prisma, key, replacements);
+    const failed = results.filter((r) => !r.success).length;
+
+    return NextResponse.json(
+      { success: failed === 0, succeeded: results.length - failed, failed, results },
+      { headers: rateLimitHeaders(rateLimit) }
+    );
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode, headers: error.rateLimit && rateLimitHeaders(error.rateLimit, true) }
+      );
+    }
+
+    console.error("Error in bulk replace:", error);
+    return NextResponse.json(
+      { error: "Failed to replace orders", details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
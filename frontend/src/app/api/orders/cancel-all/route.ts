@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@prisma/client";
+import { Address, Hex } from "viem";
+import { OrderCancellationError, cancelOrdersBelowNonce } from "@/lib/orderCancellation";
+
+const prisma = new PrismaClient();
+
+/**
+ * POST /api/orders/cancel-all
+ * Cancel every live order of a wallet with nonce < minNonce, optionally only in one pool.
+ * Body: { chainId, userAddress, minNonce, poolId?, signature, submitOnChain? } - signature is an
+ * EIP-712 CancelAllBelowNonce (or CancelPoolOrders with poolId) in the order book domain.
+ * Sign with minNonce = GET /api/orders/nonce to cancel everything signed so far.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { chainId, userAddress, minNonce, poolId, signature, submitOnChain } = await request.json();
+
+    if (!chainId || !userAddress || minNonce === undefined || minNonce === null || !signature) {
+      return NextResponse.json(
+        { error: "Missing chainId, userAddress, minNonce or signature" },
+        { status: 400 }
+      );
+    }
+
+    const result = await cancelOrdersBelowNonce(prisma, {
+      chainId: Number(chainId),
+      userAddress: userAddress as Address,
+      minNonce: Number(minNonce),
+      poolId: poolId === undefined || poolId === null || poolId === "" ? undefined : String(poolId),
+      signature: signature as Hex,
+      submitOnChain: Boolean(submitOnChain),
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `Cancelled ${result.cancelledOrders.length} order(s)`,
+    });
+  } catch (error) {
+    if (error instanceof OrderCancellationError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    console.error("Error cancelling orders:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel orders", details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
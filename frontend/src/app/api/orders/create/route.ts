@@ -1,103 +1,31 @@
 import { NextRequest, NextResponse } from "next/server";
 import { PrismaClient } from "@prisma/client";
-import { validateOrder } from "@/lib/orders";
-import { v4 as uuidv4 } from "uuid";
+import { OrderRequestError, placeOrder } from "@/lib/orderPlacement";
 
 const prisma = new PrismaClient();
 
 /**
  * POST /api/orders/create
- * Create new buy or sell order
+ * Create new buy or sell order from an EIP-712 signed payload
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
+    const { order, matches } = await placeOrder(prisma, body);
 
-    const {
-      userAddress,
-      side, // "BUY" or "SELL"
-      poolId,
-      ftAddress,
-      amount,
-      pricePerToken,
-      chainId,
-      signature,
-      nonce,
-      expiresAt,
-    } = body;
-
-    // Validate required fields
-    if (!userAddress || !side || !poolId || !ftAddress || !amount || !pricePerToken) {
-      return NextResponse.json(
-        { error: "Missing required fields" },
-        { status: 400 }
-      );
-    }
-
-    if (!["BUY", "SELL"].includes(side)) {
-      return NextResponse.json(
-        { error: "Invalid order side. Must be BUY or SELL" },
-        { status: 400 }
-      );
-    }
-
-    // Validate amounts
-    try {
-      BigInt(amount);
-      BigInt(pricePerToken);
-    } catch {
-      return NextResponse.json(
-        { error: "Invalid amount or price format" },
-        { status: 400 }
-      );
-    }
-
-    // Check expiration
-    const expiryDate = new Date(expiresAt);
-    if (expiryDate <= new Date()) {
+    // IOC/FOK orders never rest: they were matched immediately
+    if (matches) {
       return NextResponse.json(
-        { error: "Order already expired" },
-        { status: 400 }
+        {
+          success: true,
+          order,
+          matchesCreated: matches.length,
+          matches,
+        },
+        { status: 201 }
       );
     }
 
-    // Create order
-    const orderId = uuidv4();
-    const totalValue = (BigInt(amount) * BigInt(pricePerToken)) / BigInt(1e18);
-
-    const order = await prisma.order.create({
-      data: {
-        orderId,
-        userAddress: userAddress.toLowerCase(),
-        side,
-        poolId,
-        ftAddress: ftAddress.toLowerCase(),
-        amount,
-        pricePerToken,
-        totalValue: totalValue.toString(),
-        chainId,
-        signature,
-        nonce: nonce || 0,
-        expiresAt: expiryDate,
-        status: "OPEN",
-        filledAmount: "0",
-      },
-    });
-
-    // Log order creation
-    await prisma.orderHistory.create({
-      data: {
-        orderId,
-        action: "CREATED",
-        amount,
-        details: JSON.stringify({
-          side,
-          price: pricePerToken,
-          userAddress: userAddress.toLowerCase(),
-        }),
-      },
-    });
-
     return NextResponse.json(
       {
         success: true,
@@ -106,6 +34,13 @@ export async function POST(request: NextRequest) {
       { status: 201 }
     );
   } catch (error) {
+    if (error instanceof OrderRequestError) {
+      return NextResponse.json(
+        { error: error.message, ...(error.details !== undefined && { details: error.details }) },
+        { status: error.statusCode }
+      );
+    }
+
     console.error("Error creating order:", error);
     return NextResponse.json(
       { error: "Failed to create order", details: (error as Error).message },
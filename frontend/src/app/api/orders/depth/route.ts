@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@prisma/client";
+import { DEFAULT_DEPTH_LEVELS, MAX_DEPTH_LEVELS, getOrderDepth } from "@/lib/orderDepth";
+
+const prisma = new PrismaClient();
+
+/**
+ * GET /api/orders/depth?poolId=1&levels=20&tick=1000000000000000
+ * L2 depth per side: remaining quantity, order count and cumulative depth per price level,
+ * plus best bid/ask, spread and mid-price. tick is in wei (default 1 = exact prices).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const poolId = searchParams.get("poolId");
+    const levels = parseInt(searchParams.get("levels") || String(DEFAULT_DEPTH_LEVELS), 10);
+    const tickParam = searchParams.get("tick") || "1";
+
+    if (!poolId) {
+      return NextResponse.json({ error: "poolId parameter is required" }, { status: 400 });
+    }
+    if (isNaN(levels) || levels < 1 || levels > MAX_DEPTH_LEVELS) {
+      return NextResponse.json({ error: `levels must be between 1 and ${MAX_DEPTH_LEVELS}` }, { status: 400 });
+    }
+    if (!/^\d+$/.test(tickParam) || BigInt(tickParam) === BigInt(0)) {
+      return NextResponse.json({ error: "tick must be a positive wei amount" }, { status: 400 });
+    }
+
+    const depth = await getOrderDepth(prisma, { poolId, levels, tick: BigInt(tickParam) });
+    return NextResponse.json({ success: true, data: depth });
+  } catch (error) {
+    console.error("Error fetching order depth:", error);
+    return NextResponse.json({ error: "Failed to fetch order depth" }, { status: 500 });
+  }
+}
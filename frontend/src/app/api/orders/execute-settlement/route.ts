@@ -3,6 +3,8 @@ import { PrismaClient } from "@prisma/client";
 import { getPublicClient } from "@/lib/viem";
 import { parseUnits, encodeFunctionData } from "viem";
 import OrderBookABI from "@/lib/contracts/OrderBook.json";
+import { MatchTransitionError, transitionMatch } from "@/lib/matchLifecycle";
+import { SettlementError, verifySettlementTx } from "@/lib/settlement";
 
 const prisma = new PrismaClient();
 
@@ -22,23 +24,14 @@ interface ExecuteSettlementRequest {
 /**
  * POST /api/orders/execute-settlement
  * Execute settlement on-chain and record in database
- * Called after OrderBook.executeTrade() is confirmed
+ * Called after OrderBook.executeTrade() is confirmed; the receipt must hold
+ * the OrderMatched log of this match
  */
 export async function POST(request: NextRequest) {
   try {
     const body: ExecuteSettlementRequest = await request.json();
-    const {
-      matchId,
-      buyOrderId,
-      sellOrderId,
-      matchAmount,
-      buyerAddress,
-      sellerAddress,
-      ftAddress,
-      pricePerToken,
-      chainId,
-      txHash,
-    } = body;
+    // Order details are read from the match itself
+    const { matchId, txHash } = body;
 
     if (!matchId || !txHash) {
       return NextResponse.json(
@@ -59,46 +52,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Update match with tx hash and on-chain settlement
-    const settledMatch = await prisma.orderMatch.update({
-      where: { id: matchId },
-      data: {
-        status: "SETTLED",
-        txHash,
-        settledAt: new Date(),
-        updatedAt: new Date(),
-      },
+    const verified = await verifySettlementTx(prisma, matchId, txHash);
+
+    // SETTLED transition: status, history and trade statistics
+    await transitionMatch(prisma, matchId, "SETTLED", {
+      txHash: verified.txHash,
+      details: { type: "on-chain execution", blockNumber: verified.blockNumber },
     });
 
-    // Log on-chain settlement
-    await Promise.all([
-      prisma.orderHistory.create({
-        data: {
-          orderId: buyOrderId,
-          action: "SETTLED_ONCHAIN",
-          amount: matchAmount,
-          details: JSON.stringify({
-            matchId,
-            txHash,
-            type: "on-chain execution",
-            price: pricePerToken,
-          }),
-        },
-      }),
-      prisma.orderHistory.create({
-        data: {
-          orderId: sellOrderId,
-          action: "SETTLED_ONCHAIN",
-          amount: matchAmount,
-          details: JSON.stringify({
-            matchId,
-            txHash,
-            type: "on-chain execution",
-            price: pricePerToken,
-          }),
-        },
-      }),
-    ]);
+    const settledMatch = await prisma.orderMatch.findUnique({ where: { id: matchId } });
 
     return NextResponse.json({
       success: true,
@@ -107,6 +69,10 @@ export async function POST(request: NextRequest) {
       txHash,
     });
   } catch (error) {
+    if (error instanceof MatchTransitionError || error instanceof SettlementError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
     console.error("Error executing settlement:", error);
     return NextResponse.json(
       { error: "Failed to execute settlement", details: (error as Error).message },
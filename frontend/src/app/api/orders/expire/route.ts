@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@prisma/client";
+import { sweepExpiredOrders } from "@/lib/orderExpiry";
+import { isCronAuthorized } from "@/lib/cron";
+
+const prisma = new PrismaClient();
+
+/**
+ * GET|POST /api/orders/expire
+ * Expiry sweeper - mark expired orders EXPIRED and cancel their pending matches.
+ * Intended for a scheduler (cron / `scripts/expire-orders.mjs`).
+ * When CRON_SECRET is set, requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+async function handleSweep(request: NextRequest) {
+  try {
+    if (!isCronAuthorized(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await sweepExpiredOrders(prisma);
+
+    return NextResponse.json({
+      success: true,
+      expiredCount: result.expiredOrders.length,
+      cancelledCount: result.cancelledMatches.length,
+      ...result,
+    });
+  } catch (error) {
+    console.error("Error sweeping expired orders:", error);
+    return NextResponse.json(
+      { error: "Failed to sweep expired orders", details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = handleSweep;
+export const POST = handleSweep;
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { PrismaClient } from "@prisma/client";
+import { parseOrderSide } from "@/lib/orders";
+import { MATCHABLE_ORDER_STATUSES } from "@/lib/orderMatching";
 
 const prisma = new PrismaClient();
 
@@ -11,7 +13,7 @@ export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
 
-    const side = searchParams.get("side"); // BUY, SELL, or null for all
+    const side = parseOrderSide(searchParams.get("side")); // BUY, SELL, or null for all
     const poolId = searchParams.get("poolId");
     const ftAddress = searchParams.get("ftAddress");
     const userAddress = searchParams.get("userAddress");
@@ -55,12 +57,13 @@ export async function GET(request: NextRequest) {
       skip: offset,
     });
 
-    // Calculate market stats
+    // Calculate market stats (live orders only, used to price market orders)
     const allOrders = await prisma.order.findMany({
       where: {
         expiresAt: {
           gt: new Date(),
         },
+        status: { in: MATCHABLE_ORDER_STATUSES },
         ...(poolId && { poolId }),
       },
       select: {
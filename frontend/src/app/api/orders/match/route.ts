@@ -3,9 +3,10 @@ import { PrismaClient } from "@prisma/client";
 import {
   validateOrderMatch,
   calculateGasFee,
-  calculateSettlementPrice,
+  getExecutionPrice,
+  getMakerOrder,
 } from "@/lib/orderMatching";
-import { v4 as uuidv4 } from "uuid";
+import { matchPair, MatchRejectedError } from "@/lib/matchingEngine";
 
 const prisma = new PrismaClient();
 
@@ -17,7 +18,9 @@ interface MatchRequest {
 
 /**
  * POST /api/orders/match
- * Match buy order with sell order and calculate gas fee
+ * Match buy order with sell order and calculate gas fee.
+ * The fill goes through the matching engine (pool queue, guarded filledAmount
+ * update, retry), so concurrent calls cannot over-fill either order.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -32,171 +35,36 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Fetch orders
-    const buyOrder = await prisma.order.findUnique({
-      where: { id: buyOrderId },
-    });
-    const sellOrder = await prisma.order.findUnique({
-      where: { id: sellOrderId },
-    });
-
-    if (!buyOrder || !sellOrder) {
-      return NextResponse.json({ error: "Order not found" }, { status: 404 });
-    }
-
-    // Validate match
-    const validation = validateOrderMatch(
-      {
-        id: buyOrder.id,
-        userAddress: buyOrder.userAddress,
-        side: buyOrder.side,
-        poolId: buyOrder.poolId,
-        ftAddress: buyOrder.ftAddress,
-        amount: buyOrder.amount,
-        filledAmount: buyOrder.filledAmount,
-        pricePerToken: buyOrder.pricePerToken,
-        status: buyOrder.status,
-        expiresAt: buyOrder.expiresAt,
-      },
-      {
-        id: sellOrder.id,
-        userAddress: sellOrder.userAddress,
-        side: sellOrder.side,
-        poolId: sellOrder.poolId,
-        ftAddress: sellOrder.ftAddress,
-        amount: sellOrder.amount,
-        filledAmount: sellOrder.filledAmount,
-        pricePerToken: sellOrder.pricePerToken,
-        status: sellOrder.status,
-        expiresAt: sellOrder.expiresAt,
-      },
-      matchAmount
-    );
-
-    if (!validation.valid) {
-      return NextResponse.json(
-        { error: "Order validation failed", details: validation.errors },
-        { status: 400 }
-      );
+    let amount: bigint;
+    try {
+      amount = BigInt(matchAmount);
+    } catch {
+      return NextResponse.json({ error: "Invalid matchAmount" }, { status: 400 });
     }
 
-    // Calculate settlement price (use sell price for fairer calculation)
-    const settlementPrice = calculateSettlementPrice(
-      buyOrder.pricePerToken,
-      sellOrder.pricePerToken,
-      true
-    );
-
-    // Get gas fee percentage from env or default 0.1%
-    const gasFeePercentage =
-      parseFloat(process.env.NEXT_PUBLIC_DEFAULT_GAS_FEE_PERCENTAGE || "0.001");
-
-    // Calculate gas fee
-    const gasFee = calculateGasFee(
-      matchAmount,
-      settlementPrice,
-      gasFeePercentage
-    );
-
-    // Create match record
-    const matchId = uuidv4();
-    const orderMatch = await prisma.orderMatch.create({
-      data: {
-        id: matchId,
-        buyOrderId,
-        sellOrderId,
-        matchedAmount: matchAmount,
-        matchedPrice: settlementPrice,
-        gasFeePercentage,
-        gasFeeAmount: gasFee,
-        status: "PENDING",
-      },
-    });
-
-    // Update filled amounts for both orders
-    const newBuyFilled = (
-      BigInt(buyOrder.filledAmount) + BigInt(matchAmount)
-    ).toString();
-    const newSellFilled = (
-      BigInt(sellOrder.filledAmount) + BigInt(matchAmount)
-    ).toString();
-
-    // Determine new status
-    const buyAvailable = BigInt(buyOrder.amount) - BigInt(newBuyFilled);
-    const sellAvailable = BigInt(sellOrder.amount) - BigInt(newSellFilled);
+    const fill = await matchPair(prisma, buyOrderId, sellOrderId, amount);
 
-    const buyStatus =
-      buyAvailable === BigInt(0)
-        ? "FILLED"
-        : "PARTIALLY_FILLED";
-    const sellStatus =
-      sellAvailable === BigInt(0)
-        ? "FILLED"
-        : "PARTIALLY_FILLED";
-
-    // Update both orders atomically
-    await Promise.all([
-      prisma.order.update({
-        where: { id: buyOrderId },
-        data: {
-          filledAmount: newBuyFilled,
-          status: buyStatus,
-          updatedAt: new Date(),
-        },
-      }),
-      prisma.order.update({
-        where: { id: sellOrderId },
-        data: {
-          filledAmount: newSellFilled,
-          status: sellStatus,
-          updatedAt: new Date(),
-        },
-      }),
+    const [orderMatch, updatedBuyOrder, updatedSellOrder] = await Promise.all([
+      prisma.orderMatch.findUnique({ where: { id: fill.matchId } }),
+      prisma.order.findUnique({ where: { id: buyOrderId }, select: { filledAmount: true, status: true } }),
+      prisma.order.findUnique({ where: { id: sellOrderId }, select: { filledAmount: true, status: true } }),
     ]);
 
-    // Log match
-    await prisma.orderHistory.create({
-      data: {
-        orderId: buyOrderId,
-        action: "PARTIALLY_FILLED",
-        amount: matchAmount,
-        details: JSON.stringify({
-          matchId,
-          price: settlementPrice,
-          gasFee,
-        }),
-      },
-    });
-
-    await prisma.orderHistory.create({
-      data: {
-        orderId: sellOrderId,
-        action: "PARTIALLY_FILLED",
-        amount: matchAmount,
-        details: JSON.stringify({
-          matchId,
-          price: settlementPrice,
-          gasFee,
-        }),
-      },
-    });
-
     return NextResponse.json(
       {
         success: true,
         match: orderMatch,
-        updatedBuyOrder: {
-          filledAmount: newBuyFilled,
-          status: buyStatus,
-        },
-        updatedSellOrder: {
-          filledAmount: newSellFilled,
-          status: sellStatus,
-        },
+        updatedBuyOrder,
+        updatedSellOrder,
       },
       { status: 201 }
     );
   } catch (error) {
+    if (error instanceof MatchRejectedError) {
+      const message = error.statusCode === 404 ? "Order not found" : "Order validation failed";
+      return NextResponse.json({ error: message, details: error.errors }, { status: error.statusCode });
+    }
+
     console.error("Error matching orders:", error);
     return NextResponse.json(
       { error: "Failed to match orders", details: (error as Error).message },
@@ -274,11 +142,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const settlementPrice = calculateSettlementPrice(
-      buyOrder.pricePerToken,
-      sellOrder.pricePerToken,
-      true
-    );
+    const settlementPrice = getExecutionPrice(getMakerOrder(buyOrder, sellOrder));
 
     const gasFeePercentage =
       parseFloat(process.env.NEXT_PUBLIC_DEFAULT_GAS_FEE_PERCENTAGE || "0.001");
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@prisma/client";
+import { getNonceFloor } from "@/lib/orderCancellation";
+
+const prisma = new PrismaClient();
+
+/**
+ * GET /api/orders/nonce?userAddress=0x...&chainId=31337
+ * Next unused order nonce for a wallet (sign orders with this value),
+ * never below a cancel-all floor
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const userAddress = searchParams.get("userAddress");
+    const chainId = parseInt(searchParams.get("chainId") || "", 10);
+
+    if (!userAddress || isNaN(chainId)) {
+      return NextResponse.json(
+        { error: "Missing required parameters: userAddress, chainId" },
+        { status: 400 }
+      );
+    }
+
+    const latest = await prisma.order.findFirst({
+      where: {
+        userAddress: userAddress.toLowerCase(),
+        chainId,
+      },
+      orderBy: { nonce: "desc" },
+      select: { nonce: true },
+    });
+
+    const floor = await getNonceFloor(prisma, { userAddress, chainId });
+
+    return NextResponse.json({
+      success: true,
+      nonce: Math.max(latest ? latest.nonce + 1 : 0, floor),
+    });
+  } catch (error) {
+    console.error("Error fetching order nonce:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch nonce", details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
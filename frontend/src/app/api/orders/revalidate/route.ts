@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@prisma/client";
+import { revalidateOrderCollateral } from "@/lib/collateral";
+import { isCronAuthorized } from "@/lib/cron";
+
+const prisma = new PrismaClient();
+
+/**
+ * GET|POST /api/orders/revalidate
+ * Re-check on-chain backing (FT balance/allowance, IP balance + deposit) of live orders
+ * and pull orders whose backing has moved. Intended for a scheduler
+ * (`scripts/expire-orders.mjs --job revalidate`).
+ */
+async function handleRevalidate(request: NextRequest) {
+  try {
+    if (!isCronAuthorized(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await revalidateOrderCollateral(prisma);
+
+    return NextResponse.json({
+      success: true,
+      pulledCount: result.pulled.length,
+      ...result,
+    });
+  } catch (error) {
+    console.error("Error revalidating order collateral:", error);
+    return NextResponse.json(
+      { error: "Failed to revalidate orders", details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = handleRevalidate;
+export const POST = handleRevalidate;
@@ -1,62 +1,37 @@
 import { NextRequest, NextResponse } from "next/server";
-import { Address, verifyTypedData, getAddress } from "viem";
-import { OffchainOrder, ORDER_TYPES, getOrderDomain } from "@/lib/orders";
+import { Address, Hex, getAddress } from "viem";
+import {
+  OffchainOrder,
+  OrderJson,
+  deserializeOrder,
+  parseOrderSide,
+  serializeOrder,
+  toSignedOrderMessage,
+  verifyOrderSignature,
+} from "@/lib/orders";
 
 // In-memory order storage (dalam production gunakan database seperti MongoDB)
 const orderBook = new Map<string, OffchainOrder>();
 const userOrders = new Map<Address, string[]>();
 
-/**
- * Serialize order untuk JSON response (convert BigInt to string)
- */
-function serializeOrder(order: OffchainOrder) {
-  return {
-    ...order,
-    poolId: order.poolId.toString(),
-    amount: order.amount.toString(),
-    pricePerToken: order.pricePerToken.toString(),
-    filledAmount: order.filledAmount.toString(),
-  };
-}
-
 /**
  * Validate order signature menggunakan EIP-712
  */
 async function validateOrderSignature(order: OffchainOrder): Promise<boolean> {
   if (!order.signature) return false;
 
-  try {
-    const valid = await verifyTypedData({
-      address: order.userAddress,
-      domain: getOrderDomain(order.chainId),
-      types: ORDER_TYPES,
-      primaryType: "Order",
-      message: {
-        orderId: order.orderId,
-        side: order.side,
-        poolId: order.poolId.toString(),
-        ftAddress: order.ftAddress,
-        amount: order.amount.toString(),
-        pricePerToken: order.pricePerToken.toString(),
-        userAddress: order.userAddress,
-        nonce: order.nonce,
-        expiresAt: order.expiresAt,
-      },
-      signature: order.signature as `0x${string}`,
-    });
-
-    return valid;
-  } catch (err) {
-    console.error("[Orders API] Signature verification failed:", err);
-    return false;
-  }
+  return verifyOrderSignature(
+    toSignedOrderMessage(order),
+    order.signature as Hex,
+    order.chainId
+  );
 }
 
 /**
  * GET /api/orders - Fetch orders
  * Query params:
  *   - userAddress: Filter by user (optional)
- *   - side: "BID" or "ASK" (optional)
+ *   - side: "BUY" or "SELL" (optional, BID/ASK accepted)
  *   - poolId: Filter by pool (optional)
  *   - chainId: Filter by chain (optional)
  */
@@ -64,7 +39,7 @@ export async function GET(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url);
     const userAddress = searchParams.get("userAddress")?.toLowerCase();
-    const side = searchParams.get("side") as "BID" | "ASK" | null;
+    const side = parseOrderSide(searchParams.get("side"));
     const poolId = searchParams.get("poolId");
     const chainId = searchParams.get("chainId");
 
@@ -110,16 +85,10 @@ export async function GET(req: NextRequest) {
  */
 export async function POST(req: NextRequest) {
   try {
-    const rawOrder = await req.json();
+    const rawOrder: OrderJson = await req.json();
 
     // Convert string values to BigInt
-    const order: OffchainOrder = {
-      ...rawOrder,
-      poolId: BigInt(rawOrder.poolId),
-      amount: BigInt(rawOrder.amount),
-      pricePerToken: BigInt(rawOrder.pricePerToken),
-      filledAmount: BigInt(rawOrder.filledAmount),
-    };
+    const order = deserializeOrder(rawOrder);
 
     // Validate required fields
     if (!order.orderId || !order.signature) {
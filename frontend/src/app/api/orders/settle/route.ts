@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { PrismaClient } from "@prisma/client";
 import { getPublicClient } from "@/lib/viem";
 import { formatUnits } from "viem";
-import { recordTradeStats } from "@/lib/tradeStats";
+import { MatchTransitionError, transitionMatch } from "@/lib/matchLifecycle";
+import { SettlementError, verifySettlementTx } from "@/lib/settlement";
 
 const prisma = new PrismaClient();
 
@@ -10,23 +11,22 @@ interface SettleRequest {
   matchId: string;
   userAddress: string;
   chainId: number;
-  txHash?: string; // Optional: provide if already settled on-chain
+  txHash: string; // OrderBook.executeTrade transaction
 }
 
 /**
  * POST /api/orders/settle
- * Settle an order match - transfer tokens from seller to buyer
- * In production, this would be triggered by on-chain settlement contract
- * For now, we simulate the settlement by updating database
+ * Record the on-chain settlement of an order match by one of its parties.
+ * The tx receipt must hold the OrderMatched log of this match.
  */
 export async function POST(request: NextRequest) {
   try {
     const body: SettleRequest = await request.json();
     const { matchId, userAddress, chainId, txHash } = body;
 
-    if (!matchId || !userAddress || !chainId) {
+    if (!matchId || !userAddress || !chainId || !txHash) {
       return NextResponse.json(
-        { error: "Missing required fields: matchId, userAddress, chainId" },
+        { error: "Missing required fields: matchId, userAddress, chainId, txHash" },
         { status: 400 }
       );
     }
@@ -66,59 +66,25 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // In production, you would verify on-chain settlement here
-    // For now, we just mark it as SETTLED and record the tx hash if provided
-    const settledMatch = await prisma.orderMatch.update({
-      where: { id: matchId },
-      data: {
-        status: "SETTLED",
-        txHash: txHash || null,
-        settledAt: new Date(),
-        updatedAt: new Date(),
-      },
-    });
+    const verified = await verifySettlementTx(prisma, matchId, txHash);
 
-    // Log settlement
-    await Promise.all([
-      prisma.orderHistory.create({
-        data: {
-          orderId: orderMatch.buyOrder.id,
-          action: "SETTLED",
-          amount: orderMatch.matchedAmount,
-          details: JSON.stringify({
-            matchId,
-            price: orderMatch.matchedPrice,
-            txHash: txHash || "simulated",
-          }),
-        },
-      }),
-      prisma.orderHistory.create({
-        data: {
-          orderId: orderMatch.sellOrder.id,
-          action: "SETTLED",
-          amount: orderMatch.matchedAmount,
-          details: JSON.stringify({
-            matchId,
-            price: orderMatch.matchedPrice,
-            txHash: txHash || "simulated",
-          }),
-        },
-      }),
-    ]);
-
-    await recordTradeStats(prisma, {
-      ftAddress: orderMatch.buyOrder.ftAddress,
-      poolId: orderMatch.buyOrder.poolId,
-      matchedAmountWei: orderMatch.matchedAmount,
-      matchedPriceWei: orderMatch.matchedPrice,
+    await transitionMatch(prisma, matchId, "SETTLED", {
+      txHash: verified.txHash,
+      details: { settledBy: userAddress.toLowerCase(), blockNumber: verified.blockNumber },
     });
 
+    const settledMatch = await prisma.orderMatch.findUnique({ where: { id: matchId } });
+
     return NextResponse.json({
       success: true,
       match: settledMatch,
       message: "Order settlement completed",
     });
   } catch (error) {
+    if (error instanceof MatchTransitionError || error instanceof SettlementError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
     console.error("Error settling order:", error);
     return NextResponse.json(
       { error: "Failed to settle order", details: (error as Error).message },
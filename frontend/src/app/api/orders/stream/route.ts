@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@prisma/client";
+import { MATCHABLE_ORDER_STATUSES } from "@/lib/orderMatching";
+import { MarketEvent, marketEvents, toStreamOrder } from "@/lib/marketEvents";
+
+const prisma = new PrismaClient();
+
+// Never cache or pre-render: every request is a long-lived stream
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_MS = 15000;
+
+/**
+ * GET /api/orders/stream?poolId=1&since=42
+ * Server-Sent Events per pool: order.created / order.filled / order.cancelled /
+ * order.expired, match.created, match.failed and settlement.confirmed.
+ * Every event carries the pool sequence number as its SSE id. With `since`
+ * (or the Last-Event-ID header on reconnect) missed events are replayed;
+ * otherwise, or when they left the replay buffer, a `snapshot` event with
+ * all live LIMIT orders is sent first.
+ *
+ * SSE rather than WebSocket: the stream is server -> client only, Next.js route
+ * handlers cannot upgrade a connection to WebSocket, and EventSource reconnects
+ * with Last-Event-ID on its own.
+ * Events come from the in-process bus in lib/marketEvents, so a client only sees
+ * writes made by the server instance it is connected to, and sequence numbers
+ * restart with the process. Run the API as a single instance; scaling out needs
+ * the bus backed by a shared broker (e.g. Redis pub/sub) first.
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const poolId = searchParams.get("poolId");
+  // Last-Event-ID wins: it is newer than the URL when the browser reconnects by itself
+  const sinceParam = request.headers.get("last-event-id") ?? searchParams.get("since");
+
+  if (!poolId) {
+    return NextResponse.json({ error: "poolId parameter is required" }, { status: 400 });
+  }
+  if (sinceParam !== null && !/^\d+$/.test(sinceParam)) {
+    return NextResponse.json({ error: "since must be a sequence number" }, { status: 400 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      const send = (event: MarketEvent) =>
+        write(`id: ${event.seq}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+
+      // Subscribe before reading the snapshot so nothing published meanwhile is lost
+      let lastSent = 0;
+      let queue: MarketEvent[] | null = [];
+      const unsubscribe = marketEvents.subscribe(poolId, (event) => {
+        if (queue) {
+          queue.push(event);
+        } else if (event.seq > lastSent) {
+          lastSent = event.seq;
+          send(event);
+        }
+      });
+      const heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      request.signal.addEventListener("abort", () => cleanup());
+
+      write("retry: 3000\n\n");
+
+      const replay = sinceParam !== null ? marketEvents.since(poolId, Number(sinceParam)) : null;
+      if (replay) {
+        lastSent = Number(sinceParam);
+        for (const event of replay) {
+          lastSent = event.seq;
+          send(event);
+        }
+      } else {
+        try {
+          const seq = marketEvents.currentSeq(poolId);
+          const orders = await prisma.order.findMany({
+            where: {
+              poolId,
+              orderType: "LIMIT",
+              status: { in: MATCHABLE_ORDER_STATUSES },
+              expiresAt: { gt: new Date() },
+            },
+            orderBy: { createdAt: "asc" },
+          });
+          lastSent = seq;
+          write(
+            `id: ${seq}\nevent: snapshot\ndata: ${JSON.stringify({
+              seq,
+              poolId,
+              orders: orders.map(toStreamOrder),
+              timestamp: new Date().toISOString(),
+            })}\n\n`
+          );
+        } catch (error) {
+          console.error("Error loading order stream snapshot:", error);
+          cleanup();
+          return;
+        }
+      }
+
+      // Events published while the snapshot/replay was being sent
+      const pending = queue;
+      queue = null;
+      for (const event of pending) {
+        if (event.seq > lastSent) {
+          lastSent = event.seq;
+          send(event);
+        }
+      }
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@prisma/client";
+import { CapTableError, getPoolCapTable } from "@/lib/capTable";
+
+const prisma = new PrismaClient();
+
+/**
+ * GET /api/pools/[poolId]/holders?chainId=31337&limit=50
+ * Cap table from indexed FT Transfer events: top holders, share, locked (listings +
+ * open SELL orders) vs free, concentration metrics and daily holder history.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ poolId: string }> }) {
+  try {
+    const { poolId } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const chainId = parseInt(searchParams.get("chainId") || "31337", 10);
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "50", 10) || 50, 1), 500);
+
+    if (!/^\d+$/.test(poolId)) {
+      return NextResponse.json({ error: "Invalid poolId" }, { status: 400 });
+    }
+
+    const capTable = await getPoolCapTable(prisma, { chainId, poolId: Number(poolId), limit });
+    return NextResponse.json({ success: true, data: capTable });
+  } catch (error) {
+    if (error instanceof CapTableError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error("Error fetching pool holders:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch pool holders", details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
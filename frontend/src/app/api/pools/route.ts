@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server";
+import { IndexedPool, Prisma, PrismaClient } from "@prisma/client";
+import {
+  inPageOrder,
+  isOfferActive,
+  loadAssetMetadata,
+  loadTokenMetadata,
+  loadTradeTotals,
+  pageArgs,
+  pageIdsByAmount,
+  parseCatalogQuery,
+  resolveAssetIdFilter,
+  toAssetMetadata,
+  toPagination,
+  toTokenMetadata,
+} from "@/lib/catalog";
+
+const prisma = new PrismaClient();
+
+/**
+ * GET /api/pools?chainId=31337&limit=20&offset=0&sort=newest|price|volume&order=asc|desc
+ *   &creator=0x..&category=3d|image|audio|other&preset=0|1|2&active=true
+ * Fractional pools from the chain indexer, joined with token metadata (FractionalToken),
+ * the underlying asset (Asset) and secondary market stats (TradeStatistics).
+ * price = last secondary trade or primary sale price, volume = secondary volume.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const query = parseCatalogQuery(searchParams);
+    const { chainId, creator, category, preset } = query;
+    const active = searchParams.get("active");
+
+    const assetIdFilter = await resolveAssetIdFilter(prisma, { chainId, creator, category, preset });
+    const where: Prisma.IndexedPoolWhereInput = {
+      chainId,
+      ...(active !== null && { recombined: active !== "true" }),
+      ...(assetIdFilter && { assetId: assetIdFilter }),
+    };
+    const newest: Prisma.IndexedPoolOrderByWithRelationInput[] = [{ createdAt: query.order }, { id: query.order }];
+
+    let pools: IndexedPool[];
+    let total: number;
+    if (query.sort === "newest") {
+      [pools, total] = await Promise.all([
+        prisma.indexedPool.findMany({ where, orderBy: newest, ...pageArgs(query) }),
+        prisma.indexedPool.count({ where }),
+      ]);
+    } else {
+      const ids = await prisma.indexedPool.findMany({
+        where,
+        select: { poolId: true, ftAddress: true, salePricePerToken: true },
+        orderBy: newest,
+      });
+      const trades = await loadTradeTotals(prisma, ids.map((p) => p.ftAddress));
+      const pageIds = pageIdsByAmount(
+        ids.map((pool) => {
+          const trade = trades.get(pool.ftAddress);
+          return {
+            id: pool.poolId,
+            amount:
+              query.sort === "price"
+                ? trade?.lastPrice ?? pool.salePricePerToken
+                : (trade?.volume ?? BigInt(0)).toString(),
+          };
+        }),
+        query
+      );
+      const rows = await prisma.indexedPool.findMany({ where: { chainId, poolId: { in: pageIds } } });
+      pools = inPageOrder(rows, pageIds, (p) => p.poolId);
+      total = ids.length;
+    }
+
+    const assetIds = pools.map((p) => p.assetId);
+
+    const [assets, offers, metadata, tokens, totals] = await Promise.all([
+      prisma.indexedAsset.findMany({ where: { chainId, assetId: { in: assetIds } } }),
+      prisma.indexedLicenseOffer.findMany({ where: { chainId, assetId: { in: assetIds } } }),
+      loadAssetMetadata(prisma, assetIds),
+      loadTokenMetadata(prisma, pools.map((p) => p.poolId)),
+      loadTradeTotals(prisma, pools.map((p) => p.ftAddress)),
+    ]);
+    const assetsById = new Map(assets.map((a) => [a.assetId, a]));
+
+    const data = pools.map((pool) => {
+      const asset = assetsById.get(pool.assetId);
+      const trade = totals.get(pool.ftAddress);
+      const presets = offers
+        .filter((o) => o.assetId === pool.assetId && isOfferActive(o))
+        .map((o) => o.preset);
+
+      return {
+        poolId: pool.poolId,
+        chainId: pool.chainId,
+        assetId: pool.assetId,
+        ftAddress: pool.ftAddress,
+        owner: pool.owner,
+        totalSupply: pool.totalSupply,
+        salePricePerToken: pool.salePricePerToken,
+        amountForSale: pool.amountForSale,
+        amountSold: pool.amountSold,
+        totalDividends: pool.totalDividends,
+        claimedDividends: pool.claimedDividends,
+        active: !pool.recombined,
+        createdAt: pool.createdAt,
+        txHash: pool.txHash,
+        nftContract: asset?.nftContract ?? null,
+        tokenId: asset?.tokenId ?? null,
+        creator: asset?.creator ?? null,
+        metadataURI: asset?.metadataURI ?? null,
+        metadata: toAssetMetadata(metadata.get(pool.assetId)),
+        token: toTokenMetadata(tokens.get(pool.ftAddress)),
+        licensePresets: [...new Set(presets)],
+        lastPrice: trade?.lastPrice ?? null,
+        volume: (trade?.volume ?? BigInt(0)).toString(),
+      };
+    });
+
+    return NextResponse.json({ success: true, data, pagination: toPagination(query, total) });
+  } catch (error) {
+    console.error("Error fetching pools:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch pools", details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@prisma/client";
+import { Address, Hex, isAddress, isHash, parseEther } from "viem";
+import {
+  RoyaltyReportError,
+  RoyaltyStatus,
+  buildDepositTransaction,
+  confirmRoyaltyPayment,
+  createRoyaltyReport,
+  listRoyaltyReports,
+} from "@/lib/royalty";
+
+const prisma = new PrismaClient();
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof RoyaltyReportError) {
+    return NextResponse.json({ error: error.message, success: false }, { status: error.statusCode });
+  }
+  console.error(`Error ${action} royalty report:`, error);
+  return NextResponse.json(
+    { error: `Failed ${action} royalty report`, details: (error as Error).message, success: false },
+    { status: 500 }
+  );
+}
+
+/**
+ * GET /api/royalty/report?licensee=0x...&licenseId=...&status=OUTSTANDING|PAID
+ * Reports with paid/outstanding totals; outstanding ones carry their depositToPool tx.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const searchParams = req.nextUrl.searchParams;
+    const status = searchParams.get("status");
+
+    const { reports, totals } = await listRoyaltyReports(prisma, {
+      licensee: searchParams.get("licensee") || undefined,
+      licenseId: searchParams.get("licenseId") || undefined,
+      status: status === "OUTSTANDING" || status === "PAID" ? (status as RoyaltyStatus) : undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: reports.map((report) => ({
+        ...report,
+        transaction: report.status === "OUTSTANDING" ? buildDepositTransaction(report) : null,
+      })),
+      totals,
+    });
+  } catch (error) {
+    return errorResponse(error, "fetching");
+  }
+}
+
+/**
+ * POST /api/royalty/report
+ * Body: { licenseId, licensee, periodStart, periodEnd, revenue, signature } - revenue in IP.
+ * signature: licensee personal_sign of buildRoyaltyReportMessage (revenue in wei).
+ * Returns the report and the depositToPool transaction paying its royalty.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { licenseId, licensee, periodStart, periodEnd, revenue, signature } = await req.json();
+
+    if (!licenseId || !licensee || !periodStart || !periodEnd || revenue === undefined || !signature) {
+      return NextResponse.json(
+        { error: "Missing licenseId, licensee, periodStart, periodEnd, revenue, or signature" },
+        { status: 400 }
+      );
+    }
+    if (!isAddress(licensee)) {
+      return NextResponse.json({ error: "Invalid licensee address" }, { status: 400 });
+    }
+    const start = new Date(periodStart);
+    const end = new Date(periodEnd);
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      return NextResponse.json({ error: "Invalid period dates" }, { status: 400 });
+    }
+    let revenueWei: bigint;
+    try {
+      revenueWei = parseEther(String(revenue));
+    } catch {
+      return NextResponse.json({ error: "Invalid revenue amount" }, { status: 400 });
+    }
+    if (revenueWei < BigInt(0)) {
+      return NextResponse.json({ error: "Revenue cannot be negative" }, { status: 400 });
+    }
+
+    const report = await createRoyaltyReport(prisma, {
+      licenseId: String(licenseId),
+      licensee: licensee as Address,
+      periodStart: start,
+      periodEnd: end,
+      revenue: revenueWei,
+      signature: signature as Hex,
+    });
+
+    return NextResponse.json({
+      success: true,
+      report,
+      transaction: report.status === "OUTSTANDING" ? buildDepositTransaction(report) : null,
+    });
+  } catch (error) {
+    return errorResponse(error, "creating");
+  }
+}
+
+/**
+ * PATCH /api/royalty/report
+ * Body: { reportId, txHash } - confirms payment from the DividendsDeposited event.
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    const { reportId, txHash } = await req.json();
+
+    if (!reportId || !txHash) {
+      return NextResponse.json({ error: "Missing reportId or txHash" }, { status: 400 });
+    }
+    if (!isHash(txHash)) {
+      return NextResponse.json({ error: "Invalid txHash" }, { status: 400 });
+    }
+
+    const report = await confirmRoyaltyPayment(prisma, String(reportId), txHash as Hex);
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    return errorResponse(error, "confirming");
+  }
+}
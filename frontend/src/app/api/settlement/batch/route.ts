@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@prisma/client";
+import { isRelayerAuthorized } from "@/lib/cron";
+import { SettlementError, settleBatch } from "@/lib/settlement";
+
+const prisma = new PrismaClient();
+
+interface BatchSettlementRequest {
+  poolId?: string;
+  ftAddress?: string;
+  chainId?: number;
+  matchIds?: string[];
+}
+
+/**
+ * POST /api/settlement/batch
+ * Settle all pending matches (optionally of one pool / token / set of matches)
+ * with one OrderBook.executeTrades() transaction per pool.
+ * Relayer job: requires `Authorization: Bearer <CRON_SECRET>` (scripts/expire-orders.mjs --job settle).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!isRelayerAuthorized(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body: BatchSettlementRequest = await request.json().catch(() => ({}));
+    const { poolId, ftAddress, chainId, matchIds } = body;
+
+    if (matchIds !== undefined && (!Array.isArray(matchIds) || matchIds.length === 0)) {
+      return NextResponse.json(
+        { error: "matchIds must be a non-empty array" },
+        { status: 400 }
+      );
+    }
+
+    const { batches, skipped } = await settleBatch(prisma, {
+      poolId: poolId !== undefined ? String(poolId) : undefined,
+      ftAddress,
+      chainId: chainId !== undefined ? Number(chainId) : undefined,
+      matchIds,
+    });
+
+    const settled = batches.filter((b) => b.status === "SETTLED");
+    const settledCount = settled.reduce((sum, b) => sum + b.matchIds.length, 0);
+    const failedCount = batches
+      .filter((b) => b.status === "FAILED")
+      .reduce((sum, b) => sum + b.matchIds.length, 0);
+
+    return NextResponse.json({
+      success: failedCount === 0,
+      settledCount,
+      failedCount,
+      batches,
+      skipped,
+      message:
+        batches.length === 0
+          ? "No matches ready for settlement"
+          : `Settled ${settledCount} match(es) in ${settled.length} transaction(s)`,
+    });
+  } catch (error) {
+    if (error instanceof SettlementError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Error executing batch settlement:", error);
+    return NextResponse.json(
+      { error: "Failed to execute batch settlement", details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,18 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
 import { PrismaClient } from "@prisma/client";
-import { recordTradeStats } from "@/lib/tradeStats";
+import { MatchTransitionError, transitionMatch } from "@/lib/matchLifecycle";
+import { SettlementError, verifySettlementTx } from "@/lib/settlement";
 
 const prisma = new PrismaClient();
 
 interface ConfirmSettlementRequest {
   matchId: string;
   txHash: string;
-  blockNumber?: number;
 }
 
 /**
  * POST /api/settlement/confirm
- * Record settlement after on-chain execution is confirmed
+ * Record settlement after on-chain execution is confirmed.
+ * The tx receipt must hold the OrderMatched log of this match.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -42,61 +43,25 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Update match with tx details (schema tidak punya blockNumber)
-    const updatedMatch = await prisma.orderMatch.update({
-      where: { id: matchId },
-      data: {
-        status: "SETTLED",
-        txHash,
-        settledAt: new Date(),
-      },
-    });
+    const verified = await verifySettlementTx(prisma, matchId, txHash);
 
-    // Log settlement
-    if (match.buyOrder && match.sellOrder) {
-      await Promise.all([
-        prisma.orderHistory.create({
-          data: {
-            orderId: match.buyOrder.id,
-            action: "SETTLED_ONCHAIN",
-            amount: match.matchedAmount,
-            details: JSON.stringify({
-              matchId,
-              txHash,
-              timestamp: new Date().toISOString(),
-            }),
-          },
-        }),
-        prisma.orderHistory.create({
-          data: {
-            orderId: match.sellOrder.id,
-            action: "SETTLED_ONCHAIN",
-            amount: match.matchedAmount,
-            details: JSON.stringify({
-              matchId,
-              txHash,
-              timestamp: new Date().toISOString(),
-            }),
-          },
-        }),
-      ]);
-    }
+    // SETTLED transition: status, history and trade statistics
+    await transitionMatch(prisma, matchId, "SETTLED", {
+      txHash: verified.txHash,
+      details: { blockNumber: verified.blockNumber, timestamp: new Date().toISOString() },
+    });
 
-    // Update trade statistics for price/volume charts
-    if (match.buyOrder && match.sellOrder) {
-      await recordTradeStats(prisma, {
-        ftAddress: match.buyOrder.ftAddress,
-        poolId: match.buyOrder.poolId,
-        matchedAmountWei: match.matchedAmount,
-        matchedPriceWei: match.matchedPrice,
-      });
-    }
+    const updatedMatch = await prisma.orderMatch.findUnique({ where: { id: matchId } });
 
     return NextResponse.json({
       success: true,
       match: updatedMatch,
     });
   } catch (error) {
+    if (error instanceof MatchTransitionError || error instanceof SettlementError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
     console.error("Error confirming settlement:", error);
     return NextResponse.json(
       { error: "Failed to confirm settlement", details: (error as Error).message },
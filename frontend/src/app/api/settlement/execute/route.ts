@@ -1,146 +1,72 @@
 import { NextRequest, NextResponse } from "next/server";
 import { PrismaClient } from "@prisma/client";
-import { recordTradeStats } from "@/lib/tradeStats";
+import { isRelayerAuthorized } from "@/lib/cron";
+import { SettlementError, settleMatch } from "@/lib/settlement";
 
 const prisma = new PrismaClient();
 
 interface ExecuteSettlementRequest {
   matchId: string;
-  buyerAddress: string;
-  sellerAddress: string;
-  ftAddress: string;
-  matchedAmount: string;
-  matchedPrice: string;
-  chainId: number;
 }
 
 /**
  * POST /api/settlement/execute
- * Execute on-chain settlement - Transfer token from seller to buyer
- * In production, this would call OrderBook.executeTrade() with signatures
- * For now, we simulate the transfer and record tx
+ * Execute on-chain settlement - submit OrderBook.executeTrade() via the relayer
+ * using the stored signed buy and sell orders.
+ * Relayer job: requires `Authorization: Bearer <CRON_SECRET>`.
  */
 export async function POST(request: NextRequest) {
   try {
+    if (!isRelayerAuthorized(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
     const body: ExecuteSettlementRequest = await request.json();
-    const {
-      matchId,
-      buyerAddress,
-      sellerAddress,
-      ftAddress,
-      matchedAmount,
-      matchedPrice,
-      chainId,
-    } = body;
+    const { matchId } = body;
 
-    if (!matchId || !buyerAddress || !sellerAddress) {
+    if (!matchId) {
       return NextResponse.json(
-        { error: "Missing required fields" },
+        { error: "Missing matchId" },
         { status: 400 }
       );
     }
 
-    // Get match record
-    const match = await prisma.orderMatch.findUnique({
-      where: { id: matchId },
-      include: {
-        buyOrder: true,
-        sellOrder: true,
-      },
-    });
-
-    if (!match) {
-      return NextResponse.json({ error: "Match not found" }, { status: 404 });
-    }
+    const result = await settleMatch(prisma, matchId);
 
-    // Check if already executed
-    if (match.txHash) {
+    if (result.status === "FAILED") {
       return NextResponse.json(
-        { error: "Settlement already executed", txHash: match.txHash },
-        { status: 400 }
+        {
+          success: false,
+          error: "Settlement reverted",
+          details: result.reason,
+          txHash: result.txHash,
+        },
+        { status: 422 }
       );
     }
 
-    // Simulate on-chain execution
-    // In production, this would:
-    // 1. Call OrderBook.executeTrade() with buyer and seller signatures
-    // 2. Transfer FT tokens from seller to buyer
-    // 3. Transfer IP from buyer to seller
-    // 4. Get actual transaction hash from blockchain
-
-    const mockTxHash = `0x${Math.random().toString(16).slice(2)}${Math.random()
-      .toString(16)
-      .slice(2)}`;
-
-    // Update match with simulated transaction
-    const updatedMatch = await prisma.orderMatch.update({
+    const match = await prisma.orderMatch.findUnique({
       where: { id: matchId },
-      data: {
-        txHash: mockTxHash,
-        status: "SETTLED",
-        settledAt: new Date(),
-        updatedAt: new Date(),
-      },
-    });
-
-    // Log settlement execution
-    await Promise.all([
-      prisma.orderHistory.create({
-        data: {
-          orderId: match.buyOrderId,
-          action: "SETTLEMENT_EXECUTED",
-          amount: matchedAmount,
-          details: JSON.stringify({
-            matchId,
-            txHash: mockTxHash,
-            type: "on-chain token transfer",
-            from: sellerAddress,
-            to: buyerAddress,
-            tokenAmount: matchedAmount,
-            pricePerToken: matchedPrice,
-          }),
-        },
-      }),
-      prisma.orderHistory.create({
-        data: {
-          orderId: match.sellOrderId,
-          action: "SETTLEMENT_EXECUTED",
-          amount: matchedAmount,
-          details: JSON.stringify({
-            matchId,
-            txHash: mockTxHash,
-            type: "on-chain token transfer",
-            from: sellerAddress,
-            to: buyerAddress,
-            tokenAmount: matchedAmount,
-            pricePerToken: matchedPrice,
-          }),
-        },
-      }),
-    ]);
-
-    await recordTradeStats(prisma, {
-      ftAddress: match.buyOrder.ftAddress,
-      poolId: match.buyOrder.poolId,
-      matchedAmountWei: matchedAmount,
-      matchedPriceWei: matchedPrice,
     });
 
     return NextResponse.json({
       success: true,
-      match: updatedMatch,
+      match,
       execution: {
-        txHash: mockTxHash,
-        from: sellerAddress,
-        to: buyerAddress,
-        token: ftAddress,
-        amount: matchedAmount,
-        price: matchedPrice,
+        txHash: result.txHash,
+        blockNumber: result.blockNumber,
         status: "EXECUTED",
       },
       message: "Settlement executed on-chain. Tokens transferred.",
     });
   } catch (error) {
+    if (error instanceof SettlementError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
     console.error("Error executing settlement:", error);
     return NextResponse.json(
       { error: "Failed to execute settlement", details: (error as Error).message },
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { PrismaClient } from "@prisma/client";
+import { signedOrderFromRow } from "@/lib/orders";
 
 const prisma = new PrismaClient();
 
@@ -69,6 +70,11 @@ export async function GET(request: NextRequest) {
         expiresAt: Math.floor(match.buyOrder.expiresAt.getTime() / 1000), // unix timestamp
         buyOrderExpiry: Math.floor(match.buyOrder.expiresAt.getTime() / 1000),
         sellOrderExpiry: Math.floor(match.sellOrder.expiresAt.getTime() / 1000),
+        // Exact signed structs for OrderBook.executeTrade
+        buyOrder: signedOrderFromRow(match.buyOrder),
+        buySignature: match.buyOrder.signature,
+        sellOrder: signedOrderFromRow(match.sellOrder),
+        sellSignature: match.sellOrder.signature,
       },
     });
   } catch (error) {
@@ -1,4 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
+import { Address } from "viem";
+import {
+  ORDER_TYPES,
+  getOrderDomain,
+  parseOrderSide,
+  toSignedSide,
+  SignedOrderMessage,
+} from "@/lib/orders";
 
 /**
  * POST /api/settlement/sign-order
@@ -10,7 +18,7 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const {
       orderId,
-      side, // "BID" atau "ASK"
+      side, // "BUY"/"SELL" (BID/ASK juga diterima)
       poolId,
       ftAddress,
       amount,
@@ -18,6 +26,7 @@ export async function POST(request: NextRequest) {
       userAddress,
       nonce,
       expiresAt,
+      chainId,
     } = body;
 
     if (
@@ -36,48 +45,34 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Prepare order structure untuk EIP-712 signing
-    // Domain separator
-    const domain = {
-      name: "Lixa Order Book",
-      version: "1",
-      chainId: 31337, // Foundry
-      verifyingContract: "0xa513e6e4b8f2a923d98304ec87f64353c4d5c853", // OrderBook address
-    };
-
-    // Message types untuk EIP-712
-    const types = {
-      Order: [
-        { name: "orderId", type: "string" },
-        { name: "side", type: "string" },
-        { name: "poolId", type: "uint256" },
-        { name: "ftAddress", type: "address" },
-        { name: "amount", type: "uint256" },
-        { name: "pricePerToken", type: "uint256" },
-        { name: "userAddress", type: "address" },
-        { name: "nonce", type: "uint256" },
-        { name: "expiresAt", type: "uint256" },
-      ],
-    };
+    const orderSide = parseOrderSide(side);
+    if (!orderSide) {
+      return NextResponse.json(
+        { error: "Invalid order side. Must be BUY or SELL" },
+        { status: 400 }
+      );
+    }
 
-    // Message value
-    const message = {
+    // Message value (same canonical form /api/orders/create verifies)
+    const expiresAtSeconds =
+      typeof expiresAt === "number" ? expiresAt : Math.floor(new Date(expiresAt).getTime() / 1000);
+    const message: SignedOrderMessage = {
       orderId,
-      side,
-      poolId: parseInt(poolId),
-      ftAddress,
-      amount,
-      pricePerToken,
-      userAddress,
-      nonce: nonce || 0,
-      expiresAt: Math.floor(new Date(expiresAt).getTime() / 1000),
+      side: toSignedSide(orderSide),
+      poolId: BigInt(poolId).toString(),
+      ftAddress: ftAddress.toLowerCase() as Address,
+      amount: BigInt(amount).toString(),
+      pricePerToken: BigInt(pricePerToken).toString(),
+      userAddress: userAddress.toLowerCase() as Address,
+      nonce: (nonce || 0).toString(),
+      expiresAt: expiresAtSeconds.toString(),
     };
 
     return NextResponse.json({
       success: true,
       signData: {
-        domain,
-        types,
+        domain: getOrderDomain(Number(chainId) || 31337),
+        types: ORDER_TYPES,
         primaryType: "Order",
         message,
       },
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@prisma/client";
+import { CANDLE_INTERVALS, getCandles, parseCandleInterval, rebuildCandles } from "@/lib/candles";
+import { isCronAuthorized } from "@/lib/cron";
+
+const prisma = new PrismaClient();
+
+function parseTime(value: string | null): Date | undefined | null {
+  if (!value) return undefined;
+  // Unix seconds or ISO date
+  const date = /^\d+$/.test(value) ? new Date(Number(value) * 1000) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * GET /api/token/candles?ftAddress=0x...&interval=1m|5m|1h|1d&from=&to=&limit=500
+ * OHLCV candles from settled matches, oldest first. from/to are unix seconds or ISO dates;
+ * time is the bucket start in unix seconds, prices/volume in IP.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const ftAddress = searchParams.get("ftAddress");
+    const interval = parseCandleInterval(searchParams.get("interval") || "1h");
+    const from = parseTime(searchParams.get("from"));
+    const to = parseTime(searchParams.get("to"));
+    const limit = searchParams.get("limit") ? Number(searchParams.get("limit")) : undefined;
+
+    if (!ftAddress) {
+      return NextResponse.json({ error: "ftAddress parameter is required" }, { status: 400 });
+    }
+    if (!interval) {
+      return NextResponse.json(
+        { error: `interval must be one of ${Object.keys(CANDLE_INTERVALS).join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if (from === null || to === null) {
+      return NextResponse.json({ error: "Invalid from/to" }, { status: 400 });
+    }
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      return NextResponse.json({ error: "Invalid limit" }, { status: 400 });
+    }
+
+    const candles = await getCandles(prisma, { ftAddress, interval, from, to, limit });
+    return NextResponse.json({ ftAddress: ftAddress.toLowerCase(), interval, candles });
+  } catch (error) {
+    console.error("Error fetching token candles:", error);
+    return NextResponse.json({ error: "Failed to fetch token candles" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/token/candles
+ * Body: { ftAddress } - re-aggregates the token's candles from its settled matches
+ * (backfill after a migration, repair). Cron-authorized; reads never rebuild.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!isCronAuthorized(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { ftAddress } = await request.json();
+    if (!ftAddress) {
+      return NextResponse.json({ error: "ftAddress is required" }, { status: 400 });
+    }
+
+    const candleCount = await rebuildCandles(prisma, String(ftAddress));
+    return NextResponse.json({ success: true, ftAddress: String(ftAddress).toLowerCase(), candleCount });
+  } catch (error) {
+    console.error("Error rebuilding token candles:", error);
+    return NextResponse.json(
+      { error: "Failed to rebuild token candles", details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -13,6 +13,12 @@ import { FileUpload } from "@/components/FileUpload";
 import { calculateFileHash } from "@/lib/fileHash";
 import { computePerceptualHash } from "@/lib/perceptualHash";
 import { getUserFriendlyError } from "@/lib/walletErrors";
+import {
+  CUSTOM_TERMS_SCHEMA,
+  CustomTermsDocument,
+  TERMS_FLAGS,
+  validateCustomTermsDocument,
+} from "@/lib/licenseTerms";
 
 const ERC721_APPROVE_ABI = [
   {
@@ -41,6 +47,17 @@ const LICENSE_TYPES = [
   { value: "2", label: "Derivative", description: "Allows creating derivative works" },
 ];
 
+// Labels for the CUSTOM terms editor, same order as LicensePreset.Terms
+const TERMS_FLAG_LABELS: Record<(typeof TERMS_FLAGS)[number], string> = {
+  commercialUse: "Commercial use",
+  inGameUse: "In-game use",
+  marketingUse: "Marketing use",
+  modificationAllowed: "Modification allowed",
+  resaleAllowed: "Resale of raw asset",
+  attributionRequired: "Attribution required",
+  transferable: "Transferable",
+};
+
 // License preset options
 const LICENSE_PRESETS = [
   { value: "0", label: "Custom", description: "Define your own terms" },
@@ -160,6 +177,22 @@ export default function CreatePage() {
   const [uriOffer, setUriOffer] = useState("");
   const [offerMessage, setOfferMessage] = useState<string | null>(null);
 
+  // CUSTOM preset terms editor
+  const [customName, setCustomName] = useState("");
+  const [customDescription, setCustomDescription] = useState("");
+  const [customFlags, setCustomFlags] = useState<Record<(typeof TERMS_FLAGS)[number], boolean>>({
+    commercialUse: false,
+    inGameUse: false,
+    marketingUse: false,
+    modificationAllowed: false,
+    resaleAllowed: false,
+    attributionRequired: true,
+    transferable: false,
+  });
+  const [customRevenueCap, setCustomRevenueCap] = useState("0"); // IP, 0 = unlimited
+  const [customLegalText, setCustomLegalText] = useState("");
+  const [pinningTerms, setPinningTerms] = useState(false);
+
   const { writeContract, data: hash, isPending, error } = useWriteContract();
   const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash });
 
@@ -354,6 +387,23 @@ export default function CreatePage() {
     }
   }, [offerSuccess, completedSteps]);
 
+  // Store the pinned custom terms once the CUSTOM offer is on-chain
+  useEffect(() => {
+    if (!offerSuccess || !offerHash || !chainId || preset !== "0") return;
+    fetch("/api/license/terms", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ chainId, txHash: offerHash }),
+    })
+      .then(async (res) => {
+        if (!res.ok) {
+          const json = await res.json().catch(() => ({}));
+          setOfferMessage(`Offer created, but its custom terms were not saved: ${json.error || res.status}`);
+        }
+      })
+      .catch(() => setOfferMessage("Offer created, but its custom terms were not saved."));
+  }, [offerSuccess, offerHash, chainId, preset]);
+
   const canFractionalize = useMemo(() => {
     return Boolean(
       isConnected &&
@@ -490,6 +540,40 @@ export default function CreatePage() {
     }
     try {
       setOfferMessage(null);
+
+      // CUSTOM preset: pin the terms document and use it as the offer uri
+      let offerUri = uriOffer || "ipfs://...";
+      if (preset === "0") {
+        const doc: CustomTermsDocument = {
+          schema: CUSTOM_TERMS_SCHEMA,
+          terms: {
+            name: customName.trim(),
+            description: customDescription.trim(),
+            ...customFlags,
+            revenueCap: parseEther(customRevenueCap || "0").toString(),
+          },
+          legalText: customLegalText,
+        };
+        const invalid = validateCustomTermsDocument(doc);
+        if (invalid) {
+          setOfferMessage(invalid);
+          return;
+        }
+
+        setPinningTerms(true);
+        const res = await fetch("/api/ipfs", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ name: `license-terms-asset-${assetIdForOffer}`, content: doc }),
+        }).finally(() => setPinningTerms(false));
+        const json = await res.json();
+        if (!res.ok || !json.uri) {
+          setOfferMessage("Failed to pin license terms to IPFS.");
+          return;
+        }
+        offerUri = json.uri;
+      }
+
       writeOffer({
         address: licenseManager,
         abi: LicenseManagerABI,
@@ -502,7 +586,7 @@ export default function CreatePage() {
           Number(preset || "0"),
           BigInt(maxSupply || "0"),
           BigInt(duration || "0"),
-          uriOffer || "ipfs://...",
+          offerUri,
         ],
       });
     } catch (err) {
@@ -1239,6 +1323,75 @@ export default function CreatePage() {
                   </div>
                 </div>
 
+                {/* Custom Terms Editor */}
+                {preset === "0" && (
+                  <div className="mb-8 bg-gray-800/40 border border-indigo-500/30 rounded-2xl p-6 space-y-5">
+                    <div>
+                      <h3 className="font-bold text-indigo-300">Custom License Terms</h3>
+                      <p className="text-xs text-gray-400 mt-1">Pinned to IPFS and used as the offer URI when the offer is created.</p>
+                    </div>
+                    <div className="grid md:grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-semibold text-gray-300 mb-2">Terms Name</label>
+                        <input
+                          type="text"
+                          value={customName}
+                          onChange={(e) => setCustomName(e.target.value)}
+                          placeholder="e.g. Studio Commercial License"
+                          className="w-full px-4 py-3 bg-gray-800/70 border border-gray-600/50 rounded-xl focus:outline-none focus:border-indigo-500 transition-all placeholder:text-gray-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-semibold text-gray-300 mb-2">Revenue Cap (IP)</label>
+                        <input
+                          type="text"
+                          value={customRevenueCap}
+                          onChange={(e) => setCustomRevenueCap(e.target.value)}
+                          placeholder="0"
+                          className="w-full px-4 py-3 bg-gray-800/70 border border-gray-600/50 rounded-xl focus:outline-none focus:border-indigo-500 transition-all placeholder:text-gray-500"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">0 = unlimited</p>
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-gray-300 mb-2">Description</label>
+                      <input
+                        type="text"
+                        value={customDescription}
+                        onChange={(e) => setCustomDescription(e.target.value)}
+                        placeholder="Short summary of the rights granted"
+                        className="w-full px-4 py-3 bg-gray-800/70 border border-gray-600/50 rounded-xl focus:outline-none focus:border-indigo-500 transition-all placeholder:text-gray-500"
+                      />
+                    </div>
+                    <div className="grid md:grid-cols-2 gap-2">
+                      {TERMS_FLAGS.map((flag) => (
+                        <label
+                          key={flag}
+                          className="flex items-center gap-3 px-4 py-2.5 bg-gray-800/60 border border-gray-700/50 rounded-xl cursor-pointer hover:border-indigo-500/50"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={customFlags[flag]}
+                            onChange={(e) => setCustomFlags((prev) => ({ ...prev, [flag]: e.target.checked }))}
+                            className="accent-indigo-500"
+                          />
+                          <span className="text-sm text-gray-300">{TERMS_FLAG_LABELS[flag]}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-gray-300 mb-2">Full Legal Text</label>
+                      <textarea
+                        value={customLegalText}
+                        onChange={(e) => setCustomLegalText(e.target.value)}
+                        rows={6}
+                        placeholder="Paste the complete license agreement"
+                        className="w-full px-4 py-3 bg-gray-800/70 border border-gray-600/50 rounded-xl focus:outline-none focus:border-indigo-500 transition-all placeholder:text-gray-500 font-mono text-xs"
+                      />
+                    </div>
+                  </div>
+                )}
+
                 <div className="grid md:grid-cols-3 gap-6 mb-8">
                   <div className="group">
                     <label className="block text-sm font-semibold text-gray-300 mb-3">Max Supply</label>
@@ -1313,16 +1466,16 @@ export default function CreatePage() {
 
                 <button
                   type="submit"
-                  disabled={offerPending || offerConfirming}
+                  disabled={offerPending || offerConfirming || pinningTerms}
                   className="w-full py-4 bg-gradient-to-r from-blue-600 via-cyan-500 to-cyan-600 hover:from-blue-500 hover:via-cyan-400 hover:to-cyan-500 disabled:from-gray-700 disabled:to-gray-700 disabled:cursor-not-allowed disabled:opacity-50 rounded-xl font-bold text-lg transition-all duration-300 flex items-center justify-center gap-3 shadow-lg shadow-blue-500/30 hover:shadow-blue-500/50 hover:scale-[1.02] active:scale-[0.98] disabled:shadow-none disabled:scale-100"
                 >
-                  {offerPending || offerConfirming ? (
+                  {offerPending || offerConfirming || pinningTerms ? (
                     <>
                       <svg className="animate-spin w-5 h-5" fill="none" viewBox="0 0 24 24">
                         <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
                         <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
                       </svg>
-                      {offerPending ? "Confirm in wallet..." : "Processing..."}
+                      {pinningTerms ? "Pinning terms..." : offerPending ? "Confirm in wallet..." : "Processing..."}
                     </>
                   ) : (
                     <>
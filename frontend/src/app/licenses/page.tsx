@@ -1,15 +1,29 @@
 "use client";
 
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
 import { ConnectButton } from "@rainbow-me/rainbowkit";
-import { useAccount, useReadContract, useReadContracts, useWriteContract, useWaitForTransactionReceipt } from "wagmi";
+import { useAccount, useReadContract, useReadContracts, useSignMessage, useWriteContract, useWaitForTransactionReceipt } from "wagmi";
 import { formatEther, parseEther } from "viem";
 import { getContractAddress } from "@/lib/contracts/addresses";
 import LicenseManagerABI from "@/lib/contracts/LicenseManager.json";
 import { MarketplaceNav } from "@/components/MarketplaceNav";
+import { buildRevocationMessage } from "@/lib/licenseLifecycle";
+import { CUSTOM_PRESET, LICENSE_USE_CASES, LicenseTerms, getPresetTerms, isUseCaseAllowed } from "@/lib/licenseTerms";
+import { ipfsToHttp } from "@/lib/ipfs";
+
+type IssuedLicense = {
+  id: string;
+  buyer: string;
+  licenseType: string;
+  status: string;
+  expiresAt: string | null;
+  revokedReason: string | null;
+  createdAt: string;
+};
 
 export default function LicensesPage() {
-  const { chainId, isConnected } = useAccount();
+  const { address, chainId, isConnected } = useAccount();
   const licenseManager = chainId ? getContractAddress(chainId, "LicenseManager") : undefined;
 
   const { data: totalOffers } = useReadContract({
@@ -70,6 +84,21 @@ export default function LicensesPage() {
     }[];
   }, [offersData]);
 
+  // Stored terms of CUSTOM-preset offers (by offerId)
+  const [customTerms, setCustomTerms] = useState<Record<number, { terms: LicenseTerms }>>({});
+  const customOfferIds = useMemo(
+    () => offers.filter((o) => Number(o.preset) === CUSTOM_PRESET).map((o) => o.offerId),
+    [offers]
+  );
+  useEffect(() => {
+    if (!chainId || customOfferIds.length === 0) return;
+    fetch(`/api/license/terms?chainId=${chainId}&offerIds=${customOfferIds.join(",")}`)
+      .then((res) => res.json())
+      .then((json) => setCustomTerms(json.data ?? {}))
+      .catch(() => setCustomTerms({}));
+  }, [chainId, customOfferIds]);
+  const termsOf = (offerId: number, preset: number) => customTerms[offerId]?.terms ?? getPresetTerms(preset);
+
   const [searchQuery, setSearchQuery] = useState("");
   const [sortBy, setSortBy] = useState<"newest" | "highest" | "lowest">("newest");
   const [assetIdInput, setAssetIdInput] = useState("1");
@@ -81,6 +110,15 @@ export default function LicensesPage() {
   const [durationInput, setDurationInput] = useState("0");
   const [uriInput, setUriInput] = useState("ipfs://...");
 
+  // Issued licenses (creator view)
+  const [issuedAssetId, setIssuedAssetId] = useState("1");
+  const [issuedLicenses, setIssuedLicenses] = useState<IssuedLicense[]>([]);
+  const [loadingIssued, setLoadingIssued] = useState(false);
+  const [revokeReasons, setRevokeReasons] = useState<Record<string, string>>({});
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [revokeError, setRevokeError] = useState<string | null>(null);
+  const { signMessageAsync } = useSignMessage();
+
   const filteredOffers = useMemo(() => {
     let filtered = offers;
 
@@ -143,6 +181,42 @@ export default function LicensesPage() {
     });
   };
 
+  const loadIssuedLicenses = async () => {
+    if (!issuedAssetId) return;
+    setLoadingIssued(true);
+    try {
+      const res = await fetch(`/api/licenses?assetId=${issuedAssetId}`);
+      const json = await res.json();
+      setIssuedLicenses(json.licenses ?? []);
+    } catch {
+      setIssuedLicenses([]);
+    } finally {
+      setLoadingIssued(false);
+    }
+  };
+
+  const handleRevoke = async (licenseId: string) => {
+    const reason = (revokeReasons[licenseId] ?? "").trim();
+    if (!address || !reason) return;
+    setRevokingId(licenseId);
+    setRevokeError(null);
+    try {
+      const signature = await signMessageAsync({ message: buildRevocationMessage(licenseId, reason) });
+      const res = await fetch("/api/license/revoke", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ licenseId, creatorAddress: address, reason, signature }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to revoke license");
+      await loadIssuedLicenses();
+    } catch (err) {
+      setRevokeError(err instanceof Error ? err.message : "Failed to revoke license");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
   return (
     <div className="min-h-screen text-white relative">
       <div className="fixed inset-0 z-0" style={{ backgroundImage: 'url(/purplewave.gif)', backgroundSize: 'cover', backgroundPosition: 'center', filter: 'blur(200px)', opacity: 0.3 }} />
@@ -153,7 +227,10 @@ export default function LicensesPage() {
         <div className="flex justify-between items-center">
           <div>
             <h1 className="text-3xl font-bold">License Market</h1>
-            <p className="text-gray-400">Create and buy license offers.</p>
+            <p className="text-gray-400">
+              Create and buy license offers.{" "}
+              <Link href="/licenses/royalties" className="text-purple-400 hover:text-purple-300">Royalty reports</Link>
+            </p>
           </div>
           {!isConnected && <ConnectButton />}
         </div>
@@ -374,6 +451,34 @@ export default function LicensesPage() {
                     <p className="text-sm text-gray-400">Price: {formatEther(o.price)} IP</p>
                     <p className="text-sm text-gray-400">Max supply: {o.maxSupply.toString() === "0" ? "Unlimited" : o.maxSupply.toString()}</p>
                     <p className="text-sm text-gray-400">Sold: {o.sold.toString()}</p>
+                    <p className="text-sm text-gray-400">
+                      Terms: {termsOf(o.offerId, Number(o.preset)).name}
+                      {customTerms[o.offerId] && (
+                        <a
+                          href={ipfsToHttp(customTerms[o.offerId].terms.additionalTermsURI)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="ml-2 text-purple-400 hover:text-purple-300"
+                        >
+                          Full text
+                        </a>
+                      )}
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      {LICENSE_USE_CASES.map((useCase) => {
+                        const allowed = isUseCaseAllowed(termsOf(o.offerId, Number(o.preset)), useCase);
+                        return (
+                          <span
+                            key={useCase}
+                            className={`px-2 py-0.5 rounded text-[10px] border ${
+                              allowed ? "border-green-500/40 text-green-400" : "border-gray-700 text-gray-500 line-through"
+                            }`}
+                          >
+                            {useCase}
+                          </span>
+                        );
+                      })}
+                    </div>
                     <p className="text-sm text-gray-400 break-all">URI: {o.uri}</p>
                     <button
                       onClick={() => handleBuy(o.offerId, o.price)}
@@ -388,6 +493,72 @@ export default function LicensesPage() {
             )}
           </div>
         </section>
+
+        <section className="bg-gray-900 border border-gray-800 rounded-lg p-4 space-y-4">
+          <div>
+            <h3 className="font-semibold">Issued Licenses</h3>
+            <p className="text-sm text-gray-400">Licenses sold for your asset. Revoking needs a reason and a wallet signature.</p>
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              value={issuedAssetId}
+              onChange={(e) => setIssuedAssetId(e.target.value)}
+              placeholder="Asset ID"
+              className="w-40 px-3 py-2 bg-gray-900 border border-gray-700 rounded focus:outline-none focus:border-purple-500"
+            />
+            <button
+              onClick={loadIssuedLicenses}
+              disabled={loadingIssued}
+              className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-700 rounded-lg font-medium transition text-sm"
+            >
+              {loadingIssued ? "Loading..." : "Load"}
+            </button>
+          </div>
+          {revokeError && <p className="text-xs text-red-400 break-all">Error: {revokeError}</p>}
+          {issuedLicenses.length === 0 ? (
+            <p className="text-gray-400 text-sm">No licenses loaded.</p>
+          ) : (
+            <div className="space-y-3">
+              {issuedLicenses.map((l) => (
+                <div key={l.id} className="border border-gray-800 rounded p-3 space-y-2 text-sm">
+                  <div className="flex justify-between text-gray-300">
+                    <span className="break-all">{l.buyer}</span>
+                    <span
+                      className={
+                        l.status === "ACTIVE" ? "text-green-400" : l.status === "REVOKED" ? "text-red-400" : "text-gray-500"
+                      }
+                    >
+                      {l.status}
+                    </span>
+                  </div>
+                  <p className="text-gray-400">
+                    {l.licenseType} · {l.expiresAt ? `expires ${new Date(l.expiresAt).toLocaleString()}` : "perpetual"}
+                  </p>
+                  {l.revokedReason && <p className="text-gray-500">Reason: {l.revokedReason}</p>}
+                  {l.status === "ACTIVE" && (
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={revokeReasons[l.id] ?? ""}
+                        onChange={(e) => setRevokeReasons((prev) => ({ ...prev, [l.id]: e.target.value }))}
+                        placeholder="Reason for revoking"
+                        className="flex-1 px-3 py-2 bg-gray-900 border border-gray-700 rounded focus:outline-none focus:border-purple-500"
+                      />
+                      <button
+                        onClick={() => handleRevoke(l.id)}
+                        disabled={!isConnected || revokingId === l.id || !(revokeReasons[l.id] ?? "").trim()}
+                        className="px-4 py-2 bg-red-600 hover:bg-red-700 disabled:bg-gray-700 disabled:cursor-not-allowed rounded-lg font-medium transition"
+                      >
+                        {revokingId === l.id ? "Revoking..." : "Revoke"}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
       </main>
       </div>
     </div>
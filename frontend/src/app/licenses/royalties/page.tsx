@@ -0,0 +1,287 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { ConnectButton } from "@rainbow-me/rainbowkit";
+import { useAccount, usePublicClient, useSignMessage, useWriteContract } from "wagmi";
+import { formatEther, parseEther } from "viem";
+import FractionalizerABI from "@/lib/contracts/Fractionalizer.json";
+import { MarketplaceNav } from "@/components/MarketplaceNav";
+import { getUserFriendlyError } from "@/lib/walletErrors";
+import { buildRoyaltyReportMessage } from "@/lib/royalty";
+
+type OwnedLicense = {
+  id: string;
+  assetId: number;
+  offerId: number | null;
+  licenseType: string;
+  status: string;
+  syncStatus: string;
+};
+
+type DepositTransaction = {
+  chainId: number;
+  address: `0x${string}`;
+  functionName: "depositToPool";
+  args: [string];
+  value: string;
+};
+
+type RoyaltyReportRow = {
+  id: string;
+  licenseId: string;
+  assetId: number;
+  poolId: number;
+  periodStart: string;
+  periodEnd: string;
+  revenue: string;
+  royaltyBPS: number;
+  royaltyDue: string;
+  status: "OUTSTANDING" | "PAID";
+  txHash: string | null;
+  transaction: DepositTransaction | null;
+};
+
+export default function RoyaltyReportsPage() {
+  const { address, isConnected } = useAccount();
+  const publicClient = usePublicClient();
+  const { writeContractAsync } = useWriteContract();
+  const { signMessageAsync } = useSignMessage();
+
+  const [licenses, setLicenses] = useState<OwnedLicense[]>([]);
+  const [reports, setReports] = useState<RoyaltyReportRow[]>([]);
+  const [totals, setTotals] = useState<{ paid: string; outstanding: string }>({ paid: "0", outstanding: "0" });
+
+  const [licenseId, setLicenseId] = useState("");
+  const [periodStart, setPeriodStart] = useState("");
+  const [periodEnd, setPeriodEnd] = useState("");
+  const [revenue, setRevenue] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [payingId, setPayingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: "error" | "success"; text: string } | null>(null);
+
+  const loadReports = useCallback(async () => {
+    if (!address) return;
+    try {
+      const res = await fetch(`/api/royalty/report?licensee=${address}`);
+      const json = await res.json();
+      setReports(json.data ?? []);
+      setTotals(json.totals ?? { paid: "0", outstanding: "0" });
+    } catch {
+      setReports([]);
+    }
+  }, [address]);
+
+  useEffect(() => {
+    if (!address) return;
+    fetch(`/api/licenses?buyer=${address}`)
+      .then((res) => res.json())
+      .then((json) => {
+        const owned = ((json.licenses ?? []) as OwnedLicense[]).filter(
+          (l) => l.offerId !== null && (l.syncStatus === "VERIFIED" || l.syncStatus === "RECOVERED")
+        );
+        setLicenses(owned);
+        if (owned.length > 0) setLicenseId((current) => current || owned[0].id);
+      })
+      .catch(() => setLicenses([]));
+    loadReports();
+  }, [address, loadReports]);
+
+  const payReport = async (report: { id: string; transaction: DepositTransaction | null }) => {
+    if (!report.transaction || !publicClient) return;
+    setPayingId(report.id);
+    setMessage(null);
+    try {
+      const hash = await writeContractAsync({
+        address: report.transaction.address,
+        abi: FractionalizerABI,
+        functionName: "depositToPool",
+        args: [BigInt(report.transaction.args[0])],
+        value: BigInt(report.transaction.value),
+      });
+      await publicClient.waitForTransactionReceipt({ hash });
+
+      const res = await fetch("/api/royalty/report", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reportId: report.id, txHash: hash }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to confirm payment");
+      setMessage({ type: "success", text: "Royalty paid into the dividend pool." });
+    } catch (err) {
+      const errorMsg = getUserFriendlyError(err);
+      if (errorMsg) setMessage({ type: "error", text: errorMsg });
+    } finally {
+      setPayingId(null);
+      loadReports();
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!address || !licenseId) return;
+    setSubmitting(true);
+    setMessage(null);
+    try {
+      const start = new Date(periodStart);
+      const end = new Date(periodEnd);
+      const signature = await signMessageAsync({
+        message: buildRoyaltyReportMessage(licenseId, start, end, parseEther(revenue)),
+      });
+
+      const res = await fetch("/api/royalty/report", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          licenseId,
+          licensee: address,
+          periodStart: start.toISOString(),
+          periodEnd: end.toISOString(),
+          revenue,
+          signature,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to submit report");
+
+      setRevenue("");
+      await loadReports();
+      if (json.transaction) {
+        await payReport({ id: json.report.id, transaction: json.transaction });
+      } else {
+        setMessage({ type: "success", text: "Report recorded, no royalty due." });
+      }
+    } catch (err) {
+      setMessage({ type: "error", text: err instanceof Error ? err.message : "Failed to submit report" });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded focus:outline-none focus:border-purple-500";
+
+  return (
+    <div className="min-h-screen text-white relative">
+      <div className="fixed inset-0 z-0" style={{ backgroundImage: 'url(/purplewave.gif)', backgroundSize: 'cover', backgroundPosition: 'center', filter: 'blur(200px)', opacity: 0.3 }} />
+      <div className="relative z-10">
+      <MarketplaceNav />
+
+      <main className="max-w-7xl mx-auto px-6 py-12 space-y-10">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Royalty Reports</h1>
+            <p className="text-gray-400">
+              Declare revenue per period and pay the royalty into the asset&apos;s dividend pool.{" "}
+              <Link href="/licenses" className="text-purple-400 hover:text-purple-300">Back to licenses</Link>
+            </p>
+          </div>
+          {!isConnected && <ConnectButton />}
+        </div>
+
+        {message && (
+          <div
+            className={`rounded-lg p-3 text-sm border ${
+              message.type === "error"
+                ? "bg-red-500/10 border-red-500/30 text-red-400"
+                : "bg-green-500/10 border-green-500/30 text-green-400"
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        <section className="grid md:grid-cols-3 gap-6">
+          <form onSubmit={handleSubmit} className="bg-gray-900 border border-gray-800 rounded-lg p-4 space-y-3">
+            <h3 className="font-semibold">New Report</h3>
+            <div className="space-y-2">
+              <label className="block text-sm text-gray-400">License</label>
+              <select value={licenseId} onChange={(e) => setLicenseId(e.target.value)} className={inputClass}>
+                {licenses.length === 0 && <option value="">No verified licenses</option>}
+                {licenses.map((l) => (
+                  <option key={l.id} value={l.id}>
+                    Asset #{l.assetId} · Offer #{l.offerId} · {l.licenseType} ({l.status})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <label className="block text-sm text-gray-400">Period start</label>
+                <input type="date" value={periodStart} onChange={(e) => setPeriodStart(e.target.value)} className={inputClass} />
+              </div>
+              <div className="space-y-2">
+                <label className="block text-sm text-gray-400">Period end</label>
+                <input type="date" value={periodEnd} onChange={(e) => setPeriodEnd(e.target.value)} className={inputClass} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <label className="block text-sm text-gray-400">Revenue (IP)</label>
+              <input
+                type="text"
+                value={revenue}
+                onChange={(e) => setRevenue(e.target.value)}
+                placeholder="0.0"
+                className={inputClass}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={!isConnected || submitting || !licenseId || !periodStart || !periodEnd || !revenue}
+              className="w-full py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-700 disabled:cursor-not-allowed rounded-lg font-medium transition"
+            >
+              {submitting ? "Submitting..." : "Submit & Pay Royalty"}
+            </button>
+          </form>
+
+          <div className="md:col-span-2 bg-gray-900 border border-gray-800 rounded-lg p-4 space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="bg-gray-800/50 rounded-lg p-3">
+                <p className="text-xs text-gray-500">Outstanding</p>
+                <p className="text-xl font-bold text-yellow-400">{formatEther(BigInt(totals.outstanding))} IP</p>
+              </div>
+              <div className="bg-gray-800/50 rounded-lg p-3">
+                <p className="text-xs text-gray-500">Paid</p>
+                <p className="text-xl font-bold text-green-400">{formatEther(BigInt(totals.paid))} IP</p>
+              </div>
+            </div>
+
+            {reports.length === 0 ? (
+              <p className="text-gray-400 text-sm">No royalty reports yet.</p>
+            ) : (
+              <div className="space-y-3 max-h-[520px] overflow-auto pr-2">
+                {reports.map((r) => (
+                  <div key={r.id} className="border border-gray-800 rounded p-3 space-y-1 text-sm">
+                    <div className="flex justify-between text-gray-300">
+                      <span>
+                        Asset #{r.assetId} · {new Date(r.periodStart).toLocaleDateString()} -{" "}
+                        {new Date(r.periodEnd).toLocaleDateString()}
+                      </span>
+                      <span className={r.status === "PAID" ? "text-green-400" : "text-yellow-400"}>{r.status}</span>
+                    </div>
+                    <p className="text-gray-400">
+                      Revenue {formatEther(BigInt(r.revenue))} IP · {r.royaltyBPS / 100}% ·{" "}
+                      Due {formatEther(BigInt(r.royaltyDue))} IP → pool #{r.poolId}
+                    </p>
+                    {r.txHash && <p className="text-xs text-gray-500 break-all">TX: {r.txHash}</p>}
+                    {r.status === "OUTSTANDING" && r.transaction && (
+                      <button
+                        onClick={() => payReport(r)}
+                        disabled={payingId === r.id}
+                        className="mt-1 px-4 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 rounded-lg text-xs font-medium transition"
+                      >
+                        {payingId === r.id ? "Paying..." : "Pay royalty"}
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </section>
+      </main>
+      </div>
+    </div>
+  );
+}
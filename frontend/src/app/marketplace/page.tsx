@@ -1,73 +1,71 @@
 "use client";
 
-import { useAccount, useReadContract, useReadContracts, useWriteContract, useWaitForTransactionReceipt } from "wagmi";
+import { useAccount, useWriteContract, useWaitForTransactionReceipt } from "wagmi";
 import { useEffect, useMemo, useState, useCallback } from "react";
 import Link from "next/link";
 import { parseEther, parseUnits, formatEther, formatUnits } from "viem";
 import { getContractAddress } from "@/lib/contracts/addresses";
-import AssetRegistryABI from "@/lib/contracts/AssetRegistry.json";
-import FractionalizerABI from "@/lib/contracts/Fractionalizer.json";
 import LicenseManagerABI from "@/lib/contracts/LicenseManager.json";
-import { ipfsHttpGateways } from "@/lib/ipfs";
+import { ipfsHttpGateways, ipfsToHttp } from "@/lib/ipfs";
 import { AssetMedia } from "@/components/AssetMedia";
 import { useOrderExecution } from "@/hooks/useOrderExecution";
+import { useSignOrder } from "@/hooks/useSignOrder";
 import { MarketplaceNav } from "@/components/MarketplaceNav";
 import { getUserFriendlyError } from "@/lib/walletErrors";
+import { CUSTOM_PRESET, LICENSE_USE_CASES, LicenseTerms, getPresetTerms, isUseCaseAllowed } from "@/lib/licenseTerms";
 
 export default function MarketplacePage() {
   const { chainId, address, isConnected } = useAccount();
-  const registryAddress = chainId ? getContractAddress(chainId, "AssetRegistry") : undefined;
-  const fractionalizerAddress = chainId ? getContractAddress(chainId, "Fractionalizer") : undefined;
   const licenseManager = chainId ? getContractAddress(chainId, "LicenseManager") : undefined;
   const { executeTrade } = useOrderExecution();
+  const { signOrder, signCancelOrder } = useSignOrder();
+
+  // Assets, their license offers and pools come from the chain indexer
+  type CatalogAsset = {
+    assetId: number;
+    creator: string;
+    metadataURI: string;
+    royaltyBPS: number;
+    tokenId: string;
+    nftContract: string;
+    offers: { offerId: number; price: string; licenseType: number; preset: number; active: boolean; uri: string | null }[];
+  };
+
+  const [catalogAssets, setCatalogAssets] = useState<CatalogAsset[]>([]);
+  const [totalAssets, setTotalAssets] = useState<number | null>(null);
+  const [assetsLoading, setAssetsLoading] = useState(false);
 
-  // Assets
-  const { data: totalAssets } = useReadContract({
-    address: registryAddress,
-    abi: AssetRegistryABI,
-    functionName: "totalAssets",
-  });
-
-  const assetQueries = useMemo(() => {
-    if (!registryAddress || !totalAssets || totalAssets === 0n) return [];
-    return Array.from({ length: Number(totalAssets) }, (_, idx) => ({
-      address: registryAddress,
-      abi: AssetRegistryABI as any,
-      functionName: "getAsset",
-      args: [BigInt(idx + 1)],
-    }));
-  }, [registryAddress, totalAssets]);
-
-  const { data: assetsData, isLoading: assetsLoading } = useReadContracts({
-    contracts: assetQueries,
-    query: { enabled: assetQueries.length > 0 },
-  });
-
-  const assets = useMemo(() => {
-    if (!assetsData) return [];
-    return assetsData
-      .map((entry, idx) => {
-        if (!entry || entry.status !== "success") return null;
-        const asset: any = entry.result;
-        if (!asset?.exists) return null;
-        return {
-          id: idx + 1,
-          creator: asset.creator,
-          metadataURI: asset.metadataURI,
-          royaltyBPS: Number(asset.defaultRoyaltyBPS ?? 0),
-          tokenId: asset.tokenId,
-          nftContract: asset.nftContract,
-        };
-      })
-      .filter(Boolean) as {
-      id: number;
-      creator: string;
-      metadataURI: string;
-      royaltyBPS: number;
-      tokenId: bigint;
-      nftContract: string;
-    }[];
-  }, [assetsData]);
+  useEffect(() => {
+    if (!chainId) return;
+    const fetchAssets = async () => {
+      setAssetsLoading(true);
+      try {
+        const res = await fetch(`/api/assets?chainId=${chainId}&limit=100`);
+        const json = await res.json();
+        if (!res.ok) throw new Error(json?.error || "Failed to load assets");
+        setCatalogAssets(json.data || []);
+        setTotalAssets(json.pagination?.total ?? null);
+      } catch (err) {
+        console.error("Error fetching assets:", err);
+      } finally {
+        setAssetsLoading(false);
+      }
+    };
+    fetchAssets();
+  }, [chainId]);
+
+  const assets = useMemo(
+    () =>
+      catalogAssets.map((asset) => ({
+        id: asset.assetId,
+        creator: asset.creator,
+        metadataURI: asset.metadataURI,
+        royaltyBPS: asset.royaltyBPS,
+        tokenId: BigInt(asset.tokenId),
+        nftContract: asset.nftContract,
+      })),
+    [catalogAssets]
+  );
 
   const [metaMap, setMetaMap] = useState<
     Record<number, { name?: string; description?: string; image?: string; mimeType?: string; filename?: string }>
@@ -124,42 +122,44 @@ export default function MarketplacePage() {
   const selectedMeta = selectedAsset ? metaMap[selectedAsset.id] : undefined;
   const selectedImage = selectedMeta?.image;
 
-  // License offers (on-chain)
-  const { data: totalOffers } = useReadContract({
-    address: licenseManager,
-    abi: LicenseManagerABI,
-    functionName: "totalOffers",
-  });
-
-  const offerQueries = useMemo(() => {
-    if (!licenseManager || !totalOffers || totalOffers === 0n) return [];
-    return Array.from({ length: Number(totalOffers) }, (_, idx) => ({
-      address: licenseManager,
-      abi: LicenseManagerABI as any,
-      functionName: "offers",
-      args: [BigInt(idx + 1)],
-    }));
-  }, [licenseManager, totalOffers]);
-
-  const { data: offersData } = useReadContracts({
-    contracts: offerQueries,
-    query: { enabled: offerQueries.length > 0 },
-  });
-
+  // License offers (latest active offer per asset)
   const offersByAssetId = useMemo(() => {
-    if (!offersData) return {};
-    return offersData.reduce<Record<number, { assetId: number; offerId: number; price: bigint; ltype: number; preset: number; uri: string }>>(
-      (acc, entry) => {
-        if (!entry || entry.status !== "success") return acc;
-        const [offerId, assetId, , price, , ltype, preset, maxSupply, sold, duration, active, uri] =
-          entry.result as any;
-        if (!active) return acc;
-        acc[Number(assetId)] = { assetId: Number(assetId), offerId: Number(offerId), price, ltype, preset, uri };
+    return catalogAssets.reduce<Record<number, { assetId: number; offerId: number; price: bigint; ltype: number; preset: number; uri: string }>>(
+      (acc, asset) => {
+        for (const offer of asset.offers) {
+          if (!offer.active) continue;
+          acc[asset.assetId] = {
+            assetId: asset.assetId,
+            offerId: offer.offerId,
+            price: BigInt(offer.price),
+            ltype: offer.licenseType,
+            preset: offer.preset,
+            uri: offer.uri ?? "",
+          };
+        }
         return acc;
       },
       {}
     );
-  }, [offersData]);
+  }, [catalogAssets]);
+
+  // Stored terms of CUSTOM-preset offers (by offerId)
+  const [customTerms, setCustomTerms] = useState<Record<number, { terms: LicenseTerms }>>({});
+  const customOfferIds = useMemo(
+    () =>
+      Object.values(offersByAssetId)
+        .filter((offer) => offer.preset === CUSTOM_PRESET)
+        .map((offer) => offer.offerId),
+    [offersByAssetId]
+  );
+  useEffect(() => {
+    if (!chainId || customOfferIds.length === 0) return;
+    fetch(`/api/license/terms?chainId=${chainId}&offerIds=${customOfferIds.join(",")}`)
+      .then((res) => res.json())
+      .then((json) => setCustomTerms(json.data ?? {}))
+      .catch(() => setCustomTerms({}));
+  }, [chainId, customOfferIds]);
+  const termsOf = (offerId: number, preset: number) => customTerms[offerId]?.terms ?? getPresetTerms(preset);
 
   // Helper function to determine media category based on mimeType
   const getMediaCategory = (mimeType?: string): "3d" | "image" | "audio" | "other" => {
@@ -180,12 +180,13 @@ export default function MarketplacePage() {
     });
   }, [assets, metaMap, selectedCategory]);
 
-  // Group assets by license preset
+  // Group assets by license preset (keys = LicensePreset.PresetType)
   const assetsByPreset = useMemo(() => {
     const grouped = {
-      0: [] as typeof assets, // In-Game Commercial
-      1: [] as typeof assets, // Trailer & Marketing
-      2: [] as typeof assets, // Educational & Indie
+      [CUSTOM_PRESET]: [] as typeof assets, // Custom terms
+      1: [] as typeof assets, // In-Game Commercial
+      2: [] as typeof assets, // Trailer & Marketing
+      3: [] as typeof assets, // Educational & Indie
       none: [] as typeof assets, // No license
     };
 
@@ -193,10 +194,11 @@ export default function MarketplacePage() {
       const offer = offersByAssetId[asset.id];
       if (offer) {
         const preset = offer.preset;
-        if (preset === 0 || preset === 1 || preset === 2) {
+        if (preset === 1 || preset === 2 || preset === 3) {
           grouped[preset].push(asset);
         } else {
-          grouped.none.push(asset);
+          // Unknown presets resolve to CUSTOM, like the contract does
+          grouped[CUSTOM_PRESET].push(asset);
         }
       } else {
         grouped.none.push(asset);
@@ -211,7 +213,7 @@ export default function MarketplacePage() {
   const [userHasLicense, setUserHasLicense] = useState(false);
   const { writeContract: writeLicense, data: buyHash, error: buyError } = useWriteContract();
   const { isLoading: buyConfirming, isSuccess: buySuccess } = useWaitForTransactionReceipt({ hash: buyHash });
-  const [pendingOffer, setPendingOffer] = useState<{ assetId: number; offer: { price: bigint; ltype: number; uri: string } } | null>(null);
+  const [pendingOffer, setPendingOffer] = useState<{ assetId: number; offerId: number } | null>(null);
 
   useEffect(() => {
     if (buySuccess) {
@@ -219,21 +221,18 @@ export default function MarketplacePage() {
       setPurchasingLicense(false);
       setUserHasLicense(true);
 
-      // Sync to backend DB so portfolio can show it
+      // Sync to backend DB so portfolio can show it (server verifies the receipt)
       (async () => {
-        if (!pendingOffer || !address) return;
+        if (!pendingOffer || !address || !buyHash) return;
         try {
           await fetch("/api/license/purchase", {
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({
-              assetId: pendingOffer.assetId,
               buyerAddress: address,
-              priceInEth: formatEther(pendingOffer.offer.price),
-              licenseType: pendingOffer.offer.ltype === 1 ? "EXCLUSIVE" : "NON_EXCLUSIVE",
-              ltype: pendingOffer.offer.ltype,
               txHash: buyHash,
-              uri: pendingOffer.offer.uri,
+              chainId,
+              offerId: pendingOffer.offerId,
             }),
           });
         } catch (err) {
@@ -241,7 +240,7 @@ export default function MarketplacePage() {
         }
       })();
     }
-  }, [buySuccess, pendingOffer, address, buyHash]);
+  }, [buySuccess, pendingOffer, address, buyHash, chainId]);
 
   useEffect(() => {
     if (buyError) {
@@ -271,60 +270,45 @@ export default function MarketplacePage() {
   }, [selectedAsset?.id, address]);
 
   // Pools
-  const { data: totalPools } = useReadContract({
-    address: fractionalizerAddress,
-    abi: FractionalizerABI,
-    functionName: "totalPools",
-  });
-
-  const poolQueries = useMemo(() => {
-    if (!fractionalizerAddress || !totalPools || totalPools === 0n) return [];
-    return Array.from({ length: Number(totalPools) }, (_, idx) => ({
-      address: fractionalizerAddress,
-      abi: FractionalizerABI as any,
-      functionName: "poolInfo",
-      args: [BigInt(idx + 1)],
-    }));
-  }, [fractionalizerAddress, totalPools]);
-
-  const { data: poolData } = useReadContracts({
-    contracts: poolQueries,
-    query: { enabled: poolQueries.length > 0 },
-  });
-
-  const pools = useMemo(() => {
-    if (!poolData) return [];
-    return poolData
-      .map((entry, idx) => {
-        if (!entry || entry.status !== "success") return null;
-        const [nftContract, tokenId, ftAddress, totalFractions, originalOwner, salePricePerToken, amountForSale, sold, active] =
-          entry.result as any;
-        return {
-          id: idx + 1,
-          nftContract,
-          tokenId,
-          ftAddress,
-          totalFractions,
-          originalOwner,
-          salePricePerToken,
-          amountForSale,
-          sold,
-          active,
-        };
-      })
-      .filter(Boolean) as {
-      id: number;
-      nftContract: string;
-      tokenId: bigint;
-      ftAddress: string;
-      totalFractions: bigint;
-      originalOwner: string;
-      salePricePerToken: bigint;
-      amountForSale: bigint;
-      sold: bigint;
-      active: boolean;
-    }[];
-  }, [poolData]);
+  type CatalogPool = {
+    poolId: number;
+    nftContract: string | null;
+    tokenId: string | null;
+    ftAddress: string;
+    totalSupply: string;
+    owner: string;
+    salePricePerToken: string;
+    amountForSale: string;
+    amountSold: string;
+    active: boolean;
+  };
+
+  const [catalogPools, setCatalogPools] = useState<CatalogPool[]>([]);
+
+  useEffect(() => {
+    if (!chainId) return;
+    fetch(`/api/pools?chainId=${chainId}&limit=100`)
+      .then((res) => res.json())
+      .then((json) => setCatalogPools(json.data || []))
+      .catch((err) => console.error("Error fetching pools:", err));
+  }, [chainId]);
+
+  const pools = useMemo(
+    () =>
+      catalogPools.map((pool) => ({
+        id: pool.poolId,
+        nftContract: pool.nftContract ?? "",
+        tokenId: BigInt(pool.tokenId ?? 0),
+        ftAddress: pool.ftAddress,
+        totalFractions: BigInt(pool.totalSupply),
+        originalOwner: pool.owner,
+        salePricePerToken: BigInt(pool.salePricePerToken),
+        amountForSale: BigInt(pool.amountForSale),
+        sold: BigInt(pool.amountSold),
+        active: pool.active,
+      })),
+    [catalogPools]
+  );
 
   // Off-chain orders (Prisma)
   type OffchainOrder = {
@@ -502,13 +486,26 @@ export default function MarketplacePage() {
     const expiresAt = new Date();
     expiresAt.setDate(expiresAt.getDate() + (isNaN(days) ? 7 : days));
 
+    const expiresAtSeconds = Math.floor(expiresAt.getTime() / 1000);
+
     setCreatingOrder(true);
     setOrdersMessage(null);
     try {
+      // Sign order with EIP-712 before submitting
+      const signed = await signOrder({
+        side: orderSide,
+        poolId: sellPoolId,
+        ftAddress: ftAddressForOrder,
+        amount: amountWei.toString(),
+        pricePerToken: priceWei.toString(),
+        expiresAt: expiresAtSeconds,
+      });
+
       const res = await fetch("/api/orders/create", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
+          orderId: signed.orderId,
           userAddress: address,
           side: orderSide,
           poolId: sellPoolId,
@@ -516,9 +513,9 @@ export default function MarketplacePage() {
           amount: amountWei.toString(),
           pricePerToken: priceWei.toString(),
           chainId,
-          signature: null,
-          nonce: 0,
-          expiresAt: expiresAt.toISOString(),
+          signature: signed.signature,
+          nonce: signed.nonce,
+          expiresAt: expiresAtSeconds,
         }),
       });
       const json = await res.json();
@@ -562,10 +559,11 @@ export default function MarketplacePage() {
       return;
     }
     try {
+      const signed = await signCancelOrder(orderId);
       const res = await fetch("/api/orders/cancel", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ orderId, userAddress: address }),
+        body: JSON.stringify(signed),
       });
       const json = await res.json();
       if (!res.ok) {
@@ -674,7 +672,7 @@ export default function MarketplacePage() {
           <div>
             <h1 className="text-3xl font-bold">License Market</h1>
             <p className="text-gray-400 mt-1">
-              {totalAssets ? `${totalAssets.toString()} assets registered` : "Registered assets + licenses"}
+              {totalAssets ? `${totalAssets} assets registered` : "Registered assets + licenses"}
             </p>
           </div>
           <div className="flex gap-3">
@@ -755,7 +753,7 @@ export default function MarketplacePage() {
         ) : (
           <div className="space-y-12">
             {/* In-Game Commercial Section */}
-            {assetsByPreset[0].length > 0 && (
+            {assetsByPreset[1].length > 0 && (
               <section>
                 <div className="flex items-center gap-3 mb-6">
                   <div className="w-1 h-8 bg-gradient-to-b from-purple-500 to-purple-700 rounded-full"></div>
@@ -766,7 +764,7 @@ export default function MarketplacePage() {
                   <div className="flex-1 h-px bg-gradient-to-r from-purple-500/20 to-transparent"></div>
                 </div>
                 <div className="grid md:grid-cols-3 lg:grid-cols-4 gap-6">
-                  {assetsByPreset[0].map((asset) => {
+                  {assetsByPreset[1].map((asset) => {
                     const meta = metaMap[asset.id];
                     const imgSrc = meta?.image;
                     const offer = offersByAssetId[asset.id];
@@ -812,7 +810,7 @@ export default function MarketplacePage() {
             )}
 
             {/* Trailer & Marketing Section */}
-            {assetsByPreset[1].length > 0 && (
+            {assetsByPreset[2].length > 0 && (
               <section>
                 <div className="flex items-center gap-3 mb-6">
                   <div className="w-1 h-8 bg-gradient-to-b from-blue-500 to-blue-700 rounded-full"></div>
@@ -823,7 +821,7 @@ export default function MarketplacePage() {
                   <div className="flex-1 h-px bg-gradient-to-r from-blue-500/20 to-transparent"></div>
                 </div>
                 <div className="grid md:grid-cols-3 lg:grid-cols-4 gap-6">
-                  {assetsByPreset[1].map((asset) => {
+                  {assetsByPreset[2].map((asset) => {
                     const meta = metaMap[asset.id];
                     const imgSrc = meta?.image;
                     const offer = offersByAssetId[asset.id];
@@ -869,7 +867,7 @@ export default function MarketplacePage() {
             )}
 
             {/* Educational & Indie Section */}
-            {assetsByPreset[2].length > 0 && (
+            {assetsByPreset[3].length > 0 && (
               <section>
                 <div className="flex items-center gap-3 mb-6">
                   <div className="w-1 h-8 bg-gradient-to-b from-green-500 to-green-700 rounded-full"></div>
@@ -880,7 +878,7 @@ export default function MarketplacePage() {
                   <div className="flex-1 h-px bg-gradient-to-r from-green-500/20 to-transparent"></div>
                 </div>
                 <div className="grid md:grid-cols-3 lg:grid-cols-4 gap-6">
-                  {assetsByPreset[2].map((asset) => {
+                  {assetsByPreset[3].map((asset) => {
                     const meta = metaMap[asset.id];
                     const imgSrc = meta?.image;
                     const offer = offersByAssetId[asset.id];
@@ -925,6 +923,66 @@ export default function MarketplacePage() {
               </section>
             )}
 
+            {/* Custom Terms Section */}
+            {assetsByPreset[CUSTOM_PRESET].length > 0 && (
+              <section>
+                <div className="flex items-center gap-3 mb-6">
+                  <div className="w-1 h-8 bg-gradient-to-b from-amber-500 to-amber-700 rounded-full"></div>
+                  <div>
+                    <h2 className="text-2xl font-bold text-white">Custom Terms</h2>
+                    <p className="text-sm text-gray-400">Assets licensed under terms set by their creator</p>
+                  </div>
+                  <div className="flex-1 h-px bg-gradient-to-r from-amber-500/20 to-transparent"></div>
+                </div>
+                <div className="grid md:grid-cols-3 lg:grid-cols-4 gap-6">
+                  {assetsByPreset[CUSTOM_PRESET].map((asset) => {
+                    const meta = metaMap[asset.id];
+                    const imgSrc = meta?.image;
+                    const offer = offersByAssetId[asset.id];
+                    return (
+                      <button
+                        key={asset.id}
+                        onClick={() => setSelectedId(asset.id)}
+                        className="text-left bg-gradient-to-br from-gray-900 to-gray-900/50 border border-amber-500/30 rounded-xl overflow-hidden hover:border-amber-500 hover:shadow-lg hover:shadow-amber-500/20 transition-all cursor-pointer"
+                      >
+                        <div className="aspect-square bg-gray-800 flex items-center justify-center relative">
+                          {imgSrc ? (
+                            <AssetMedia
+                              src={imgSrc}
+                              alt={meta?.name || `Asset ${asset.id}`}
+                              mimeType={meta?.mimeType}
+                              filename={meta?.filename}
+                              interactive={false}
+                            />
+                          ) : (
+                            <svg className="w-12 h-12 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                            </svg>
+                          )}
+                          <div className="absolute top-2 right-2 px-2 py-1 bg-amber-600/90 backdrop-blur-sm text-white text-xs font-semibold rounded">
+                            Custom
+                          </div>
+                        </div>
+                        <div className="p-4 space-y-2">
+                          <h3 className="font-semibold text-white">{meta?.name || `Asset #${asset.id}`}</h3>
+                          <p className="text-sm text-gray-400 line-clamp-2">{meta?.description || "No description"}</p>
+                          {offer && (
+                            <>
+                              <p className="text-xs text-amber-300 truncate">{termsOf(offer.offerId, offer.preset).name}</p>
+                              <div className="flex items-center justify-between pt-2 border-t border-gray-800">
+                                <span className="text-lg font-bold text-amber-400">{formatEther(offer.price)} IP</span>
+                                <span className="text-xs text-gray-500">#{asset.tokenId.toString()}</span>
+                              </div>
+                            </>
+                          )}
+                        </div>
+                      </button>
+                    );
+                  })}
+                </div>
+              </section>
+            )}
+
             {/* No License Section */}
             {assetsByPreset.none.length > 0 && (
               <section>
@@ -1108,6 +1166,38 @@ export default function MarketplacePage() {
                           </div>
                         </div>
 
+                        <div className="bg-gray-900/50 border border-gray-700/50 rounded-xl p-4 space-y-2">
+                          <p className="text-xs text-gray-400 uppercase tracking-wider">Terms</p>
+                          <p className="text-sm font-semibold text-white">
+                            {termsOf(offer.offerId, offer.preset).name}
+                            {customTerms[offer.offerId] && (
+                              <a
+                                href={ipfsToHttp(customTerms[offer.offerId].terms.additionalTermsURI)}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="ml-2 text-xs font-normal text-purple-400 hover:text-purple-300"
+                              >
+                                Full text
+                              </a>
+                            )}
+                          </p>
+                          <div className="flex flex-wrap gap-1">
+                            {LICENSE_USE_CASES.map((useCase) => {
+                              const allowed = isUseCaseAllowed(termsOf(offer.offerId, offer.preset), useCase);
+                              return (
+                                <span
+                                  key={useCase}
+                                  className={`px-2 py-0.5 rounded text-[10px] border ${
+                                    allowed ? "border-green-500/40 text-green-400" : "border-gray-700 text-gray-500 line-through"
+                                  }`}
+                                >
+                                  {useCase}
+                                </span>
+                              );
+                            })}
+                          </div>
+                        </div>
+
                         {licenseMessage && (
                           <div
                             className={`text-sm p-4 rounded-xl backdrop-blur-sm ${
@@ -1132,10 +1222,7 @@ export default function MarketplacePage() {
                             }
 
                             // Track which offer we are buying for DB sync later
-                            setPendingOffer({
-                              assetId: selectedAsset.id,
-                              offer: { price: offer.price, ltype: offer.ltype, uri: offer.uri },
-                            });
+                            setPendingOffer({ assetId: selectedAsset.id, offerId: offer.offerId });
 
                             setPurchasingLicense(true);
                             setLicenseMessage("Confirm in wallet...");
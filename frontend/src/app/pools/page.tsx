@@ -4,7 +4,6 @@ import { useEffect, useMemo, useState } from "react";
 import { ConnectButton } from "@rainbow-me/rainbowkit";
 import {
   useAccount,
-  useReadContract,
   useReadContracts,
   useWriteContract,
   useWaitForTransactionReceipt,
@@ -50,7 +49,7 @@ const ERC20_ABI = [
     inputs: [],
     outputs: [{ name: "", type: "string" }],
   },
-];
+] as const;
 
 type TokenMeta = {
   ftName?: string;
@@ -66,130 +65,103 @@ export default function PoolsPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [sortBy, setSortBy] = useState<"newest" | "highest" | "lowest">("newest");
   const [amountInputs, setAmountInputs] = useState<Record<number, string>>({});
-  const [tokenMetadata, setTokenMetadata] = useState<Record<number, TokenMeta>>({});
 
-  const { data: totalPools } = useReadContract({
-    address: fractionalizerAddress,
-    abi: FractionalizerABI,
-    functionName: "totalPools",
-  });
+  // Pools + token metadata from the chain indexer (/api/pools)
+  type CatalogPool = {
+    poolId: number;
+    nftContract: string | null;
+    tokenId: string | null;
+    ftAddress: string;
+    totalSupply: string;
+    owner: string;
+    salePricePerToken: string;
+    amountForSale: string;
+    amountSold: string;
+    active: boolean;
+    token: TokenMeta | null;
+  };
 
-  const poolQueries = useMemo(() => {
-    if (!fractionalizerAddress || !totalPools || totalPools === 0n) return [];
-    const count = Number(totalPools);
-    return Array.from({ length: count }, (_, idx) => ({
-      address: fractionalizerAddress,
-      abi: FractionalizerABI as any,
-      functionName: "poolInfo",
-      args: [BigInt(idx + 1)],
-    }));
-  }, [fractionalizerAddress, totalPools]);
+  const [catalogPools, setCatalogPools] = useState<CatalogPool[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
 
-  const { data: poolData, isLoading } = useReadContracts({
-    contracts: poolQueries,
-    query: { enabled: poolQueries.length > 0 },
-  });
+  useEffect(() => {
+    if (!chainId) return;
+    const fetchPools = async () => {
+      setIsLoading(true);
+      try {
+        const res = await fetch(`/api/pools?chainId=${chainId}&limit=100`);
+        const json = await res.json();
+        if (!res.ok) throw new Error(json?.error || "Failed to load pools");
+        setCatalogPools(json.data || []);
+      } catch (err) {
+        console.error("Error fetching pools:", err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchPools();
+  }, [chainId]);
 
   // Read allowances for each pool (originalOwner -> fractionalizer)
   const allowanceQueries = useMemo(() => {
-    if (!fractionalizerAddress || !poolData) return [];
-    return poolData.map((entry) => {
-      if (!entry || entry.status !== "success") return null;
-      const [, , ftAddress, , originalOwner] = entry.result as any;
-      return {
-        address: ftAddress as `0x${string}`,
-        abi: ERC20_ABI,
-        functionName: "allowance",
-        args: [originalOwner, fractionalizerAddress],
-      };
-    }).filter(Boolean) as any[];
-  }, [fractionalizerAddress, poolData]);
+    if (!fractionalizerAddress) return [];
+    return catalogPools.map((pool) => ({
+      address: pool.ftAddress as `0x${string}`,
+      abi: ERC20_ABI,
+      functionName: "allowance" as const,
+      args: [pool.owner, fractionalizerAddress],
+    }));
+  }, [fractionalizerAddress, catalogPools]);
 
   const { data: allowanceData } = useReadContracts({
     contracts: allowanceQueries,
     query: { enabled: allowanceQueries.length > 0 },
   });
 
-  const pools = useMemo(() => {
-    if (!poolData) return [];
-    return poolData
-      .map((entry, idx) => {
-        if (!entry || entry.status !== "success") return null;
-        const [nftContract, tokenId, ftAddress, totalFractions, originalOwner, salePricePerToken, amountForSale, sold, active] =
-          entry.result as any;
-        return {
-          id: idx + 1,
-          nftContract,
-          tokenId,
-          ftAddress,
-          totalFractions,
-          originalOwner,
-          salePricePerToken,
-          amountForSale,
-          sold,
-          active,
-          allowance: allowanceData && allowanceData[idx] && allowanceData[idx].status === "success" ? (allowanceData[idx].result as bigint) : 0n,
-        };
-      })
-      .filter(Boolean) as {
-      id: number;
-      nftContract: string;
-      tokenId: bigint;
-      ftAddress: string;
-      totalFractions: bigint;
-      originalOwner: string;
-      salePricePerToken: bigint;
-      amountForSale: bigint;
-      sold: bigint;
-      active: boolean;
-      allowance: bigint;
-    }[];
-  }, [poolData, allowanceData]);
-
-  useEffect(() => {
-    const fetchMeta = async () => {
-      if (pools.length === 0) {
-        setTokenMetadata({});
-        return;
-      }
-
-      const next: Record<number, TokenMeta> = {};
-      for (const pool of pools) {
-        try {
-          const res = await fetch(`/api/token/details?ftAddress=${pool.ftAddress}&poolId=${pool.id}`);
-          if (res.ok) {
-            const data = await res.json();
-            next[pool.id] = {
-              ftName: data.ftName ?? undefined,
-              ftSymbol: data.ftSymbol ?? undefined,
-              imageUrl: data.imageUrl,
-              description: data.description,
-            };
-          } else {
-            next[pool.id] = {};
-          }
-        } catch {
-          next[pool.id] = {};
-        }
-      }
-      setTokenMetadata(next);
-    };
+  const pools = useMemo(
+    () =>
+      catalogPools.map((pool, idx) => ({
+        id: pool.poolId,
+        nftContract: pool.nftContract ?? "",
+        tokenId: BigInt(pool.tokenId ?? 0),
+        ftAddress: pool.ftAddress,
+        totalFractions: BigInt(pool.totalSupply),
+        originalOwner: pool.owner,
+        salePricePerToken: BigInt(pool.salePricePerToken),
+        amountForSale: BigInt(pool.amountForSale),
+        sold: BigInt(pool.amountSold),
+        active: pool.active,
+        allowance: allowanceData && allowanceData[idx] && allowanceData[idx].status === "success" ? (allowanceData[idx].result as bigint) : 0n,
+      })),
+    [catalogPools, allowanceData]
+  );
 
-    fetchMeta();
-  }, [pools]);
+  const tokenMetadata = useMemo(
+    () =>
+      catalogPools.reduce<Record<number, TokenMeta>>((acc, pool) => {
+        acc[pool.poolId] = {
+          ftName: pool.token?.ftName ?? undefined,
+          ftSymbol: pool.token?.ftSymbol ?? undefined,
+          imageUrl: pool.token?.imageUrl ?? undefined,
+          description: pool.token?.description ?? undefined,
+        };
+        return acc;
+      }, {}),
+    [catalogPools]
+  );
 
   const erc20MetaQueries = useMemo(() => {
     if (!pools || pools.length === 0) return [];
     return pools.flatMap((pool) => [
       {
         address: pool.ftAddress as `0x${string}`,
-        abi: ERC20_ABI as any,
-        functionName: "name",
+        abi: ERC20_ABI,
+        functionName: "name" as const,
       },
       {
         address: pool.ftAddress as `0x${string}`,
-        abi: ERC20_ABI as any,
-        functionName: "symbol",
+        abi: ERC20_ABI,
+        functionName: "symbol" as const,
       },
     ]);
   }, [pools]);
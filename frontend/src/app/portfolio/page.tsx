@@ -9,10 +9,9 @@ import {
   useWriteContract,
   useWaitForTransactionReceipt,
 } from "wagmi";
-import { formatUnits } from "viem";
+import { Abi, formatUnits } from "viem";
 import Link from "next/link";
 import { getContractAddress } from "@/lib/contracts/addresses";
-import AssetRegistryABI from "@/lib/contracts/AssetRegistry.json";
 import FractionalizerABI from "@/lib/contracts/Fractionalizer.json";
 import LicenseNFTABI from "@/lib/contracts/LicenseNFT.json";
 import LicenseManagerABI from "@/lib/contracts/LicenseManager.json";
@@ -20,6 +19,7 @@ import { MarketplaceNav } from "@/components/MarketplaceNav";
 import { ipfsHttpGateways } from "@/lib/ipfs";
 import { getUserFriendlyError } from "@/lib/walletErrors";
 import { AssetMedia } from "@/components/AssetMedia";
+import type { DividendEvent, PoolDividendSummary } from "@/lib/dividends";
 
 const ERC20_ABI = [
   {
@@ -43,14 +43,53 @@ const ERC20_ABI = [
     inputs: [],
     outputs: [{ name: "", type: "string" }],
   },
-];
+] as const;
 
 type TabType = "myAssets" | "licenses" | "fractional";
+type DividendHistoryData = {
+  pools: PoolDividendSummary[];
+  events: (Omit<DividendEvent, "timestamp"> & { timestamp: string })[];
+  totals: { realised: string; unclaimed: string };
+};
 type AssetCategory = "all" | "3d" | "image" | "audio";
 
+// Row of /api/assets (fields used here)
+type RegisteredAsset = {
+  assetId: number;
+  metadataURI: string;
+  royaltyBPS: number;
+  defaultRoyaltyBPS: number;
+};
+// Asset metadata JSON pinned at registration
+type AssetMetadataJson = {
+  name?: string;
+  description?: string;
+  image?: string;
+  properties?: { mimeType?: string; filename?: string };
+};
+// Row of /api/pools (fields used here)
+type CatalogPool = {
+  poolId: number;
+  nftContract: string | null;
+  tokenId: string | null;
+  ftAddress: string;
+  totalSupply: string;
+  owner: string;
+  amountForSale: string;
+  amountSold: string;
+  active: boolean;
+};
+// LicenseNFT tokenURI JSON
+type LicenseMetadataJson = {
+  name?: string;
+  description?: string;
+  image?: string;
+  licenseType?: string;
+  attributes?: { trait_type: string; value: string }[];
+};
+
 export default function PortfolioPage() {
   const { address, chainId, isConnected } = useAccount();
-  const registryAddress = chainId ? getContractAddress(chainId, "AssetRegistry") : undefined;
   const fractionalizerAddress = chainId ? getContractAddress(chainId, "Fractionalizer") : undefined;
   const licenseNftAddress = chainId ? getContractAddress(chainId, "LicenseNFT") : undefined;
   const licenseManagerAddress = chainId ? getContractAddress(chainId, "LicenseManager") : undefined;
@@ -67,49 +106,35 @@ export default function PortfolioPage() {
   const [licenseError, setLicenseError] = useState<string | null>(null);
 
   // Asset metadata state
-  const [assetMetadata, setAssetMetadata] = useState<Record<number, any>>({});
-
-  // Registered assets
-  const { data: totalAssets } = useReadContract({
-    address: registryAddress,
-    abi: AssetRegistryABI,
-    functionName: "totalAssets",
-  });
+  const [assetMetadata, setAssetMetadata] = useState<Record<number, AssetMetadataJson>>({});
 
-  const assetQueries = useMemo(() => {
-    if (!registryAddress || !totalAssets || totalAssets === 0n) return [];
-    return Array.from({ length: Number(totalAssets) }, (_, idx) => ({
-      address: registryAddress,
-      abi: AssetRegistryABI as any,
-      functionName: "getAsset",
-      args: [BigInt(idx + 1)],
-    }));
-  }, [registryAddress, totalAssets]);
+  // Registered assets (created by the connected wallet, from the chain indexer)
+  const [registeredAssets, setRegisteredAssets] = useState<RegisteredAsset[]>([]);
 
-  const { data: assetsData } = useReadContracts({
-    contracts: assetQueries,
-    query: { enabled: assetQueries.length > 0 },
-  });
-
-  const registeredAssets = useMemo(() => {
-    if (!assetsData || !address) return [];
-    return assetsData
-      .map((entry, idx) => {
-        if (!entry || entry.status !== "success") return null;
-        const a: any = entry.result;
-        if (!a?.exists) return null;
-        if (a.creator.toLowerCase() !== address.toLowerCase()) return null;
-        return { ...a, assetId: idx + 1 };
-      })
-      .filter(Boolean) as any[];
-  }, [assetsData, address]);
+  useEffect(() => {
+    if (!chainId || !address) {
+      setRegisteredAssets([]);
+      return;
+    }
+    fetch(`/api/assets?chainId=${chainId}&creator=${address}&limit=100`)
+      .then((res) => res.json())
+      .then((json) =>
+        setRegisteredAssets(
+          (json.data || []).map((a: Omit<RegisteredAsset, "defaultRoyaltyBPS">) => ({
+            ...a,
+            defaultRoyaltyBPS: a.royaltyBPS,
+          }))
+        )
+      )
+      .catch((err) => console.error("Error fetching registered assets:", err));
+  }, [chainId, address]);
 
   // Fetch asset metadata
   useEffect(() => {
     const fetchMetadata = async () => {
       if (registeredAssets.length === 0) return;
 
-      const metadataMap: Record<number, any> = {};
+      const metadataMap: Record<number, AssetMetadataJson> = {};
       for (const asset of registeredAssets) {
         try {
           const gateways = ipfsHttpGateways(asset.metadataURI);
@@ -157,41 +182,26 @@ export default function PortfolioPage() {
     };
   }, [registeredAssets, assetMetadata]);
 
-  // Fractional holdings
-  const { data: totalPools } = useReadContract({
-    address: fractionalizerAddress,
-    abi: FractionalizerABI,
-    functionName: "totalPools",
-  });
-
-  const poolQueries = useMemo(() => {
-    if (!fractionalizerAddress || !totalPools || totalPools === 0n) return [];
-    return Array.from({ length: Number(totalPools) }, (_, idx) => ({
-      address: fractionalizerAddress,
-      abi: FractionalizerABI as any,
-      functionName: "poolInfo",
-      args: [BigInt(idx + 1)],
-    }));
-  }, [fractionalizerAddress, totalPools]);
+  // Fractional holdings: pool list from the chain indexer, balances on-chain
+  const [catalogPools, setCatalogPools] = useState<CatalogPool[]>([]);
 
-  const { data: poolData } = useReadContracts({
-    contracts: poolQueries,
-    query: { enabled: poolQueries.length > 0 },
-  });
+  useEffect(() => {
+    if (!chainId) return;
+    fetch(`/api/pools?chainId=${chainId}&limit=100`)
+      .then((res) => res.json())
+      .then((json) => setCatalogPools(json.data || []))
+      .catch((err) => console.error("Error fetching pools:", err));
+  }, [chainId]);
 
   const balanceQueries = useMemo(() => {
-    if (!poolData || !address) return [];
-    return poolData.map((entry) => {
-      if (!entry || entry.status !== "success") return null;
-      const [, , ftAddress] = entry.result as any;
-      return {
-        address: ftAddress as `0x${string}`,
-        abi: ERC20_ABI,
-        functionName: "balanceOf",
-        args: [address],
-      };
-    }).filter(Boolean) as any[];
-  }, [poolData, address]);
+    if (!address) return [];
+    return catalogPools.map((pool) => ({
+      address: pool.ftAddress as `0x${string}`,
+      abi: ERC20_ABI,
+      functionName: "balanceOf" as const,
+      args: [address],
+    }));
+  }, [catalogPools, address]);
 
   const { data: balancesData } = useReadContracts({
     contracts: balanceQueries,
@@ -199,25 +209,22 @@ export default function PortfolioPage() {
   });
 
   const fractionalHoldings = useMemo(() => {
-    if (!poolData || !balancesData) return [];
-    return poolData
-      .map((entry, idx) => {
-        if (!entry || entry.status !== "success") return null;
+    if (!balancesData) return [];
+    return catalogPools
+      .map((pool, idx) => {
         if (!balancesData[idx] || balancesData[idx].status !== "success") return null;
         const bal = balancesData[idx].result as bigint;
         if (bal === 0n) return null;
-        const [nftContract, tokenId, ftAddress, totalFractions, originalOwner, , amountForSale, sold, active] =
-          entry.result as any;
         return {
-          id: idx + 1,
-          nftContract,
-          tokenId,
-          ftAddress,
-          totalFractions,
-          originalOwner,
-          amountForSale,
-          sold,
-          active,
+          id: pool.poolId,
+          nftContract: pool.nftContract ?? "",
+          tokenId: BigInt(pool.tokenId ?? 0),
+          ftAddress: pool.ftAddress,
+          totalFractions: BigInt(pool.totalSupply),
+          originalOwner: pool.owner,
+          amountForSale: BigInt(pool.amountForSale),
+          sold: BigInt(pool.amountSold),
+          active: pool.active,
           balance: bal,
         };
       })
@@ -233,7 +240,7 @@ export default function PortfolioPage() {
       active: boolean;
       balance: bigint;
     }[];
-  }, [poolData, balancesData]);
+  }, [catalogPools, balancesData]);
 
   // License NFTs owned (on-chain)
   const { data: licenseTokenIds, isLoading: loadingLicenseIds } = useReadContract({
@@ -248,7 +255,7 @@ export default function PortfolioPage() {
     if (!licenseTokenIds || !Array.isArray(licenseTokenIds)) return [];
     return (licenseTokenIds as bigint[]).map((tid) => ({
       address: licenseNftAddress as `0x${string}`,
-      abi: LicenseNFTABI.abi as any,
+      abi: LicenseNFTABI.abi as Abi,
       functionName: "tokenURI",
       args: [tid],
     }));
@@ -288,7 +295,7 @@ export default function PortfolioPage() {
           const uriResult = licenseUris[i];
           if (!uriResult || uriResult.status !== "success") continue;
           const rawUri = uriResult.result as string;
-          let meta;
+          let meta: LicenseMetadataJson | undefined;
           const gateways = ipfsHttpGateways(rawUri);
           for (const g of gateways) {
             try {
@@ -304,16 +311,16 @@ export default function PortfolioPage() {
             tokenId: tid,
             name: meta?.name,
             description: meta?.description,
-            licenseType: meta?.attributes?.find?.((a: any) => a.trait_type === "licenseType")?.value || meta?.licenseType,
-            offerId: meta?.attributes?.find?.((a: any) => a.trait_type === "offerId")?.value,
-            assetId: meta?.attributes?.find?.((a: any) => a.trait_type === "assetId")?.value,
+            licenseType: meta?.attributes?.find?.((a) => a.trait_type === "licenseType")?.value || meta?.licenseType,
+            offerId: meta?.attributes?.find?.((a) => a.trait_type === "offerId")?.value,
+            assetId: meta?.attributes?.find?.((a) => a.trait_type === "assetId")?.value,
             uri: rawUri,
             image: meta?.image,
           });
         }
         setOwnedLicenses(metaArr);
-      } catch (err: any) {
-        setLicenseError(err?.message || "Failed to load license metadata");
+      } catch (err) {
+        setLicenseError((err instanceof Error && err.message) || "Failed to load license metadata");
         setOwnedLicenses([]);
       } finally {
         setLoadingLicenses(false);
@@ -330,13 +337,13 @@ export default function PortfolioPage() {
     return fractionalHoldings.flatMap((holding) => [
       {
         address: holding.ftAddress as `0x${string}`,
-        abi: ERC20_ABI as any,
-        functionName: "name",
+        abi: ERC20_ABI,
+        functionName: "name" as const,
       },
       {
         address: holding.ftAddress as `0x${string}`,
-        abi: ERC20_ABI as any,
-        functionName: "symbol",
+        abi: ERC20_ABI,
+        functionName: "symbol" as const,
       },
     ]);
   }, [fractionalHoldings]);
@@ -398,7 +405,7 @@ export default function PortfolioPage() {
     if (!fractionalizerAddress || !address || fractionalHoldings.length === 0) return [];
     return fractionalHoldings.map((holding) => ({
       address: fractionalizerAddress,
-      abi: FractionalizerABI as any,
+      abi: FractionalizerABI as Abi,
       functionName: "claimableAmount",
       args: [BigInt(holding.id), address],
     }));
@@ -439,6 +446,29 @@ export default function PortfolioPage() {
     }
   }, [claimSuccess, refetchClaimables]);
 
+  // Dividend history & yield (chain indexer events + claimableAmount)
+  const [dividendHistory, setDividendHistory] = useState<DividendHistoryData | null>(null);
+
+  useEffect(() => {
+    if (!chainId || !address || activeTab !== "fractional") return;
+    fetch(`/api/dividends/history?chainId=${chainId}&holder=${address}`)
+      .then((res) => res.json())
+      .then((json) => setDividendHistory(json.data ?? null))
+      .catch(() => setDividendHistory(null));
+  }, [chainId, address, activeTab, claimSuccess]);
+
+  const dividendSummaryMap = useMemo(() => {
+    const map: Record<number, PoolDividendSummary> = {};
+    dividendHistory?.pools.forEach((p) => {
+      map[p.poolId] = p;
+    });
+    return map;
+  }, [dividendHistory]);
+
+  const formatIp = (wei: string | bigint, digits = 4) =>
+    `${Number(formatUnits(BigInt(wei), 18)).toLocaleString(undefined, { maximumFractionDigits: digits })} IP`;
+  const formatYield = (value: number | null) => (value === null ? "-" : `${value.toFixed(2)}%`);
+
   return (
     <div className="min-h-screen text-white relative">
       <div className="fixed inset-0 z-0" style={{ backgroundImage: 'url(/purplewave.gif)', backgroundSize: 'cover', backgroundPosition: 'center', filter: 'blur(200px)', opacity: 0.3 }} />
@@ -708,6 +738,24 @@ export default function PortfolioPage() {
                                   Download Asset
                                 </a>
                               )}
+
+                              <div className="grid grid-cols-2 gap-2">
+                                <a
+                                  href={`/api/license/certificate?chainId=${chainId}&tokenId=${tokenIdStr}&format=html`}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="block py-2 text-center bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-lg text-xs font-semibold transition-all"
+                                >
+                                  Certificate
+                                </a>
+                                <a
+                                  href={`/api/license/certificate?chainId=${chainId}&tokenId=${tokenIdStr}`}
+                                  download
+                                  className="block py-2 text-center bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-lg text-xs font-semibold transition-all"
+                                >
+                                  Certificate JSON
+                                </a>
+                              </div>
                             </div>
                           </div>
                         );
@@ -721,13 +769,21 @@ export default function PortfolioPage() {
               {activeTab === "fractional" && (
                 <div className="space-y-6">
                   {/* Total Claimable */}
-                  <div className="bg-gradient-to-br from-gray-900 to-gray-900/50 border border-gray-800 rounded-xl p-6">
-                    <p className="text-gray-400 text-sm mb-2">Total Claimable Royalty</p>
-                    <p className="text-3xl font-bold text-white">
-                      {claimableLoading
-                        ? "Loading..."
-                        : `${Number(formatUnits(totalClaimable, 18)).toLocaleString(undefined, { maximumFractionDigits: 6 })} IP`}
-                    </p>
+                  <div className="bg-gradient-to-br from-gray-900 to-gray-900/50 border border-gray-800 rounded-xl p-6 grid sm:grid-cols-2 gap-4">
+                    <div>
+                      <p className="text-gray-400 text-sm mb-2">Total Claimable Royalty</p>
+                      <p className="text-3xl font-bold text-white">
+                        {claimableLoading
+                          ? "Loading..."
+                          : `${Number(formatUnits(totalClaimable, 18)).toLocaleString(undefined, { maximumFractionDigits: 6 })} IP`}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-gray-400 text-sm mb-2">Total Claimed (Realised)</p>
+                      <p className="text-3xl font-bold text-green-400">
+                        {dividendHistory ? formatIp(dividendHistory.totals.realised, 6) : "-"}
+                      </p>
+                    </div>
                   </div>
 
                   {fractionalHoldings.length === 0 ? (
@@ -780,6 +836,15 @@ export default function PortfolioPage() {
                               </div>
                             </div>
 
+                            {dividendSummaryMap[p.id] && (
+                              <div className="grid grid-cols-2 gap-2 text-xs text-gray-400">
+                                <p>Claimed: <span className="text-white">{formatIp(dividendSummaryMap[p.id].realised)}</span></p>
+                                <p>Pool deposits: <span className="text-white">{formatIp(dividendSummaryMap[p.id].totalDeposited)}</span></p>
+                                <p>Yield (sale price): <span className="text-white">{formatYield(dividendSummaryMap[p.id].yieldOnSalePrice)}</span></p>
+                                <p>Yield (last trade): <span className="text-white">{formatYield(dividendSummaryMap[p.id].yieldOnLastPrice)}</span></p>
+                              </div>
+                            )}
+
                             <button
                               onClick={() => handleClaim(p.id)}
                               disabled={claimConfirming || claimable === 0n}
@@ -799,6 +864,43 @@ export default function PortfolioPage() {
                       })}
                     </div>
                   )}
+
+                  {/* Dividend History */}
+                  {dividendHistory && dividendHistory.events.length > 0 && (
+                    <div className="bg-gray-900/50 border border-gray-800 rounded-xl p-6 space-y-4">
+                      <div className="flex justify-between items-center">
+                        <div>
+                          <h3 className="font-bold text-white">Dividend History</h3>
+                          <p className="text-xs text-gray-500">Deposit shares are estimated from your current balance; claims are exact.</p>
+                        </div>
+                        <a
+                          href={`/api/dividends/history?chainId=${chainId}&holder=${address}&format=csv`}
+                          className="px-4 py-2 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-lg text-sm font-medium transition"
+                        >
+                          Export CSV
+                        </a>
+                      </div>
+                      <div className="space-y-2 max-h-[420px] overflow-auto pr-2">
+                        {dividendHistory.events.map((e) => (
+                          <div key={`${e.txHash}-${e.type}-${e.poolId}`} className="flex justify-between items-center text-sm border-b border-gray-800 pb-2">
+                            <div>
+                              <p className="text-white">
+                                <span className={e.type === "CLAIM" ? "text-green-400" : "text-purple-400"}>
+                                  {e.type === "CLAIM" ? "Claimed" : "Deposited"}
+                                </span>{" "}
+                                · Pool #{e.poolId} {dividendSummaryMap[e.poolId]?.ftSymbol && `(${dividendSummaryMap[e.poolId].ftSymbol})`}
+                              </p>
+                              <p className="text-xs text-gray-500">{new Date(e.timestamp).toLocaleString()}</p>
+                            </div>
+                            <div className="text-right">
+                              <p className="font-semibold text-white">{formatIp(e.holderShare, 6)}</p>
+                              {e.type === "DEPOSIT" && <p className="text-xs text-gray-500">of {formatIp(e.amount)} to pool</p>}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
               )}
             </>
@@ -8,7 +8,12 @@ import { formatEther, formatUnits, parseUnits, parseEther } from "viem";
 import { getContractAddress } from "@/lib/contracts/addresses";
 import FractionalizerABI from "@/lib/contracts/Fractionalizer.json";
 import { useOrderExecution } from "@/hooks/useOrderExecution";
+import { useSignOrder } from "@/hooks/useSignOrder";
 import { MarketplaceNav } from "@/components/MarketplaceNav";
+import { PriceChart } from "@/components/PriceChart";
+import { DepthChart } from "@/components/DepthChart";
+import { useOrderStream } from "@/hooks/useOrderStream";
+import type { CapTable } from "@/lib/capTable";
 
 const ERC20_ABI = [
   {
@@ -40,7 +45,8 @@ export default function TokenDetailPage() {
   const poolId = params?.poolId ? Number(params.poolId) : null;
   const { chainId, address, isConnected } = useAccount();
   const fractionalizerAddress = chainId ? getContractAddress(chainId, "Fractionalizer") : undefined;
-  const { executeTrade, isExecuting } = useOrderExecution();
+  const { executeTrade, executeTrades, isExecuting } = useOrderExecution();
+  const { signOrder, signCancelAll, signCancelOrder } = useSignOrder();
 
   // Fetch pool info
   const { data: poolInfo } = useReadContract({
@@ -157,6 +163,28 @@ export default function TokenDetailPage() {
     }
   }, [pool?.ftAddress]);
 
+  // Live updates via SSE; polling below is only the fallback while disconnected
+  const [matchEventSeq, setMatchEventSeq] = useState(0);
+  const [settledEventSeq, setSettledEventSeq] = useState(0);
+  const { connected: streamConnected } = useOrderStream(poolId !== null ? String(poolId) : undefined, {
+    onEvent: (event) => {
+      const order = event.data.order as OffchainOrder | undefined;
+      if (order) {
+        setAllOrders((prev) =>
+          prev.some((o) => o.id === order.id)
+            ? prev.map((o) => (o.id === order.id ? { ...o, ...order } : o))
+            : [order, ...prev]
+        );
+      }
+      if (event.type.startsWith("match.") || event.type === "settlement.confirmed") {
+        setMatchEventSeq(event.seq);
+      }
+      if (event.type === "settlement.confirmed") {
+        setSettledEventSeq(event.seq);
+      }
+    },
+  });
+
   useEffect(() => {
     let isMounted = true;
 
@@ -166,7 +194,13 @@ export default function TokenDetailPage() {
       }
     };
 
+    // Also resyncs the full list after (re)connecting
     doFetch();
+    if (streamConnected) {
+      return () => {
+        isMounted = false;
+      };
+    }
 
     const interval = setInterval(() => {
       if (isMounted) {
@@ -178,7 +212,7 @@ export default function TokenDetailPage() {
       isMounted = false;
       clearInterval(interval);
     };
-  }, [fetchOrders]);
+  }, [fetchOrders, streamConnected]);
 
   // Fetch trading activity
   type TradeActivity = {
@@ -194,9 +228,11 @@ export default function TokenDetailPage() {
   const [trades, setTrades] = useState<TradeActivity[]>([]);
   const [tradesLoading, setTradesLoading] = useState(false);
   const tradesFetchedRef = useRef(false);
+  // Depend on the address only, so pool reloads don't restart the stream-driven refresh
+  const tradesFtAddress = pool?.ftAddress;
 
   useEffect(() => {
-    if (!pool) {
+    if (!tradesFtAddress) {
       tradesFetchedRef.current = false;
       return;
     }
@@ -206,7 +242,7 @@ export default function TokenDetailPage() {
     const fetchTradesData = async () => {
       try {
         setTradesLoading(true);
-        const res = await fetch(`/api/token/trades?ftAddress=${pool.ftAddress}&poolId=${poolId}`);
+        const res = await fetch(`/api/token/trades?ftAddress=${tradesFtAddress}&poolId=${poolId}`);
         if (res.ok && isMounted) {
           const data = await res.json();
           setTrades(data.trades || []);
@@ -223,11 +259,16 @@ export default function TokenDetailPage() {
       }
     };
 
-    // Only fetch on first load
-    if (!tradesFetchedRef.current) {
+    // Only fetch on first load, or when the stream reports a settlement
+    if (!tradesFetchedRef.current || settledEventSeq > 0) {
       tradesFetchedRef.current = true;
       fetchTradesData();
     }
+    if (streamConnected) {
+      return () => {
+        isMounted = false;
+      };
+    }
 
     // Refresh trades every 10 seconds
     const interval = setInterval(() => {
@@ -240,7 +281,22 @@ export default function TokenDetailPage() {
       isMounted = false;
       clearInterval(interval);
     };
-  }, [pool?.ftAddress, poolId]);
+  }, [tradesFtAddress, poolId, settledEventSeq, streamConnected]);
+
+  // Cap table (Holders tab), loaded when the tab is opened
+  const [activityTab, setActivityTab] = useState<"trades" | "holders">("trades");
+  const [capTable, setCapTable] = useState<CapTable | null>(null);
+  const [capTableLoading, setCapTableLoading] = useState(false);
+
+  useEffect(() => {
+    if (activityTab !== "holders" || poolId === null || !chainId) return;
+    setCapTableLoading(true);
+    fetch(`/api/pools/${poolId}/holders?chainId=${chainId}`)
+      .then((res) => res.json())
+      .then((json) => setCapTable(json.data ?? null))
+      .catch(() => setCapTable(null))
+      .finally(() => setCapTableLoading(false));
+  }, [activityTab, poolId, chainId]);
 
   // Pending matches for settlement (wallet only)
   type PendingMatch = {
@@ -289,6 +345,11 @@ export default function TokenDetailPage() {
     };
 
     doFetch();
+    if (streamConnected) {
+      return () => {
+        isMounted = false;
+      };
+    }
 
     const interval = setInterval(() => {
       if (isMounted) {
@@ -300,7 +361,34 @@ export default function TokenDetailPage() {
       isMounted = false;
       clearInterval(interval);
     };
-  }, [fetchPendingMatches]);
+  }, [fetchPendingMatches, matchEventSeq, streamConnected]);
+
+  // Matches the connected wallet is a party to, settled together by "Settle all"
+  const ownPendingMatches = useMemo(() => {
+    const user = address?.toLowerCase();
+    if (!user) return [];
+    return pendingMatches.filter(
+      (m) =>
+        m.status === "PENDING_EXECUTION" &&
+        (m.buyerAddress.toLowerCase() === user || m.sellerAddress.toLowerCase() === user)
+    );
+  }, [pendingMatches, address]);
+
+  // Settle all of them in one executeTrades transaction from the user's wallet
+  const handleSettleAll = async () => {
+    setSettlementMessage(null);
+    setSettlementInProgress("ALL");
+    try {
+      await executeTrades(ownPendingMatches.map((m) => m.id));
+      setSettlementMessage(`✅ Settled ${ownPendingMatches.length} matches in one transaction`);
+      await fetchPendingMatches();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Failed to settle";
+      setSettlementMessage(msg);
+    } finally {
+      setSettlementInProgress(null);
+    }
+  };
 
   const handleSettleMatch = async (matchId: string) => {
     setSettlementMessage(null);
@@ -464,6 +552,17 @@ export default function TokenDetailPage() {
     try {
       const expiresAt = new Date();
       expiresAt.setDate(expiresAt.getDate() + Number(expiryDays || "7"));
+      const expiresAtSeconds = Math.floor(expiresAt.getTime() / 1000);
+
+      // Sign order with EIP-712 before submitting
+      const signed = await signOrder({
+        side: orderSide,
+        poolId: poolId?.toString() || "0",
+        ftAddress: pool.ftAddress,
+        amount: amountWei.toString(),
+        pricePerToken: priceWei.toString(),
+        expiresAt: expiresAtSeconds,
+      });
 
       // Create AbortController with 30s timeout
       const controller = new AbortController();
@@ -473,6 +572,7 @@ export default function TokenDetailPage() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
+          orderId: signed.orderId,
           userAddress: address,
           side: orderSide,
           poolId: poolId?.toString(),
@@ -480,9 +580,9 @@ export default function TokenDetailPage() {
           amount: amountWei.toString(),
           pricePerToken: priceWei.toString(),
           chainId,
-          signature: null,
-          nonce: 0,
-          expiresAt: expiresAt.toISOString(),
+          signature: signed.signature,
+          nonce: signed.nonce,
+          expiresAt: expiresAtSeconds,
         }),
         signal: controller.signal,
       });
@@ -532,10 +632,11 @@ export default function TokenDetailPage() {
   const handleCancelOrder = async (orderId: string) => {
     if (!address) return;
     try {
+      const signed = await signCancelOrder(orderId);
       const res = await fetch("/api/orders/cancel", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ orderId, userAddress: address }),
+        body: JSON.stringify(signed),
       });
       if (res.ok) {
         setOrderMessage("Order cancelled");
@@ -546,6 +647,47 @@ export default function TokenDetailPage() {
     }
   };
 
+  // Signed cancel-all for this pool; the relayer also invalidates the nonces on-chain
+  const [cancellingAll, setCancellingAll] = useState(false);
+  const hasOwnOrders = useMemo(
+    () =>
+      !!address &&
+      allOrders.some(
+        (o) =>
+          o.userAddress.toLowerCase() === address.toLowerCase() &&
+          (o.status === "OPEN" || o.status === "PARTIALLY_FILLED")
+      ),
+    [allOrders, address]
+  );
+
+  const handleCancelAllInPool = async () => {
+    if (!address || poolId === null) return;
+    setCancellingAll(true);
+    try {
+      const signed = await signCancelAll(String(poolId));
+      const res = await fetch("/api/orders/cancel-all", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...signed, submitOnChain: true }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setOrderMessage(`❌ ${json.error || "Failed to cancel orders"}`);
+        return;
+      }
+      const onChain = json.data.onChain;
+      setOrderMessage(
+        `✅ ${json.message}${onChain.submitted ? " and invalidated on-chain" : onChain.error ? ` (on-chain: ${onChain.error})` : ""}`
+      );
+      await fetchOrders();
+    } catch (err) {
+      console.error("Error cancelling all orders:", err);
+      setOrderMessage("❌ Cancel all was not signed");
+    } finally {
+      setCancellingAll(false);
+    }
+  };
+
   const formatTokenAmount = (val: string) => {
     try {
       return formatUnits(BigInt(val || "0"), 18);
@@ -622,6 +764,12 @@ export default function TokenDetailPage() {
         <div className="grid md:grid-cols-3 gap-6">
           {/* Left: Order Form & Book */}
           <div className="md:col-span-2 space-y-6">
+            {/* Price Chart */}
+            <div className="bg-gradient-to-br from-gray-900 to-gray-900/50 border border-gray-800 rounded-xl p-5 space-y-4">
+              <h2 className="text-lg font-bold">Price</h2>
+              <PriceChart ftAddress={pool.ftAddress} />
+            </div>
+
             {/* Order Form */}
             <div className="bg-gradient-to-br from-gray-900 to-gray-900/50 border border-gray-800 rounded-xl p-5 space-y-4">
               <h2 className="text-lg font-bold">Place Order</h2>
@@ -730,7 +878,23 @@ export default function TokenDetailPage() {
 
             {/* Order Book */}
             <div className="bg-gradient-to-br from-gray-900 to-gray-900/50 border border-gray-800 rounded-xl p-5 space-y-4">
-              <h2 className="text-lg font-bold">Order Book</h2>
+              <div className="flex justify-between items-center">
+                <h2 className="text-lg font-bold">Order Book</h2>
+                <div className="flex items-center gap-3">
+                  {hasOwnOrders && (
+                    <button
+                      onClick={handleCancelAllInPool}
+                      disabled={cancellingAll}
+                      className="px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded text-xs"
+                    >
+                      {cancellingAll ? "Cancelling..." : "Cancel all my orders"}
+                    </button>
+                  )}
+                  <span className={`text-xs ${streamConnected ? "text-green-400" : "text-gray-500"}`}>
+                    {streamConnected ? "● Live" : "○ Polling"}
+                  </span>
+                </div>
+              </div>
 
               <div className="grid md:grid-cols-2 gap-4">
                 {/* Sell Orders */}
@@ -804,6 +968,12 @@ export default function TokenDetailPage() {
                 </div>
               </div>
             </div>
+
+            {/* Depth Chart */}
+            <div className="bg-gradient-to-br from-gray-900 to-gray-900/50 border border-gray-800 rounded-xl p-5 space-y-4">
+              <h2 className="text-lg font-bold">Market Depth</h2>
+              <DepthChart poolId={String(poolId)} />
+            </div>
           </div>
 
           {/* Right: Trading Activity & Pool Info */}
@@ -812,7 +982,17 @@ export default function TokenDetailPage() {
             <div className="bg-gradient-to-br from-gray-900 to-gray-900/50 border border-gray-800 rounded-xl p-5 space-y-4">
               <div className="flex items-center justify-between">
                 <h2 className="text-lg font-bold">Pending Settlement</h2>
-                <span className="text-xs px-2 py-1 bg-gray-800 rounded text-gray-400">wallet only</span>
+                {ownPendingMatches.length > 0 ? (
+                  <button
+                    onClick={handleSettleAll}
+                    disabled={Boolean(settlementInProgress) || isExecuting}
+                    className="text-xs px-3 py-1 bg-purple-600 hover:bg-purple-700 rounded font-semibold disabled:bg-gray-700"
+                  >
+                    {settlementInProgress === "ALL" ? "Settling..." : `Settle all mine (${ownPendingMatches.length})`}
+                  </button>
+                ) : (
+                  <span className="text-xs px-2 py-1 bg-gray-800 rounded text-gray-400">wallet only</span>
+                )}
               </div>
 
               {settlementMessage && (
@@ -862,13 +1042,84 @@ export default function TokenDetailPage() {
               )}
 
               <p className="text-xs text-gray-500">
-                Cancel remains off-chain; settlement is done directly via wallet.
+                Cancel remains off-chain; settle a match from the buyer or seller wallet, or all of yours in one transaction paid from buyer deposits. Pending matches are also settled in batches by the relayer job.
               </p>
             </div>
 
-            {/* Trading Activity */}
+            {/* Trading Activity / Holders */}
             <div className="bg-gradient-to-br from-gray-900 to-gray-900/50 border border-gray-800 rounded-xl p-5 space-y-4">
-              <h2 className="text-lg font-bold">Trading Activity</h2>
+              <div className="flex gap-4">
+                {(["trades", "holders"] as const).map((tab) => (
+                  <button
+                    key={tab}
+                    onClick={() => setActivityTab(tab)}
+                    className={`text-lg font-bold transition ${activityTab === tab ? "text-white" : "text-gray-500 hover:text-gray-300"}`}
+                  >
+                    {tab === "trades" ? "Trading Activity" : "Holders"}
+                  </button>
+                ))}
+              </div>
+              {activityTab === "holders" ? (
+                capTableLoading && !capTable ? (
+                  <p className="text-sm text-gray-500">Loading...</p>
+                ) : !capTable || capTable.holderCount === 0 ? (
+                  <p className="text-sm text-gray-500">No indexed holders yet</p>
+                ) : (
+                  <div className="space-y-4">
+                    <div className="grid grid-cols-3 gap-2 text-xs">
+                      {[
+                        ["Holders", String(capTable.holderCount)],
+                        ["Top 1", `${capTable.concentration.top1.toFixed(2)}%`],
+                        ["Top 10", `${capTable.concentration.top10.toFixed(2)}%`],
+                        ["HHI", String(capTable.concentration.hhi)],
+                        ["Nakamoto", String(capTable.concentration.nakamoto)],
+                        ["Top 5", `${capTable.concentration.top5.toFixed(2)}%`],
+                      ].map(([label, value]) => (
+                        <div key={label} className="bg-gray-800 rounded p-2">
+                          <p className="text-gray-500">{label}</p>
+                          <p className="font-semibold text-white">{value}</p>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="space-y-2 max-h-96 overflow-auto">
+                      {capTable.holders.map((holder) => {
+                        const change = BigInt(holder.change7d);
+                        return (
+                          <div key={holder.address} className="bg-gray-800 rounded p-3 space-y-1 text-sm">
+                            <div className="flex items-center gap-2 text-xs">
+                              <span className="text-gray-200 font-mono">{holder.address.slice(0, 6)}...{holder.address.slice(-4)}</span>
+                              {holder.label && <span className="px-2 py-0.5 rounded bg-gray-700 text-[10px] uppercase">{holder.label}</span>}
+                              <span className="ml-auto font-semibold text-purple-300">{holder.share.toFixed(2)}%</span>
+                            </div>
+                            <div className="w-full h-1.5 bg-gray-700 rounded">
+                              <div className="h-1.5 bg-purple-500 rounded" style={{ width: `${Math.min(holder.share, 100)}%` }} />
+                            </div>
+                            <div className="flex justify-between text-xs text-gray-400">
+                              <span>Balance {formatTokenAmount(holder.balance)}</span>
+                              <span>Locked {formatTokenAmount(holder.locked)}</span>
+                              <span className={change > BigInt(0) ? "text-green-400" : change < BigInt(0) ? "text-red-400" : ""}>
+                                7d {change > BigInt(0) ? "+" : change < BigInt(0) ? "-" : ""}
+                                {formatTokenAmount((change < BigInt(0) ? -change : change).toString())}
+                              </span>
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                    {capTable.history.length > 1 && (
+                      <div className="text-xs text-gray-500 space-y-1">
+                        <p className="text-gray-400">Holder history</p>
+                        {capTable.history.slice(-7).map((point) => (
+                          <div key={point.date} className="flex justify-between">
+                            <span>{point.date}</span>
+                            <span>{point.holders} holders · top 10 {point.top10.toFixed(2)}%</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )
+              ) : (
               <div className="space-y-2 max-h-96 overflow-auto">
                 {tradesLoading ? (
                   <p className="text-sm text-gray-500">Loading...</p>
@@ -898,6 +1149,7 @@ export default function TokenDetailPage() {
                   ))
                 )}
               </div>
+              )}
             </div>
 
             {/* Pool Info */}
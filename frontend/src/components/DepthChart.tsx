@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+import { formatEther, parseEther } from "viem";
+import { useOrderDepth } from "@/hooks/useOrderBook";
+import type { DepthLevel, OrderDepth } from "@/lib/orderDepth";
+
+interface DepthChartProps {
+  poolId: string;
+  levels?: number;
+}
+
+// Tick options in IP; "exact" = 1 wei, no bucketing
+const TICKS = [
+  { label: "exact", wei: "1" },
+  { label: "0.0001", wei: parseEther("0.0001").toString() },
+  { label: "0.001", wei: parseEther("0.001").toString() },
+  { label: "0.01", wei: parseEther("0.01").toString() },
+];
+const WIDTH = 640;
+const HEIGHT = 220;
+
+const toNumber = (wei: string) => Number(formatEther(BigInt(wei)));
+
+/**
+ * Cumulative bid/ask depth from /api/orders/depth (plain SVG)
+ */
+export function DepthChart({ poolId, levels = 50 }: DepthChartProps) {
+  const [tick, setTick] = useState(TICKS[0].wei);
+  const [hovered, setHovered] = useState<{ side: "BUY" | "SELL"; level: DepthLevel } | null>(null);
+  const { data, isLoading } = useOrderDepth({ poolId, levels, tick });
+  const depth: OrderDepth | undefined = data?.data;
+
+  const bids = depth?.bids ?? [];
+  const asks = depth?.asks ?? [];
+  const prices = [...bids, ...asks].map((l) => toNumber(l.price));
+  const minPrice = Math.min(...prices);
+  const maxPrice = Math.max(...prices);
+  const priceRange = maxPrice - minPrice || maxPrice || 1;
+  const maxDepth = Math.max(...[...bids, ...asks].map((l) => toNumber(l.cumulative)), 0) || 1;
+
+  const x = (price: number) => (prices.length > 1 ? ((price - minPrice) / priceRange) * WIDTH : WIDTH / 2);
+  const y = (cumulative: number) => HEIGHT - (cumulative / maxDepth) * (HEIGHT - 10);
+
+  // Step path from the best price outwards, closed down to the axis
+  const area = (side: DepthLevel[]) => {
+    if (side.length === 0) return "";
+    let path = `M ${x(toNumber(side[0].price))} ${HEIGHT}`;
+    let previous = 0;
+    for (const level of side) {
+      const px = x(toNumber(level.price));
+      path += ` L ${px} ${y(previous)} L ${px} ${y(toNumber(level.cumulative))}`;
+      previous = toNumber(level.cumulative);
+    }
+    return `${path} L ${x(toNumber(side[side.length - 1].price))} ${HEIGHT} Z`;
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <div className="flex items-center gap-1 text-xs">
+          <span className="text-gray-500 mr-1">Tick</span>
+          {TICKS.map((t) => (
+            <button
+              key={t.wei}
+              onClick={() => setTick(t.wei)}
+              className={`px-2 py-1 rounded font-semibold transition ${
+                tick === t.wei ? "bg-purple-600 text-white" : "bg-gray-800 text-gray-400 hover:text-white"
+              }`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+        <div className="text-xs text-gray-400 space-x-3">
+          <span>Spread {depth?.spread ? formatEther(BigInt(depth.spread)) : "-"}</span>
+          <span>Mid {depth?.midPrice ? formatEther(BigInt(depth.midPrice)) : "-"}</span>
+        </div>
+      </div>
+
+      {bids.length === 0 && asks.length === 0 ? (
+        <p className="text-sm text-gray-500 py-10 text-center">{isLoading ? "Loading..." : "No resting orders"}</p>
+      ) : (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" onMouseLeave={() => setHovered(null)}>
+          <path d={area(bids)} fill="#22c55e" fillOpacity={0.25} stroke="#22c55e" strokeWidth={1} />
+          <path d={area(asks)} fill="#ef4444" fillOpacity={0.25} stroke="#ef4444" strokeWidth={1} />
+          {(["BUY", "SELL"] as const).flatMap((side) =>
+            (side === "BUY" ? bids : asks).map((level) => (
+              <circle
+                key={`${side}-${level.price}`}
+                cx={x(toNumber(level.price))}
+                cy={y(toNumber(level.cumulative))}
+                r={4}
+                fill={side === "BUY" ? "#22c55e" : "#ef4444"}
+                fillOpacity={hovered?.level === level ? 1 : 0.3}
+                onMouseEnter={() => setHovered({ side, level })}
+              />
+            ))
+          )}
+        </svg>
+      )}
+
+      {hovered && (
+        <p className="text-xs text-gray-400 font-mono">
+          {hovered.side === "BUY" ? "Bid" : "Ask"} {formatEther(BigInt(hovered.level.price))} · qty{" "}
+          {formatEther(BigInt(hovered.level.quantity))} ({hovered.level.orders} order{hovered.level.orders === 1 ? "" : "s"}) ·
+          cumulative {formatEther(BigInt(hovered.level.cumulative))}
+        </p>
+      )}
+    </div>
+  );
+}
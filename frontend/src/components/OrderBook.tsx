@@ -3,6 +3,7 @@
 import { useOrders, useOrderStats, useMatchOrder, useMatchPreview } from "@/hooks/useOrderBook";
 import { useState } from "react";
 import { formatEther } from "viem";
+import { DepthChart } from "@/components/DepthChart";
 
 interface OrderBookProps {
   poolId: string;
@@ -201,6 +202,12 @@ export function OrderBook({ poolId, ftAddress }: OrderBookProps) {
         </div>
       </div>
 
+      {/* Depth */}
+      <div className="bg-white rounded-lg shadow-md p-4">
+        <h3 className="text-lg font-bold mb-4">Market Depth</h3>
+        <DepthChart poolId={poolId} />
+      </div>
+
       {/* Match Preview & Execution */}
       {selectedBuyId && selectedSellId && (
         <div className="bg-white rounded-lg shadow-md p-6">
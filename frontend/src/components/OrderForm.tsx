@@ -2,10 +2,18 @@
 
 import { useState } from "react";
 import { useAccount } from "wagmi";
-import { parseEther } from "viem";
-import { useCreateOrder } from "@/hooks/useOrderBook";
+import { formatEther, parseEther } from "viem";
+import { useCreateOrder, useOrders } from "@/hooks/useOrderBook";
+import { useSignOrder } from "@/hooks/useSignOrder";
+import { OrderSide, OrderType, TimeInForce } from "@/lib/orders";
+import { applySlippageCap } from "@/lib/orderMatching";
 
-type OrderSide = "BUY" | "SELL";
+const TIME_IN_FORCE_LABELS: Record<TimeInForce, string> = {
+  GTC: "Good till expiry",
+  IOC: "Immediate or cancel",
+  FOK: "Fill or kill",
+  POST_ONLY: "Post only",
+};
 
 interface OrderFormProps {
   poolId: string;
@@ -22,13 +30,35 @@ export function OrderForm({
 }: OrderFormProps) {
   const { address } = useAccount();
   const createOrder = useCreateOrder();
+  const { signOrder } = useSignOrder();
 
   const [side, setSide] = useState<OrderSide>("BUY");
+  const [orderType, setOrderType] = useState<OrderType>("LIMIT");
+  const [timeInForce, setTimeInForce] = useState<TimeInForce>("GTC");
+  const [slippage, setSlippage] = useState("1"); // percent, MARKET only
   const [amount, setAmount] = useState("");
   const [price, setPrice] = useState("");
   const [expiryDays, setExpiryDays] = useState("7");
   const [error, setError] = useState("");
 
+  // Best bid/ask for pricing market orders
+  const { data: book } = useOrders({ poolId, limit: 1 }, orderType === "MARKET");
+  const bestOppositePrice = BigInt(
+    (side === "BUY" ? book?.marketData?.lowestAsk : book?.marketData?.highestBid) || "0"
+  );
+  const marketCapWei =
+    bestOppositePrice > BigInt(0)
+      ? applySlippageCap(bestOppositePrice, side, parseFloat(slippage || "0") * 100)
+      : BigInt(0);
+
+  const timeInForceOptions: TimeInForce[] =
+    orderType === "MARKET" ? ["IOC", "FOK"] : ["GTC", "IOC", "FOK", "POST_ONLY"];
+
+  const handleOrderTypeChange = (type: OrderType) => {
+    setOrderType(type);
+    setTimeInForce(type === "MARKET" ? "IOC" : "GTC");
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
@@ -38,30 +68,51 @@ export function OrderForm({
       return;
     }
 
-    if (!amount || !price) {
+    if (!amount || (orderType === "LIMIT" && !price)) {
       setError("Please enter amount and price");
       return;
     }
 
+    if (orderType === "MARKET" && marketCapWei === BigInt(0)) {
+      setError("No liquidity on the other side of the book");
+      return;
+    }
+
     try {
-      // Convert to Wei (18 decimals)
+      // Convert to Wei (18 decimals); market orders sign the slippage cap as their price
       const amountWei = parseEther(amount).toString();
-      const priceWei = parseEther(price).toString();
+      const priceWei =
+        orderType === "MARKET" ? marketCapWei.toString() : parseEther(price).toString();
 
       // Calculate expiry
       const expiresAt = Math.floor(
         Date.now() / 1000 + parseInt(expiryDays) * 24 * 60 * 60
       );
 
+      // Sign order with EIP-712 (server rejects unsigned orders)
+      const signed = await signOrder({
+        side,
+        poolId,
+        ftAddress,
+        amount: amountWei,
+        pricePerToken: priceWei,
+        expiresAt,
+      });
+
       await createOrder.mutateAsync({
+        orderId: signed.orderId,
         userAddress: address,
         side,
         poolId,
         ftAddress,
         amount: amountWei,
         pricePerToken: priceWei,
+        orderType,
+        timeInForce,
         chainId,
         expiresAt,
+        signature: signed.signature,
+        nonce: signed.nonce,
       });
 
       // Reset form
@@ -77,9 +128,12 @@ export function OrderForm({
     }
   };
 
-  // Calculate totals
+  // Calculate totals (market orders: worst case at the slippage cap)
+  const effectivePrice = orderType === "MARKET" ? formatEther(marketCapWei) : price;
   const totalValue =
-    amount && price ? (parseFloat(amount) * parseFloat(price)).toFixed(4) : "0";
+    amount && effectivePrice
+      ? (parseFloat(amount) * parseFloat(effectivePrice)).toFixed(4)
+      : "0";
   const gasFee = parseFloat(totalValue) * 0.001; // 0.1% gas fee
 
   return (
@@ -92,7 +146,7 @@ export function OrderForm({
         {/* Side Selection */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
-            Order Type
+            Side
           </label>
           <div className="flex gap-4">
             <label className="flex items-center">
@@ -136,22 +190,80 @@ export function OrderForm({
           />
         </div>
 
-        {/* Price Input */}
-        <div>
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            Price per Token (IP)
-          </label>
-          <input
-            type="number"
-            step="0.000001"
-            value={price}
-            onChange={(e) => setPrice(e.target.value)}
-            disabled={createOrder.isPending}
-            placeholder="0.00"
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
-          />
+        {/* Order Type & Time in Force */}
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Execution
+            </label>
+            <select
+              value={orderType}
+              onChange={(e) => handleOrderTypeChange(e.target.value as OrderType)}
+              disabled={createOrder.isPending}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+            >
+              <option value="LIMIT">Limit</option>
+              <option value="MARKET">Market</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Time in Force
+            </label>
+            <select
+              value={timeInForce}
+              onChange={(e) => setTimeInForce(e.target.value as TimeInForce)}
+              disabled={createOrder.isPending}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+            >
+              {timeInForceOptions.map((tif) => (
+                <option key={tif} value={tif}>
+                  {TIME_IN_FORCE_LABELS[tif]}
+                </option>
+              ))}
+            </select>
+          </div>
         </div>
 
+        {/* Price Input */}
+        {orderType === "LIMIT" ? (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Price per Token (IP)
+            </label>
+            <input
+              type="number"
+              step="0.000001"
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              disabled={createOrder.isPending}
+              placeholder="0.00"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+            />
+          </div>
+        ) : (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Max Slippage (%)
+            </label>
+            <input
+              type="number"
+              step="0.1"
+              min="0"
+              max="50"
+              value={slippage}
+              onChange={(e) => setSlippage(e.target.value)}
+              disabled={createOrder.isPending}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              {marketCapWei > BigInt(0)
+                ? `Fills up to ${formatEther(marketCapWei)} IP per token`
+                : "No liquidity on the other side of the book"}
+            </p>
+          </div>
+        )}
+
         {/* Total Value & Gas Fee */}
         <div className="bg-gray-50 p-3 rounded-md">
           <div className="flex justify-between text-sm mb-2">
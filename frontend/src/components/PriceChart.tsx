@@ -0,0 +1,140 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type Candle = {
+  time: number;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume: string;
+  trades: number;
+};
+
+interface PriceChartProps {
+  ftAddress: string;
+  refreshMs?: number;
+}
+
+const INTERVALS = ["1m", "5m", "1h", "1d"] as const;
+const WIDTH = 640;
+const PRICE_HEIGHT = 200;
+const VOLUME_HEIGHT = 60;
+const GAP = 8;
+
+/**
+ * Candlestick + volume chart from /api/token/candles (plain SVG, no chart library)
+ */
+export function PriceChart({ ftAddress, refreshMs = 15000 }: PriceChartProps) {
+  const [timeframe, setTimeframe] = useState<(typeof INTERVALS)[number]>("1h");
+  const [candles, setCandles] = useState<Candle[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [hovered, setHovered] = useState<Candle | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    const load = () => {
+      setLoading(true);
+      fetch(`/api/token/candles?ftAddress=${ftAddress}&interval=${timeframe}&limit=120`)
+        .then((res) => res.json())
+        .then((json) => isMounted && setCandles(json.candles ?? []))
+        .catch(() => isMounted && setCandles([]))
+        .finally(() => isMounted && setLoading(false));
+    };
+    load();
+    const timer = setInterval(load, refreshMs);
+    return () => {
+      isMounted = false;
+      clearInterval(timer);
+    };
+  }, [ftAddress, timeframe, refreshMs]);
+
+  const highs = candles.map((c) => Number(c.high));
+  const lows = candles.map((c) => Number(c.low));
+  const maxPrice = Math.max(...highs, 0);
+  const minPrice = Math.min(...lows, maxPrice);
+  const priceRange = maxPrice - minPrice || maxPrice || 1;
+  const maxVolume = Math.max(...candles.map((c) => Number(c.volume)), 0) || 1;
+
+  const slot = WIDTH / Math.max(candles.length, 1);
+  const bodyWidth = Math.max(Math.min(slot * 0.6, 12), 1);
+  const y = (price: number) => PRICE_HEIGHT - ((price - minPrice) / priceRange) * (PRICE_HEIGHT - 10) - 5;
+
+  const shown = hovered ?? candles[candles.length - 1];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <div className="flex gap-1">
+          {INTERVALS.map((i) => (
+            <button
+              key={i}
+              onClick={() => setTimeframe(i)}
+              className={`px-2 py-1 rounded text-xs font-semibold transition ${
+                timeframe === i ? "bg-purple-600 text-white" : "bg-gray-800 text-gray-400 hover:text-white"
+              }`}
+            >
+              {i}
+            </button>
+          ))}
+        </div>
+        {shown && (
+          <div className="text-xs text-gray-400 font-mono space-x-2">
+            <span>O {shown.open}</span>
+            <span>H {shown.high}</span>
+            <span>L {shown.low}</span>
+            <span>C {shown.close}</span>
+            <span>V {shown.volume} IP</span>
+          </div>
+        )}
+      </div>
+
+      {candles.length === 0 ? (
+        <p className="text-sm text-gray-500 py-10 text-center">{loading ? "Loading..." : "No settled trades yet"}</p>
+      ) : (
+        <svg
+          viewBox={`0 0 ${WIDTH} ${PRICE_HEIGHT + GAP + VOLUME_HEIGHT}`}
+          className="w-full h-auto"
+          onMouseLeave={() => setHovered(null)}
+        >
+          {candles.map((c, idx) => {
+            const x = idx * slot + slot / 2;
+            const open = Number(c.open);
+            const close = Number(c.close);
+            const up = close >= open;
+            const color = up ? "#22c55e" : "#ef4444";
+            const volumeHeight = (Number(c.volume) / maxVolume) * VOLUME_HEIGHT;
+            return (
+              <g key={c.time} onMouseEnter={() => setHovered(c)}>
+                <rect x={idx * slot} y={0} width={slot} height={PRICE_HEIGHT + GAP + VOLUME_HEIGHT} fill="transparent" />
+                <line x1={x} x2={x} y1={y(Number(c.high))} y2={y(Number(c.low))} stroke={color} strokeWidth={1} />
+                <rect
+                  x={x - bodyWidth / 2}
+                  y={y(Math.max(open, close))}
+                  width={bodyWidth}
+                  height={Math.max(Math.abs(y(open) - y(close)), 1)}
+                  fill={color}
+                />
+                <rect
+                  x={x - bodyWidth / 2}
+                  y={PRICE_HEIGHT + GAP + VOLUME_HEIGHT - volumeHeight}
+                  width={bodyWidth}
+                  height={volumeHeight}
+                  fill={color}
+                  opacity={0.4}
+                />
+              </g>
+            );
+          })}
+        </svg>
+      )}
+
+      {shown && (
+        <p className="text-xs text-gray-500">
+          {new Date(shown.time * 1000).toLocaleString()} · {shown.trades} trade{shown.trades === 1 ? "" : "s"}
+        </p>
+      )}
+    </div>
+  );
+}
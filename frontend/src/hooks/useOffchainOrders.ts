@@ -5,10 +5,13 @@ import { useAccount, useSignTypedData } from "wagmi";
 import { Address, Hash, zeroAddress } from "viem";
 import {
   OffchainOrder,
+  OrderJson,
   BidOrder,
   AskOrder,
   OrderStatus,
   createOrderSignaturePayload,
+  deserializeOrder,
+  serializeOrder,
   validateOrder,
   isOrderExpired,
   getRemainingAmount,
@@ -65,13 +68,7 @@ export function useOffchainOrders(): UseOffchainOrdersReturn {
 
       const data = await res.json();
       // Convert string values back to BigInt
-      const orders = (data.orders || []).map((order: any) => ({
-        ...order,
-        poolId: BigInt(order.poolId),
-        amount: BigInt(order.amount),
-        pricePerToken: BigInt(order.pricePerToken),
-        filledAmount: BigInt(order.filledAmount),
-      }));
+      const orders = ((data.orders || []) as OrderJson[]).map(deserializeOrder);
       setOrders(orders);
     } catch (err) {
       console.error("[Orders] Fetch failed:", err);
@@ -95,7 +92,7 @@ export function useOffchainOrders(): UseOffchainOrdersReturn {
           orderId,
           chainId,
           userAddress: address,
-          side: "BID",
+          side: "BUY",
           poolId: params.poolId,
           ftAddress: params.ftAddress,
           amount: params.amount,
@@ -121,9 +118,7 @@ export function useOffchainOrders(): UseOffchainOrdersReturn {
         const res = await fetch("/api/orders", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(order, (key, value) =>
-            typeof value === "bigint" ? value.toString() : value
-          ),
+          body: JSON.stringify(serializeOrder(order)),
         });
 
         if (!res.ok) {
@@ -131,15 +126,9 @@ export function useOffchainOrders(): UseOffchainOrdersReturn {
           throw new Error(errData.error || "Failed to create order");
         }
 
-        const createdOrder = await res.json();
+        const createdOrder: OrderJson = await res.json();
         // Convert string values back to BigInt
-        const deserializedOrder = {
-          ...createdOrder,
-          poolId: BigInt(createdOrder.poolId),
-          amount: BigInt(createdOrder.amount),
-          pricePerToken: BigInt(createdOrder.pricePerToken),
-          filledAmount: BigInt(createdOrder.filledAmount),
-        };
+        const deserializedOrder = deserializeOrder(createdOrder) as BidOrder;
         setOrders((prev) => [...prev, deserializedOrder]);
         setSuccess("Bid order created successfully");
 
@@ -171,7 +160,7 @@ export function useOffchainOrders(): UseOffchainOrdersReturn {
           orderId,
           chainId,
           userAddress: address,
-          side: "ASK",
+          side: "SELL",
           poolId: params.poolId,
           ftAddress: params.ftAddress,
           amount: params.amount,
@@ -197,9 +186,7 @@ export function useOffchainOrders(): UseOffchainOrdersReturn {
         const res = await fetch("/api/orders", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(order, (key, value) =>
-            typeof value === "bigint" ? value.toString() : value
-          ),
+          body: JSON.stringify(serializeOrder(order)),
         });
 
         if (!res.ok) {
@@ -207,15 +194,9 @@ export function useOffchainOrders(): UseOffchainOrdersReturn {
           throw new Error(errData.error || "Failed to create order");
         }
 
-        const createdOrder = await res.json();
+        const createdOrder: OrderJson = await res.json();
         // Convert string values back to BigInt
-        const deserializedOrder = {
-          ...createdOrder,
-          poolId: BigInt(createdOrder.poolId),
-          amount: BigInt(createdOrder.amount),
-          pricePerToken: BigInt(createdOrder.pricePerToken),
-          filledAmount: BigInt(createdOrder.filledAmount),
-        };
+        const deserializedOrder = deserializeOrder(createdOrder) as AskOrder;
         setOrders((prev) => [...prev, deserializedOrder]);
         setSuccess("Ask order created successfully");
 
@@ -262,8 +243,8 @@ export function useOffchainOrders(): UseOffchainOrdersReturn {
 
   return {
     orders,
-    bidOrders: orders.filter((o) => o.side === "BID") as BidOrder[],
-    askOrders: orders.filter((o) => o.side === "ASK") as AskOrder[],
+    bidOrders: orders.filter((o) => o.side === "BUY") as BidOrder[],
+    askOrders: orders.filter((o) => o.side === "SELL") as AskOrder[],
     createBidOrder,
     createAskOrder,
     cancelOrder,
@@ -2,12 +2,13 @@
 
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Address } from "viem";
+import { OrderSide, OrderType, TimeInForce } from "@/lib/orders";
 
 export interface OrderData {
   id: string;
   orderId: string;
   userAddress: string;
-  side: "BUY" | "SELL";
+  side: OrderSide;
   poolId: string;
   ftAddress: string;
   amount: string;
@@ -21,16 +22,19 @@ export interface OrderData {
 }
 
 export interface CreateOrderParams {
+  orderId: string;
   userAddress: string;
-  side: "BUY" | "SELL";
+  side: OrderSide;
   poolId: string;
   ftAddress: string;
   amount: string;
-  pricePerToken: string;
+  pricePerToken: string; // Limit price, or slippage cap for MARKET
+  orderType?: OrderType;
+  timeInForce?: TimeInForce;
   chainId: number;
-  expiresAt: number;
-  signature?: string;
-  nonce?: number;
+  expiresAt: number; // Unix timestamp (seconds), as signed
+  signature: string;
+  nonce: number;
 }
 
 export interface MatchOrderParams {
@@ -44,7 +48,7 @@ export interface MatchOrderParams {
  */
 export function useOrders(
   filters?: {
-    side?: "BUY" | "SELL";
+    side?: OrderSide;
     poolId?: string;
     userAddress?: string;
     status?: string;
@@ -162,7 +166,8 @@ export function useCancelOrder() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (params: { orderId: string; userAddress: string }) => {
+    // Signed with useSignOrder().signCancelOrder
+    mutationFn: async (params: { orderId: string; userAddress: string; signature: string }) => {
       const res = await fetch("/api/orders/cancel", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -208,3 +213,32 @@ export function useOrderStats(
     refetchInterval: 10000, // Auto-refresh every 10 seconds
   });
 }
+
+/**
+ * Hook untuk fetch L2 depth (price levels) dari /api/orders/depth
+ */
+export function useOrderDepth(
+  filters: {
+    poolId?: string;
+    levels?: number;
+    tick?: string; // wei
+  },
+  enabled: boolean = true
+) {
+  const queryParams = new URLSearchParams();
+
+  if (filters.poolId) queryParams.append("poolId", filters.poolId);
+  if (filters.levels) queryParams.append("levels", filters.levels.toString());
+  if (filters.tick) queryParams.append("tick", filters.tick);
+
+  return useQuery({
+    queryKey: ["depth", filters],
+    queryFn: async () => {
+      const res = await fetch(`/api/orders/depth?${queryParams}`);
+      if (!res.ok) throw new Error("Failed to fetch depth");
+      return res.json();
+    },
+    enabled: enabled && !!filters.poolId,
+    refetchInterval: 5000,
+  });
+}
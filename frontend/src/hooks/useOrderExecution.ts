@@ -1,13 +1,56 @@
 import { useCallback, useState } from "react";
 import { useAccount, useWriteContract, usePublicClient } from "wagmi";
-import { formatEther } from "viem";
+import { Abi, formatEther } from "viem";
 import OrderBookABI from "@/lib/contracts/OrderBook.json";
 import { getContractAddress } from "@/lib/contracts/addresses";
+import { toOrderStruct } from "@/lib/orders";
 import { erc20Abi } from "viem";
 
+/**
+ * Match data from /api/settlement/prepare, with the signed orders exactly as the users signed them
+ */
+async function fetchSettlementMatch(matchId: string) {
+  const prepRes = await fetch(`/api/settlement/prepare?matchId=${matchId}`);
+  if (!prepRes.ok) {
+    throw new Error("Failed to prepare settlement");
+  }
+  const prepData = await prepRes.json();
+  const match = prepData.match;
+  console.log("Match data received:", match);
+
+  if (!match.buyOrder || !match.sellOrder || !match.buySignature || !match.sellSignature) {
+    throw new Error("Both orders must be signed before settlement");
+  }
+  return match;
+}
+
+/**
+ * Record a confirmed settlement; the server checks the match's OrderMatched log in the receipt
+ */
+async function confirmSettlement(matchId: string, receipt: { transactionHash: string; blockNumber: bigint }) {
+  const confirmRes = await fetch("/api/settlement/confirm", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      matchId,
+      txHash: receipt.transactionHash,
+      blockNumber: Number(receipt.blockNumber),
+    }),
+  });
+
+  if (!confirmRes.ok) {
+    throw new Error("Failed to confirm settlement in database");
+  }
+}
+
 /**
  * Hook untuk execute order settlement on-chain via OrderBook contract
- * Simplified flow tanpa signature untuk testing
+ * The buyer funds the trade: a buyer settling sends the IP as msg.value, a seller
+ * settling sends nothing and OrderBook takes it from the buyer's deposit.
+ * The seller's FT always moves through their OrderBook allowance.
+ * executeTrades settles several of the wallet's own matches in one OrderBook.executeTrades
+ * call, which always pays from buyer deposits.
+ * Server-side relayer settlement lives in lib/settlement (POST /api/settlement/execute).
  */
 export function useOrderExecution() {
   const { address, chainId } = useAccount();
@@ -108,73 +151,46 @@ export function useOrderExecution() {
         console.log("OrderBook setup:", { orderBookAddress, abiLength: (OrderBookABI as any).length });
 
         // Get match data from server
-        const prepRes = await fetch(`/api/settlement/prepare?matchId=${matchId}`);
-        if (!prepRes.ok) {
-          throw new Error("Failed to prepare settlement");
-        }
-        const prepData = await prepRes.json();
-        const match = prepData.match;
-        console.log("Match data received:", match);
-
-        // Empty signatures for testing (in production these come from real signing)
-        const emptySignature = "0x0000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000";
-
-        // Parse pool ID - convert string to number
-        const poolId = BigInt(parseInt(match.poolId) || 1);
-
-        // Construct buyer order - convert BigInt to strings to avoid serialization issues
-        const buyOrder = {
-          orderId: match.buyOrderId,
-          side: "BID",
-          poolId: poolId.toString(),
-          ftAddress: match.ftAddress as `0x${string}`,
-          amount: BigInt(match.amount).toString(),
-          pricePerToken: BigInt(match.pricePerToken).toString(),
-          userAddress: match.buyerAddress as `0x${string}`,
-          nonce: "0",
-          expiresAt: BigInt(match.expiresAt).toString(),
-        };
-
-        // Construct seller order - convert BigInt to strings to avoid serialization issues
-        const sellOrder = {
-          orderId: match.sellOrderId,
-          side: "ASK",
-          poolId: poolId.toString(),
-          ftAddress: match.ftAddress as `0x${string}`,
-          amount: BigInt(match.amount).toString(),
-          pricePerToken: BigInt(match.pricePerToken).toString(),
-          userAddress: match.sellerAddress as `0x${string}`,
-          nonce: "0",
-          expiresAt: BigInt(match.expiresAt).toString(),
-        };
+        const match = await fetchSettlementMatch(matchId);
+        const buyOrder = toOrderStruct(match.buyOrder);
+        const sellOrder = toOrderStruct(match.sellOrder);
 
         // Calculate IP to send
         const totalValue = (BigInt(match.amount) * BigInt(match.pricePerToken)) / BigInt(1e18);
 
-        // Check 1: Verify buyer has enough IP
-        if (publicClient) {
-          const buyerBalance = await publicClient.getBalance({
-            address: match.buyerAddress as `0x${string}`,
-          });
-          if (buyerBalance < totalValue) {
-            throw new Error(
-              `Buyer has insufficient IP. Need ${formatEther(totalValue)} IP but has only ${formatEther(buyerBalance)} IP`
-            );
-          }
+        const isBuyer = address.toLowerCase() === match.buyerAddress?.toLowerCase();
+        const isSeller = address.toLowerCase() === match.sellerAddress?.toLowerCase();
+        if (!isBuyer && !isSeller) {
+          throw new Error(`Only the buyer or the seller can settle this match. Current: ${address}`);
         }
 
-        // Check 2: Only seller can execute settlement (to ensure token approval)
-        console.log("Current user:", address, "Seller:", match.sellerAddress);
-
-        if (address?.toLowerCase() !== match.sellerAddress?.toLowerCase()) {
-          throw new Error(
-            `Only the seller can execute settlement. Current: ${address}, Seller: ${match.sellerAddress}`
-          );
+        // Check 1: the buyer's IP - wallet balance when they send it, OrderBook deposit otherwise
+        if (publicClient) {
+          if (isBuyer) {
+            const buyerBalance = await publicClient.getBalance({ address });
+            if (buyerBalance < totalValue) {
+              throw new Error(
+                `Insufficient IP. Need ${formatEther(totalValue)} IP but have only ${formatEther(buyerBalance)} IP`
+              );
+            }
+          } else {
+            const buyerDeposit = (await publicClient.readContract({
+              address: orderBookAddress as `0x${string}`,
+              abi: OrderBookABI as Abi,
+              functionName: "deposits",
+              args: [match.buyerAddress as `0x${string}`],
+            })) as bigint;
+            if (buyerDeposit < totalValue) {
+              throw new Error(
+                `Buyer deposit is too low to settle from the seller side. Need ${formatEther(totalValue)} IP, deposited ${formatEther(buyerDeposit)} IP`
+              );
+            }
+          }
         }
 
-        console.log("User is seller, checking token balance and approval...");
+        // Check 2: seller token balance and OrderBook allowance
+        console.log("Current user:", address, "Buyer:", match.buyerAddress, "Seller:", match.sellerAddress);
 
-        // Check seller token balance
         const sellerBalance = await publicClient?.readContract({
           address: match.ftAddress as `0x${string}`,
           abi: erc20Abi,
@@ -189,21 +205,34 @@ export function useOrderExecution() {
           );
         }
 
-        // Auto-approve tokens if needed
-        await checkAndApproveToken(
-          match.ftAddress as `0x${string}`,
-          match.sellerAddress as `0x${string}`,
-          orderBookAddress as `0x${string}`,
-          BigInt(match.amount)
-        );
-        console.log("Token approval check complete");
+        if (isSeller) {
+          // Auto-approve tokens if needed
+          await checkAndApproveToken(
+            match.ftAddress as `0x${string}`,
+            match.sellerAddress as `0x${string}`,
+            orderBookAddress as `0x${string}`,
+            BigInt(match.amount)
+          );
+          console.log("Token approval check complete");
+        } else {
+          const sellerAllowance = await publicClient?.readContract({
+            address: match.ftAddress as `0x${string}`,
+            abi: erc20Abi,
+            functionName: "allowance",
+            args: [match.sellerAddress as `0x${string}`, orderBookAddress as `0x${string}`],
+          });
+          if (!sellerAllowance || sellerAllowance < BigInt(match.amount)) {
+            throw new Error("Seller has not approved the OrderBook for this token yet, so only the seller can settle");
+          }
+        }
 
         // Execute trade on-chain
         console.log("Executing trade with args:", {
-          buyOrder,
-          sellOrder,
+          buyOrderId: buyOrder.orderId,
+          sellOrderId: sellOrder.orderId,
           amount: BigInt(match.amount).toString(),
           totalValue: totalValue.toString(),
+          fundedBy: isBuyer ? "msg.value" : "buyer deposit",
           orderBookAddress,
         });
 
@@ -211,8 +240,16 @@ export function useOrderExecution() {
           address: orderBookAddress as `0x${string}`,
           abi: OrderBookABI as any,
           functionName: "executeTrade",
-          args: [buyOrder, emptySignature, sellOrder, emptySignature, match.amount],
-          value: totalValue,
+          args: [
+            buyOrder,
+            match.buySignature,
+            sellOrder,
+            match.sellSignature,
+            BigInt(match.amount),
+            BigInt(match.pricePerToken),
+          ],
+          // Only the buyer pays in; from the seller side the buyer's deposit is spent
+          value: isBuyer ? totalValue : BigInt(0),
         });
 
         console.log("Trade execution tx hash:", txHash);
@@ -235,19 +272,7 @@ export function useOrderExecution() {
           }
 
           // Confirm settlement in database
-          const confirmRes = await fetch("/api/settlement/confirm", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              matchId,
-              txHash: receipt.transactionHash,
-              blockNumber: typeof receipt.blockNumber === 'bigint' ? Number(receipt.blockNumber) : receipt.blockNumber,
-            }),
-          });
-
-          if (!confirmRes.ok) {
-            throw new Error("Failed to confirm settlement in database");
-          }
+          await confirmSettlement(matchId, receipt);
         }
 
         return { success: true, txHash };
@@ -268,8 +293,162 @@ export function useOrderExecution() {
     [address, chainId, writeContractAsync, publicClient, checkAndApproveToken]
   );
 
+  /**
+   * Settle several matches of the connected wallet in one executeTrades transaction.
+   * All-or-nothing on-chain. Every trade is paid from its buyer's deposit: a shortfall of
+   * the connected buyer is deposited first, other buyers must have deposited enough already.
+   */
+  const executeTrades = useCallback(
+    async (matchIds: string[]) => {
+      try {
+        if (!address || !chainId) {
+          throw new Error("Wallet not connected");
+        }
+        if (!publicClient) {
+          throw new Error("Public client not available");
+        }
+        if (matchIds.length === 0) {
+          throw new Error("No matches to settle");
+        }
+
+        setIsExecuting(true);
+        setError(null);
+        setLastMode("wallet");
+
+        const orderBookAddress = getContractAddress(chainId, "OrderBook") as `0x${string}` | undefined;
+        if (!orderBookAddress) {
+          throw new Error("OrderBook contract not found for this chain");
+        }
+
+        const matches = await Promise.all(matchIds.map(fetchSettlementMatch));
+        const user = address.toLowerCase();
+
+        // What each buyer pays (IP) and each seller delivers (FT) across the batch
+        const buyerTotals = new Map<string, bigint>();
+        const sellerTotals = new Map<string, { seller: `0x${string}`; ftAddress: `0x${string}`; amount: bigint }>();
+        for (const match of matches) {
+          const buyer = match.buyerAddress.toLowerCase();
+          const seller = match.sellerAddress.toLowerCase();
+          if (buyer !== user && seller !== user) {
+            throw new Error(`Match ${match.matchId} is not yours to settle`);
+          }
+
+          const amount = BigInt(match.amount);
+          const totalValue = (amount * BigInt(match.pricePerToken)) / BigInt(1e18);
+          buyerTotals.set(buyer, (buyerTotals.get(buyer) ?? BigInt(0)) + totalValue);
+
+          const key = `${seller}:${match.ftAddress.toLowerCase()}`;
+          const current = sellerTotals.get(key);
+          sellerTotals.set(key, {
+            seller: seller as `0x${string}`,
+            ftAddress: match.ftAddress as `0x${string}`,
+            amount: (current?.amount ?? BigInt(0)) + amount,
+          });
+        }
+
+        // Check 1: buyer deposits, topping up the connected buyer's own shortfall
+        for (const [buyer, needed] of buyerTotals) {
+          const deposited = (await publicClient.readContract({
+            address: orderBookAddress,
+            abi: OrderBookABI as Abi,
+            functionName: "deposits",
+            args: [buyer as `0x${string}`],
+          })) as bigint;
+          if (deposited >= needed) continue;
+
+          const shortfall = needed - deposited;
+          if (buyer !== user) {
+            throw new Error(
+              `Buyer ${buyer.slice(0, 6)}... has deposited ${formatEther(deposited)} IP but the batch needs ${formatEther(needed)} IP`
+            );
+          }
+          const balance = await publicClient.getBalance({ address });
+          if (balance < shortfall) {
+            throw new Error(`Insufficient IP. Need ${formatEther(shortfall)} IP but have only ${formatEther(balance)} IP`);
+          }
+
+          const depositHash = await writeContractAsync({
+            address: orderBookAddress,
+            abi: OrderBookABI as Abi,
+            functionName: "deposit",
+            value: shortfall,
+          });
+          const depositReceipt = await publicClient.waitForTransactionReceipt({ hash: depositHash, confirmations: 1 });
+          if (depositReceipt.status === "reverted") {
+            throw new Error("Deposit transaction reverted");
+          }
+        }
+
+        // Check 2: seller token balances and OrderBook allowances
+        for (const { seller, ftAddress, amount } of sellerTotals.values()) {
+          const sellerBalance = await publicClient.readContract({
+            address: ftAddress,
+            abi: erc20Abi,
+            functionName: "balanceOf",
+            args: [seller],
+          });
+          if (sellerBalance < amount) {
+            throw new Error(`Seller ${seller.slice(0, 6)}... has insufficient token balance for the batch`);
+          }
+
+          if (seller === user) {
+            await checkAndApproveToken(ftAddress, seller, orderBookAddress, amount);
+          } else {
+            const sellerAllowance = await publicClient.readContract({
+              address: ftAddress,
+              abi: erc20Abi,
+              functionName: "allowance",
+              args: [seller, orderBookAddress],
+            });
+            if (sellerAllowance < amount) {
+              throw new Error(`Seller ${seller.slice(0, 6)}... has not approved the OrderBook for this token yet`);
+            }
+          }
+        }
+
+        const txHash = await writeContractAsync({
+          address: orderBookAddress,
+          abi: OrderBookABI as Abi,
+          functionName: "executeTrades",
+          args: [
+            matches.map((match) => ({
+              buyOrder: toOrderStruct(match.buyOrder),
+              buySignature: match.buySignature,
+              sellOrder: toOrderStruct(match.sellOrder),
+              sellSignature: match.sellSignature,
+              amount: BigInt(match.amount),
+              pricePerToken: BigInt(match.pricePerToken),
+            })),
+          ],
+        });
+        console.log("Batch execution tx hash:", txHash);
+
+        const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash, confirmations: 1 });
+        if (receipt.status === "reverted") {
+          throw new Error("Batch execution reverted on-chain");
+        }
+
+        // Every match of the batch is confirmed against the same receipt
+        for (const match of matches) {
+          await confirmSettlement(match.matchId, receipt);
+        }
+
+        return { success: true, txHash };
+      } catch (err) {
+        const error = err as Error;
+        setError(error.message);
+        console.error("Error executing trades:", error);
+        throw error;
+      } finally {
+        setIsExecuting(false);
+      }
+    },
+    [address, chainId, writeContractAsync, publicClient, checkAndApproveToken]
+  );
+
   return {
     executeTrade,
+    executeTrades,
     isExecuting,
     error,
     lastMode,
@@ -0,0 +1,137 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { MarketEvent, StreamMatch, StreamOrder } from "@/lib/marketEvents";
+
+// Event names sent by /api/orders/stream (besides the initial snapshot)
+const EVENT_TYPES = [
+  "order.created",
+  "order.updated",
+  "order.filled",
+  "order.cancelled",
+  "order.expired",
+  "match.created",
+  "match.failed",
+  "settlement.confirmed",
+] as const;
+
+const LIVE_STATUSES = ["OPEN", "PARTIALLY_FILLED"];
+const MAX_RECENT_MATCHES = 50;
+
+interface Snapshot {
+  seq: number;
+  poolId: string;
+  orders: StreamOrder[];
+}
+
+const byPrice = (desc: boolean) => (a: StreamOrder, b: StreamOrder) => {
+  const pa = BigInt(a.pricePerToken);
+  const pb = BigInt(b.pricePerToken);
+  if (pa !== pb) return (pa > pb ? 1 : -1) * (desc ? -1 : 1);
+  return a.createdAt.localeCompare(b.createdAt);
+};
+
+function isResting(order: StreamOrder): boolean {
+  return (
+    order.orderType === "LIMIT" &&
+    LIVE_STATUSES.includes(order.status) &&
+    BigInt(order.amount) > BigInt(order.filledAmount) &&
+    new Date(order.expiresAt).getTime() > Date.now()
+  );
+}
+
+/**
+ * Live order book of a pool dari /api/orders/stream (SSE).
+ * Starts from a snapshot and applies events in sequence; on a gap it
+ * reconnects with ?since=<last seq> to replay (or re-snapshot) the book.
+ */
+export function useOrderStream(
+  poolId: string | undefined,
+  options: { enabled?: boolean; onEvent?: (event: MarketEvent) => void } = {}
+) {
+  const { enabled = true, onEvent } = options;
+  const [orders, setOrders] = useState<StreamOrder[]>([]);
+  const [matches, setMatches] = useState<StreamMatch[]>([]);
+  const [seq, setSeq] = useState<number | null>(null);
+  const [connected, setConnected] = useState(false);
+
+  // Latest callback without reconnecting when it changes
+  const onEventRef = useRef(onEvent);
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    if (!poolId || !enabled || typeof EventSource === "undefined") return;
+
+    const book = new Map<string, StreamOrder>();
+    let lastSeq: number | null = null;
+    let source: EventSource | null = null;
+    let closed = false;
+
+    const applyOrder = (order: StreamOrder) => {
+      if (isResting(order)) {
+        book.set(order.id, order);
+      } else {
+        book.delete(order.id);
+      }
+    };
+
+    const handleSnapshot = (message: MessageEvent) => {
+      const snapshot: Snapshot = JSON.parse(message.data);
+      book.clear();
+      snapshot.orders.forEach(applyOrder);
+      lastSeq = snapshot.seq;
+      setOrders([...book.values()]);
+      setSeq(snapshot.seq);
+    };
+
+    const handleEvent = (message: MessageEvent) => {
+      const event: MarketEvent = JSON.parse(message.data);
+      if (lastSeq === null || event.seq <= lastSeq) return; // before the snapshot or already applied
+      if (event.seq > lastSeq + 1) {
+        // Missed something: replay from the last applied event
+        connect();
+        return;
+      }
+
+      lastSeq = event.seq;
+      const { order, match } = event.data as { order?: StreamOrder; match?: StreamMatch };
+      if (order) {
+        applyOrder(order);
+        setOrders([...book.values()]);
+      }
+      if (match) {
+        setMatches((prev) => [match, ...prev.filter((m) => m.id !== match.id)].slice(0, MAX_RECENT_MATCHES));
+      }
+      setSeq(event.seq);
+      onEventRef.current?.(event);
+    };
+
+    function connect() {
+      source?.close();
+      if (closed) return;
+      const query = new URLSearchParams({ poolId: poolId! });
+      if (lastSeq !== null) query.set("since", String(lastSeq));
+
+      source = new EventSource(`/api/orders/stream?${query}`);
+      source.onopen = () => setConnected(true);
+      // EventSource retries by itself and resumes via Last-Event-ID
+      source.onerror = () => setConnected(false);
+      source.addEventListener("snapshot", handleSnapshot);
+      for (const type of EVENT_TYPES) source.addEventListener(type, handleEvent);
+    }
+
+    connect();
+    return () => {
+      closed = true;
+      source?.close();
+      setConnected(false);
+    };
+  }, [poolId, enabled]);
+
+  const bids = useMemo(() => orders.filter((o) => o.side === "BUY").sort(byPrice(true)), [orders]);
+  const asks = useMemo(() => orders.filter((o) => o.side === "SELL").sort(byPrice(false)), [orders]);
+
+  return { orders, bids, asks, matches, seq, connected };
+}
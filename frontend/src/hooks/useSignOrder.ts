@@ -1,6 +1,17 @@
 import { useCallback } from "react";
 import { useAccount, useSignTypedData } from "wagmi";
+import { v4 as uuidv4 } from "uuid";
 import { getContractAddress } from "@/lib/contracts/addresses";
+import {
+  CANCEL_ALL_TYPES,
+  CANCEL_ORDER_TYPES,
+  CANCEL_POOL_TYPES,
+  ORDER_TYPES,
+  OrderSide,
+  getOrderDomain,
+  toOrderStruct,
+  toSignedSide,
+} from "@/lib/orders";
 
 /**
  * Hook untuk sign order dengan EIP-712
@@ -11,14 +22,14 @@ export function useSignOrder() {
 
   const signOrder = useCallback(
     async (orderData: {
-      orderId: string;
-      side: "BID" | "ASK";
+      orderId?: string;
+      side: OrderSide;
       poolId: string;
       ftAddress: string;
       amount: string;
       pricePerToken: string;
       nonce?: number;
-      expiresAt: string;
+      expiresAt: number; // Unix timestamp (seconds)
     }) => {
       try {
         if (!address || !chainId) {
@@ -30,48 +41,36 @@ export function useSignOrder() {
           throw new Error("OrderBook contract not found");
         }
 
-        // Prepare EIP-712 data
-        const domain = {
-          name: "Lixa Order Book" as const,
-          version: "1" as const,
-          chainId: chainId,
-          verifyingContract: orderBookAddress,
-        };
-
-        const types = {
-          Order: [
-            { name: "orderId", type: "string" },
-            { name: "side", type: "string" },
-            { name: "poolId", type: "uint256" },
-            { name: "ftAddress", type: "address" },
-            { name: "amount", type: "uint256" },
-            { name: "pricePerToken", type: "uint256" },
-            { name: "userAddress", type: "address" },
-            { name: "nonce", type: "uint256" },
-            { name: "expiresAt", type: "uint256" },
-          ],
-        };
+        // Fetch next unused nonce from server if not provided
+        let nonce = orderData.nonce;
+        if (nonce === undefined) {
+          const nonceRes = await fetch(
+            `/api/orders/nonce?userAddress=${address}&chainId=${chainId}`
+          );
+          if (!nonceRes.ok) {
+            throw new Error("Failed to fetch order nonce");
+          }
+          nonce = (await nonceRes.json()).nonce as number;
+        }
 
-        const expiresAtTimestamp = Math.floor(
-          new Date(orderData.expiresAt).getTime() / 1000
-        );
+        const orderId = orderData.orderId ?? uuidv4();
 
-        const message = {
-          orderId: orderData.orderId,
-          side: orderData.side,
-          poolId: BigInt(orderData.poolId),
+        const message = toOrderStruct({
+          orderId,
+          side: toSignedSide(orderData.side),
+          poolId: orderData.poolId,
           ftAddress: orderData.ftAddress as `0x${string}`,
-          amount: BigInt(orderData.amount),
-          pricePerToken: BigInt(orderData.pricePerToken),
+          amount: orderData.amount,
+          pricePerToken: orderData.pricePerToken,
           userAddress: address,
-          nonce: BigInt(orderData.nonce || 0),
-          expiresAt: BigInt(expiresAtTimestamp),
-        };
+          nonce: nonce.toString(),
+          expiresAt: orderData.expiresAt.toString(),
+        });
 
         // Sign with wallet
         const signature = await signTypedDataAsync({
-          domain,
-          types,
+          domain: getOrderDomain(chainId),
+          types: ORDER_TYPES,
           primaryType: "Order",
           message,
         });
@@ -80,6 +79,8 @@ export function useSignOrder() {
           success: true,
           signature,
           message,
+          orderId,
+          nonce,
         };
       } catch (error) {
         console.error("Error signing order:", error);
@@ -89,5 +90,62 @@ export function useSignOrder() {
     [address, chainId, signTypedDataAsync]
   );
 
-  return { signOrder };
+  /**
+   * Sign a cancel-all for every order signed so far (minNonce = next nonce),
+   * limited to one pool when poolId is given
+   */
+  const signCancelAll = useCallback(
+    async (poolId?: string) => {
+      if (!address || !chainId) {
+        throw new Error("Wallet not connected");
+      }
+
+      const nonceRes = await fetch(`/api/orders/nonce?userAddress=${address}&chainId=${chainId}`);
+      if (!nonceRes.ok) {
+        throw new Error("Failed to fetch order nonce");
+      }
+      const minNonce = (await nonceRes.json()).nonce as number;
+
+      const signature =
+        poolId !== undefined
+          ? await signTypedDataAsync({
+              domain: getOrderDomain(chainId),
+              types: CANCEL_POOL_TYPES,
+              primaryType: "CancelPoolOrders",
+              message: { userAddress: address, poolId: BigInt(poolId), minNonce: BigInt(minNonce) },
+            })
+          : await signTypedDataAsync({
+              domain: getOrderDomain(chainId),
+              types: CANCEL_ALL_TYPES,
+              primaryType: "CancelAllBelowNonce",
+              message: { userAddress: address, minNonce: BigInt(minNonce) },
+            });
+
+      return { chainId, userAddress: address, minNonce, poolId, signature };
+    },
+    [address, chainId, signTypedDataAsync]
+  );
+
+  /**
+   * Sign a cancel for one order (Order row id), as /api/orders/cancel expects
+   */
+  const signCancelOrder = useCallback(
+    async (orderId: string) => {
+      if (!address || !chainId) {
+        throw new Error("Wallet not connected");
+      }
+
+      const signature = await signTypedDataAsync({
+        domain: getOrderDomain(chainId),
+        types: CANCEL_ORDER_TYPES,
+        primaryType: "CancelOrder",
+        message: { orderId, userAddress: address },
+      });
+
+      return { orderId, userAddress: address, signature };
+    },
+    [address, chainId, signTypedDataAsync]
+  );
+
+  return { signOrder, signCancelAll, signCancelOrder };
 }
@@ -0,0 +1,327 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { ApiKey, Prisma, PrismaClient } from "@prisma/client";
+import { Address, Hex, hashTypedData, isAddress, verifyTypedData } from "viem";
+import { getOrderDomain } from "@/lib/orders";
+
+/**
+ * Market maker API keys.
+ * A wallet requests a key by signing an EIP-712 ApiKeyRequest in the order book
+ * domain (same domain as orders). The key is `lixa_<id>_<secret>`; only the
+ * SHA-256 of the secret is stored. Keys are scoped and rate limited per minute
+ * by order operation (a bulk request of 20 orders costs 20). Orders placed with
+ * a key still carry their own EIP-712 order signature for on-chain settlement.
+ */
+
+export const API_KEY_SCOPES = ["orders:place", "orders:cancel"] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const DEFAULT_RATE_LIMIT = 120;
+export const MAX_RATE_LIMIT = 1200;
+export const MAX_LABEL_LENGTH = 64;
+
+const KEY_PREFIX = "lixa";
+const RATE_WINDOW_MS = 60 * 1000;
+// Signed requests older (or further in the future) than this are rejected
+const MAX_REQUEST_AGE_SECONDS = 10 * 60;
+
+export class ApiKeyError extends Error {
+  constructor(message: string, public statusCode: number = 401, public rateLimit?: RateLimitState) {
+    super(message);
+    this.name = "ApiKeyError";
+  }
+}
+
+/**
+ * EIP-712 ApiKeyRequest - signed by the wallet to issue a key
+ */
+export const API_KEY_REQUEST_TYPES = {
+  ApiKeyRequest: [
+    { name: "userAddress", type: "address" },
+    { name: "label", type: "string" },
+    { name: "scopes", type: "string" }, // comma-separated, e.g. "orders:place,orders:cancel"
+    { name: "rateLimit", type: "uint256" }, // order operations per minute
+    { name: "expiresAt", type: "uint256" }, // unix seconds, 0 = no expiry
+    { name: "issuedAt", type: "uint256" }, // unix seconds
+  ],
+} as const;
+
+/**
+ * EIP-712 ApiKeyRevocation - signed by the wallet to revoke one of its keys
+ */
+export const API_KEY_REVOCATION_TYPES = {
+  ApiKeyRevocation: [
+    { name: "keyId", type: "string" },
+    { name: "userAddress", type: "address" },
+    { name: "issuedAt", type: "uint256" },
+  ],
+} as const;
+
+export interface ApiKeyRequest {
+  userAddress: Address;
+  label: string;
+  scopes: string;
+  rateLimit: number;
+  expiresAt: number;
+  issuedAt: number;
+}
+
+export interface RateLimitState {
+  limit: number;
+  remaining: number;
+  resetAt: number; // unix seconds
+}
+
+/**
+ * Key metadata safe to return (no secret or request hash)
+ */
+export function toApiKeyInfo(key: ApiKey) {
+  return {
+    id: key.id,
+    userAddress: key.userAddress,
+    chainId: key.chainId,
+    label: key.label,
+    scopes: key.scopes.split(","),
+    rateLimit: key.rateLimit,
+    expiresAt: key.expiresAt,
+    revokedAt: key.revokedAt,
+    lastUsedAt: key.lastUsedAt,
+    createdAt: key.createdAt,
+  };
+}
+
+/**
+ * Parse "orders:place,orders:cancel" into known scopes (null if any is unknown)
+ */
+export function parseScopes(value: string): ApiKeyScope[] | null {
+  const scopes = value
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  if (scopes.length === 0) return null;
+  if (!scopes.every((s) => (API_KEY_SCOPES as readonly string[]).includes(s))) return null;
+  return [...new Set(scopes)] as ApiKeyScope[];
+}
+
+const hashSecret = (secret: string) => createHash("sha256").update(secret).digest("hex");
+
+function assertFreshRequest(issuedAt: number) {
+  const now = Math.floor(Date.now() / 1000);
+  if (!Number.isSafeInteger(issuedAt) || Math.abs(now - issuedAt) > MAX_REQUEST_AGE_SECONDS) {
+    throw new ApiKeyError("Signed request expired - sign a new one with the current issuedAt", 400);
+  }
+}
+
+/**
+ * Verify a signed ApiKeyRequest and issue a key. The full key is only returned here.
+ */
+export async function issueApiKey(
+  prisma: PrismaClient,
+  params: { chainId: number; request: ApiKeyRequest; signature: Hex }
+) {
+  const { chainId, request, signature } = params;
+
+  if (!isAddress(request.userAddress)) {
+    throw new ApiKeyError("Invalid userAddress", 400);
+  }
+  const label = request.label.trim();
+  if (!label || label.length > MAX_LABEL_LENGTH) {
+    throw new ApiKeyError(`label must be 1-${MAX_LABEL_LENGTH} characters`, 400);
+  }
+  const scopes = parseScopes(request.scopes);
+  if (!scopes) {
+    throw new ApiKeyError(`scopes must be a comma-separated list of ${API_KEY_SCOPES.join(", ")}`, 400);
+  }
+  if (!Number.isSafeInteger(request.rateLimit) || request.rateLimit < 1 || request.rateLimit > MAX_RATE_LIMIT) {
+    throw new ApiKeyError(`rateLimit must be between 1 and ${MAX_RATE_LIMIT}`, 400);
+  }
+  if (
+    !Number.isSafeInteger(request.expiresAt) ||
+    (request.expiresAt !== 0 && request.expiresAt * 1000 <= Date.now())
+  ) {
+    throw new ApiKeyError("expiresAt must be 0 or in the future", 400);
+  }
+  assertFreshRequest(request.issuedAt);
+
+  const typedData = {
+    domain: getOrderDomain(chainId),
+    types: API_KEY_REQUEST_TYPES,
+    primaryType: "ApiKeyRequest",
+    message: {
+      ...request,
+      rateLimit: BigInt(request.rateLimit),
+      expiresAt: BigInt(request.expiresAt),
+      issuedAt: BigInt(request.issuedAt),
+    },
+  } as const;
+
+  let valid = false;
+  try {
+    valid = await verifyTypedData({ ...typedData, address: request.userAddress, signature });
+  } catch (err) {
+    console.error("[ApiKeys] Signature verification failed:", err);
+  }
+  if (!valid) {
+    throw new ApiKeyError("Invalid API key request signature", 401);
+  }
+
+  const secret = randomBytes(32).toString("hex");
+  try {
+    const key = await prisma.apiKey.create({
+      data: {
+        userAddress: request.userAddress.toLowerCase(),
+        chainId,
+        label,
+        scopes: scopes.join(","),
+        rateLimit: request.rateLimit,
+        secretHash: hashSecret(secret),
+        requestHash: hashTypedData(typedData),
+        expiresAt: request.expiresAt ? new Date(request.expiresAt * 1000) : null,
+      },
+    });
+    return { apiKey: `${KEY_PREFIX}_${key.id}_${secret}`, key: toApiKeyInfo(key) };
+  } catch (error) {
+    // The same signed request can only issue one key
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      throw new ApiKeyError("This signed request was already used", 409);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Keys of a wallet, newest first
+ */
+export async function listApiKeys(prisma: PrismaClient, userAddress: string) {
+  const keys = await prisma.apiKey.findMany({
+    where: { userAddress: userAddress.toLowerCase() },
+    orderBy: { createdAt: "desc" },
+  });
+  return keys.map(toApiKeyInfo);
+}
+
+/**
+ * Revoke a key with a signed ApiKeyRevocation from its wallet
+ */
+export async function revokeApiKeyWithSignature(
+  prisma: PrismaClient,
+  params: { keyId: string; issuedAt: number; signature: Hex }
+) {
+  const key = await prisma.apiKey.findUnique({ where: { id: params.keyId } });
+  if (!key) {
+    throw new ApiKeyError("API key not found", 404);
+  }
+  assertFreshRequest(params.issuedAt);
+
+  let valid = false;
+  try {
+    valid = await verifyTypedData({
+      address: key.userAddress as Address,
+      domain: getOrderDomain(key.chainId),
+      types: API_KEY_REVOCATION_TYPES,
+      primaryType: "ApiKeyRevocation",
+      message: { keyId: key.id, userAddress: key.userAddress as Address, issuedAt: BigInt(params.issuedAt) },
+      signature: params.signature,
+    });
+  } catch (err) {
+    console.error("[ApiKeys] Signature verification failed:", err);
+  }
+  if (!valid) {
+    throw new ApiKeyError("Invalid revocation signature", 401);
+  }
+
+  return revokeApiKey(prisma, key);
+}
+
+/**
+ * Mark a key revoked (idempotent)
+ */
+export async function revokeApiKey(prisma: PrismaClient, key: ApiKey) {
+  if (key.revokedAt) return toApiKeyInfo(key);
+  const revoked = await prisma.apiKey.update({ where: { id: key.id }, data: { revokedAt: new Date() } });
+  return toApiKeyInfo(revoked);
+}
+
+/**
+ * Resolve the key sent as `Authorization: Bearer <key>` or `X-API-Key: <key>`
+ * and check it is live and has every scope in `scopes`
+ */
+export async function authenticateApiKey(
+  prisma: PrismaClient,
+  request: Request,
+  scopes: ApiKeyScope[] = []
+): Promise<ApiKey> {
+  const header = request.headers.get("authorization");
+  const raw = header?.toLowerCase().startsWith("bearer ") ? header.slice(7).trim() : request.headers.get("x-api-key");
+  if (!raw) {
+    throw new ApiKeyError("Missing API key");
+  }
+
+  const [prefix, id, secret, ...rest] = raw.split("_");
+  if (prefix !== KEY_PREFIX || !id || !secret || rest.length > 0) {
+    throw new ApiKeyError("Malformed API key");
+  }
+
+  const key = await prisma.apiKey.findUnique({ where: { id } });
+  const expected = key ? Buffer.from(key.secretHash, "hex") : null;
+  const actual = Buffer.from(hashSecret(secret), "hex");
+  if (!key || !expected || expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new ApiKeyError("Invalid API key");
+  }
+  if (key.revokedAt) {
+    throw new ApiKeyError("API key has been revoked");
+  }
+  if (key.expiresAt && key.expiresAt <= new Date()) {
+    throw new ApiKeyError("API key has expired");
+  }
+
+  const granted = key.scopes.split(",");
+  const missing = scopes.filter((scope) => !granted.includes(scope));
+  if (missing.length > 0) {
+    throw new ApiKeyError(`API key lacks scope: ${missing.join(", ")}`, 403);
+  }
+
+  return prisma.apiKey.update({ where: { id: key.id }, data: { lastUsedAt: new Date() } });
+}
+
+// Fixed one-minute windows per key, in this server process
+const rateWindows = new Map<string, { windowStart: number; used: number }>();
+
+/**
+ * Spend `cost` order operations from the key's per-minute budget (all or nothing)
+ */
+export function consumeRateLimit(key: Pick<ApiKey, "id" | "rateLimit">, cost: number): RateLimitState {
+  const now = Date.now();
+  const windowStart = Math.floor(now / RATE_WINDOW_MS) * RATE_WINDOW_MS;
+  const current = rateWindows.get(key.id);
+  const used = current && current.windowStart === windowStart ? current.used : 0;
+  const resetAt = Math.floor((windowStart + RATE_WINDOW_MS) / 1000);
+
+  if (used + cost > key.rateLimit) {
+    const state = { limit: key.rateLimit, remaining: key.rateLimit - used, resetAt };
+    throw new ApiKeyError(
+      cost > key.rateLimit
+        ? `Request needs ${cost} operations but the key allows ${key.rateLimit} per minute`
+        : "Rate limit exceeded",
+      429,
+      state
+    );
+  }
+
+  rateWindows.set(key.id, { windowStart, used: used + cost });
+  return { limit: key.rateLimit, remaining: key.rateLimit - used - cost, resetAt };
+}
+
+/**
+ * X-RateLimit-* response headers, plus Retry-After for a rejected (429) request
+ */
+export function rateLimitHeaders(state: RateLimitState, limited: boolean = false): Record<string, string> {
+  const headers: Record<string, string> = {
+    "X-RateLimit-Limit": String(state.limit),
+    "X-RateLimit-Remaining": String(state.remaining),
+    "X-RateLimit-Reset": String(state.resetAt),
+  };
+  if (limited) {
+    headers["Retry-After"] = String(Math.max(state.resetAt - Math.floor(Date.now() / 1000), 1));
+  }
+  return headers;
+}
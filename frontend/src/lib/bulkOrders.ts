@@ -0,0 +1,138 @@
+import type { ApiKey, PrismaClient } from "@prisma/client";
+import { OrderRequestError, PlaceOrderRequest, cancelOrder, placeOrder } from "@/lib/orderPlacement";
+
+/**
+ * Bulk place / replace / cancel for market maker API keys (/api/orders/bulk/*).
+ * Items run one by one in request order and each gets its own result, so one
+ * rejected order does not fail the batch. Every order must belong to the key's wallet.
+ */
+
+export const MAX_BULK_ORDERS = 50;
+
+export interface BulkOrderResult {
+  index: number;
+  success: boolean;
+  status: number; // HTTP status the single-order route would have returned
+  id?: string; // Order row id (the id /api/orders/cancel takes)
+  orderId?: string;
+  orderStatus?: string;
+  matchesCreated?: number;
+  cancelled?: boolean; // replace: whether the old order was cancelled
+  error?: string;
+  details?: unknown;
+}
+
+export interface ReplaceOrderRequest {
+  cancelOrderId: string; // Order row id to cancel
+  order: PlaceOrderRequest;
+}
+
+function failure(index: number, error: unknown): BulkOrderResult {
+  if (error instanceof OrderRequestError) {
+    return { index, success: false, status: error.statusCode, error: error.message, details: error.details };
+  }
+  console.error(`[BulkOrders] Item ${index} failed:`, error);
+  return { index, success: false, status: 500, error: (error as Error).message ?? "Internal error" };
+}
+
+/**
+ * Orders sent with a key act for the key's wallet and chain only
+ */
+function assertKeyOwns(key: ApiKey, order: PlaceOrderRequest) {
+  if (!order || typeof order !== "object") {
+    throw new OrderRequestError("Order must be an object");
+  }
+  if (String(order.userAddress ?? "").toLowerCase() !== key.userAddress) {
+    throw new OrderRequestError("Order userAddress does not match the API key wallet", 403);
+  }
+  if (order.chainId !== undefined && Number(order.chainId) !== key.chainId) {
+    throw new OrderRequestError(`API key is only valid on chain ${key.chainId}`, 403);
+  }
+}
+
+async function placeForKey(prisma: PrismaClient, key: ApiKey, order: PlaceOrderRequest, index: number) {
+  assertKeyOwns(key, order);
+  const placed = await placeOrder(prisma, { ...order, chainId: key.chainId });
+  return {
+    index,
+    success: true,
+    status: 201,
+    id: placed.order.id,
+    orderId: placed.order.orderId,
+    orderStatus: placed.order.status,
+    ...(placed.matches && { matchesCreated: placed.matches.length }),
+  };
+}
+
+export async function bulkPlaceOrders(
+  prisma: PrismaClient,
+  key: ApiKey,
+  orders: PlaceOrderRequest[]
+): Promise<BulkOrderResult[]> {
+  const results: BulkOrderResult[] = [];
+  for (const [index, order] of orders.entries()) {
+    try {
+      results.push(await placeForKey(prisma, key, order, index));
+    } catch (error) {
+      results.push(failure(index, error));
+    }
+  }
+  return results;
+}
+
+export async function bulkCancelOrders(
+  prisma: PrismaClient,
+  key: ApiKey,
+  orderIds: string[]
+): Promise<BulkOrderResult[]> {
+  const results: BulkOrderResult[] = [];
+  for (const [index, id] of orderIds.entries()) {
+    try {
+      const cancelled = await cancelOrder(prisma, {
+        orderId: String(id),
+        userAddress: key.userAddress,
+        reason: `Cancelled via API key ${key.id}`,
+      });
+      results.push({ index, success: true, status: 200, id: cancelled.id, orderId: cancelled.orderId, cancelled: true });
+    } catch (error) {
+      results.push(failure(index, error));
+    }
+  }
+  return results;
+}
+
+/**
+ * Cancel then place, per item. Not atomic: if the new order is rejected the old
+ * one stays cancelled (`cancelled: true` with the placement error).
+ */
+export async function bulkReplaceOrders(
+  prisma: PrismaClient,
+  key: ApiKey,
+  items: ReplaceOrderRequest[]
+): Promise<BulkOrderResult[]> {
+  const results: BulkOrderResult[] = [];
+  for (const [index, item] of items.entries()) {
+    try {
+      if (!item?.cancelOrderId || !item.order) {
+        throw new OrderRequestError("Each replacement needs cancelOrderId and order");
+      }
+      // Validate ownership of the new order before touching the old one
+      assertKeyOwns(key, item.order);
+      await cancelOrder(prisma, {
+        orderId: String(item.cancelOrderId),
+        userAddress: key.userAddress,
+        reason: `Replaced via API key ${key.id}`,
+      });
+    } catch (error) {
+      results.push({ ...failure(index, error), cancelled: false });
+      continue;
+    }
+
+    try {
+      results.push({ ...(await placeForKey(prisma, key, item.order, index)), cancelled: true });
+    } catch (error) {
+      results.push({ ...failure(index, error), cancelled: true });
+    }
+  }
+  return results;
+}
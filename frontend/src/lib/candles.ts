@@ -0,0 +1,187 @@
+import { Prisma, PrismaClient, TradeCandle } from "@prisma/client";
+import { formatEther } from "viem";
+import { withRetry } from "@/lib/matchingEngine";
+
+/**
+ * OHLCV candles per ftAddress, folded from settled OrderMatch rows.
+ * recordTradeCandles() updates every interval when a match settles;
+ * rebuildCandles() re-aggregates a token from scratch (backfill, repair via POST /api/token/candles).
+ * Prices are wei per whole FT, volume is wei of IP.
+ */
+
+export const CANDLE_INTERVALS = {
+  "1m": 60 * 1000,
+  "5m": 5 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+  "1d": 24 * 60 * 60 * 1000,
+} as const;
+
+export type CandleInterval = keyof typeof CANDLE_INTERVALS;
+
+// Same set as /api/token/stats and trade history
+const SETTLED_MATCH_STATUSES = ["SETTLED", "SETTLEMENT_EXECUTED"];
+const MAX_CANDLES = 1000;
+
+export interface CandleTrade {
+  ftAddress: string;
+  poolId: string;
+  matchedAmountWei: string;
+  matchedPriceWei: string;
+  tradedAt: Date;
+}
+
+export function parseCandleInterval(value: string | null): CandleInterval | null {
+  return value && value in CANDLE_INTERVALS ? (value as CandleInterval) : null;
+}
+
+export function getBucketStart(time: Date, interval: CandleInterval): Date {
+  const size = CANDLE_INTERVALS[interval];
+  return new Date(Math.floor(time.getTime() / size) * size);
+}
+
+const max = (a: bigint, b: bigint) => (a > b ? a : b);
+const min = (a: bigint, b: bigint) => (a < b ? a : b);
+
+type CandleValues = Pick<
+  TradeCandle,
+  "open" | "high" | "low" | "close" | "volume" | "baseVolume" | "trades" | "firstTradeAt" | "lastTradeAt"
+>;
+
+/**
+ * Fold one trade into an existing candle (trades may arrive out of order)
+ */
+function foldTrade(candle: CandleValues, trade: CandleTrade): CandleValues {
+  const price = BigInt(trade.matchedPriceWei);
+  const amount = BigInt(trade.matchedAmountWei);
+  return {
+    open: trade.tradedAt < candle.firstTradeAt ? price.toString() : candle.open,
+    high: max(BigInt(candle.high), price).toString(),
+    low: min(BigInt(candle.low), price).toString(),
+    close: trade.tradedAt >= candle.lastTradeAt ? price.toString() : candle.close,
+    volume: (BigInt(candle.volume) + (amount * price) / BigInt(1e18)).toString(),
+    baseVolume: (BigInt(candle.baseVolume) + amount).toString(),
+    trades: candle.trades + 1,
+    firstTradeAt: trade.tradedAt < candle.firstTradeAt ? trade.tradedAt : candle.firstTradeAt,
+    lastTradeAt: trade.tradedAt >= candle.lastTradeAt ? trade.tradedAt : candle.lastTradeAt,
+  };
+}
+
+function newCandle(trade: CandleTrade): CandleValues {
+  const price = BigInt(trade.matchedPriceWei);
+  const amount = BigInt(trade.matchedAmountWei);
+  return {
+    open: price.toString(),
+    high: price.toString(),
+    low: price.toString(),
+    close: price.toString(),
+    volume: ((amount * price) / BigInt(1e18)).toString(),
+    baseVolume: amount.toString(),
+    trades: 1,
+    firstTradeAt: trade.tradedAt,
+    lastTradeAt: trade.tradedAt,
+  };
+}
+
+async function upsertCandle(tx: Prisma.TransactionClient, trade: CandleTrade, interval: CandleInterval) {
+  const ftAddress = trade.ftAddress.toLowerCase();
+  const openTime = getBucketStart(trade.tradedAt, interval);
+  const where = { ftAddress_interval_openTime: { ftAddress, interval, openTime } };
+
+  const existing = await tx.tradeCandle.findUnique({ where });
+  await tx.tradeCandle.upsert({
+    where,
+    create: { ftAddress, poolId: trade.poolId, interval, openTime, ...newCandle(trade) },
+    update: { ...(existing ? foldTrade(existing, trade) : newCandle(trade)), trades: { increment: 1 } },
+  });
+}
+
+/**
+ * Add a settled trade to every interval, in one serializable transaction
+ * so concurrent settlements cannot overwrite each other's fold
+ */
+export async function recordTradeCandles(prisma: PrismaClient, trade: CandleTrade) {
+  await withRetry(`candles of ${trade.ftAddress}`, () =>
+    prisma.$transaction(
+      async (tx) => {
+        for (const interval of Object.keys(CANDLE_INTERVALS) as CandleInterval[]) {
+          await upsertCandle(tx, trade, interval);
+        }
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    )
+  );
+}
+
+/**
+ * Re-aggregate all candles of a token from its settled matches
+ */
+export async function rebuildCandles(prisma: PrismaClient, ftAddress: string): Promise<number> {
+  const address = ftAddress.toLowerCase();
+  const matches = await prisma.orderMatch.findMany({
+    where: { status: { in: SETTLED_MATCH_STATUSES }, buyOrder: { ftAddress: address } },
+    include: { buyOrder: true },
+    orderBy: [{ settledAt: "asc" }, { createdAt: "asc" }],
+  });
+
+  const buckets = new Map<string, Prisma.TradeCandleCreateManyInput>();
+  for (const match of matches) {
+    const trade: CandleTrade = {
+      ftAddress: address,
+      poolId: match.buyOrder.poolId,
+      matchedAmountWei: match.matchedAmount,
+      matchedPriceWei: match.matchedPrice,
+      tradedAt: match.settledAt ?? match.createdAt,
+    };
+    for (const interval of Object.keys(CANDLE_INTERVALS) as CandleInterval[]) {
+      const openTime = getBucketStart(trade.tradedAt, interval);
+      const key = `${interval}:${openTime.getTime()}`;
+      const current = buckets.get(key);
+      buckets.set(
+        key,
+        current
+          ? { ...current, ...foldTrade(current as CandleValues, trade) }
+          : { ftAddress: address, poolId: trade.poolId, interval, openTime, ...newCandle(trade) }
+      );
+    }
+  }
+
+  await prisma.$transaction([
+    prisma.tradeCandle.deleteMany({ where: { ftAddress: address } }),
+    prisma.tradeCandle.createMany({ data: [...buckets.values()] }),
+  ]);
+  return buckets.size;
+}
+
+/**
+ * Candles of a token in [from, to], oldest first
+ */
+export async function getCandles(
+  prisma: PrismaClient,
+  params: { ftAddress: string; interval: CandleInterval; from?: Date; to?: Date; limit?: number }
+) {
+  const ftAddress = params.ftAddress.toLowerCase();
+  const limit = Math.min(params.limit ?? 500, MAX_CANDLES);
+  const rows = await prisma.tradeCandle.findMany({
+    where: {
+      ftAddress,
+      interval: params.interval,
+      openTime: {
+        ...(params.from && { gte: getBucketStart(params.from, params.interval) }),
+        ...(params.to && { lte: params.to }),
+      },
+    },
+    orderBy: { openTime: "desc" },
+    take: limit,
+  });
+
+  return rows.reverse().map((row) => ({
+    time: Math.floor(row.openTime.getTime() / 1000),
+    open: formatEther(BigInt(row.open)),
+    high: formatEther(BigInt(row.high)),
+    low: formatEther(BigInt(row.low)),
+    close: formatEther(BigInt(row.close)),
+    volume: formatEther(BigInt(row.volume)),
+    baseVolume: formatEther(BigInt(row.baseVolume)),
+    trades: row.trades,
+  }));
+}
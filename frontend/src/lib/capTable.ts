@@ -0,0 +1,220 @@
+import { PrismaClient } from "@prisma/client";
+import { Abi, zeroAddress } from "viem";
+import FractionalizerABI from "@/lib/contracts/Fractionalizer.json";
+import { getContractAddress } from "@/lib/contracts/addresses";
+import { getPublicClient } from "@/lib/viem";
+import { MATCHABLE_ORDER_STATUSES } from "@/lib/orderMatching";
+
+/**
+ * Cap table of a fractional pool.
+ * Balances are folded from the FT Transfer events stored by the chain indexer;
+ * FT escrowed by SecondaryMarket listings is attributed back to the seller.
+ * "locked" = escrowed in open listings + remaining amount of open off-chain SELL orders.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class CapTableError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = "CapTableError";
+  }
+}
+
+export interface CapTableHolder {
+  address: string;
+  balance: string; // wallet + escrowed in listings, wei
+  locked: string;
+  free: string;
+  share: number; // percent of total supply
+  change7d: string; // signed wei
+  label?: string;
+}
+
+export interface CapTable {
+  chainId: number;
+  poolId: number;
+  ftAddress: string;
+  totalSupply: string;
+  active: boolean;
+  holderCount: number;
+  holders: CapTableHolder[];
+  concentration: {
+    top1: number;
+    top5: number;
+    top10: number;
+    hhi: number; // Herfindahl-Hirschman index, 0-10000
+    nakamoto: number; // fewest holders owning more than 50%
+  };
+  history: { date: string; holders: number; top10: number }[]; // end-of-day, days with transfers
+  lastIndexedBlock: number | null;
+}
+
+// Percent with 2 decimals from wei amounts
+function percentOf(amount: bigint, total: bigint): number {
+  return total > BigInt(0) ? Number((amount * BigInt(1000000)) / total) / 10000 : 0;
+}
+
+function concentration(balances: bigint[], total: bigint) {
+  const sorted = [...balances].sort((a, b) => (b > a ? 1 : b < a ? -1 : 0));
+  const topShare = (n: number) => percentOf(sorted.slice(0, n).reduce((s, b) => s + b, BigInt(0)), total);
+
+  let running = BigInt(0);
+  let nakamoto = 0;
+  for (const balance of sorted) {
+    if (running * BigInt(2) > total) break;
+    running += balance;
+    nakamoto++;
+  }
+
+  return {
+    top1: topShare(1),
+    top5: topShare(5),
+    top10: topShare(10),
+    hhi: Math.round(sorted.reduce((h, b) => h + (percentOf(b, total) / 100) ** 2, 0) * 10000),
+    nakamoto: total > BigInt(0) ? nakamoto : 0,
+  };
+}
+
+/**
+ * Holders of a pool's FT, with locked/free split, concentration and daily history
+ */
+export async function getPoolCapTable(
+  prisma: PrismaClient,
+  params: { chainId: number; poolId: number; limit?: number }
+): Promise<CapTable> {
+  const { chainId, poolId, limit = 50 } = params;
+
+  const pool = await prisma.indexedPool.findUnique({ where: { chainId_poolId: { chainId, poolId } } });
+  if (!pool) {
+    throw new CapTableError(`Pool #${poolId} is not indexed on chain ${chainId}`, 404);
+  }
+
+  // Live supply/status from Fractionalizer.poolInfo, indexed values if the RPC is down
+  let totalSupply = BigInt(pool.totalSupply);
+  let active = !pool.recombined;
+  const fractionalizer = getContractAddress(chainId, "Fractionalizer");
+  if (fractionalizer) {
+    try {
+      const info = (await getPublicClient(chainId).readContract({
+        address: fractionalizer,
+        abi: FractionalizerABI as Abi,
+        functionName: "poolInfo",
+        args: [BigInt(poolId)],
+      })) as readonly unknown[];
+      totalSupply = info[3] as bigint;
+      active = info[8] as boolean;
+    } catch (error) {
+      console.warn(`[CapTable] poolInfo(${poolId}) failed:`, (error as Error).message);
+    }
+  }
+
+  const [transfers, listings, sellOrders, cursor] = await Promise.all([
+    prisma.chainEvent.findMany({
+      where: { chainId, entityType: "POOL", entityId: String(poolId), eventName: "Transfer" },
+      orderBy: [{ blockNumber: "asc" }, { logIndex: "asc" }],
+    }),
+    prisma.indexedListing.findMany({ where: { chainId, poolId, status: "OPEN" } }),
+    prisma.order.findMany({
+      where: { chainId, poolId: String(poolId), side: "SELL", status: { in: MATCHABLE_ORDER_STATUSES } },
+    }),
+    prisma.indexerCursor.findUnique({ where: { chainId } }),
+  ]);
+
+  const secondaryMarket = getContractAddress(chainId, "SecondaryMarket")?.toLowerCase();
+  const escrow = new Map<string, bigint>();
+  for (const listing of listings) {
+    const remaining = BigInt(listing.amount) - BigInt(listing.filledAmount);
+    escrow.set(listing.seller, (escrow.get(listing.seller) ?? BigInt(0)) + remaining);
+  }
+
+  const weekAgo = Date.now() - 7 * DAY_MS;
+  const balances = new Map<string, bigint>();
+  const balancesWeekAgo = new Map<string, bigint>();
+  const history: CapTable["history"] = [];
+  const add = (address: string, delta: bigint) => balances.set(address, (balances.get(address) ?? BigInt(0)) + delta);
+  const snapshot = (day: string) => {
+    const held = [...balances.entries()].filter(([a, b]) => a !== secondaryMarket && b > BigInt(0)).map(([, b]) => b);
+    history.push({ date: day, holders: held.length, top10: concentration(held, totalSupply).top10 });
+  };
+
+  const takeWeekAgo = () => balances.forEach((b, a) => balancesWeekAgo.set(a, b));
+
+  let currentDay: string | null = null;
+  let weekAgoTaken = false;
+  for (const event of transfers) {
+    const day = event.blockTimestamp.toISOString().slice(0, 10);
+    if (currentDay && day !== currentDay) snapshot(currentDay);
+    currentDay = day;
+    if (!weekAgoTaken && event.blockTimestamp.getTime() > weekAgo) {
+      takeWeekAgo();
+      weekAgoTaken = true;
+    }
+
+    const args = JSON.parse(event.args) as { from: string; to: string; value: string };
+    const value = BigInt(args.value);
+    const from = args.from.toLowerCase();
+    const to = args.to.toLowerCase();
+    if (from !== zeroAddress) add(from, -value);
+    if (to !== zeroAddress) add(to, value);
+  }
+  if (currentDay) snapshot(currentDay);
+  if (!weekAgoTaken) takeWeekAgo();
+
+  // Escrowed FT counts toward the seller, not the SecondaryMarket contract
+  if (secondaryMarket) {
+    balances.delete(secondaryMarket);
+    balancesWeekAgo.delete(secondaryMarket);
+  }
+  escrow.forEach((amount, seller) => add(seller, amount));
+  for (const listing of listings) {
+    if (listing.createdAt.getTime() > weekAgo) continue;
+    const remaining = BigInt(listing.amount) - BigInt(listing.filledAmount);
+    balancesWeekAgo.set(listing.seller, (balancesWeekAgo.get(listing.seller) ?? BigInt(0)) + remaining);
+  }
+
+  const offchainLocked = new Map<string, bigint>();
+  for (const order of sellOrders) {
+    const address = order.userAddress.toLowerCase();
+    const remaining = BigInt(order.amount) - BigInt(order.filledAmount);
+    offchainLocked.set(address, (offchainLocked.get(address) ?? BigInt(0)) + remaining);
+  }
+
+  const labels = new Map<string, string>([[pool.owner, "Original owner"]]);
+  if (fractionalizer) labels.set(fractionalizer.toLowerCase(), "Fractionalizer");
+
+  const all = [...balances.entries()]
+    .filter(([, balance]) => balance > BigInt(0))
+    .sort(([, a], [, b]) => (b > a ? 1 : b < a ? -1 : 0));
+
+  const holders: CapTableHolder[] = all.slice(0, limit).map(([address, balance]) => {
+    const wallet = balance - (escrow.get(address) ?? BigInt(0));
+    const pendingSells = offchainLocked.get(address) ?? BigInt(0);
+    const locked = (escrow.get(address) ?? BigInt(0)) + (pendingSells < wallet ? pendingSells : wallet);
+    return {
+      address,
+      balance: balance.toString(),
+      locked: locked.toString(),
+      free: (balance - locked).toString(),
+      share: percentOf(balance, totalSupply),
+      change7d: (balance - (balancesWeekAgo.get(address) ?? BigInt(0))).toString(),
+      ...(labels.has(address) && { label: labels.get(address) }),
+    };
+  });
+
+  return {
+    chainId,
+    poolId,
+    ftAddress: pool.ftAddress,
+    totalSupply: totalSupply.toString(),
+    active,
+    holderCount: all.length,
+    holders,
+    concentration: concentration(
+      all.map(([, b]) => b),
+      totalSupply
+    ),
+    history,
+    lastIndexedBlock: cursor?.lastBlock ?? null,
+  };
+}
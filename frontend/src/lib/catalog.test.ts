@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { CatalogQuery, pageIdsByAmount, toPagination } from "@/lib/catalog";
+
+const query = (overrides: Partial<CatalogQuery> = {}): CatalogQuery => ({
+  chainId: 31337,
+  limit: 2,
+  offset: 0,
+  sort: "price",
+  order: "asc",
+  ...overrides,
+});
+
+// Wei amounts that sort differently as strings and as numbers
+const keys = [
+  { id: 1, amount: "900000000000000000" },
+  { id: 2, amount: "10000000000000000000" },
+  { id: 3, amount: null },
+  { id: 4, amount: "2000000000000000000" },
+];
+
+describe("pageIdsByAmount", () => {
+  it("orders wei amounts numerically and pages them", () => {
+    expect(pageIdsByAmount(keys, query())).toEqual([1, 4]);
+    expect(pageIdsByAmount(keys, query({ offset: 2 }))).toEqual([2, 3]);
+  });
+
+  it("keeps rows without an amount last in both directions", () => {
+    expect(pageIdsByAmount(keys, query({ order: "desc", limit: 4 }))).toEqual([2, 4, 1, 3]);
+  });
+});
+
+describe("toPagination", () => {
+  it("reports whether another page exists", () => {
+    expect(toPagination(query(), 3)).toEqual({ total: 3, limit: 2, offset: 0, hasMore: true });
+    expect(toPagination(query({ offset: 2 }), 3).hasMore).toBe(false);
+  });
+});
@@ -0,0 +1,231 @@
+import { Asset, FractionalToken, IndexedLicenseOffer, Prisma, PrismaClient } from "@prisma/client";
+import { parseEther } from "viem";
+
+/**
+ * Shared query handling for the indexed catalog endpoints
+ * (/api/assets, /api/pools, /api/offers).
+ */
+
+export type CatalogSort = "newest" | "price" | "volume";
+export type MediaCategory = "3d" | "image" | "audio" | "other";
+
+const MAX_LIMIT = 100;
+const DEFAULT_CHAIN_ID = 31337;
+
+export interface CatalogQuery {
+  chainId: number;
+  limit: number;
+  offset: number;
+  sort: CatalogSort;
+  order: "asc" | "desc";
+  creator?: string;
+  category?: MediaCategory;
+  preset?: number;
+}
+
+export function parseCatalogQuery(searchParams: URLSearchParams): CatalogQuery {
+  const sort = searchParams.get("sort");
+  const category = searchParams.get("category");
+  const preset = searchParams.get("preset");
+  const order = searchParams.get("order");
+
+  return {
+    chainId: parseInt(searchParams.get("chainId") || String(DEFAULT_CHAIN_ID), 10),
+    limit: Math.min(Math.max(parseInt(searchParams.get("limit") || "20", 10) || 20, 1), MAX_LIMIT),
+    offset: Math.max(parseInt(searchParams.get("offset") || "0", 10) || 0, 0),
+    sort: sort === "price" || sort === "volume" ? sort : "newest",
+    // Newest first by default, cheapest first when sorting by price
+    order: order === "asc" || order === "desc" ? order : sort === "price" ? "asc" : "desc",
+    creator: searchParams.get("creator")?.toLowerCase() || undefined,
+    category: ["3d", "image", "audio", "other"].includes(category ?? "") ? (category as MediaCategory) : undefined,
+    preset: preset !== null && preset !== "" && !isNaN(Number(preset)) ? Number(preset) : undefined,
+  };
+}
+
+/**
+ * Media category of an uploaded file, same buckets as the marketplace filter
+ */
+export function getMediaCategory(mimeType?: string | null): MediaCategory {
+  if (!mimeType) return "other";
+  if (mimeType.startsWith("model/") || mimeType.includes("gltf") || mimeType.includes("glb")) return "3d";
+  if (mimeType.startsWith("image/")) return "image";
+  if (mimeType.startsWith("audio/")) return "audio";
+  return "other";
+}
+
+/**
+ * Offers have no cancel event, so "active" is derived from supply only
+ */
+export function isOfferActive(offer: { maxSupply: string; sold: number }): boolean {
+  return BigInt(offer.maxSupply) === BigInt(0) || BigInt(offer.sold) < BigInt(offer.maxSupply);
+}
+
+export interface CatalogPagination {
+  total: number;
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+}
+
+export function toPagination(query: CatalogQuery, total: number): CatalogPagination {
+  return { total, limit: query.limit, offset: query.offset, hasMore: query.offset + query.limit < total };
+}
+
+/**
+ * skip/take of the requested page, for the Prisma query
+ */
+export function pageArgs(query: CatalogQuery) {
+  return { skip: query.offset, take: query.limit };
+}
+
+/**
+ * Ids of the requested page for the price and volume sorts. Those keys are wei
+ * amounts stored as strings (or derived from other tables), which SQLite cannot
+ * order numerically, so only (id, amount) pairs are sorted here as bigint and the
+ * page rows are then read by id. Rows without an amount always go last; ties keep
+ * the input order.
+ */
+export function pageIdsByAmount<T>(keys: { id: T; amount: string | null }[], query: CatalogQuery): T[] {
+  const direction = query.order === "asc" ? 1 : -1;
+  const sorted = [...keys].sort((a, b) => {
+    if (a.amount === null || b.amount === null) return a.amount === b.amount ? 0 : a.amount === null ? 1 : -1;
+    const diff = BigInt(a.amount) - BigInt(b.amount);
+    return diff === BigInt(0) ? 0 : diff > BigInt(0) ? direction : -direction;
+  });
+  return sorted.slice(query.offset, query.offset + query.limit).map((key) => key.id);
+}
+
+/**
+ * Rows read by id, back in page order
+ */
+export function inPageOrder<T, K>(rows: T[], ids: K[], id: (row: T) => K): T[] {
+  const byId = new Map(rows.map((row) => [id(row), row]));
+  return ids.flatMap((key) => byId.get(key) ?? []);
+}
+
+/**
+ * assetId filter for the catalog filters that live in other tables: creator
+ * (IndexedAsset), category (uploaded Asset mimeType) and preset (an active offer).
+ * Undefined when no such filter is set.
+ */
+export async function resolveAssetIdFilter(
+  prisma: PrismaClient,
+  params: { chainId: number; creator?: string; category?: MediaCategory; preset?: number }
+): Promise<Prisma.IntFilter | undefined> {
+  const { chainId, creator, category, preset } = params;
+  const filter: Prisma.IntFilter = {};
+  const restrict = (ids: number[]) => {
+    const current = filter.in as number[] | undefined;
+    filter.in = current ? current.filter((id) => ids.includes(id)) : ids;
+  };
+
+  if (creator) {
+    const assets = await prisma.indexedAsset.findMany({ where: { chainId, creator }, select: { assetId: true } });
+    restrict(assets.map((a) => a.assetId));
+  }
+  if (category) {
+    const uploads = await prisma.asset.findMany({
+      where: { assetId: { not: null } },
+      select: { assetId: true, mimeType: true },
+    });
+    if (category === "other") {
+      // Assets without an upload row count as "other" too
+      filter.notIn = uploads.filter((u) => getMediaCategory(u.mimeType) !== "other").map((u) => u.assetId as number);
+    } else {
+      restrict(uploads.filter((u) => getMediaCategory(u.mimeType) === category).map((u) => u.assetId as number));
+    }
+  }
+  if (preset !== undefined) {
+    const offers = await prisma.indexedLicenseOffer.findMany({
+      where: { chainId, preset },
+      select: { assetId: true, maxSupply: true, sold: true },
+    });
+    restrict(offers.filter(isOfferActive).map((o) => o.assetId));
+  }
+
+  return filter.in || filter.notIn ? filter : undefined;
+}
+
+/**
+ * Uploaded-file metadata (Asset table) keyed by on-chain assetId
+ */
+export async function loadAssetMetadata(prisma: PrismaClient, assetIds: number[]) {
+  const rows = await prisma.asset.findMany({ where: { assetId: { in: assetIds } } });
+  return new Map(rows.map((row) => [row.assetId as number, row]));
+}
+
+export function toAssetMetadata(row: Asset | undefined) {
+  if (!row) return null;
+  return {
+    fileName: row.fileName,
+    mimeType: row.mimeType,
+    fileSize: row.fileSize,
+    ipfsCid: row.ipfsCid,
+    category: getMediaCategory(row.mimeType),
+  };
+}
+
+/**
+ * Token metadata (FractionalToken table) keyed by lowercase ftAddress
+ */
+export async function loadTokenMetadata(prisma: PrismaClient, poolIds: number[]) {
+  const rows = await prisma.fractionalToken.findMany({
+    where: { poolId: { in: poolIds.map(String) } },
+  });
+  return new Map(rows.map((row) => [row.ftAddress.toLowerCase(), row]));
+}
+
+export function toTokenMetadata(row: FractionalToken | undefined) {
+  if (!row) return null;
+  return {
+    ftName: row.ftName,
+    ftSymbol: row.ftSymbol,
+    imageUrl: row.imageUrl,
+    description: row.description,
+  };
+}
+
+/**
+ * Secondary market volume (wei) and last trade price (wei) per lowercase ftAddress
+ */
+export async function loadTradeTotals(prisma: PrismaClient, ftAddresses: string[]) {
+  const stats = await prisma.tradeStatistics.findMany({
+    where: { ftAddress: { in: ftAddresses } },
+    orderBy: { date: "asc" },
+  });
+
+  const totals = new Map<string, { volume: bigint; lastPrice: string | null }>();
+  for (const row of stats) {
+    const key = row.ftAddress.toLowerCase();
+    const current = totals.get(key) ?? { volume: BigInt(0), lastPrice: null };
+    totals.set(key, {
+      // TradeStatistics stores IP decimal strings
+      volume: current.volume + parseEther(row.dailyVolume || "0"),
+      lastPrice: row.lastPrice && row.lastPrice !== "0" ? parseEther(row.lastPrice).toString() : current.lastPrice,
+    });
+  }
+  return totals;
+}
+
+/**
+ * License offer as returned by the catalog endpoints
+ */
+export function toOfferSummary(row: IndexedLicenseOffer) {
+  return {
+    offerId: row.offerId,
+    assetId: row.assetId,
+    seller: row.seller,
+    price: row.price,
+    licenseType: row.licenseType,
+    preset: row.preset,
+    maxSupply: row.maxSupply,
+    sold: row.sold,
+    revenue: row.revenue,
+    active: isOfferActive(row),
+    uri: row.uri,
+    duration: row.duration,
+    royaltyBPS: row.royaltyBPS,
+    createdAt: row.createdAt,
+    txHash: row.txHash,
+  };
+}
@@ -0,0 +1,520 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import { Abi, AbiEvent, Address, erc20Abi } from "viem";
+import AssetRegistryABI from "@/lib/contracts/AssetRegistry.json";
+import FractionalizerABI from "@/lib/contracts/Fractionalizer.json";
+import LicenseManagerABI from "@/lib/contracts/LicenseManager.json";
+import OrderBookABI from "@/lib/contracts/OrderBook.json";
+import SecondaryMarketABI from "@/lib/contracts/SecondaryMarket.json";
+import { CONTRACT_ADDRESSES, getContractAddress } from "@/lib/contracts/addresses";
+import { getPublicClient } from "@/lib/viem";
+
+/**
+ * Chain event indexer.
+ * Follows the marketplace contracts with eth_getLogs, stores every log in ChainEvent
+ * (idempotent on block/tx/logIndex) and folds them into the Indexed* projections.
+ * Reorgs are detected through the cursor block hash. The fork point is then found
+ * from the blockHash stored on every event: everything after the last stored block
+ * that is still canonical is rolled back and indexed again.
+ * FT Transfer logs of every known pool token are stored too (entity POOL, contract
+ * FractionalToken) for holder history; they do not change the pool projection.
+ */
+
+// Blocks per eth_getLogs call
+const LOG_RANGE = 1000;
+// Blocks handled per sync call, so one request never runs unbounded
+const DEFAULT_MAX_BLOCKS = 10000;
+
+export class IndexerError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = "IndexerError";
+  }
+}
+
+type ContractName = keyof (typeof CONTRACT_ADDRESSES)[31337];
+export type EntityType = "ASSET" | "POOL" | "OFFER" | "LISTING";
+
+const INDEXED_CONTRACTS: { name: ContractName; abi: Abi; events: string[] }[] = [
+  { name: "AssetRegistry", abi: AssetRegistryABI as Abi, events: ["AssetRegistered"] },
+  {
+    name: "Fractionalizer",
+    abi: FractionalizerABI as Abi,
+    events: ["Fractionalized", "FractionsBought", "DividendsDeposited", "DividendClaimed", "Recombined"],
+  },
+  { name: "LicenseManager", abi: LicenseManagerABI as Abi, events: ["LicenseOfferCreated", "LicensePurchased"] },
+  { name: "OrderBook", abi: OrderBookABI as Abi, events: ["OrderMatched"] },
+  {
+    name: "SecondaryMarket",
+    abi: SecondaryMarketABI as Abi,
+    events: ["OrderCreated", "OrderFilled", "OrderCancelled"],
+  },
+];
+
+// Which projection an event updates, and the arg holding its id
+const EVENT_ENTITIES: Record<string, [EntityType, string]> = {
+  AssetRegistered: ["ASSET", "assetId"],
+  Fractionalized: ["POOL", "poolId"],
+  FractionsBought: ["POOL", "poolId"],
+  DividendsDeposited: ["POOL", "poolId"],
+  DividendClaimed: ["POOL", "poolId"],
+  Recombined: ["POOL", "poolId"],
+  LicenseOfferCreated: ["OFFER", "offerId"],
+  LicensePurchased: ["OFFER", "offerId"],
+  OrderCreated: ["LISTING", "orderId"],
+  OrderFilled: ["LISTING", "orderId"],
+  OrderCancelled: ["LISTING", "orderId"],
+};
+
+const FT_TRANSFER_EVENT = erc20Abi.find(
+  (item): item is Extract<(typeof erc20Abi)[number], { type: "event"; name: "Transfer" }> =>
+    item.type === "event" && item.name === "Transfer"
+)!;
+
+export interface SyncResult {
+  chainId: number;
+  fromBlock: number;
+  toBlock: number;
+  head: number;
+  indexed: number;
+  caughtUp: boolean;
+  reorgedFrom?: number;
+}
+
+interface StoredEvent {
+  eventName: string;
+  args: Record<string, string>;
+  blockNumber: number;
+  txHash: string;
+  blockTimestamp: Date;
+}
+
+function serializeArgs(args: unknown): string {
+  return JSON.stringify(args ?? {}, (_, value) => (typeof value === "bigint" ? value.toString() : value));
+}
+
+function getIndexedContracts(chainId: number) {
+  return INDEXED_CONTRACTS.flatMap((contract) => {
+    const address = getContractAddress(chainId, contract.name);
+    if (!address) return [];
+    const events = contract.abi.filter(
+      (item): item is AbiEvent => item.type === "event" && contract.events.includes(item.name)
+    );
+    return [{ ...contract, address: address.toLowerCase() as Address, abiEvents: events }];
+  });
+}
+
+/**
+ * Re-fold one projection from its stored events (used after inserts and rollbacks)
+ */
+async function rebuildEntity(
+  tx: Prisma.TransactionClient,
+  chainId: number,
+  entityType: EntityType,
+  entityId: string
+) {
+  const rows = await tx.chainEvent.findMany({
+    where: { chainId, entityType, entityId },
+    orderBy: [{ blockNumber: "asc" }, { logIndex: "asc" }],
+  });
+  const events: StoredEvent[] = rows.map((row) => ({ ...row, args: JSON.parse(row.args) }));
+  const id = Number(entityId);
+  const sum = (name: string, field: string) =>
+    events
+      .filter((e) => e.eventName === name)
+      .reduce((total, e) => total + BigInt(e.args[field]), BigInt(0))
+      .toString();
+
+  switch (entityType) {
+    case "ASSET": {
+      const created = events.find((e) => e.eventName === "AssetRegistered");
+      if (!created) {
+        await tx.indexedAsset.deleteMany({ where: { chainId, assetId: id } });
+        return;
+      }
+      const data = {
+        creator: created.args.creator.toLowerCase(),
+        nftContract: created.args.nftContract.toLowerCase(),
+        tokenId: created.args.tokenId,
+        metadataURI: created.args.metadataURI,
+        royaltyBPS: Number(created.args.royaltyBPS),
+        blockNumber: created.blockNumber,
+        txHash: created.txHash,
+        registeredAt: created.blockTimestamp,
+      };
+      await tx.indexedAsset.upsert({
+        where: { chainId_assetId: { chainId, assetId: id } },
+        create: { chainId, assetId: id, ...data },
+        update: data,
+      });
+      return;
+    }
+
+    case "POOL": {
+      const created = events.find((e) => e.eventName === "Fractionalized");
+      if (!created) {
+        await tx.indexedPool.deleteMany({ where: { chainId, poolId: id } });
+        return;
+      }
+      const data = {
+        assetId: Number(created.args.assetId),
+        ftAddress: created.args.ft.toLowerCase(),
+        owner: created.args.owner.toLowerCase(),
+        totalSupply: created.args.totalSupply,
+        salePricePerToken: created.args.salePricePerToken,
+        amountForSale: created.args.amountForSale,
+        amountSold: sum("FractionsBought", "amount"),
+        totalDividends: sum("DividendsDeposited", "amount"),
+        claimedDividends: sum("DividendClaimed", "amount"),
+        recombined: events.some((e) => e.eventName === "Recombined"),
+        blockNumber: created.blockNumber,
+        txHash: created.txHash,
+        createdAt: created.blockTimestamp,
+      };
+      await tx.indexedPool.upsert({
+        where: { chainId_poolId: { chainId, poolId: id } },
+        create: { chainId, poolId: id, ...data },
+        update: data,
+      });
+      return;
+    }
+
+    case "OFFER": {
+      const created = events.find((e) => e.eventName === "LicenseOfferCreated");
+      if (!created) {
+        await tx.indexedLicenseOffer.deleteMany({ where: { chainId, offerId: id } });
+        return;
+      }
+      const data = {
+        assetId: Number(created.args.assetId),
+        seller: created.args.seller.toLowerCase(),
+        price: created.args.price,
+        licenseType: Number(created.args.ltype),
+        preset: Number(created.args.preset),
+        maxSupply: created.args.maxSupply,
+        sold: events.filter((e) => e.eventName === "LicensePurchased").length,
+        revenue: sum("LicensePurchased", "price"),
+        blockNumber: created.blockNumber,
+        txHash: created.txHash,
+        createdAt: created.blockTimestamp,
+      };
+      await tx.indexedLicenseOffer.upsert({
+        where: { chainId_offerId: { chainId, offerId: id } },
+        create: { chainId, offerId: id, ...data },
+        update: data,
+      });
+      return;
+    }
+
+    case "LISTING": {
+      const created = events.find((e) => e.eventName === "OrderCreated");
+      if (!created) {
+        await tx.indexedListing.deleteMany({ where: { chainId, listingId: id } });
+        return;
+      }
+      const filledAmount = sum("OrderFilled", "amount");
+      const status = events.some((e) => e.eventName === "OrderCancelled")
+        ? "CANCELLED"
+        : BigInt(filledAmount) >= BigInt(created.args.amount)
+          ? "FILLED"
+          : "OPEN";
+      const data = {
+        poolId: Number(created.args.poolId),
+        seller: created.args.seller.toLowerCase(),
+        ftAddress: created.args.ftAddress.toLowerCase(),
+        amount: created.args.amount,
+        pricePerToken: created.args.pricePerToken,
+        filledAmount,
+        status,
+        blockNumber: created.blockNumber,
+        txHash: created.txHash,
+        createdAt: created.blockTimestamp,
+      };
+      await tx.indexedListing.upsert({
+        where: { chainId_listingId: { chainId, listingId: id } },
+        create: { chainId, listingId: id, ...data },
+        update: data,
+      });
+      return;
+    }
+  }
+}
+
+async function rebuildEntities(tx: Prisma.TransactionClient, chainId: number, keys: Set<string>) {
+  for (const key of keys) {
+    const [entityType, entityId] = key.split(":") as [EntityType, string];
+    await rebuildEntity(tx, chainId, entityType, entityId);
+  }
+}
+
+/**
+ * Drop every event from `fromBlock` on and re-fold the projections they touched
+ */
+export async function rollbackFrom(prisma: PrismaClient, chainId: number, fromBlock: number): Promise<number> {
+  return prisma.$transaction(
+    async (tx) => {
+      const orphaned = await tx.chainEvent.findMany({
+        where: { chainId, blockNumber: { gte: fromBlock }, entityType: { not: null } },
+        select: { entityType: true, entityId: true },
+        distinct: ["entityType", "entityId"],
+      });
+      const { count } = await tx.chainEvent.deleteMany({
+        where: { chainId, blockNumber: { gte: fromBlock } },
+      });
+      await rebuildEntities(tx, chainId, new Set(orphaned.map((e) => `${e.entityType}:${e.entityId}`)));
+      return count;
+    },
+    { timeout: 30000 }
+  );
+}
+
+/**
+ * Find where the stored events leave the canonical chain. Stored blocks below the
+ * fork still carry their canonical hash and those above do not, so this is a binary
+ * search over the distinct (blockNumber, blockHash) pairs up to `upTo`.
+ * Returns the last stored block that is still canonical (null if none is).
+ */
+async function findLastCanonicalBlock(
+  prisma: PrismaClient,
+  client: ReturnType<typeof getPublicClient>,
+  chainId: number,
+  upTo: number
+): Promise<{ number: number; hash: string } | null> {
+  const stored = await prisma.chainEvent.findMany({
+    where: { chainId, blockNumber: { lte: upTo } },
+    select: { blockNumber: true, blockHash: true },
+    distinct: ["blockNumber"],
+    orderBy: { blockNumber: "asc" },
+  });
+
+  const isCanonical = async (index: number) => {
+    const { blockNumber, blockHash } = stored[index];
+    const block = await client.getBlock({ blockNumber: BigInt(blockNumber) }).catch(() => null);
+    return block?.hash === blockHash;
+  };
+
+  let low = 0;
+  let high = stored.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (await isCanonical(mid)) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found >= 0 ? { number: stored[found].blockNumber, hash: stored[found].blockHash } : null;
+}
+
+/**
+ * Index the next block range of a chain.
+ * Without `fromBlock` it resumes after the cursor (or INDEXER_START_BLOCK on first run);
+ * with `fromBlock` it backfills from there. Re-indexing a range is a no-op.
+ */
+export async function syncChainEvents(
+  prisma: PrismaClient,
+  options: { chainId: number; fromBlock?: number; maxBlocks?: number }
+): Promise<SyncResult> {
+  const { chainId, maxBlocks = DEFAULT_MAX_BLOCKS } = options;
+  const contracts = getIndexedContracts(chainId);
+  if (contracts.length === 0) {
+    throw new IndexerError(`No indexed contracts deployed on chain ${chainId}`);
+  }
+
+  const client = getPublicClient(chainId);
+  const head = Number(await client.getBlockNumber());
+  const cursor = await prisma.indexerCursor.findUnique({ where: { chainId } });
+  let start: number;
+  let reorgedFrom: number | undefined;
+
+  if (options.fromBlock !== undefined) {
+    if (options.fromBlock > head) {
+      throw new IndexerError(`fromBlock ${options.fromBlock} is beyond the chain head ${head}`);
+    }
+    start = options.fromBlock;
+  } else if (cursor) {
+    start = cursor.lastBlock + 1;
+    // A cursor past the head means the chain was replaced (e.g. a restarted Anvil)
+    const block =
+      cursor.lastBlock <= head
+        ? await client.getBlock({ blockNumber: BigInt(cursor.lastBlock) }).catch(() => null)
+        : null;
+    if (!block || block.hash !== cursor.lastBlockHash) {
+      const lastCanonical = await findLastCanonicalBlock(prisma, client, chainId, cursor.lastBlock);
+      reorgedFrom = lastCanonical ? lastCanonical.number + 1 : parseInt(process.env.INDEXER_START_BLOCK || "0", 10);
+      const dropped = await rollbackFrom(prisma, chainId, reorgedFrom);
+      console.warn(
+        `[Indexer] Reorg on chain ${chainId} below ${cursor.lastBlock}, rolled back from ${reorgedFrom}, dropped ${dropped} event(s)`
+      );
+
+      // Move the cursor back to the fork so a sync that indexes nothing does not see the reorg again
+      if (lastCanonical) {
+        await prisma.indexerCursor.update({
+          where: { chainId },
+          data: { lastBlock: lastCanonical.number, lastBlockHash: lastCanonical.hash },
+        });
+      } else {
+        await prisma.indexerCursor.delete({ where: { chainId } });
+      }
+      start = reorgedFrom;
+    }
+  } else {
+    start = parseInt(process.env.INDEXER_START_BLOCK || "0", 10);
+    if (start > head) {
+      throw new IndexerError(`INDEXER_START_BLOCK ${start} is beyond the chain head ${head}`);
+    }
+  }
+
+  const end = Math.min(head, start + maxBlocks - 1);
+  const result: SyncResult = {
+    chainId,
+    fromBlock: start,
+    toBlock: end,
+    head,
+    indexed: 0,
+    caughtUp: end >= head,
+    reorgedFrom,
+  };
+  // Only reached when the cursor is at the head: nothing new to index
+  if (start > head) {
+    return { ...result, toBlock: head, caughtUp: true };
+  }
+
+  const byAddress = new Map(contracts.map((c) => [c.address, c.name]));
+  const abiEvents = contracts.flatMap((c) => c.abiEvents);
+
+  for (let from = start; from <= end; from += LOG_RANGE) {
+    const to = Math.min(end, from + LOG_RANGE - 1);
+    const logs = await client.getLogs({
+      address: contracts.map((c) => c.address),
+      events: abiEvents,
+      fromBlock: BigInt(from),
+      toBlock: BigInt(to),
+      strict: true,
+    });
+
+    // FT tokens of indexed pools plus pools created in this range (their mint is in the same tx)
+    const ftPools = new Map(
+      (await prisma.indexedPool.findMany({ where: { chainId }, select: { ftAddress: true, poolId: true } })).map(
+        (p) => [p.ftAddress.toLowerCase(), String(p.poolId)]
+      )
+    );
+    for (const log of logs) {
+      if (log.eventName !== "Fractionalized") continue;
+      const args = log.args as Record<string, unknown>;
+      ftPools.set(String(args.ft).toLowerCase(), String(args.poolId));
+    }
+    const transferLogs =
+      ftPools.size > 0
+        ? await client.getLogs({
+            address: [...ftPools.keys()] as Address[],
+            event: FT_TRANSFER_EVENT,
+            fromBlock: BigInt(from),
+            toBlock: BigInt(to),
+            strict: true,
+          })
+        : [];
+
+    // Block timestamps for every block with logs, plus the range end for the cursor
+    const blockNumbers = new Set([
+      ...logs.map((log) => log.blockNumber),
+      ...transferLogs.map((log) => log.blockNumber),
+      BigInt(to),
+    ]);
+    const blocks = new Map<bigint, { hash: string; timestamp: bigint }>();
+    for (const blockNumber of blockNumbers) {
+      const block = await client.getBlock({ blockNumber });
+      blocks.set(blockNumber, { hash: block.hash, timestamp: block.timestamp });
+    }
+
+    await prisma.$transaction(
+      async (tx) => {
+        const touched = new Set<string>();
+        for (const log of [...logs, ...transferLogs]) {
+          const address = log.address.toLowerCase() as Address;
+          const ftPool = log.eventName === "Transfer" ? ftPools.get(address) : undefined;
+          const contract = ftPool ? "FractionalToken" : byAddress.get(address);
+          if (!contract) continue;
+          const args = log.args as Record<string, unknown>;
+          const entity = EVENT_ENTITIES[log.eventName];
+          const entityKey = ftPool ? ["POOL", ftPool] : entity ? [entity[0], String(args[entity[1]])] : null;
+          const key = {
+            chainId,
+            blockNumber: Number(log.blockNumber),
+            txHash: log.transactionHash,
+            logIndex: log.logIndex,
+          };
+
+          await tx.chainEvent.upsert({
+            where: { chainId_blockNumber_txHash_logIndex: key },
+            create: {
+              ...key,
+              contract,
+              address: log.address.toLowerCase(),
+              eventName: log.eventName,
+              entityType: entityKey?.[0] ?? null,
+              entityId: entityKey?.[1] ?? null,
+              args: serializeArgs(args),
+              blockHash: log.blockHash,
+              blockTimestamp: new Date(Number(blocks.get(log.blockNumber)!.timestamp) * 1000),
+            },
+            update: {},
+          });
+          if (entityKey && !ftPool) touched.add(entityKey.join(":"));
+        }
+
+        await rebuildEntities(tx, chainId, touched);
+
+        const last = blocks.get(BigInt(to))!;
+        await tx.indexerCursor.upsert({
+          where: { chainId },
+          create: { chainId, lastBlock: to, lastBlockHash: last.hash },
+          update: { lastBlock: to, lastBlockHash: last.hash },
+        });
+      },
+      { timeout: 30000 }
+    );
+
+    result.indexed += logs.length + transferLogs.length;
+  }
+
+  if (result.indexed > 0) {
+    console.log(`[Indexer] Chain ${chainId}: ${result.indexed} event(s) in blocks ${start}-${end}`);
+  }
+
+  await syncOfferTerms(prisma, chainId);
+
+  return result;
+}
+
+/**
+ * Fill in offer terms that LicenseOfferCreated does not emit (uri, duration, royalty)
+ */
+async function syncOfferTerms(prisma: PrismaClient, chainId: number) {
+  const licenseManager = getContractAddress(chainId, "LicenseManager");
+  if (!licenseManager) return;
+
+  const client = getPublicClient(chainId);
+  const pending = await prisma.indexedLicenseOffer.findMany({
+    where: { chainId, uri: null },
+    select: { offerId: true },
+  });
+
+  for (const { offerId } of pending) {
+    try {
+      const [, , , , royaltyBPS, , , , , duration, , uri] = (await client.readContract({
+        address: licenseManager,
+        abi: LicenseManagerABI as Abi,
+        functionName: "offers",
+        args: [BigInt(offerId)],
+      })) as readonly unknown[];
+      await prisma.indexedLicenseOffer.update({
+        where: { chainId_offerId: { chainId, offerId } },
+        data: { uri: String(uri), duration: String(duration), royaltyBPS: Number(royaltyBPS) },
+      });
+    } catch (error) {
+      console.warn(`[Indexer] Could not read terms of offer ${offerId}:`, (error as Error).message);
+    }
+  }
+}
@@ -0,0 +1,285 @@
+import { PrismaClient } from "@prisma/client";
+import { Abi, Address, erc20Abi } from "viem";
+import OrderBookABI from "@/lib/contracts/OrderBook.json";
+import { getContractAddress } from "@/lib/contracts/addresses";
+import { getPublicClient } from "@/lib/viem";
+import { MATCHABLE_ORDER_STATUSES } from "@/lib/orderMatching";
+import { OrderSide } from "@/lib/orders";
+import { cancelOpenMatches } from "@/lib/matchLifecycle";
+import { publishOrders } from "@/lib/marketEvents";
+
+/**
+ * Pre-trade collateral checks against the chain.
+ * SELL orders are backed by FT balanceOf + allowance to the OrderBook,
+ * BUY orders by native IP balance + OrderBook deposit.
+ * Backing must cover every live order and unsettled match of the user, not just one order.
+ */
+
+const RPC_TIMEOUT_MS = 5000;
+
+// Matches whose amounts are still owed on-chain
+const UNSETTLED_MATCH_STATUSES = ["PENDING", "PENDING_EXECUTION", "SETTLING"];
+
+export interface CollateralCheck {
+  sufficient: boolean;
+  required: string; // FT wei (SELL) or IP wei (BUY)
+  available: string;
+  allowance?: string; // SELL only
+  reason?: string;
+}
+
+function withTimeout<T>(promise: Promise<T>): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) => setTimeout(() => reject(new Error("RPC timeout")), RPC_TIMEOUT_MS)),
+  ]);
+}
+
+/**
+ * What the user already has committed on one side of a token's book
+ * (remaining amount of live orders + matched but unsettled amounts)
+ */
+export async function getCommittedAmount(
+  prisma: PrismaClient,
+  params: { userAddress: string; chainId: number; ftAddress: string; side: OrderSide }
+): Promise<bigint> {
+  const { userAddress, chainId, ftAddress, side } = params;
+  const isBuy = side === "BUY";
+  // IP backs bids on every token, FT only backs asks on its own book
+  const tokenFilter = isBuy ? {} : { ftAddress: ftAddress.toLowerCase() };
+
+  const [orders, matches] = await Promise.all([
+    prisma.order.findMany({
+      where: {
+        userAddress: userAddress.toLowerCase(),
+        chainId,
+        ...tokenFilter,
+        side,
+        status: { in: MATCHABLE_ORDER_STATUSES },
+        expiresAt: { gt: new Date() },
+      },
+      select: { amount: true, filledAmount: true, pricePerToken: true },
+    }),
+    prisma.orderMatch.findMany({
+      where: {
+        status: { in: UNSETTLED_MATCH_STATUSES },
+        [isBuy ? "buyOrder" : "sellOrder"]: {
+          userAddress: userAddress.toLowerCase(),
+          chainId,
+          ...tokenFilter,
+        },
+      },
+      select: { matchedAmount: true, matchedPrice: true },
+    }),
+  ]);
+
+  const fromOrders = orders.reduce((sum, o) => {
+    const remaining = BigInt(o.amount) - BigInt(o.filledAmount);
+    return sum + (isBuy ? (remaining * BigInt(o.pricePerToken)) / BigInt(1e18) : remaining);
+  }, BigInt(0));
+
+  const fromMatches = matches.reduce((sum, m) => {
+    const amount = BigInt(m.matchedAmount);
+    return sum + (isBuy ? (amount * BigInt(m.matchedPrice)) / BigInt(1e18) : amount);
+  }, BigInt(0));
+
+  return fromOrders + fromMatches;
+}
+
+/**
+ * Read on-chain backing for one side. Throws if the RPC is unavailable.
+ */
+export async function readBacking(
+  chainId: number,
+  userAddress: Address,
+  ftAddress: Address,
+  side: OrderSide
+): Promise<{ available: bigint; allowance?: bigint }> {
+  const client = getPublicClient(chainId);
+  const orderBookAddress = getContractAddress(chainId, "OrderBook");
+  if (!orderBookAddress) {
+    throw new Error(`OrderBook not deployed on chain ${chainId}`);
+  }
+
+  if (side === "SELL") {
+    const [balance, allowance] = await withTimeout(
+      Promise.all([
+        client.readContract({
+          address: ftAddress,
+          abi: erc20Abi,
+          functionName: "balanceOf",
+          args: [userAddress],
+        }),
+        client.readContract({
+          address: ftAddress,
+          abi: erc20Abi,
+          functionName: "allowance",
+          args: [userAddress, orderBookAddress],
+        }),
+      ])
+    );
+    return { available: balance, allowance };
+  }
+
+  const [balance, deposit] = await withTimeout(
+    Promise.all([
+      client.getBalance({ address: userAddress }),
+      client.readContract({
+        address: orderBookAddress,
+        abi: OrderBookABI as Abi,
+        functionName: "deposits",
+        args: [userAddress],
+      }) as Promise<bigint>,
+    ])
+  );
+  return { available: balance + deposit };
+}
+
+/**
+ * Compare required vs on-chain backing for a user's side of a book
+ */
+export function evaluateCollateral(
+  side: OrderSide,
+  required: bigint,
+  backing: { available: bigint; allowance?: bigint }
+): CollateralCheck {
+  const result: CollateralCheck = {
+    sufficient: true,
+    required: required.toString(),
+    available: backing.available.toString(),
+    ...(backing.allowance !== undefined && { allowance: backing.allowance.toString() }),
+  };
+
+  if (backing.available < required) {
+    result.sufficient = false;
+    result.reason = side === "SELL" ? "Insufficient token balance" : "Insufficient IP balance";
+  } else if (backing.allowance !== undefined && backing.allowance < required) {
+    result.sufficient = false;
+    result.reason = "Insufficient token allowance for OrderBook";
+  }
+
+  return result;
+}
+
+/**
+ * Check that a new order plus everything already committed is backed on-chain
+ */
+export async function checkOrderCollateral(
+  prisma: PrismaClient,
+  order: {
+    userAddress: Address;
+    chainId: number;
+    ftAddress: Address;
+    side: OrderSide;
+    amount: bigint;
+    pricePerToken: bigint;
+  }
+): Promise<CollateralCheck> {
+  const committed = await getCommittedAmount(prisma, order);
+  const own =
+    order.side === "BUY" ? (order.amount * order.pricePerToken) / BigInt(1e18) : order.amount;
+
+  const backing = await readBacking(order.chainId, order.userAddress, order.ftAddress, order.side);
+  return evaluateCollateral(order.side, committed + own, backing);
+}
+
+export interface RevalidationResult {
+  checked: number;
+  pulled: string[];
+  skippedGroups: number; // RPC unavailable
+}
+
+/**
+ * Periodic re-validation: re-read backing for every live order and pull
+ * (cancel) the newest orders of any user whose backing has since moved.
+ * Older orders keep their place as long as they are still covered.
+ */
+export async function revalidateOrderCollateral(prisma: PrismaClient): Promise<RevalidationResult> {
+  const liveOrders = await prisma.order.findMany({
+    where: {
+      status: { in: MATCHABLE_ORDER_STATUSES },
+      expiresAt: { gt: new Date() },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  // Group orders that share backing: bids per user, asks per user + token
+  const groups = new Map<string, typeof liveOrders>();
+  for (const order of liveOrders) {
+    const token = order.side === "BUY" ? "IP" : order.ftAddress;
+    const key = [order.userAddress, order.chainId, token, order.side].join(":");
+    groups.set(key, [...(groups.get(key) ?? []), order]);
+  }
+
+  const result: RevalidationResult = { checked: liveOrders.length, pulled: [], skippedGroups: 0 };
+
+  for (const orders of groups.values()) {
+    const first = orders[0];
+    const side = first.side as OrderSide;
+
+    let backing;
+    try {
+      backing = await readBacking(first.chainId, first.userAddress as Address, first.ftAddress as Address, side);
+    } catch (error) {
+      console.warn(`[Collateral] Skipping ${first.userAddress} (${first.ftAddress}):`, (error as Error).message);
+      result.skippedGroups++;
+      continue;
+    }
+
+    // Unsettled matches come first: they can no longer be pulled
+    let required = await getCommittedAmount(prisma, {
+      userAddress: first.userAddress,
+      chainId: first.chainId,
+      ftAddress: first.ftAddress,
+      side,
+    });
+    for (const order of orders) {
+      const remaining = BigInt(order.amount) - BigInt(order.filledAmount);
+      required -= side === "BUY" ? (remaining * BigInt(order.pricePerToken)) / BigInt(1e18) : remaining;
+    }
+
+    const now = new Date();
+    for (const order of orders) {
+      const remaining = BigInt(order.amount) - BigInt(order.filledAmount);
+      required += side === "BUY" ? (remaining * BigInt(order.pricePerToken)) / BigInt(1e18) : remaining;
+
+      const check = evaluateCollateral(side, required, backing);
+      if (check.sufficient) {
+        await prisma.order.update({
+          where: { id: order.id },
+          data: { collateralStatus: "OK", collateralCheckedAt: now },
+        });
+        continue;
+      }
+
+      // Pull the order from the book
+      const pulled = await prisma.order.updateMany({
+        where: { id: order.id, status: { in: MATCHABLE_ORDER_STATUSES } },
+        data: { status: "CANCELLED", collateralStatus: "INSUFFICIENT", collateralCheckedAt: now },
+      });
+      if (pulled.count === 0) continue;
+
+      // Its backing is gone, so drop it from the running total
+      required -= side === "BUY" ? (remaining * BigInt(order.pricePerToken)) / BigInt(1e18) : remaining;
+
+      await prisma.orderHistory.create({
+        data: {
+          orderId: order.id,
+          action: "CANCELLED",
+          amount: remaining.toString(),
+          details: JSON.stringify({ reason: check.reason, ...check }),
+        },
+      });
+      await cancelOpenMatches(prisma, order.id, `Counter-order pulled: ${check.reason}`);
+      result.pulled.push(order.id);
+    }
+  }
+
+  await publishOrders(prisma, result.pulled);
+
+  if (result.pulled.length > 0) {
+    console.log(`[Collateral] Pulled ${result.pulled.length} under-collateralised order(s)`);
+  }
+
+  return result;
+}
@@ -0,0 +1,18 @@
+import { NextRequest } from "next/server";
+
+/**
+ * Scheduled job auth - when CRON_SECRET is set, require `Authorization: Bearer <CRON_SECRET>`
+ */
+export function isCronAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  return !secret || request.headers.get("authorization") === `Bearer ${secret}`;
+}
+
+/**
+ * Relayer job auth - the settlement routes spend relayer gas, so unlike
+ * isCronAuthorized they stay closed until CRON_SECRET is set
+ */
+export function isRelayerAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  return !!secret && request.headers.get("authorization") === `Bearer ${secret}`;
+}
@@ -0,0 +1,175 @@
+import type { CustomLicenseTerms, PrismaClient } from "@prisma/client";
+import { Abi, Hex, parseEventLogs } from "viem";
+import LicenseManagerABI from "@/lib/contracts/LicenseManager.json";
+import { getContractAddress } from "@/lib/contracts/addresses";
+import { getPublicClient } from "@/lib/viem";
+import { ipfsHttpGateways } from "@/lib/ipfs";
+import {
+  CUSTOM_PRESET,
+  CustomTermsDocument,
+  LicenseTerms,
+  getPresetTerms,
+  validateCustomTermsDocument,
+} from "@/lib/licenseTerms";
+
+/**
+ * Terms of CUSTOM-preset offers. The creator pins a terms document to IPFS and
+ * passes its ipfs:// URI as the offer uri; syncCustomTerms() reads the offer
+ * on-chain, fetches that document and stores it, so the row is never taken from the client.
+ */
+
+const GATEWAY_TIMEOUT_MS = 15000;
+
+export class LicenseTermsError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = "LicenseTermsError";
+  }
+}
+
+async function fetchTermsDocument(uri: string): Promise<unknown> {
+  let lastError = "no gateway";
+  for (const url of ipfsHttpGateways(uri)) {
+    try {
+      const res = await fetch(url, { signal: AbortSignal.timeout(GATEWAY_TIMEOUT_MS) });
+      if (res.ok) return await res.json();
+      lastError = `${url} returned ${res.status}`;
+    } catch (error) {
+      lastError = (error as Error).message;
+    }
+  }
+  throw new LicenseTermsError(`Could not fetch terms document: ${lastError}`, 502);
+}
+
+/**
+ * Store the pinned terms of one CUSTOM offer (no-op if already stored)
+ */
+export async function syncCustomTerms(
+  prisma: PrismaClient,
+  chainId: number,
+  offerId: number
+): Promise<CustomLicenseTerms> {
+  const existing = await prisma.customLicenseTerms.findUnique({
+    where: { chainId_offerId: { chainId, offerId } },
+  });
+  if (existing) return existing;
+
+  const licenseManager = getContractAddress(chainId, "LicenseManager");
+  if (!licenseManager) {
+    throw new LicenseTermsError(`LicenseManager not deployed on chain ${chainId}`);
+  }
+
+  const [, , seller, , , , preset, , , , , uri] = (await getPublicClient(chainId).readContract({
+    address: licenseManager,
+    abi: LicenseManagerABI as Abi,
+    functionName: "offers",
+    args: [BigInt(offerId)],
+  })) as readonly unknown[];
+
+  if (Number(preset) !== CUSTOM_PRESET) {
+    throw new LicenseTermsError(`Offer ${offerId} does not use the CUSTOM preset`, 422);
+  }
+  const offerUri = String(uri);
+  if (!offerUri.startsWith("ipfs://")) {
+    throw new LicenseTermsError(`Offer ${offerId} has no IPFS terms document`, 422);
+  }
+
+  const doc = await fetchTermsDocument(offerUri);
+  const invalid = validateCustomTermsDocument(doc);
+  if (invalid) {
+    throw new LicenseTermsError(`Invalid terms document: ${invalid}`, 422);
+  }
+  const { terms, legalText } = doc as CustomTermsDocument;
+
+  return prisma.customLicenseTerms.upsert({
+    where: { chainId_offerId: { chainId, offerId } },
+    update: {},
+    create: {
+      chainId,
+      offerId,
+      creator: String(seller).toLowerCase(),
+      termsCid: offerUri.replace("ipfs://", ""),
+      name: terms.name,
+      description: terms.description,
+      commercialUse: terms.commercialUse,
+      inGameUse: terms.inGameUse,
+      marketingUse: terms.marketingUse,
+      modificationAllowed: terms.modificationAllowed,
+      resaleAllowed: terms.resaleAllowed,
+      attributionRequired: terms.attributionRequired,
+      transferable: terms.transferable,
+      revenueCap: terms.revenueCap,
+      legalText,
+    },
+  });
+}
+
+/**
+ * Store the terms of every CUSTOM offer created in a createOffer tx
+ */
+export async function syncCustomTermsFromTx(
+  prisma: PrismaClient,
+  chainId: number,
+  txHash: Hex
+): Promise<CustomLicenseTerms[]> {
+  const licenseManager = getContractAddress(chainId, "LicenseManager");
+  if (!licenseManager) {
+    throw new LicenseTermsError(`LicenseManager not deployed on chain ${chainId}`);
+  }
+
+  const receipt = await getPublicClient(chainId)
+    .getTransactionReceipt({ hash: txHash })
+    .catch(() => null);
+  if (!receipt) {
+    throw new LicenseTermsError("Transaction receipt not found", 404);
+  }
+
+  const events = parseEventLogs({
+    abi: LicenseManagerABI as Abi,
+    eventName: "LicenseOfferCreated",
+    logs: receipt.logs.filter((log) => log.address.toLowerCase() === licenseManager.toLowerCase()),
+  }) as unknown as { args: { offerId: bigint; preset: number } }[];
+
+  const stored: CustomLicenseTerms[] = [];
+  for (const { args } of events) {
+    if (Number(args.preset) !== CUSTOM_PRESET) continue;
+    stored.push(await syncCustomTerms(prisma, chainId, Number(args.offerId)));
+  }
+  if (stored.length === 0) {
+    throw new LicenseTermsError("No CUSTOM LicenseOfferCreated event in transaction", 422);
+  }
+  return stored;
+}
+
+export function toLicenseTerms(row: CustomLicenseTerms): LicenseTerms {
+  return {
+    name: row.name,
+    description: row.description,
+    commercialUse: row.commercialUse,
+    inGameUse: row.inGameUse,
+    marketingUse: row.marketingUse,
+    modificationAllowed: row.modificationAllowed,
+    resaleAllowed: row.resaleAllowed,
+    attributionRequired: row.attributionRequired,
+    transferable: row.transferable,
+    revenueCap: row.revenueCap,
+    additionalTermsURI: `ipfs://${row.termsCid}`,
+  };
+}
+
+/**
+ * Effective terms of an offer: stored custom terms for CUSTOM offers,
+ * the preset otherwise (CUSTOM without a stored document stays all-false, like the contract)
+ */
+export async function resolveOfferTerms(
+  prisma: PrismaClient,
+  chainId: number,
+  offerId: number,
+  preset: number
+): Promise<LicenseTerms> {
+  if (preset !== CUSTOM_PRESET) return getPresetTerms(preset);
+  const row = await prisma.customLicenseTerms.findUnique({
+    where: { chainId_offerId: { chainId, offerId } },
+  });
+  return row ? toLicenseTerms(row) : getPresetTerms(preset);
+}
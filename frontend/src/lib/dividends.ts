@@ -0,0 +1,210 @@
+import { PrismaClient } from "@prisma/client";
+import { Abi, Address, erc20Abi, formatEther } from "viem";
+import FractionalizerABI from "@/lib/contracts/Fractionalizer.json";
+import { getContractAddress } from "@/lib/contracts/addresses";
+import { getPublicClient } from "@/lib/viem";
+import { loadTokenMetadata, loadTradeTotals } from "@/lib/catalog";
+
+/**
+ * Dividend history of a holder, built from the DividendsDeposited / DividendClaimed
+ * events stored by the chain indexer. Claims are exact per wallet; the holder's share
+ * of a deposit is estimated from the current FT balance, since balances at deposit time
+ * are not indexed. Unclaimed comes from Fractionalizer.claimableAmount.
+ */
+
+const WAD = BigInt(10) ** BigInt(18);
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+export interface DividendEvent {
+  poolId: number;
+  type: "DEPOSIT" | "CLAIM";
+  amount: string; // wei, pool-wide for deposits
+  perToken: string | null; // wei per whole FT, deposits only
+  holderShare: string; // wei, claim amount or estimated share of a deposit
+  from: string;
+  txHash: string;
+  blockNumber: number;
+  timestamp: Date;
+}
+
+export interface PoolDividendSummary {
+  poolId: number;
+  assetId: number;
+  ftAddress: string;
+  ftSymbol: string | null;
+  balance: string;
+  totalSupply: string;
+  totalDeposited: string;
+  realised: string;
+  unclaimed: string;
+  salePricePerToken: string;
+  lastPrice: string | null;
+  // Annualised since fractionalization, percent of the price per whole FT; null without a price
+  yieldOnSalePrice: number | null;
+  yieldOnLastPrice: number | null;
+}
+
+export interface DividendHistory {
+  holder: string;
+  pools: PoolDividendSummary[];
+  events: DividendEvent[];
+  totals: { realised: string; unclaimed: string };
+}
+
+/**
+ * Dividends per whole FT over the pool's lifetime, annualised, as percent of `priceWei`
+ */
+export function annualisedYield(perTokenWei: bigint, priceWei: bigint, since: Date, now: Date = new Date()): number | null {
+  const years = (now.getTime() - since.getTime()) / 1000 / SECONDS_PER_YEAR;
+  if (priceWei <= BigInt(0) || years <= 0) return null;
+  const ratio = Number((perTokenWei * BigInt(1e6)) / priceWei) / 1e6;
+  return (ratio / years) * 100;
+}
+
+/**
+ * Timeline and per-pool summary for a holder; pools default to every pool
+ * where the holder has a balance, something claimable, or a past claim
+ */
+export async function getDividendHistory(
+  prisma: PrismaClient,
+  params: { chainId: number; holder: Address; poolIds?: number[] }
+): Promise<DividendHistory> {
+  const { chainId } = params;
+  const holder = params.holder.toLowerCase();
+  const fractionalizer = getContractAddress(chainId, "Fractionalizer");
+  if (!fractionalizer) throw new Error(`Fractionalizer not deployed on chain ${chainId}`);
+
+  const pools = await prisma.indexedPool.findMany({
+    where: { chainId, ...(params.poolIds && { poolId: { in: params.poolIds } }) },
+    orderBy: { poolId: "asc" },
+  });
+
+  const rows = await prisma.chainEvent.findMany({
+    where: {
+      chainId,
+      entityType: "POOL",
+      entityId: { in: pools.map((p) => String(p.poolId)) },
+      eventName: { in: ["DividendsDeposited", "DividendClaimed"] },
+    },
+    orderBy: [{ blockNumber: "asc" }, { logIndex: "asc" }],
+  });
+  const stored = rows.map((row) => ({ ...row, args: JSON.parse(row.args) as Record<string, string> }));
+
+  const client = getPublicClient(chainId);
+  const onChain = await Promise.all(
+    pools.map(async (pool) => {
+      const [balance, claimable] = await Promise.all([
+        client.readContract({
+          address: pool.ftAddress as Address,
+          abi: erc20Abi,
+          functionName: "balanceOf",
+          args: [holder as Address],
+        }),
+        client.readContract({
+          address: fractionalizer,
+          abi: FractionalizerABI as Abi,
+          functionName: "claimableAmount",
+          args: [BigInt(pool.poolId), holder as Address],
+        }) as Promise<bigint>,
+      ]);
+      return { balance, claimable };
+    })
+  );
+
+  const [tokens, trades] = await Promise.all([
+    loadTokenMetadata(prisma, pools.map((p) => p.poolId)),
+    loadTradeTotals(prisma, pools.map((p) => p.ftAddress)),
+  ]);
+
+  const summaries: PoolDividendSummary[] = [];
+  const events: DividendEvent[] = [];
+
+  pools.forEach((pool, i) => {
+    const { balance, claimable } = onChain[i];
+    const poolEvents = stored.filter((e) => e.entityId === String(pool.poolId));
+    const claims = poolEvents.filter(
+      (e) => e.eventName === "DividendClaimed" && e.args.claimer.toLowerCase() === holder
+    );
+    if (balance === BigInt(0) && claimable === BigInt(0) && claims.length === 0) return;
+
+    const totalSupply = BigInt(pool.totalSupply);
+    let perTokenTotal = BigInt(0);
+
+    for (const e of poolEvents) {
+      const amount = BigInt(e.args.amount);
+      if (e.eventName === "DividendsDeposited") {
+        const perToken = totalSupply > BigInt(0) ? (amount * WAD) / totalSupply : BigInt(0);
+        perTokenTotal += perToken;
+        events.push({
+          poolId: pool.poolId,
+          type: "DEPOSIT",
+          amount: amount.toString(),
+          perToken: perToken.toString(),
+          holderShare: ((perToken * balance) / WAD).toString(),
+          from: e.args.from.toLowerCase(),
+          txHash: e.txHash,
+          blockNumber: e.blockNumber,
+          timestamp: e.blockTimestamp,
+        });
+      } else if (claims.includes(e)) {
+        events.push({
+          poolId: pool.poolId,
+          type: "CLAIM",
+          amount: amount.toString(),
+          perToken: null,
+          holderShare: amount.toString(),
+          from: holder,
+          txHash: e.txHash,
+          blockNumber: e.blockNumber,
+          timestamp: e.blockTimestamp,
+        });
+      }
+    }
+
+    const token = tokens.get(pool.ftAddress.toLowerCase());
+    const lastPrice = trades.get(pool.ftAddress.toLowerCase())?.lastPrice ?? null;
+    summaries.push({
+      poolId: pool.poolId,
+      assetId: pool.assetId,
+      ftAddress: pool.ftAddress,
+      ftSymbol: token?.ftSymbol ?? null,
+      balance: balance.toString(),
+      totalSupply: pool.totalSupply,
+      totalDeposited: pool.totalDividends,
+      realised: claims.reduce((sum, e) => sum + BigInt(e.args.amount), BigInt(0)).toString(),
+      unclaimed: claimable.toString(),
+      salePricePerToken: pool.salePricePerToken,
+      lastPrice,
+      yieldOnSalePrice: annualisedYield(perTokenTotal, BigInt(pool.salePricePerToken), pool.createdAt),
+      yieldOnLastPrice: lastPrice ? annualisedYield(perTokenTotal, BigInt(lastPrice), pool.createdAt) : null,
+    });
+  });
+
+  events.sort((a, b) => b.blockNumber - a.blockNumber);
+  const sum = (field: "realised" | "unclaimed") =>
+    summaries.reduce((total, p) => total + BigInt(p[field]), BigInt(0)).toString();
+
+  return { holder, pools: summaries, events, totals: { realised: sum("realised"), unclaimed: sum("unclaimed") } };
+}
+
+/**
+ * CSV of a holder's dividend events for tax reporting, amounts in IP
+ */
+export function toDividendCsv(history: DividendHistory): string {
+  const symbols = new Map(history.pools.map((p) => [p.poolId, p.ftSymbol ?? ""]));
+  const header = ["date", "pool_id", "token", "type", "pool_amount_ip", "holder_amount_ip", "tx_hash"];
+  const lines = history.events.map((e) =>
+    [
+      e.timestamp.toISOString(),
+      e.poolId,
+      symbols.get(e.poolId) ?? "",
+      e.type === "CLAIM" ? "CLAIM (realised)" : "DEPOSIT (estimated share)",
+      formatEther(BigInt(e.amount)),
+      formatEther(BigInt(e.holderShare)),
+      e.txHash,
+    ]
+      .map((v) => `"${String(v).replace(/"/g, '""')}"`)
+      .join(",")
+  );
+  return [header.join(","), ...lines].join("\n") + "\n";
+}
@@ -0,0 +1,437 @@
+import type { License, PrismaClient } from "@prisma/client";
+import { Abi, Address, Hex, isAddressEqual, verifyTypedData } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import AssetRegistryABI from "@/lib/contracts/AssetRegistry.json";
+import LicenseNFTABI from "@/lib/contracts/LicenseNFT.json";
+import { getContractAddress } from "@/lib/contracts/addresses";
+import { getPublicClient } from "@/lib/viem";
+import { getLicenseValidity } from "@/lib/licenseLifecycle";
+import { getOfferPreset } from "@/lib/licensePermissions";
+import { resolveOfferTerms } from "@/lib/customLicenseTerms";
+import { LicenseVerificationError, verifyLicensePurchase } from "@/lib/licenseSync";
+import { LicenseTerms, PRESET_TYPE_NAMES } from "@/lib/licenseTerms";
+
+/**
+ * Signed license certificates.
+ * A certificate is an EIP-712 message signed by the platform key
+ * (LICENSE_CERTIFICATE_PRIVATE_KEY), so it can be checked offline with the
+ * platform signer address only; the chain check re-reads the purchase when an RPC is available.
+ */
+
+export const CERTIFICATE_VERSION = "1";
+
+export class LicenseCertificateError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = "LicenseCertificateError";
+  }
+}
+
+export interface LicenseCertificate {
+  version: string;
+  licenseId: string;
+  chainId: number;
+  licenseManager: Address;
+  licenseNft: Address;
+  licenseTokenId: string;
+  offerId: string;
+  assetId: string;
+  assetMetadataCid: string;
+  licenseType: string;
+  preset: number;
+  presetName: string;
+  terms: LicenseTerms;
+  buyer: Address;
+  price: string; // wei
+  txHash: Hex;
+  expiresAt: number; // unix seconds, 0 = perpetual
+  issuedAt: number; // unix seconds
+}
+
+export interface SignedLicenseCertificate {
+  certificate: LicenseCertificate;
+  signer: Address;
+  signature: Hex;
+}
+
+export interface CertificateVerification {
+  valid: boolean;
+  offline: {
+    signatureValid: boolean;
+    trustedSigner: Address;
+    expired: boolean;
+  };
+  chain: {
+    checked: boolean;
+    purchaseConfirmed?: boolean;
+    currentOwner?: Address;
+    ownerIsBuyer?: boolean;
+    error?: string;
+  };
+  registry: {
+    found: boolean;
+    status?: string;
+    revokedReason?: string | null;
+  } | null;
+}
+
+const CERTIFICATE_TYPES = {
+  Terms: [
+    { name: "name", type: "string" },
+    { name: "description", type: "string" },
+    { name: "commercialUse", type: "bool" },
+    { name: "inGameUse", type: "bool" },
+    { name: "marketingUse", type: "bool" },
+    { name: "modificationAllowed", type: "bool" },
+    { name: "resaleAllowed", type: "bool" },
+    { name: "attributionRequired", type: "bool" },
+    { name: "transferable", type: "bool" },
+    { name: "revenueCap", type: "uint256" },
+    { name: "additionalTermsURI", type: "string" },
+  ],
+  LicenseCertificate: [
+    { name: "version", type: "string" },
+    { name: "licenseId", type: "string" },
+    { name: "licenseManager", type: "address" },
+    { name: "licenseNft", type: "address" },
+    { name: "licenseTokenId", type: "uint256" },
+    { name: "offerId", type: "uint256" },
+    { name: "assetId", type: "uint256" },
+    { name: "assetMetadataCid", type: "string" },
+    { name: "licenseType", type: "string" },
+    { name: "preset", type: "uint8" },
+    { name: "presetName", type: "string" },
+    { name: "terms", type: "Terms" },
+    { name: "buyer", type: "address" },
+    { name: "price", type: "uint256" },
+    { name: "txHash", type: "bytes32" },
+    { name: "expiresAt", type: "uint256" },
+    { name: "issuedAt", type: "uint256" },
+  ],
+} as const;
+
+function getCertificateDomain(chainId: number) {
+  return { name: "Lixa License Certificate", version: CERTIFICATE_VERSION, chainId };
+}
+
+function toTypedMessage(certificate: LicenseCertificate) {
+  return {
+    version: certificate.version,
+    licenseId: certificate.licenseId,
+    licenseManager: certificate.licenseManager,
+    licenseNft: certificate.licenseNft,
+    licenseTokenId: BigInt(certificate.licenseTokenId),
+    offerId: BigInt(certificate.offerId),
+    assetId: BigInt(certificate.assetId),
+    assetMetadataCid: certificate.assetMetadataCid,
+    licenseType: certificate.licenseType,
+    preset: certificate.preset,
+    presetName: certificate.presetName,
+    terms: { ...certificate.terms, revenueCap: BigInt(certificate.terms.revenueCap) },
+    buyer: certificate.buyer,
+    price: BigInt(certificate.price),
+    txHash: certificate.txHash,
+    expiresAt: BigInt(certificate.expiresAt),
+    issuedAt: BigInt(certificate.issuedAt),
+  };
+}
+
+function getCertificateAccount() {
+  const key = process.env.LICENSE_CERTIFICATE_PRIVATE_KEY;
+  if (!key) {
+    throw new LicenseCertificateError("Certificate signing key not configured", 500);
+  }
+  return privateKeyToAccount((key.startsWith("0x") ? key : `0x${key}`) as Hex);
+}
+
+/**
+ * Address certificates must be signed by. LICENSE_CERTIFICATE_SIGNER lets a
+ * verify-only deployment check certificates without holding the key.
+ */
+export function getTrustedSigner(): Address {
+  const signer = process.env.LICENSE_CERTIFICATE_SIGNER;
+  return signer ? (signer as Address) : getCertificateAccount().address;
+}
+
+/**
+ * Metadata CID registered for an asset: chain indexer first, AssetRegistry as fallback
+ */
+async function getAssetMetadataCid(prisma: PrismaClient, chainId: number, assetId: number): Promise<string> {
+  const indexed = await prisma.indexedAsset.findUnique({
+    where: { chainId_assetId: { chainId, assetId } },
+  });
+  let metadataURI = indexed?.metadataURI;
+
+  if (!metadataURI) {
+    const registry = getContractAddress(chainId, "AssetRegistry");
+    if (!registry) throw new LicenseCertificateError(`AssetRegistry not deployed on chain ${chainId}`, 500);
+    const asset = (await getPublicClient(chainId).readContract({
+      address: registry,
+      abi: AssetRegistryABI as Abi,
+      functionName: "getAsset",
+      args: [BigInt(assetId)],
+    })) as { metadataURI: string };
+    metadataURI = asset.metadataURI;
+  }
+
+  return metadataURI.replace(/^ipfs:\/\//, "");
+}
+
+/**
+ * Find the License row by id, or by chainId + LicenseNFT token id
+ */
+export async function findCertificateLicense(
+  prisma: PrismaClient,
+  params: { licenseId?: string | null; chainId?: number; tokenId?: string | null }
+): Promise<License> {
+  const license = params.licenseId
+    ? await prisma.license.findUnique({ where: { id: params.licenseId } })
+    : params.tokenId
+      ? await prisma.license.findFirst({ where: { licenseTokenId: params.tokenId, chainId: params.chainId } })
+      : null;
+  if (!license) {
+    throw new LicenseCertificateError("License not found", 404);
+  }
+  return license;
+}
+
+/**
+ * Build and sign a certificate for a currently valid, on-chain verified license
+ */
+export async function issueLicenseCertificate(
+  prisma: PrismaClient,
+  license: License
+): Promise<SignedLicenseCertificate> {
+  if (
+    !license.licenseTokenId ||
+    license.chainId === null ||
+    license.offerId === null ||
+    !license.txHash ||
+    (license.syncStatus !== "VERIFIED" && license.syncStatus !== "RECOVERED")
+  ) {
+    throw new LicenseCertificateError("License is not linked to a verified on-chain purchase", 409);
+  }
+  if (!getLicenseValidity(license).valid) {
+    throw new LicenseCertificateError(`License is ${license.status === "ACTIVE" ? "EXPIRED" : license.status}`, 409);
+  }
+
+  const chainId = license.chainId;
+  const licenseManager = getContractAddress(chainId, "LicenseManager");
+  const licenseNft = getContractAddress(chainId, "LicenseNFT");
+  if (!licenseManager || !licenseNft) {
+    throw new LicenseCertificateError(`License contracts not deployed on chain ${chainId}`, 500);
+  }
+
+  const [assetMetadataCid, preset] = await Promise.all([
+    getAssetMetadataCid(prisma, chainId, license.assetId),
+    getOfferPreset(prisma, chainId, license.offerId),
+  ]);
+
+  const certificate: LicenseCertificate = {
+    version: CERTIFICATE_VERSION,
+    licenseId: license.id,
+    chainId,
+    licenseManager,
+    licenseNft,
+    licenseTokenId: license.licenseTokenId,
+    offerId: license.offerId.toString(),
+    assetId: license.assetId.toString(),
+    assetMetadataCid,
+    licenseType: license.licenseType,
+    preset,
+    presetName: PRESET_TYPE_NAMES[preset] ?? "CUSTOM",
+    terms: await resolveOfferTerms(prisma, chainId, license.offerId, preset),
+    buyer: license.buyer as Address,
+    price: license.price,
+    txHash: license.txHash as Hex,
+    expiresAt: license.expiresAt ? Math.floor(license.expiresAt.getTime() / 1000) : 0,
+    issuedAt: Math.floor(Date.now() / 1000),
+  };
+
+  const account = getCertificateAccount();
+  const signature = await account.signTypedData({
+    domain: getCertificateDomain(chainId),
+    types: CERTIFICATE_TYPES,
+    primaryType: "LicenseCertificate",
+    message: toTypedMessage(certificate),
+  });
+
+  return { certificate, signer: account.address, signature };
+}
+
+/**
+ * Chain side of verification: the purchase tx still holds the LicensePurchased
+ * event and the LicenseNFT still exists
+ */
+async function verifyOnChain(certificate: LicenseCertificate): Promise<CertificateVerification["chain"]> {
+  const client = getPublicClient(certificate.chainId);
+  try {
+    await client.getBlockNumber();
+  } catch (error) {
+    return { checked: false, error: `RPC unavailable: ${(error as Error).message}` };
+  }
+
+  let purchaseConfirmed: boolean;
+  try {
+    const purchases = await verifyLicensePurchase(
+      certificate.chainId,
+      certificate.txHash,
+      certificate.buyer,
+      Number(certificate.offerId)
+    );
+    purchaseConfirmed = purchases.some(
+      (p) =>
+        p.licenseTokenId === certificate.licenseTokenId &&
+        p.price === certificate.price &&
+        p.assetId.toString() === certificate.assetId
+    );
+  } catch (error) {
+    if (error instanceof LicenseVerificationError && error.statusCode !== 400) {
+      // The chain answered, the purchase is not there
+      return { checked: true, purchaseConfirmed: false, error: error.message };
+    }
+    return { checked: false, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  // ownerOf reverts for a burned token; the purchase itself still stands
+  const currentOwner = (await client
+    .readContract({
+      address: certificate.licenseNft,
+      abi: LicenseNFTABI.abi as Abi,
+      functionName: "ownerOf",
+      args: [BigInt(certificate.licenseTokenId)],
+    })
+    .catch(() => undefined)) as Address | undefined;
+
+  return {
+    checked: true,
+    purchaseConfirmed,
+    currentOwner,
+    ownerIsBuyer: currentOwner ? isAddressEqual(currentOwner, certificate.buyer) : false,
+  };
+}
+
+/**
+ * Verify a signed certificate. The signature and expiry are checked offline;
+ * the chain and the License table are consulted when available.
+ */
+export async function verifyLicenseCertificate(
+  prisma: PrismaClient | null,
+  signed: SignedLicenseCertificate,
+  options: { offline?: boolean } = {}
+): Promise<CertificateVerification> {
+  const { certificate, signature } = signed;
+  if (!certificate || !signature) {
+    throw new LicenseCertificateError("Missing certificate or signature");
+  }
+
+  const trustedSigner = getTrustedSigner();
+  let signatureValid = false;
+  try {
+    signatureValid = await verifyTypedData({
+      address: trustedSigner,
+      domain: getCertificateDomain(certificate.chainId),
+      types: CERTIFICATE_TYPES,
+      primaryType: "LicenseCertificate",
+      message: toTypedMessage(certificate),
+      signature,
+    });
+  } catch {
+    // Malformed certificate fields
+    signatureValid = false;
+  }
+
+  const expired = certificate.expiresAt > 0 && certificate.expiresAt <= Math.floor(Date.now() / 1000);
+
+  const chain = signatureValid && !options.offline ? await verifyOnChain(certificate) : { checked: false };
+
+  let registry: CertificateVerification["registry"] = null;
+  if (signatureValid && prisma) {
+    // Database down: skip the revocation check like the chain check
+    const license = await prisma.license
+      .findUnique({ where: { id: certificate.licenseId } })
+      .catch(() => undefined);
+    if (license !== undefined) {
+      registry = license
+        ? { found: true, status: license.status, revokedReason: license.revokedReason }
+        : { found: false };
+    }
+  }
+
+  const valid =
+    signatureValid &&
+    !expired &&
+    (!chain.checked || chain.purchaseConfirmed === true) &&
+    registry?.status !== "REVOKED";
+
+  return { valid, offline: { signatureValid, trustedSigner, expired }, chain, registry };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Printable rendition (browser "Save as PDF"). The signed JSON is embedded
+ * verbatim so the printout can be verified with /api/license/verify.
+ */
+export function renderCertificateHtml(signed: SignedLicenseCertificate): string {
+  const { certificate: c } = signed;
+  const rights: [string, boolean][] = [
+    ["Commercial use", c.terms.commercialUse],
+    ["In-game use", c.terms.inGameUse],
+    ["Marketing use", c.terms.marketingUse],
+    ["Modification", c.terms.modificationAllowed],
+    ["Resale of raw asset", c.terms.resaleAllowed],
+    ["Attribution required", c.terms.attributionRequired],
+    ["Transferable", c.terms.transferable],
+  ];
+  const rows: [string, string][] = [
+    ["License ID", c.licenseId],
+    ["Asset", `#${c.assetId} (metadata CID ${c.assetMetadataCid})`],
+    ["License type", `${c.licenseType} / ${c.presetName}`],
+    ["Licensee", c.buyer],
+    ["Price", `${c.price} wei`],
+    ["LicenseNFT", `${c.licenseNft} #${c.licenseTokenId}`],
+    ["Purchase tx", c.txHash],
+    ["Chain ID", String(c.chainId)],
+    ["Revenue cap", c.terms.revenueCap === "0" ? "Unlimited" : `${c.terms.revenueCap} wei`],
+    ["Full terms", c.terms.additionalTermsURI || "-"],
+    ["Valid until", c.expiresAt ? new Date(c.expiresAt * 1000).toISOString() : "Perpetual"],
+    ["Issued", new Date(c.issuedAt * 1000).toISOString()],
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>License Certificate ${escapeHtml(c.licenseId)}</title>
+<style>
+  body { font-family: Georgia, serif; max-width: 780px; margin: 40px auto; color: #111; }
+  h1 { text-align: center; margin-bottom: 4px; }
+  .subtitle { text-align: center; color: #555; margin-top: 0; }
+  table { width: 100%; border-collapse: collapse; margin: 24px 0; }
+  td { border-bottom: 1px solid #ddd; padding: 6px 8px; vertical-align: top; word-break: break-all; }
+  td:first-child { width: 30%; color: #555; }
+  pre { background: #f5f5f5; padding: 12px; font-size: 10px; white-space: pre-wrap; word-break: break-all; }
+  @media print { pre { page-break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>License Certificate</h1>
+<p class="subtitle">${escapeHtml(c.terms.name)} &mdash; ${escapeHtml(c.terms.description)}</p>
+<table>
+${rows.map(([label, value]) => `<tr><td>${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`).join("\n")}
+${rights.map(([label, allowed]) => `<tr><td>${escapeHtml(label)}</td><td>${allowed ? "Yes" : "No"}</td></tr>`).join("\n")}
+</table>
+<p>Signed by ${escapeHtml(signed.signer)} (EIP-712, "Lixa License Certificate" v${escapeHtml(c.version)}).
+Submit the JSON below to <code>/api/license/verify</code> to check it.</p>
+<pre>${escapeHtml(JSON.stringify(signed, null, 2))}</pre>
+</body>
+</html>`;
+}
@@ -0,0 +1,40 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createFakePrisma } from "@/test/fakePrisma";
+import { findValidLicense } from "@/lib/licenseLifecycle";
+
+const buyer = "0x00000000000000000000000000000000000000b1";
+const now = new Date(Date.UTC(2026, 0, 1));
+
+const makeLicense = (overrides: Record<string, unknown> = {}) => ({
+  id: `license-${Math.random().toString(36).slice(2)}`,
+  assetId: 1,
+  buyer,
+  status: "ACTIVE",
+  syncStatus: "VERIFIED",
+  expiresAt: null,
+  createdAt: now,
+  ...overrides,
+});
+
+describe("findValidLicense", () => {
+  let prisma: ReturnType<typeof createFakePrisma>;
+
+  beforeEach(() => {
+    prisma = createFakePrisma();
+  });
+
+  it("accepts an ACTIVE license backed by an on-chain purchase", async () => {
+    prisma.tables.license.push(makeLicense({ syncStatus: "RECOVERED" }));
+    expect(await findValidLicense(prisma, { assetId: 1, buyer: buyer.toUpperCase() }, now)).not.toBeNull();
+  });
+
+  it("rejects an ACTIVE license that reconcile flagged ORPHANED or never verified", async () => {
+    prisma.tables.license.push(makeLicense({ syncStatus: "ORPHANED" }), makeLicense({ syncStatus: "UNVERIFIED" }));
+    expect(await findValidLicense(prisma, { assetId: 1, buyer }, now)).toBeNull();
+  });
+
+  it("rejects a license past its expiry before the expiry job ran", async () => {
+    prisma.tables.license.push(makeLicense({ expiresAt: new Date(now.getTime() - 1000) }));
+    expect(await findValidLicense(prisma, { assetId: 1, buyer }, now)).toBeNull();
+  });
+});
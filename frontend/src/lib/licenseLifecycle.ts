@@ -0,0 +1,148 @@
+import type { License, PrismaClient } from "@prisma/client";
+import { Address, Hex, verifyMessage } from "viem";
+
+/**
+ * License status lifecycle: ACTIVE -> EXPIRED (term lapsed) or ACTIVE -> REVOKED (by the asset creator).
+ * Both end states are final; LicenseManager has no on-chain revoke, so revocation is off-chain only.
+ */
+
+export type LicenseStatus = "ACTIVE" | "REVOKED" | "EXPIRED";
+
+export class LicenseRevocationError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = "LicenseRevocationError";
+  }
+}
+
+export const MAX_REVOKE_REASON_LENGTH = 500;
+
+// Sync states backed by an on-chain purchase (see lib/licenseSync)
+export const VERIFIED_SYNC_STATUSES = ["VERIFIED", "RECOVERED"];
+
+/**
+ * Expiry of a license bought at `purchasedAt` from an offer with `duration` seconds (0 = perpetual)
+ */
+export function getLicenseExpiry(purchasedAt: Date, duration: bigint): Date | null {
+  if (duration <= BigInt(0)) return null;
+  return new Date(purchasedAt.getTime() + Number(duration) * 1000);
+}
+
+/**
+ * Whether a license grants rights right now, and for how long (null = perpetual)
+ */
+export function getLicenseValidity(
+  license: Pick<License, "status" | "expiresAt">,
+  now: Date = new Date()
+): { valid: boolean; remainingSeconds: number | null } {
+  if (license.status !== "ACTIVE") return { valid: false, remainingSeconds: 0 };
+  if (!license.expiresAt) return { valid: true, remainingSeconds: null };
+
+  const remainingMs = license.expiresAt.getTime() - now.getTime();
+  return remainingMs > 0
+    ? { valid: true, remainingSeconds: Math.floor(remainingMs / 1000) }
+    : { valid: false, remainingSeconds: 0 };
+}
+
+/**
+ * Latest license of a buyer for an asset that is valid right now: ACTIVE, not past
+ * expiresAt (the expiry job may not have run yet) and backed by an on-chain purchase
+ */
+export async function findValidLicense(
+  prisma: PrismaClient,
+  params: { assetId: number; buyer: string },
+  now: Date = new Date()
+): Promise<License | null> {
+  return prisma.license.findFirst({
+    where: {
+      assetId: params.assetId,
+      buyer: params.buyer.toLowerCase(),
+      status: "ACTIVE",
+      syncStatus: { in: VERIFIED_SYNC_STATUSES },
+      OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+    },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * Move ACTIVE licenses whose term has lapsed to EXPIRED
+ */
+export async function expireLicenses(prisma: PrismaClient, now: Date = new Date()): Promise<number> {
+  const result = await prisma.license.updateMany({
+    where: { status: "ACTIVE", expiresAt: { lte: now } },
+    data: { status: "EXPIRED" },
+  });
+
+  if (result.count > 0) {
+    console.log(`[Licenses] Expired ${result.count} license(s)`);
+  }
+  return result.count;
+}
+
+/**
+ * Message the creator signs (personal_sign) to revoke a license
+ */
+export function buildRevocationMessage(licenseId: string, reason: string): string {
+  return `Revoke Lixa license ${licenseId}\nReason: ${reason}`;
+}
+
+/**
+ * Creator of the licensed asset: indexed registry first, uploaded Asset row as fallback
+ */
+async function getAssetCreator(prisma: PrismaClient, license: License): Promise<string | null> {
+  if (license.chainId !== null) {
+    const indexed = await prisma.indexedAsset.findUnique({
+      where: { chainId_assetId: { chainId: license.chainId, assetId: license.assetId } },
+    });
+    if (indexed) return indexed.creator.toLowerCase();
+  }
+  const asset = await prisma.asset.findUnique({ where: { assetId: license.assetId } });
+  return asset ? asset.creator.toLowerCase() : null;
+}
+
+/**
+ * Revoke an ACTIVE license. The signature must recover to the asset creator.
+ */
+export async function revokeLicense(
+  prisma: PrismaClient,
+  params: { licenseId: string; creatorAddress: Address; reason: string; signature: Hex }
+): Promise<License> {
+  const reason = params.reason.trim();
+  if (!reason) {
+    throw new LicenseRevocationError("A revocation reason is required");
+  }
+  if (reason.length > MAX_REVOKE_REASON_LENGTH) {
+    throw new LicenseRevocationError(`Reason must be at most ${MAX_REVOKE_REASON_LENGTH} characters`);
+  }
+
+  const license = await prisma.license.findUnique({ where: { id: params.licenseId } });
+  if (!license) {
+    throw new LicenseRevocationError("License not found", 404);
+  }
+
+  const creator = await getAssetCreator(prisma, license);
+  if (!creator || creator !== params.creatorAddress.toLowerCase()) {
+    throw new LicenseRevocationError("Only the asset creator can revoke this license", 403);
+  }
+
+  const validSignature = await verifyMessage({
+    address: params.creatorAddress,
+    message: buildRevocationMessage(license.id, reason),
+    signature: params.signature,
+  }).catch(() => false);
+  if (!validSignature) {
+    throw new LicenseRevocationError("Invalid signature", 401);
+  }
+
+  // Guarded update: a license that expired or was revoked in the meantime stays as is
+  const revoked = await prisma.license.updateMany({
+    where: { id: license.id, status: "ACTIVE" },
+    data: { status: "REVOKED", revokedAt: new Date(), revokedBy: creator, revokedReason: reason },
+  });
+  if (revoked.count === 0) {
+    throw new LicenseRevocationError("License is no longer active", 409);
+  }
+
+  return prisma.license.findUniqueOrThrow({ where: { id: license.id } });
+}
@@ -0,0 +1,169 @@
+import type { PrismaClient } from "@prisma/client";
+import { Abi } from "viem";
+import LicenseManagerABI from "@/lib/contracts/LicenseManager.json";
+import { getContractAddress } from "@/lib/contracts/addresses";
+import { getPublicClient } from "@/lib/viem";
+import { getLicenseValidity } from "@/lib/licenseLifecycle";
+import { resolveOfferTerms } from "@/lib/customLicenseTerms";
+import {
+  LICENSE_USE_CASES,
+  LicenseTerms,
+  LicenseUseCase,
+  PRESET_TYPE_NAMES,
+  isRevenueWithinCap,
+  isUseCaseAllowed,
+} from "@/lib/licenseTerms";
+
+/**
+ * Usage-scope answers for a holder's licenses on one asset.
+ * Terms come from the TS mirror of LicensePreset (or the stored document of a
+ * CUSTOM offer) by default; source "chain" asks LicenseManager
+ * (getLicenseTerms / isUseCaseAllowed / validateRevenue) instead, where CUSTOM offers are all-false.
+ */
+
+export type TermsSource = "mirror" | "chain";
+
+export interface LicensePermission {
+  licenseId: string;
+  offerId: number;
+  licenseTokenId: string | null;
+  licenseType: string;
+  preset: number;
+  presetName: string;
+  expiresAt: Date | null;
+  remainingSeconds: number | null;
+  terms: LicenseTerms;
+  useCases: Record<LicenseUseCase, boolean>;
+  revenueWithinCap: boolean | null; // null = no revenue reported
+}
+
+export interface PermissionResult {
+  permitted: boolean;
+  reason?: string;
+  licenses: LicensePermission[];
+}
+
+/**
+ * Preset of an offer: chain indexer first, LicenseManager.offers as fallback
+ */
+export async function getOfferPreset(prisma: PrismaClient, chainId: number, offerId: number): Promise<number> {
+  const indexed = await prisma.indexedLicenseOffer.findUnique({
+    where: { chainId_offerId: { chainId, offerId } },
+  });
+  if (indexed) return indexed.preset;
+
+  const licenseManager = getContractAddress(chainId, "LicenseManager");
+  if (!licenseManager) throw new Error(`LicenseManager not deployed on chain ${chainId}`);
+  const [, , , , , , preset] = (await getPublicClient(chainId).readContract({
+    address: licenseManager,
+    abi: LicenseManagerABI as Abi,
+    functionName: "offers",
+    args: [BigInt(offerId)],
+  })) as readonly unknown[];
+  return Number(preset);
+}
+
+/**
+ * Terms and use-case answers straight from LicenseManager
+ */
+async function readOfferScopeOnChain(chainId: number, offerId: number, revenue?: bigint) {
+  const licenseManager = getContractAddress(chainId, "LicenseManager");
+  if (!licenseManager) throw new Error(`LicenseManager not deployed on chain ${chainId}`);
+  const client = getPublicClient(chainId);
+  const read = (functionName: string, args: unknown[]) =>
+    client.readContract({ address: licenseManager, abi: LicenseManagerABI as Abi, functionName, args });
+
+  const [terms, ...allowed] = await Promise.all([
+    read("getLicenseTerms", [BigInt(offerId)]) as Promise<Omit<LicenseTerms, "revenueCap"> & { revenueCap: bigint }>,
+    ...LICENSE_USE_CASES.map((_, id) => read("isUseCaseAllowed", [BigInt(offerId), id]) as Promise<boolean>),
+  ]);
+  const revenueWithinCap =
+    revenue === undefined ? null : ((await read("validateRevenue", [BigInt(offerId), revenue])) as boolean);
+
+  return {
+    terms: { ...terms, revenueCap: terms.revenueCap.toString() },
+    useCases: Object.fromEntries(LICENSE_USE_CASES.map((u, id) => [u, allowed[id]])) as Record<LicenseUseCase, boolean>,
+    revenueWithinCap,
+  };
+}
+
+/**
+ * Resolve the holder's currently valid licenses for an asset and answer
+ * whether `useCase` (and `revenue`, in wei) is covered by at least one of them
+ */
+export async function resolveLicensePermissions(
+  prisma: PrismaClient,
+  params: {
+    chainId: number;
+    assetId: number;
+    address: string;
+    useCase?: LicenseUseCase;
+    revenue?: bigint;
+    source?: TermsSource;
+  }
+): Promise<PermissionResult> {
+  const now = new Date();
+  const rows = await prisma.license.findMany({
+    where: {
+      assetId: params.assetId,
+      buyer: params.address.toLowerCase(),
+      chainId: params.chainId,
+      offerId: { not: null },
+      status: "ACTIVE",
+      syncStatus: { in: ["VERIFIED", "RECOVERED"] },
+      OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+    },
+    orderBy: { createdAt: "desc" },
+  });
+
+  const licenses: LicensePermission[] = [];
+  for (const row of rows) {
+    const offerId = row.offerId as number;
+    const preset = await getOfferPreset(prisma, params.chainId, offerId);
+
+    let scope;
+    if (params.source === "chain") {
+      scope = await readOfferScopeOnChain(params.chainId, offerId, params.revenue);
+    } else {
+      const terms = await resolveOfferTerms(prisma, params.chainId, offerId, preset);
+      scope = {
+        terms,
+        useCases: Object.fromEntries(LICENSE_USE_CASES.map((u) => [u, isUseCaseAllowed(terms, u)])) as Record<
+          LicenseUseCase,
+          boolean
+        >,
+        revenueWithinCap: params.revenue === undefined ? null : isRevenueWithinCap(terms, params.revenue),
+      };
+    }
+
+    licenses.push({
+      licenseId: row.id,
+      offerId,
+      licenseTokenId: row.licenseTokenId,
+      licenseType: row.licenseType,
+      preset,
+      presetName: PRESET_TYPE_NAMES[preset] ?? "CUSTOM",
+      expiresAt: row.expiresAt,
+      remainingSeconds: getLicenseValidity(row, now).remainingSeconds,
+      ...scope,
+    });
+  }
+
+  if (licenses.length === 0) {
+    return { permitted: false, reason: "No active license for this asset", licenses };
+  }
+
+  const coversUseCase = (l: LicensePermission) => !params.useCase || l.useCases[params.useCase];
+  const coversRevenue = (l: LicensePermission) => l.revenueWithinCap !== false;
+
+  if (licenses.some((l) => coversUseCase(l) && coversRevenue(l))) {
+    return { permitted: true, licenses };
+  }
+  return {
+    permitted: false,
+    reason: licenses.some(coversUseCase)
+      ? "Reported revenue exceeds the license revenue cap"
+      : `Use case "${params.useCase}" is not permitted by any active license`,
+    licenses,
+  };
+}
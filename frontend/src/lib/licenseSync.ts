@@ -0,0 +1,251 @@
+import { PrismaClient } from "@prisma/client";
+import { Abi, Hex, parseEventLogs } from "viem";
+import LicenseManagerABI from "@/lib/contracts/LicenseManager.json";
+import { getContractAddress } from "@/lib/contracts/addresses";
+import { getPublicClient } from "@/lib/viem";
+import { getLicenseExpiry } from "@/lib/licenseLifecycle";
+
+/**
+ * Keeps the License table in line with LicenseManager.
+ * Purchases are only recorded from a LicensePurchased event in the tx receipt,
+ * and reconcileLicenses() repairs or flags rows that exist on one side only.
+ */
+
+// Unverified rows younger than this are left alone (tx may still be confirming)
+const RECONCILE_GRACE_MS = 10 * 60 * 1000;
+
+export const LICENSE_TYPE_NAMES = ["NON_EXCLUSIVE", "EXCLUSIVE", "DERIVATIVE"];
+
+export class LicenseVerificationError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = "LicenseVerificationError";
+  }
+}
+
+export interface VerifiedPurchase {
+  chainId: number;
+  txHash: string;
+  offerId: number;
+  licenseTokenId: string;
+  buyer: string;
+  price: string; // wei
+  assetId: number;
+  licenseType: string;
+  uri: string;
+  purchasedAt: Date; // block timestamp
+  expiresAt: Date | null; // null = perpetual offer
+}
+
+/**
+ * Read the LicensePurchased events of a tx for one buyer (optionally one offer)
+ */
+export async function verifyLicensePurchase(
+  chainId: number,
+  txHash: Hex,
+  buyer: string,
+  offerId?: number
+): Promise<VerifiedPurchase[]> {
+  const licenseManager = getContractAddress(chainId, "LicenseManager");
+  if (!licenseManager) {
+    throw new LicenseVerificationError(`LicenseManager not deployed on chain ${chainId}`);
+  }
+
+  const client = getPublicClient(chainId);
+  const receipt = await client.getTransactionReceipt({ hash: txHash }).catch(() => null);
+  if (!receipt) {
+    throw new LicenseVerificationError("Transaction receipt not found", 404);
+  }
+  if (receipt.status !== "success") {
+    throw new LicenseVerificationError("Transaction reverted", 422);
+  }
+
+  const events = parseEventLogs({
+    abi: LicenseManagerABI as Abi,
+    eventName: "LicensePurchased",
+    logs: receipt.logs.filter((log) => log.address.toLowerCase() === licenseManager.toLowerCase()),
+  }) as unknown as { args: { offerId: bigint; licenseTokenId: bigint; buyer: string; price: bigint } }[];
+
+  const matching = events.filter(
+    (e) =>
+      e.args.buyer.toLowerCase() === buyer.toLowerCase() &&
+      (offerId === undefined || Number(e.args.offerId) === offerId)
+  );
+  if (matching.length === 0) {
+    throw new LicenseVerificationError("No matching LicensePurchased event in transaction", 422);
+  }
+
+  const block = await client.getBlock({ blockNumber: receipt.blockNumber });
+  const purchasedAt = new Date(Number(block.timestamp) * 1000);
+
+  const purchases: VerifiedPurchase[] = [];
+  for (const { args } of matching) {
+    const [, assetId, , , , ltype, , , , duration, , uri] = (await client.readContract({
+      address: licenseManager,
+      abi: LicenseManagerABI as Abi,
+      functionName: "offers",
+      args: [args.offerId],
+    })) as readonly unknown[];
+
+    purchases.push({
+      chainId,
+      txHash: txHash.toLowerCase(),
+      offerId: Number(args.offerId),
+      licenseTokenId: args.licenseTokenId.toString(),
+      buyer: args.buyer.toLowerCase(),
+      price: args.price.toString(),
+      assetId: Number(assetId),
+      licenseType: LICENSE_TYPE_NAMES[Number(ltype)] ?? "NON_EXCLUSIVE",
+      uri: String(uri),
+      purchasedAt,
+      expiresAt: getLicenseExpiry(purchasedAt, duration as bigint),
+    });
+  }
+  return purchases;
+}
+
+/**
+ * Write a verified purchase. An existing unverified row for the same tx and buyer
+ * is completed instead of duplicated; a licenseTokenId already known on the chain is a no-op.
+ */
+export async function recordVerifiedLicense(
+  prisma: PrismaClient,
+  purchase: VerifiedPurchase,
+  syncStatus: "VERIFIED" | "RECOVERED" = "VERIFIED"
+) {
+  const existing = await prisma.license.findFirst({
+    where: { chainId: purchase.chainId, licenseTokenId: purchase.licenseTokenId },
+  });
+  if (existing) return existing;
+
+  const data = {
+    assetId: purchase.assetId,
+    buyer: purchase.buyer,
+    price: purchase.price,
+    licenseType: purchase.licenseType,
+    txHash: purchase.txHash,
+    uri: purchase.uri || null,
+    chainId: purchase.chainId,
+    offerId: purchase.offerId,
+    licenseTokenId: purchase.licenseTokenId,
+    expiresAt: purchase.expiresAt,
+    verifiedAt: new Date(),
+  };
+
+  const pending = await prisma.license.findFirst({
+    where: { licenseTokenId: null, buyer: purchase.buyer, txHash: purchase.txHash },
+  });
+  if (pending) {
+    return prisma.license.update({ where: { id: pending.id }, data: { ...data, syncStatus: "VERIFIED" } });
+  }
+
+  // A recovered purchase may already be past its term
+  const status = purchase.expiresAt && purchase.expiresAt <= new Date() ? "EXPIRED" : "ACTIVE";
+  return prisma.license.create({ data: { ...data, status, syncStatus } });
+}
+
+export interface LicenseReconcileResult {
+  recovered: string[]; // on-chain only -> created
+  verified: string[]; // off-chain rows confirmed by their receipt
+  orphaned: string[]; // off-chain only -> flagged
+}
+
+/**
+ * Two-way reconciliation for one chain:
+ * - LicensePurchased events from the chain indexer without a License row are recreated
+ * - unverified License rows are checked against their tx receipt and flagged ORPHANED if nothing matches
+ */
+export async function reconcileLicenses(prisma: PrismaClient, chainId: number): Promise<LicenseReconcileResult> {
+  const result: LicenseReconcileResult = { recovered: [], verified: [], orphaned: [] };
+
+  // 1. Chain -> DB
+  const [events, known] = await Promise.all([
+    prisma.chainEvent.findMany({
+      where: { chainId, eventName: "LicensePurchased" },
+      orderBy: [{ blockNumber: "asc" }, { logIndex: "asc" }],
+    }),
+    prisma.license.findMany({
+      where: { chainId, licenseTokenId: { not: null } },
+      select: { licenseTokenId: true },
+    }),
+  ]);
+  const knownTokenIds = new Set(known.map((l) => l.licenseTokenId));
+
+  for (const event of events) {
+    const args = JSON.parse(event.args) as Record<string, string>;
+    if (knownTokenIds.has(args.licenseTokenId)) continue;
+
+    const offer = await prisma.indexedLicenseOffer.findUnique({
+      where: { chainId_offerId: { chainId, offerId: Number(args.offerId) } },
+    });
+    if (!offer) continue; // indexer has not folded the offer yet
+
+    const license = await recordVerifiedLicense(
+      prisma,
+      {
+        chainId,
+        txHash: event.txHash.toLowerCase(),
+        offerId: offer.offerId,
+        licenseTokenId: args.licenseTokenId,
+        buyer: args.buyer.toLowerCase(),
+        price: args.price,
+        assetId: offer.assetId,
+        licenseType: LICENSE_TYPE_NAMES[offer.licenseType] ?? "NON_EXCLUSIVE",
+        uri: offer.uri ?? "",
+        purchasedAt: event.blockTimestamp,
+        expiresAt: getLicenseExpiry(event.blockTimestamp, BigInt(offer.duration ?? "0")),
+      },
+      "RECOVERED"
+    );
+    (license.syncStatus === "RECOVERED" ? result.recovered : result.verified).push(license.id);
+  }
+
+  // 2. DB -> chain
+  const unverified = await prisma.license.findMany({
+    where: {
+      syncStatus: "UNVERIFIED",
+      createdAt: { lt: new Date(Date.now() - RECONCILE_GRACE_MS) },
+      OR: [{ chainId }, { chainId: null }],
+    },
+  });
+
+  for (const license of unverified) {
+    if (license.txHash) {
+      try {
+        const purchases = await verifyLicensePurchase(chainId, license.txHash as Hex, license.buyer);
+        const purchase = purchases.find((p) => p.assetId === license.assetId) ?? purchases[0];
+        await prisma.license.update({
+          where: { id: license.id },
+          data: {
+            chainId,
+            offerId: purchase.offerId,
+            licenseTokenId: purchase.licenseTokenId,
+            price: purchase.price,
+            expiresAt: purchase.expiresAt,
+            syncStatus: "VERIFIED",
+            verifiedAt: new Date(),
+          },
+        });
+        result.verified.push(license.id);
+        continue;
+      } catch (error) {
+        if (!(error instanceof LicenseVerificationError)) {
+          // RPC trouble or tokenId already linked elsewhere: retry on the next run
+          console.warn(`[Licenses] Could not verify ${license.id}:`, (error as Error).message);
+          continue;
+        }
+      }
+    }
+
+    await prisma.license.update({ where: { id: license.id }, data: { syncStatus: "ORPHANED" } });
+    result.orphaned.push(license.id);
+  }
+
+  if (result.recovered.length + result.verified.length + result.orphaned.length > 0) {
+    console.log(
+      `[Licenses] Recovered ${result.recovered.length}, verified ${result.verified.length}, orphaned ${result.orphaned.length}`
+    );
+  }
+
+  return result;
+}
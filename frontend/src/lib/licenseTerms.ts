@@ -0,0 +1,158 @@
+/**
+ * Off-chain mirror of LicensePreset.getPresetTerms (src/contract/LicensePreset.sol).
+ * Keep in sync with the library; presets are pure, so no RPC is needed to resolve them.
+ */
+
+export interface LicenseTerms {
+  name: string;
+  description: string;
+  commercialUse: boolean;
+  inGameUse: boolean;
+  marketingUse: boolean;
+  modificationAllowed: boolean;
+  resaleAllowed: boolean;
+  attributionRequired: boolean;
+  transferable: boolean;
+  revenueCap: string; // wei, "0" = unlimited
+  additionalTermsURI: string;
+}
+
+// Index = LicensePreset.PresetType
+export const PRESET_TYPE_NAMES = ["CUSTOM", "IN_GAME_COMMERCIAL_V1", "TRAILER_MARKETING_V1", "EDU_INDIE_V1"];
+
+const CUSTOM_TERMS: LicenseTerms = {
+  name: "Custom License",
+  description: "Custom terms defined by creator",
+  commercialUse: false,
+  inGameUse: false,
+  marketingUse: false,
+  modificationAllowed: false,
+  resaleAllowed: false,
+  attributionRequired: false,
+  transferable: false,
+  revenueCap: "0",
+  additionalTermsURI: "",
+};
+
+const PRESET_TERMS: Record<number, LicenseTerms> = {
+  1: {
+    name: "In-Game Commercial License v1",
+    description: "Full commercial usage rights for game integration",
+    commercialUse: true,
+    inGameUse: true,
+    marketingUse: true,
+    modificationAllowed: true,
+    resaleAllowed: false,
+    attributionRequired: true,
+    transferable: false,
+    revenueCap: "0",
+    additionalTermsURI: "ipfs://QmCommercialTermsV1",
+  },
+  2: {
+    name: "Trailer/Marketing License v1",
+    description: "For promotional materials only, not in-game usage",
+    commercialUse: true,
+    inGameUse: false,
+    marketingUse: true,
+    modificationAllowed: true,
+    resaleAllowed: false,
+    attributionRequired: true,
+    transferable: false,
+    revenueCap: "0",
+    additionalTermsURI: "ipfs://QmMarketingTermsV1",
+  },
+  3: {
+    name: "Educational/Indie License v1",
+    description: "Discounted license for students and indie developers with revenue cap",
+    commercialUse: true,
+    inGameUse: true,
+    marketingUse: true,
+    modificationAllowed: true,
+    resaleAllowed: false,
+    attributionRequired: true,
+    transferable: false,
+    revenueCap: (BigInt(100000) * BigInt(1e18)).toString(), // 100000 ether
+    additionalTermsURI: "ipfs://QmEduIndieTermsV1",
+  },
+};
+
+/**
+ * Terms of a preset; unknown presets fall back to CUSTOM like the contract does
+ */
+export function getPresetTerms(preset: number): LicenseTerms {
+  return PRESET_TERMS[preset] ?? CUSTOM_TERMS;
+}
+
+// Index = useCase id of LicensePreset.isAllowed / LicenseManager.isUseCaseAllowed
+export const LICENSE_USE_CASES = ["commercial", "in-game", "marketing", "modification"] as const;
+export type LicenseUseCase = (typeof LICENSE_USE_CASES)[number];
+
+/**
+ * Accepts a use-case name or its numeric id; null if unknown
+ */
+export function parseUseCase(value: string): LicenseUseCase | null {
+  const byId = /^\d+$/.test(value) ? LICENSE_USE_CASES[Number(value)] : undefined;
+  if (byId) return byId;
+  return (LICENSE_USE_CASES as readonly string[]).includes(value) ? (value as LicenseUseCase) : null;
+}
+
+/**
+ * Mirror of LicensePreset.isAllowed
+ */
+export function isUseCaseAllowed(terms: LicenseTerms, useCase: LicenseUseCase): boolean {
+  if (useCase === "commercial") return terms.commercialUse;
+  if (useCase === "in-game") return terms.inGameUse;
+  if (useCase === "marketing") return terms.marketingUse;
+  return terms.modificationAllowed;
+}
+
+/**
+ * Mirror of LicensePreset.validateRevenueCap (cap 0 = unlimited)
+ */
+export function isRevenueWithinCap(terms: LicenseTerms, revenue: bigint): boolean {
+  const cap = BigInt(terms.revenueCap);
+  return cap === BigInt(0) || revenue <= cap;
+}
+
+// CUSTOM preset: the creator's terms are pinned to IPFS and used as the offer uri
+export const CUSTOM_PRESET = 0;
+export const CUSTOM_TERMS_SCHEMA = "lixa-license-terms/v1";
+export const MAX_LEGAL_TEXT_LENGTH = 50000;
+
+export const TERMS_FLAGS = [
+  "commercialUse",
+  "inGameUse",
+  "marketingUse",
+  "modificationAllowed",
+  "resaleAllowed",
+  "attributionRequired",
+  "transferable",
+] as const;
+
+export interface CustomTermsDocument {
+  schema: typeof CUSTOM_TERMS_SCHEMA;
+  terms: Omit<LicenseTerms, "additionalTermsURI">;
+  legalText: string;
+}
+
+/**
+ * Validate a terms document (from the editor or fetched back from IPFS).
+ * Returns an error message, or null if the document is well-formed.
+ */
+export function validateCustomTermsDocument(doc: unknown): string | null {
+  const d = doc as Partial<CustomTermsDocument> | null;
+  if (!d || d.schema !== CUSTOM_TERMS_SCHEMA || !d.terms) return "Not a license terms document";
+  const { terms } = d;
+  if (typeof terms.name !== "string" || !terms.name.trim()) return "Terms name is required";
+  if (typeof terms.description !== "string") return "Terms description must be a string";
+  for (const flag of TERMS_FLAGS) {
+    if (typeof terms[flag] !== "boolean") return `${flag} must be true or false`;
+  }
+  if (typeof terms.revenueCap !== "string" || !/^\d+$/.test(terms.revenueCap)) {
+    return "revenueCap must be a wei amount";
+  }
+  if (typeof d.legalText !== "string" || d.legalText.length > MAX_LEGAL_TEXT_LENGTH) {
+    return `legalText must be a string of at most ${MAX_LEGAL_TEXT_LENGTH} characters`;
+  }
+  return null;
+}
@@ -0,0 +1,176 @@
+import { EventEmitter } from "events";
+import type { Order, OrderMatch, PrismaClient } from "@prisma/client";
+
+/**
+ * In-process market event bus for the order book stream (/api/orders/stream).
+ * Order, match and settlement code publish here after their writes commit;
+ * every pool has its own sequence so clients can detect gaps, and the last
+ * REPLAY_BUFFER events per pool are kept for reconnects (?since=seq).
+ * Single-process only: with several server instances each one has its own bus.
+ */
+
+const REPLAY_BUFFER = 500;
+
+export type MarketEventType =
+  | "order.created"
+  | "order.updated"
+  | "order.filled"
+  | "order.cancelled"
+  | "order.expired"
+  | "match.created"
+  | "match.failed"
+  | "settlement.confirmed";
+
+export interface MarketEvent {
+  seq: number;
+  poolId: string;
+  type: MarketEventType;
+  data: Record<string, unknown>;
+  timestamp: string;
+}
+
+type Listener = (event: MarketEvent) => void;
+
+class MarketEventBus {
+  private emitter = new EventEmitter();
+  private sequences = new Map<string, number>();
+  private buffers = new Map<string, MarketEvent[]>();
+
+  constructor() {
+    // One listener per open stream
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(poolId: string, type: MarketEventType, data: Record<string, unknown>): MarketEvent {
+    const seq = (this.sequences.get(poolId) ?? 0) + 1;
+    this.sequences.set(poolId, seq);
+    const event: MarketEvent = { seq, poolId, type, data, timestamp: new Date().toISOString() };
+
+    const buffer = this.buffers.get(poolId) ?? [];
+    buffer.push(event);
+    if (buffer.length > REPLAY_BUFFER) buffer.shift();
+    this.buffers.set(poolId, buffer);
+
+    this.emitter.emit(poolId, event);
+    return event;
+  }
+
+  subscribe(poolId: string, listener: Listener): () => void {
+    this.emitter.on(poolId, listener);
+    return () => {
+      this.emitter.off(poolId, listener);
+    };
+  }
+
+  currentSeq(poolId: string): number {
+    return this.sequences.get(poolId) ?? 0;
+  }
+
+  /**
+   * Events after `seq`, or null if some of them already left the replay buffer
+   */
+  since(poolId: string, seq: number): MarketEvent[] | null {
+    if (seq > this.currentSeq(poolId)) return null;
+    const buffer = this.buffers.get(poolId) ?? [];
+    const missed = buffer.filter((e) => e.seq > seq);
+    const expected = this.currentSeq(poolId) - seq;
+    return missed.length === expected ? missed : null;
+  }
+}
+
+// Shared across route bundles and hot reloads, like the Prisma client in lib/prisma
+const globalForBus = global as unknown as { marketEventBus: MarketEventBus | undefined };
+export const marketEvents = globalForBus.marketEventBus ?? new MarketEventBus();
+globalForBus.marketEventBus = marketEvents;
+
+/**
+ * Order as sent on the stream (same fields as /api/orders/list rows)
+ */
+export function toStreamOrder(order: Order) {
+  return {
+    id: order.id,
+    orderId: order.orderId,
+    userAddress: order.userAddress,
+    side: order.side,
+    poolId: order.poolId,
+    ftAddress: order.ftAddress,
+    amount: order.amount,
+    pricePerToken: order.pricePerToken,
+    totalValue: order.totalValue,
+    orderType: order.orderType,
+    timeInForce: order.timeInForce,
+    status: order.status,
+    filledAmount: order.filledAmount,
+    createdAt: order.createdAt.toISOString(),
+    expiresAt: order.expiresAt.toISOString(),
+  };
+}
+
+export function toStreamMatch(match: OrderMatch) {
+  return {
+    id: match.id,
+    buyOrderId: match.buyOrderId,
+    sellOrderId: match.sellOrderId,
+    matchedAmount: match.matchedAmount,
+    matchedPrice: match.matchedPrice,
+    status: match.status,
+    txHash: match.txHash,
+    createdAt: match.createdAt.toISOString(),
+    settledAt: match.settledAt?.toISOString() ?? null,
+  };
+}
+
+export type StreamOrder = ReturnType<typeof toStreamOrder>;
+export type StreamMatch = ReturnType<typeof toStreamMatch>;
+
+const ORDER_EVENT_BY_STATUS: Record<string, MarketEventType> = {
+  OPEN: "order.updated",
+  PARTIALLY_FILLED: "order.filled",
+  FILLED: "order.filled",
+  CANCELLED: "order.cancelled",
+  EXPIRED: "order.expired",
+};
+
+/**
+ * Publish the current state of an order; the event type follows its status
+ */
+export function publishOrder(order: Order, type?: MarketEventType) {
+  marketEvents.publish(order.poolId, type ?? ORDER_EVENT_BY_STATUS[order.status] ?? "order.updated", {
+    order: toStreamOrder(order),
+  });
+}
+
+/**
+ * Reload orders and publish their current state (publishing never fails the caller)
+ */
+export async function publishOrders(prisma: PrismaClient, orderIds: string[]) {
+  if (orderIds.length === 0) return;
+  try {
+    const orders = await prisma.order.findMany({ where: { id: { in: [...new Set(orderIds)] } } });
+    for (const order of orders) publishOrder(order);
+  } catch (error) {
+    console.error("[MarketEvents] Failed to publish orders:", error);
+  }
+}
+
+/**
+ * Publish match events followed by the new state of both sides of every match
+ */
+export async function publishMatches(prisma: PrismaClient, matchIds: string[], type: MarketEventType) {
+  if (matchIds.length === 0) return;
+  try {
+    const matches = await prisma.orderMatch.findMany({
+      where: { id: { in: matchIds } },
+      include: { buyOrder: true, sellOrder: true },
+    });
+    const orders = new Map<string, Order>();
+    for (const match of matches) {
+      marketEvents.publish(match.buyOrder.poolId, type, { match: toStreamMatch(match) });
+      orders.set(match.buyOrder.id, match.buyOrder);
+      orders.set(match.sellOrder.id, match.sellOrder);
+    }
+    for (const order of orders.values()) publishOrder(order);
+  } catch (error) {
+    console.error("[MarketEvents] Failed to publish matches:", error);
+  }
+}
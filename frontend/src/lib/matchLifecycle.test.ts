@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createFakePrisma } from "@/test/fakePrisma";
+import { makeOrder, units } from "@/test/orders";
+import { matchOrder } from "@/lib/matchingEngine";
+import { transitionMatch } from "@/lib/matchLifecycle";
+
+vi.mock("@/lib/marketEvents", () => ({
+  publishMatches: vi.fn(),
+  publishOrders: vi.fn(),
+}));
+vi.mock("@/lib/tradeStats", () => ({ recordTradeStats: vi.fn() }));
+vi.mock("@/lib/candles", () => ({ recordTradeCandles: vi.fn() }));
+
+describe("match lifecycle", () => {
+  let prisma: ReturnType<typeof createFakePrisma>;
+
+  beforeEach(() => {
+    prisma = createFakePrisma();
+  });
+
+  it("does not re-match the same pair after a FAILED settlement", async () => {
+    const sell = makeOrder({ side: "SELL" });
+    const buy = makeOrder({ side: "BUY" });
+    prisma.tables.order.push(sell, buy);
+
+    const [first] = await matchOrder(prisma, buy.id);
+    expect(first).toMatchObject({ buyOrderId: buy.id, sellOrderId: sell.id, matchedAmount: units(10) });
+
+    await transitionMatch(prisma, first.matchId, "FAILED", { reason: "reverted" });
+
+    expect(prisma.tables.orderMatch).toHaveLength(1);
+    expect(prisma.tables.orderMatch[0]).toMatchObject({
+      id: first.matchId,
+      status: "FAILED",
+      failureReason: "reverted",
+    });
+
+    const orders = await prisma.order.findMany({ where: { id: { in: [buy.id, sell.id] } } });
+    for (const order of orders) {
+      expect(order).toMatchObject({ status: "OPEN", filledAmount: "0" });
+    }
+  });
+
+  it("re-matches a failed order with another counterparty", async () => {
+    const sell = makeOrder({ side: "SELL" });
+    const otherSell = makeOrder({ side: "SELL" });
+    const buy = makeOrder({ side: "BUY" });
+    prisma.tables.order.push(sell, otherSell, buy);
+
+    const [first] = await matchOrder(prisma, buy.id);
+    expect(first).toMatchObject({ sellOrderId: sell.id });
+
+    await transitionMatch(prisma, first.matchId, "FAILED", { reason: "reverted" });
+
+    expect(prisma.tables.orderMatch[1]).toMatchObject({
+      buyOrderId: buy.id,
+      sellOrderId: otherSell.id,
+      matchedAmount: units(10),
+      status: "PENDING_EXECUTION",
+    });
+    expect(await prisma.order.findUnique({ where: { id: sell.id } })).toMatchObject({
+      status: "OPEN",
+      filledAmount: "0",
+    });
+  });
+
+  it("gives the fill back to both orders when a match is cancelled without re-queue", async () => {
+    const sell = makeOrder({ side: "SELL", amount: units(4) });
+    const buy = makeOrder({ side: "BUY" });
+    prisma.tables.order.push(sell, buy);
+
+    const [fill] = await matchOrder(prisma, buy.id);
+    await transitionMatch(prisma, fill.matchId, "CANCELLED", { requeue: false });
+
+    expect(await prisma.order.findUnique({ where: { id: buy.id } })).toMatchObject({
+      status: "OPEN",
+      filledAmount: "0",
+    });
+    expect(await prisma.order.findUnique({ where: { id: sell.id } })).toMatchObject({
+      status: "OPEN",
+      filledAmount: "0",
+    });
+  });
+
+  it("cancels an IOC order whose fill is released instead of resting it", async () => {
+    const sell = makeOrder({ side: "SELL" });
+    const buy = makeOrder({ side: "BUY", orderType: "MARKET", timeInForce: "IOC" });
+    prisma.tables.order.push(sell, buy);
+
+    const [fill] = await matchOrder(prisma, buy.id);
+    await transitionMatch(prisma, fill.matchId, "FAILED", { reason: "reverted" });
+
+    expect(await prisma.order.findUnique({ where: { id: buy.id } })).toMatchObject({
+      status: "CANCELLED",
+      filledAmount: "0",
+    });
+    expect(await prisma.order.findUnique({ where: { id: sell.id } })).toMatchObject({
+      status: "OPEN",
+      filledAmount: "0",
+    });
+    expect(prisma.tables.orderMatch).toHaveLength(1);
+  });
+
+  it("never uses an IOC or FOK order as a resting maker", async () => {
+    const ioc = makeOrder({ side: "SELL", timeInForce: "IOC" });
+    const fok = makeOrder({ side: "SELL", timeInForce: "FOK" });
+    const buy = makeOrder({ side: "BUY" });
+    prisma.tables.order.push(ioc, fok, buy);
+
+    expect(await matchOrder(prisma, buy.id)).toEqual([]);
+  });
+});
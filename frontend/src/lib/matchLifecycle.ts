@@ -0,0 +1,267 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import { MATCHABLE_ORDER_STATUSES } from "@/lib/orderMatching";
+import { matchOrder, releaseFill, withRetry } from "@/lib/matchingEngine";
+import { recordTradeStats } from "@/lib/tradeStats";
+import { recordTradeCandles } from "@/lib/candles";
+import { publishMatches } from "@/lib/marketEvents";
+
+/**
+ * OrderMatch lifecycle state machine
+ *
+ *   PENDING / PENDING_EXECUTION ─▶ SETTLING ─▶ SETTLED
+ *              │                      │
+ *              ├────────▶ CANCELLED   └────▶ FAILED
+ *              └────────▶ SETTLED / FAILED
+ *
+ * FAILED and CANCELLED give the reserved fill back to both orders and
+ * re-queue the surviving orders for matching. After FAILED the two orders
+ * are not auto-matched with each other again (see matchingEngine). Every
+ * transition is logged to OrderHistory for both orders.
+ */
+
+export type MatchStatus =
+  | "PENDING"
+  | "PENDING_EXECUTION"
+  | "SETTLING"
+  | "SETTLED"
+  | "FAILED"
+  | "CANCELLED";
+
+export const MATCH_TRANSITIONS: Record<MatchStatus, MatchStatus[]> = {
+  PENDING: ["PENDING_EXECUTION", "SETTLING", "SETTLED", "FAILED", "CANCELLED"],
+  PENDING_EXECUTION: ["SETTLING", "SETTLED", "FAILED", "CANCELLED"],
+  SETTLING: ["SETTLED", "FAILED"],
+  SETTLED: [],
+  FAILED: [],
+  CANCELLED: [],
+};
+
+// Match statuses whose fill is still reserved and not yet submitted on-chain
+export const OPEN_MATCH_STATUSES: MatchStatus[] = ["PENDING", "PENDING_EXECUTION"];
+
+// OrderHistory action written for each transition
+const HISTORY_ACTIONS: Record<MatchStatus, string> = {
+  PENDING: "MATCHED",
+  PENDING_EXECUTION: "MATCHED",
+  SETTLING: "SETTLEMENT_SUBMITTED",
+  SETTLED: "SETTLED_ONCHAIN",
+  FAILED: "SETTLEMENT_FAILED",
+  CANCELLED: "MATCH_CANCELLED",
+};
+
+export class MatchTransitionError extends Error {
+  constructor(message: string, public statusCode: number = 409) {
+    super(message);
+    this.name = "MatchTransitionError";
+  }
+}
+
+export function canTransition(from: string, to: MatchStatus): boolean {
+  return (MATCH_TRANSITIONS[from as MatchStatus] ?? []).includes(to);
+}
+
+export interface TransitionOptions {
+  reason?: string;
+  txHash?: string;
+  details?: Record<string, unknown>;
+  // Re-run matching for surviving orders after FAILED/CANCELLED (default true)
+  requeue?: boolean;
+}
+
+type MatchWithOrders = Prisma.OrderMatchGetPayload<{ include: { buyOrder: true; sellOrder: true } }>;
+
+/**
+ * Guarded status change + fill release + history for one match, inside a transaction
+ */
+async function applyTransition(
+  tx: Prisma.TransactionClient,
+  matchId: string,
+  to: MatchStatus,
+  options: TransitionOptions
+): Promise<MatchWithOrders> {
+  const { reason, txHash, details = {} } = options;
+  const releases = to === "FAILED" || to === "CANCELLED";
+
+  const current = await tx.orderMatch.findUnique({
+    where: { id: matchId },
+    include: { buyOrder: true, sellOrder: true },
+  });
+  if (!current) {
+    throw new MatchTransitionError("Match not found", 404);
+  }
+  if (!canTransition(current.status, to)) {
+    throw new MatchTransitionError(`Cannot move match from ${current.status} to ${to}`);
+  }
+
+  const updated = await tx.orderMatch.updateMany({
+    where: { id: matchId, status: current.status },
+    data: {
+      status: to,
+      failureReason: releases ? reason ?? null : null,
+      ...(txHash !== undefined && { txHash }),
+      ...(to === "SETTLED" && { settledAt: new Date() }),
+    },
+  });
+  if (updated.count !== 1) {
+    throw new MatchTransitionError(`Match ${matchId} changed concurrently`);
+  }
+
+  if (releases) {
+    await releaseFill(tx, current);
+  }
+
+  await tx.orderHistory.createMany({
+    data: [current.buyOrderId, current.sellOrderId].map((orderId) => ({
+      orderId,
+      action: HISTORY_ACTIONS[to],
+      amount: current.matchedAmount,
+      details: JSON.stringify({
+        matchId,
+        from: current.status,
+        to,
+        price: current.matchedPrice,
+        ...(reason && { reason }),
+        ...(txHash && { txHash }),
+        ...details,
+      }),
+    })),
+  });
+
+  return current;
+}
+
+/**
+ * Post-commit side effects: trade stats and candles for SETTLED, re-queue for FAILED/CANCELLED
+ */
+async function afterTransition(
+  prisma: PrismaClient,
+  matches: MatchWithOrders[],
+  to: MatchStatus,
+  requeue: boolean
+) {
+  if (to === "SETTLED") {
+    for (const match of matches) {
+      await recordTradeStats(prisma, {
+        ftAddress: match.buyOrder.ftAddress,
+        poolId: match.buyOrder.poolId,
+        matchedAmountWei: match.matchedAmount,
+        matchedPriceWei: match.matchedPrice,
+      });
+      await recordTradeCandles(prisma, {
+        ftAddress: match.buyOrder.ftAddress,
+        poolId: match.buyOrder.poolId,
+        matchedAmountWei: match.matchedAmount,
+        matchedPriceWei: match.matchedPrice,
+        tradedAt: new Date(),
+      });
+    }
+    await publishMatches(prisma, matches.map((m) => m.id), "settlement.confirmed");
+  }
+
+  if (to === "FAILED" || to === "CANCELLED") {
+    await publishMatches(prisma, matches.map((m) => m.id), "match.failed");
+  }
+
+  if ((to === "FAILED" || to === "CANCELLED") && requeue) {
+    const orderIds = new Set(matches.flatMap((m) => [m.buyOrderId, m.sellOrderId]));
+    await requeueOrders(prisma, [...orderIds]);
+  }
+}
+
+/**
+ * Move a match to a new status. The status change, fill release and history
+ * are written in one transaction guarded by the current status, so concurrent
+ * callers cannot apply the same transition twice.
+ */
+export async function transitionMatch(
+  prisma: PrismaClient,
+  matchId: string,
+  to: MatchStatus,
+  options: TransitionOptions = {}
+): Promise<void> {
+  const match = await withRetry(matchId, () =>
+    prisma.$transaction((tx) => applyTransition(tx, matchId, to, options), {
+      isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+    })
+  );
+
+  await afterTransition(prisma, [match], to, options.requeue ?? true);
+}
+
+/**
+ * Move several matches to the same status all-or-nothing (batch settlement).
+ * If any match cannot transition, none of them do.
+ */
+export async function transitionMatches(
+  prisma: PrismaClient,
+  matchIds: string[],
+  to: MatchStatus,
+  options: TransitionOptions = {}
+): Promise<void> {
+  if (matchIds.length === 0) return;
+
+  const matches = await withRetry(`batch of ${matchIds.length}`, () =>
+    prisma.$transaction(
+      async (tx) => {
+        const applied: MatchWithOrders[] = [];
+        for (const matchId of matchIds) {
+          applied.push(await applyTransition(tx, matchId, to, options));
+        }
+        return applied;
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    )
+  );
+
+  await afterTransition(prisma, matches, to, options.requeue ?? true);
+}
+
+/**
+ * Give released orders another chance against the book
+ */
+async function requeueOrders(prisma: PrismaClient, orderIds: string[]) {
+  for (const orderId of orderIds) {
+    const order = await prisma.order.findUnique({ where: { id: orderId } });
+    if (
+      !order ||
+      !MATCHABLE_ORDER_STATUSES.includes(order.status) ||
+      order.expiresAt <= new Date() ||
+      order.timeInForce !== "GTC"
+    ) {
+      continue;
+    }
+    try {
+      await matchOrder(prisma, orderId);
+    } catch (error) {
+      console.error(`[MatchLifecycle] Re-queue of ${orderId} failed:`, error);
+    }
+  }
+}
+
+/**
+ * Cancel every open match of an order (used before the order itself is cancelled)
+ */
+export async function cancelOpenMatches(
+  prisma: PrismaClient,
+  orderId: string,
+  reason: string
+): Promise<string[]> {
+  const matches = await prisma.orderMatch.findMany({
+    where: {
+      status: { in: OPEN_MATCH_STATUSES },
+      OR: [{ buyOrderId: orderId }, { sellOrderId: orderId }],
+    },
+    select: { id: true },
+  });
+
+  const cancelled: string[] = [];
+  for (const match of matches) {
+    try {
+      await transitionMatch(prisma, match.id, "CANCELLED", { reason });
+      cancelled.push(match.id);
+    } catch (error) {
+      if (!(error instanceof MatchTransitionError)) throw error;
+    }
+  }
+  return cancelled;
+}
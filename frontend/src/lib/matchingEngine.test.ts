@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createFakePrisma } from "@/test/fakePrisma";
+import { makeOrder, units } from "@/test/orders";
+import { matchPair, MatchRejectedError } from "@/lib/matchingEngine";
+
+vi.mock("@/lib/marketEvents", () => ({
+  publishMatches: vi.fn(),
+  publishOrders: vi.fn(),
+}));
+
+describe("matchPair", () => {
+  let prisma: ReturnType<typeof createFakePrisma>;
+
+  beforeEach(() => {
+    prisma = createFakePrisma();
+  });
+
+  it("fills the pair at the maker price", async () => {
+    const sell = makeOrder({ side: "SELL", pricePerToken: units(2) });
+    const buy = makeOrder({ side: "BUY", pricePerToken: units(3) });
+    prisma.tables.order.push(sell, buy);
+
+    const fill = await matchPair(prisma, buy.id, sell.id, BigInt(units(4)));
+
+    expect(fill).toMatchObject({ matchedAmount: units(4), matchedPrice: units(2), status: "PENDING_EXECUTION" });
+    expect(await prisma.order.findUnique({ where: { id: buy.id } })).toMatchObject({
+      status: "PARTIALLY_FILLED",
+      filledAmount: units(4),
+    });
+  });
+
+  it("does not over-fill under concurrent calls", async () => {
+    const sell = makeOrder({ side: "SELL" });
+    const buy = makeOrder({ side: "BUY" });
+    prisma.tables.order.push(sell, buy);
+
+    const results = await Promise.allSettled([
+      matchPair(prisma, buy.id, sell.id, BigInt(units(6))),
+      matchPair(prisma, buy.id, sell.id, BigInt(units(6))),
+    ]);
+
+    expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(1);
+    const rejected = results.find((r) => r.status === "rejected") as PromiseRejectedResult;
+    expect(rejected.reason).toBeInstanceOf(MatchRejectedError);
+    expect(prisma.tables.orderMatch).toHaveLength(1);
+    expect(await prisma.order.findUnique({ where: { id: sell.id } })).toMatchObject({ filledAmount: units(6) });
+  });
+
+  it("rejects FILLED and EXPIRED orders", async () => {
+    const filled = makeOrder({ side: "SELL", status: "FILLED", filledAmount: units(10) });
+    const expired = makeOrder({ side: "SELL", status: "EXPIRED" });
+    const buy = makeOrder({ side: "BUY" });
+    prisma.tables.order.push(filled, expired, buy);
+
+    await expect(matchPair(prisma, buy.id, filled.id, BigInt(units(1)))).rejects.toThrow("Sell order is filled");
+    await expect(matchPair(prisma, buy.id, expired.id, BigInt(units(1)))).rejects.toThrow("Sell order is expired");
+    expect(prisma.tables.orderMatch).toHaveLength(0);
+  });
+});
@@ -0,0 +1,498 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import type { Order as OrderRow } from "@prisma/client";
+import { v4 as uuidv4 } from "uuid";
+import {
+  validateOrderMatch,
+  calculateGasFee,
+  findBestMatch,
+  getCrossingLiquidity,
+  getExecutionPrice,
+  getMakerOrder,
+  MATCHABLE_ORDER_STATUSES,
+  RESTING_TIME_IN_FORCE,
+} from "@/lib/orderMatching";
+import { oppositeSide, parseOrderSide } from "@/lib/orders";
+import { publishMatches, publishOrders } from "@/lib/marketEvents";
+
+/**
+ * Atomic matching engine used by /api/orders/auto-match and /api/orders/match.
+ * Every fill (match row + both filledAmount updates + history) is written in one
+ * serializable transaction, and filledAmount is updated with an optimistic check
+ * so a resting order can never be filled past its amount by parallel requests.
+ */
+
+const MAX_ATTEMPTS = 5;
+
+export interface AutoMatchFill {
+  matchId: string;
+  matchedWith: string;
+  matchedAmount: string;
+  matchedPrice: string;
+  buyOrderId: string;
+  sellOrderId: string;
+  buyerAddress: string;
+  sellerAddress: string;
+  ftAddress: string;
+  poolId: string;
+  status: string;
+  requiresOnChainExecution: boolean;
+  gasFeePercentage: number;
+  gasFeeAmount: string;
+}
+
+// Thrown when an explicitly requested buy/sell pair cannot be matched
+export class MatchRejectedError extends Error {
+  constructor(public errors: string[], public statusCode: number = 400) {
+    super(errors.join("; "));
+    this.name = "MatchRejectedError";
+  }
+}
+
+// Thrown to roll back a fill-or-kill order that could not be filled completely
+class FillOrKillError extends Error {
+  constructor(orderId: string) {
+    super(`FOK order ${orderId} cannot be filled completely`);
+    this.name = "FillOrKillError";
+  }
+}
+
+// Thrown inside a transaction when filledAmount changed since it was read
+class FillConflictError extends Error {
+  constructor(orderId: string) {
+    super(`Order ${orderId} was filled concurrently`);
+    this.name = "FillConflictError";
+  }
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof FillConflictError) return true;
+  // P2034: write conflict / deadlock, P1008: SQLite busy timeout
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    (error.code === "P2034" || error.code === "P1008")
+  );
+}
+
+// Per-pool queue so matches in one process run one at a time per book
+const poolQueues = new Map<string, Promise<unknown>>();
+
+async function withPoolLock<T>(poolKey: string, task: () => Promise<T>): Promise<T> {
+  const previous = poolQueues.get(poolKey) ?? Promise.resolve();
+  const run = previous.catch(() => undefined).then(task);
+  poolQueues.set(poolKey, run);
+  try {
+    return await run;
+  } finally {
+    if (poolQueues.get(poolKey) === run) {
+      poolQueues.delete(poolKey);
+    }
+  }
+}
+
+/**
+ * Resting orders on the opposite side of the book, minus excludeIds
+ */
+function loadRestingOrders(
+  tx: Prisma.TransactionClient,
+  order: Pick<OrderRow, "side" | "poolId" | "ftAddress">,
+  excludeIds: string[] = []
+) {
+  return tx.order.findMany({
+    where: {
+      id: { notIn: excludeIds },
+      side: oppositeSide(parseOrderSide(order.side) ?? "BUY"),
+      poolId: order.poolId,
+      ftAddress: order.ftAddress,
+      status: { in: MATCHABLE_ORDER_STATUSES },
+      timeInForce: { in: RESTING_TIME_IN_FORCE },
+      expiresAt: { gt: new Date() },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+/**
+ * Counterparties this order already has a FAILED settlement with. The same
+ * signed pair would most likely revert again, so auto-matching skips it.
+ */
+async function loadFailedCounterparties(tx: Prisma.TransactionClient, orderId: string): Promise<string[]> {
+  const failed = await tx.orderMatch.findMany({
+    where: { status: "FAILED", OR: [{ buyOrderId: orderId }, { sellOrderId: orderId }] },
+    select: { buyOrderId: true, sellOrderId: true },
+  });
+  return failed.map((match) => (match.buyOrderId === orderId ? match.sellOrderId : match.buyOrderId));
+}
+
+/**
+ * Fill one order against the best resting order inside a transaction.
+ * Returns null when the order has nothing left to match.
+ */
+async function fillOnce(tx: Prisma.TransactionClient, orderId: string): Promise<AutoMatchFill | null> {
+  const currentOrder = await tx.order.findUnique({ where: { id: orderId } });
+  if (
+    !currentOrder ||
+    !MATCHABLE_ORDER_STATUSES.includes(currentOrder.status) ||
+    BigInt(currentOrder.filledAmount) >= BigInt(currentOrder.amount) ||
+    new Date() >= currentOrder.expiresAt
+  ) {
+    return null;
+  }
+
+  // Get all compatible orders from opposite side
+  const oppositeOrders = await loadRestingOrders(tx, currentOrder, await loadFailedCounterparties(tx, orderId));
+
+  // Find best match based on price-time priority
+  const bestMatch = findBestMatch(currentOrder, oppositeOrders);
+  if (!bestMatch) {
+    return null;
+  }
+
+  // Calculate maximum amount we can match
+  const currentAvailable = BigInt(currentOrder.amount) - BigInt(currentOrder.filledAmount);
+  const matchAvailable = BigInt(bestMatch.amount) - BigInt(bestMatch.filledAmount);
+  const matchAmount = currentAvailable < matchAvailable ? currentAvailable : matchAvailable;
+
+  const buyOrder = currentOrder.side === "BUY" ? currentOrder : bestMatch;
+  const sellOrder = currentOrder.side === "SELL" ? currentOrder : bestMatch;
+
+  const validation = validateOrderMatch(buyOrder, sellOrder, matchAmount.toString());
+  if (!validation.valid) {
+    return null;
+  }
+
+  // Trade at the maker's (resting order) price
+  return recordFill(tx, buyOrder, sellOrder, matchAmount, getExecutionPrice(bestMatch), bestMatch.id, {
+    autoMatched: true,
+  });
+}
+
+/**
+ * Write one fill: guarded filledAmount updates for both orders, the
+ * PENDING_EXECUTION match row and MATCHED history. Must run inside a transaction.
+ */
+async function recordFill(
+  tx: Prisma.TransactionClient,
+  buyOrder: OrderRow,
+  sellOrder: OrderRow,
+  matchAmount: bigint,
+  settlementPrice: string,
+  matchedWith: string,
+  extraDetails: Record<string, unknown>
+): Promise<AutoMatchFill> {
+  const gasFeePercentage =
+    parseFloat(process.env.NEXT_PUBLIC_DEFAULT_GAS_FEE_PERCENTAGE || "0.001");
+  const gasFee = calculateGasFee(matchAmount.toString(), settlementPrice, gasFeePercentage);
+
+  // Update filled amounts only if nobody else touched them since we read them
+  for (const order of [buyOrder, sellOrder]) {
+    const newFilled = BigInt(order.filledAmount) + matchAmount;
+    const updated = await tx.order.updateMany({
+      where: {
+        id: order.id,
+        filledAmount: order.filledAmount,
+        status: { in: MATCHABLE_ORDER_STATUSES },
+      },
+      data: {
+        filledAmount: newFilled.toString(),
+        status: newFilled >= BigInt(order.amount) ? "FILLED" : "PARTIALLY_FILLED",
+      },
+    });
+    if (updated.count !== 1) {
+      throw new FillConflictError(order.id);
+    }
+  }
+
+  const matchId = uuidv4();
+  await tx.orderMatch.create({
+    data: {
+      id: matchId,
+      buyOrderId: buyOrder.id,
+      sellOrderId: sellOrder.id,
+      matchedAmount: matchAmount.toString(),
+      matchedPrice: settlementPrice,
+      gasFeePercentage,
+      gasFeeAmount: gasFee,
+      status: "PENDING_EXECUTION", // Waiting for on-chain execution
+      settledAt: null, // Will be set when on-chain tx confirmed
+    },
+  });
+
+  const details = JSON.stringify({
+    matchId,
+    price: settlementPrice,
+    gasFee,
+    ...extraDetails,
+    pendingOnChainExecution: true,
+  });
+  await tx.orderHistory.createMany({
+    data: [buyOrder.id, sellOrder.id].map((id) => ({
+      orderId: id,
+      action: "MATCHED",
+      amount: matchAmount.toString(),
+      details,
+    })),
+  });
+
+  return {
+    matchId,
+    matchedWith,
+    matchedAmount: matchAmount.toString(),
+    matchedPrice: settlementPrice,
+    buyOrderId: buyOrder.id,
+    sellOrderId: sellOrder.id,
+    buyerAddress: buyOrder.userAddress,
+    sellerAddress: sellOrder.userAddress,
+    ftAddress: buyOrder.ftAddress,
+    poolId: buyOrder.poolId,
+    status: "PENDING_EXECUTION",
+    requiresOnChainExecution: true,
+    gasFeePercentage,
+    gasFeeAmount: gasFee,
+  };
+}
+
+/**
+ * Single fill in its own serializable transaction
+ */
+function matchStep(prisma: PrismaClient, orderId: string): Promise<AutoMatchFill | null> {
+  return prisma.$transaction((tx) => fillOnce(tx, orderId), {
+    isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+  });
+}
+
+/**
+ * Cancel whatever an IOC/FOK/post-only order could not do immediately
+ */
+async function cancelRemainder(prisma: PrismaClient, orderId: string, reason: string) {
+  const order = await prisma.order.findUnique({ where: { id: orderId } });
+  if (!order) return;
+
+  const cancelled = await prisma.order.updateMany({
+    where: { id: orderId, status: { in: MATCHABLE_ORDER_STATUSES } },
+    data: { status: "CANCELLED" },
+  });
+  if (cancelled.count === 0) return;
+
+  await prisma.orderHistory.create({
+    data: {
+      orderId,
+      action: "CANCELLED",
+      amount: (BigInt(order.amount) - BigInt(order.filledAmount)).toString(),
+      details: JSON.stringify({
+        reason,
+        orderType: order.orderType,
+        timeInForce: order.timeInForce,
+        filledAmount: order.filledAmount,
+      }),
+    },
+  });
+}
+
+/**
+ * Run fn, retrying write conflicts from a fresh read
+ */
+export async function withRetry<T>(orderId: string, fn: () => Promise<T>): Promise<T> {
+  for (let attempts = 1; ; attempts++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (!isRetryable(error) || attempts >= MAX_ATTEMPTS) {
+        throw error;
+      }
+      console.warn(`[Matching] Retrying ${orderId} after conflict:`, (error as Error).message);
+    }
+  }
+}
+
+/**
+ * Match an order against the book according to its time-in-force:
+ * - GTC: fill what crosses, rest the remainder
+ * - IOC (and MARKET): fill what crosses, cancel the remainder
+ * - FOK: fill the whole amount in one transaction or cancel
+ * - POST_ONLY: never take liquidity, cancel if it would cross
+ */
+export async function matchOrder(prisma: PrismaClient, orderId: string): Promise<AutoMatchFill[]> {
+  const order = await prisma.order.findUnique({ where: { id: orderId } });
+  if (!order) {
+    return [];
+  }
+
+  const result = await withPoolLock(`${order.ftAddress.toLowerCase()}:${order.poolId}`, async () => {
+    if (order.timeInForce === "POST_ONLY") {
+      if (await wouldCrossBook(prisma, order)) {
+        await cancelRemainder(prisma, orderId, "Post-only order would cross the book");
+      }
+      return [];
+    }
+
+    if (order.timeInForce === "FOK") {
+      // Cheap pre-check before taking the write transaction
+      const remaining = BigInt(order.amount) - BigInt(order.filledAmount);
+      const resting = await loadRestingOrders(prisma, order, await loadFailedCounterparties(prisma, orderId));
+      const liquidity = getCrossingLiquidity(order, resting);
+      if (liquidity < remaining) {
+        await cancelRemainder(prisma, orderId, "Fill-or-kill order could not be filled completely");
+        return [];
+      }
+
+      try {
+        return await withRetry(orderId, () =>
+          prisma.$transaction(
+            async (tx) => {
+              const fills: AutoMatchFill[] = [];
+              let fill: AutoMatchFill | null;
+              while ((fill = await fillOnce(tx, orderId))) {
+                fills.push(fill);
+              }
+              const current = await tx.order.findUnique({ where: { id: orderId } });
+              if (!current || BigInt(current.filledAmount) < BigInt(current.amount)) {
+                throw new FillOrKillError(orderId);
+              }
+              return fills;
+            },
+            { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+          )
+        );
+      } catch (error) {
+        if (!(error instanceof FillOrKillError)) throw error;
+        await cancelRemainder(prisma, orderId, "Fill-or-kill order could not be filled completely");
+        return [];
+      }
+    }
+
+    const fills: AutoMatchFill[] = [];
+    let fill: AutoMatchFill | null;
+    while ((fill = await withRetry(orderId, () => matchStep(prisma, orderId)))) {
+      fills.push(fill);
+    }
+
+    if (order.timeInForce === "IOC") {
+      await cancelRemainder(prisma, orderId, "Immediate-or-cancel remainder");
+    }
+
+    return fills;
+  });
+
+  // A GTC order without fills is unchanged; anything else moved the book
+  if (result.length > 0) {
+    await publishMatches(prisma, result.map((fill) => fill.matchId), "match.created");
+  } else if (order.timeInForce !== "GTC") {
+    await publishOrders(prisma, [orderId]);
+  }
+  return result;
+}
+
+/**
+ * Match an explicit buy/sell pair for matchAmount (manual /api/orders/match).
+ * Runs through the same pool queue, guarded fill and retry as auto-match, and
+ * trades at the maker's (older order) price.
+ */
+export async function matchPair(
+  prisma: PrismaClient,
+  buyOrderId: string,
+  sellOrderId: string,
+  matchAmount: bigint
+): Promise<AutoMatchFill> {
+  const buyOrder = await prisma.order.findUnique({ where: { id: buyOrderId } });
+  if (!buyOrder) {
+    throw new MatchRejectedError(["Order not found"], 404);
+  }
+
+  const fill = await withPoolLock(`${buyOrder.ftAddress.toLowerCase()}:${buyOrder.poolId}`, () =>
+    withRetry(buyOrderId, () =>
+      prisma.$transaction(
+        async (tx) => {
+          const [buy, sell] = await Promise.all([
+            tx.order.findUnique({ where: { id: buyOrderId } }),
+            tx.order.findUnique({ where: { id: sellOrderId } }),
+          ]);
+          if (!buy || !sell) {
+            throw new MatchRejectedError(["Order not found"], 404);
+          }
+
+          const validation = validateOrderMatch(buy, sell, matchAmount.toString());
+          if (!validation.valid) {
+            throw new MatchRejectedError(validation.errors);
+          }
+
+          const maker = getMakerOrder(buy, sell);
+          const taker = maker === buy ? sell : buy;
+          return recordFill(tx, buy, sell, matchAmount, getExecutionPrice(maker), taker.id, {
+            manual: true,
+          });
+        },
+        { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+      )
+    )
+  );
+
+  await publishMatches(prisma, [fill.matchId], "match.created");
+  return fill;
+}
+
+/**
+ * Give a match's reserved amount back to both orders (inverse of a fill).
+ * Live orders go back to OPEN/PARTIALLY_FILLED, expired ones end up EXPIRED,
+ * cancelled ones stay CANCELLED. IOC/FOK orders (and so MARKET orders) never
+ * rest, so the released amount is cancelled instead of returning to the book.
+ * Must run inside the caller's transaction.
+ */
+export async function releaseFill(
+  tx: Prisma.TransactionClient,
+  match: { matchedAmount: string; buyOrder: OrderRow; sellOrder: OrderRow }
+): Promise<void> {
+  const now = new Date();
+  const released = BigInt(match.matchedAmount);
+
+  for (const order of [match.buyOrder, match.sellOrder]) {
+    const filled = BigInt(order.filledAmount);
+    const newFilled = filled > released ? filled - released : BigInt(0);
+
+    const resting = RESTING_TIME_IN_FORCE.includes(order.timeInForce);
+    let newStatus = order.status;
+    if (order.status !== "CANCELLED") {
+      if (order.expiresAt <= now) {
+        newStatus = "EXPIRED";
+      } else if (!resting) {
+        newStatus = "CANCELLED";
+      } else {
+        newStatus = newFilled === BigInt(0) ? "OPEN" : "PARTIALLY_FILLED";
+      }
+    }
+
+    const updated = await tx.order.updateMany({
+      where: { id: order.id, filledAmount: order.filledAmount },
+      data: { filledAmount: newFilled.toString(), status: newStatus },
+    });
+    if (updated.count !== 1) {
+      throw new FillConflictError(order.id);
+    }
+
+    if (newStatus === "CANCELLED" && order.status !== "CANCELLED") {
+      await tx.orderHistory.create({
+        data: {
+          orderId: order.id,
+          action: "CANCELLED",
+          amount: (BigInt(order.amount) - newFilled).toString(),
+          details: JSON.stringify({
+            reason: "Released fill of a non-resting order",
+            orderType: order.orderType,
+            timeInForce: order.timeInForce,
+            filledAmount: newFilled.toString(),
+          }),
+        },
+      });
+    }
+  }
+}
+
+/**
+ * Check whether an incoming order would take liquidity (used for post-only)
+ */
+export async function wouldCrossBook(
+  prisma: PrismaClient,
+  incoming: Pick<OrderRow, "side" | "poolId" | "ftAddress" | "userAddress" | "pricePerToken">
+): Promise<boolean> {
+  const resting = await loadRestingOrders(prisma, incoming);
+  return findBestMatch({ ...incoming, amount: "0", filledAmount: "0" }, resting) !== null;
+}
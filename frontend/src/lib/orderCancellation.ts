@@ -0,0 +1,274 @@
+import { PrismaClient } from "@prisma/client";
+import { Abi, Address, Hex, isAddress, verifyTypedData } from "viem";
+import OrderBookABI from "@/lib/contracts/OrderBook.json";
+import { getContractAddress } from "@/lib/contracts/addresses";
+import { getPublicClient, getWalletClient } from "@/lib/viem";
+import { CANCEL_ALL_TYPES, CANCEL_POOL_TYPES, getOrderDomain } from "@/lib/orders";
+import { MATCHABLE_ORDER_STATUSES } from "@/lib/orderMatching";
+import { cancelOpenMatches } from "@/lib/matchLifecycle";
+import { publishOrders } from "@/lib/marketEvents";
+import { decodeRevertReason, getRelayerAccount } from "@/lib/settlement";
+
+/**
+ * Signed cancel-all: "every order below nonce N" or "every order in pool X below nonce N".
+ * The DB side cancels the live orders and stores a nonce floor so the same nonces
+ * cannot be placed again. The on-chain side (OrderBook.userNonces / poolNonces) stops
+ * already-shared signatures from settling; it is relayed with the same signature
+ * when requested, or sent by the wallet itself (see `transaction`).
+ * Both messages are idempotent, so replaying a signature cannot cancel newer orders.
+ */
+
+export class OrderCancellationError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = "OrderCancellationError";
+  }
+}
+
+export interface CancelAllRequest {
+  chainId: number;
+  userAddress: Address;
+  minNonce: number;
+  poolId?: string; // only orders of this pool
+  signature: Hex;
+  submitOnChain?: boolean; // relay the invalidation with SETTLEMENT_RELAYER_PRIVATE_KEY
+}
+
+export interface CancelAllResult {
+  userAddress: string;
+  chainId: number;
+  poolId: string | null;
+  minNonce: number;
+  cancelledOrders: string[];
+  // Matches already submitted on-chain: only the on-chain floor can still stop them
+  settlingMatches: string[];
+  onChain: {
+    submitted: boolean;
+    txHash?: Hex;
+    skipped?: string;
+    error?: string;
+    // Same invalidation for the wallet to send itself
+    transaction: {
+      chainId: number;
+      address: Address;
+      functionName: "invalidateNonces" | "invalidatePoolNonces";
+      args: string[];
+    } | null;
+  };
+}
+
+/**
+ * Lowest nonce a wallet may still use in a pool (0 without any cancel-all);
+ * without poolId, the highest floor over all pools
+ */
+export async function getNonceFloor(
+  prisma: PrismaClient,
+  params: { userAddress: string; chainId: number; poolId?: string }
+): Promise<number> {
+  const floor = await prisma.orderNonceFloor.aggregate({
+    where: {
+      userAddress: params.userAddress.toLowerCase(),
+      chainId: params.chainId,
+      ...(params.poolId !== undefined && { poolId: { in: ["", params.poolId] } }),
+    },
+    _max: { minNonce: true },
+  });
+  return floor._max.minNonce ?? 0;
+}
+
+async function verifyCancelSignature(request: CancelAllRequest): Promise<boolean> {
+  const domain = getOrderDomain(request.chainId);
+  try {
+    if (request.poolId !== undefined) {
+      return await verifyTypedData({
+        address: request.userAddress,
+        domain,
+        types: CANCEL_POOL_TYPES,
+        primaryType: "CancelPoolOrders",
+        message: {
+          userAddress: request.userAddress,
+          poolId: BigInt(request.poolId),
+          minNonce: BigInt(request.minNonce),
+        },
+        signature: request.signature,
+      });
+    }
+    return await verifyTypedData({
+      address: request.userAddress,
+      domain,
+      types: CANCEL_ALL_TYPES,
+      primaryType: "CancelAllBelowNonce",
+      message: { userAddress: request.userAddress, minNonce: BigInt(request.minNonce) },
+      signature: request.signature,
+    });
+  } catch (err) {
+    console.error("[OrderCancellation] Signature verification failed:", err);
+    return false;
+  }
+}
+
+/**
+ * Relay the invalidation through the settlement relayer, unless the chain already has it
+ */
+async function submitInvalidation(
+  request: CancelAllRequest,
+  orderBookAddress: Address
+): Promise<Omit<CancelAllResult["onChain"], "transaction">> {
+  const { chainId, userAddress, poolId, minNonce, signature } = request;
+  try {
+    const account = getRelayerAccount();
+    const publicClient = getPublicClient(chainId);
+
+    const current = (await publicClient.readContract({
+      address: orderBookAddress,
+      abi: OrderBookABI as Abi,
+      functionName: poolId !== undefined ? "poolNonces" : "userNonces",
+      args: poolId !== undefined ? [userAddress, BigInt(poolId)] : [userAddress],
+    })) as bigint;
+    if (current >= BigInt(minNonce)) {
+      return { submitted: false, skipped: `Already invalidated on-chain up to nonce ${current}` };
+    }
+
+    // Simulate first so reverts come back with a decoded reason
+    const { request: tx } = await publicClient.simulateContract({
+      account,
+      address: orderBookAddress,
+      abi: OrderBookABI as Abi,
+      functionName: poolId !== undefined ? "invalidatePoolNoncesBySig" : "invalidateNoncesBySig",
+      args:
+        poolId !== undefined
+          ? [userAddress, BigInt(poolId), BigInt(minNonce), signature]
+          : [userAddress, BigInt(minNonce), signature],
+    });
+    const txHash = await getWalletClient(chainId, account).writeContract(tx);
+    const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+    if (receipt.status === "reverted") {
+      return { submitted: false, txHash, error: "Transaction reverted on-chain" };
+    }
+    return { submitted: true, txHash };
+  } catch (error) {
+    console.error("[OrderCancellation] On-chain invalidation failed:", error);
+    return { submitted: false, error: decodeRevertReason(error) };
+  }
+}
+
+/**
+ * Verify a signed cancel-all, cancel every live order below the nonce and record the floor
+ */
+export async function cancelOrdersBelowNonce(
+  prisma: PrismaClient,
+  request: CancelAllRequest
+): Promise<CancelAllResult> {
+  const { chainId, minNonce, poolId } = request;
+
+  if (!isAddress(request.userAddress)) {
+    throw new OrderCancellationError("Invalid userAddress");
+  }
+  // Order.nonce is an Int column
+  if (!Number.isSafeInteger(minNonce) || minNonce < 1 || minNonce > 2 ** 31 - 1) {
+    throw new OrderCancellationError("minNonce must be a positive 32-bit integer");
+  }
+  if (poolId !== undefined && !/^\d+$/.test(poolId)) {
+    throw new OrderCancellationError("Invalid poolId");
+  }
+  if (!(await verifyCancelSignature(request))) {
+    throw new OrderCancellationError("Invalid cancel signature", 401);
+  }
+
+  const userAddress = request.userAddress.toLowerCase();
+  const floorKey = { userAddress_chainId_poolId: { userAddress, chainId, poolId: poolId ?? "" } };
+
+  // Floors only move up (a replayed, older signature changes nothing)
+  const existing = await prisma.orderNonceFloor.findUnique({ where: floorKey });
+  if (!existing || existing.minNonce < minNonce) {
+    await prisma.orderNonceFloor.upsert({
+      where: floorKey,
+      create: { userAddress, chainId, poolId: poolId ?? "", minNonce, signature: request.signature },
+      update: { minNonce, signature: request.signature, txHash: null },
+    });
+  }
+
+  const orders = await prisma.order.findMany({
+    where: {
+      userAddress,
+      chainId,
+      nonce: { lt: minNonce },
+      status: { in: MATCHABLE_ORDER_STATUSES },
+      ...(poolId !== undefined && { poolId }),
+    },
+  });
+
+  const cancelledOrders: string[] = [];
+  for (const order of orders) {
+    const updated = await prisma.order.updateMany({
+      where: { id: order.id, status: { in: MATCHABLE_ORDER_STATUSES } },
+      data: { status: "CANCELLED" },
+    });
+    if (updated.count === 0) continue;
+
+    await prisma.orderHistory.create({
+      data: {
+        orderId: order.id,
+        action: "CANCELLED",
+        amount: (BigInt(order.amount) - BigInt(order.filledAmount)).toString(),
+        details: JSON.stringify({
+          reason: poolId !== undefined ? `Cancel all in pool ${poolId}` : "Cancel all",
+          nonce: order.nonce,
+          minNonce,
+          filledAmount: order.filledAmount,
+        }),
+      },
+    });
+    await cancelOpenMatches(prisma, order.id, "Counter-order cancelled (nonce invalidated)");
+    cancelledOrders.push(order.id);
+  }
+  await publishOrders(prisma, cancelledOrders);
+
+  const settling = await prisma.orderMatch.findMany({
+    where: {
+      status: "SETTLING",
+      OR: [
+        { buyOrder: { userAddress, chainId, nonce: { lt: minNonce }, ...(poolId !== undefined && { poolId }) } },
+        { sellOrder: { userAddress, chainId, nonce: { lt: minNonce }, ...(poolId !== undefined && { poolId }) } },
+      ],
+    },
+    select: { id: true },
+  });
+
+  const orderBookAddress = getContractAddress(chainId, "OrderBook");
+  const transaction = orderBookAddress
+    ? {
+        chainId,
+        address: orderBookAddress,
+        functionName: poolId !== undefined ? ("invalidatePoolNonces" as const) : ("invalidateNonces" as const),
+        args: poolId !== undefined ? [poolId, minNonce.toString()] : [minNonce.toString()],
+      }
+    : null;
+
+  let onChain: Omit<CancelAllResult["onChain"], "transaction"> = { submitted: false };
+  if (request.submitOnChain) {
+    onChain = orderBookAddress
+      ? await submitInvalidation(request, orderBookAddress)
+      : { submitted: false, error: `OrderBook not deployed on chain ${chainId}` };
+    if (onChain.submitted && onChain.txHash) {
+      await prisma.orderNonceFloor.updateMany({
+        where: { ...floorKey.userAddress_chainId_poolId, minNonce },
+        data: { txHash: onChain.txHash },
+      });
+    }
+  }
+
+  if (cancelledOrders.length > 0) {
+    console.log(`[OrderCancellation] Cancelled ${cancelledOrders.length} order(s) of ${userAddress} below nonce ${minNonce}`);
+  }
+
+  return {
+    userAddress,
+    chainId,
+    poolId: poolId ?? null,
+    minNonce,
+    cancelledOrders,
+    settlingMatches: settling.map((m) => m.id),
+    onChain: { ...onChain, transaction },
+  };
+}
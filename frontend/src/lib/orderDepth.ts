@@ -0,0 +1,110 @@
+import { PrismaClient } from "@prisma/client";
+import { MATCHABLE_ORDER_STATUSES } from "@/lib/orderMatching";
+
+/**
+ * L2 order book depth: live LIMIT orders aggregated by price level.
+ * Bids round down and asks round up to the tick, so levels never cross
+ * because of bucketing. Prices/quantities are wei strings like the Order table.
+ */
+
+export const DEFAULT_DEPTH_LEVELS = 20;
+export const MAX_DEPTH_LEVELS = 200;
+
+export interface DepthLevel {
+  price: string; // wei per whole FT
+  quantity: string; // remaining FT (wei)
+  total: string; // quantity * price, wei of IP
+  cumulative: string; // FT (wei) from best price up to this level
+  orders: number;
+}
+
+export interface OrderDepth {
+  poolId: string;
+  tick: string;
+  bids: DepthLevel[];
+  asks: DepthLevel[];
+  bestBid: string | null;
+  bestAsk: string | null;
+  spread: string | null;
+  midPrice: string | null;
+}
+
+type DepthOrder = { side: string; pricePerToken: string; amount: string; filledAmount: string };
+
+function toLevel(price: bigint, tick: bigint, side: "BUY" | "SELL"): bigint {
+  const floor = (price / tick) * tick;
+  return side === "SELL" && floor < price ? floor + tick : floor;
+}
+
+function buildSide(orders: DepthOrder[], side: "BUY" | "SELL", tick: bigint, levels: number): DepthLevel[] {
+  const byPrice = new Map<bigint, { quantity: bigint; orders: number }>();
+  for (const order of orders) {
+    if (order.side !== side) continue;
+    const remaining = BigInt(order.amount) - BigInt(order.filledAmount);
+    if (remaining <= BigInt(0)) continue;
+    const price = toLevel(BigInt(order.pricePerToken), tick, side);
+    const level = byPrice.get(price) ?? { quantity: BigInt(0), orders: 0 };
+    byPrice.set(price, { quantity: level.quantity + remaining, orders: level.orders + 1 });
+  }
+
+  // Best price first: highest bid, lowest ask
+  const sorted = [...byPrice.entries()].sort(([a], [b]) =>
+    side === "BUY" ? (b > a ? 1 : b < a ? -1 : 0) : a > b ? 1 : a < b ? -1 : 0
+  );
+
+  let cumulative = BigInt(0);
+  return sorted.slice(0, levels).map(([price, level]) => {
+    cumulative += level.quantity;
+    return {
+      price: price.toString(),
+      quantity: level.quantity.toString(),
+      total: ((level.quantity * price) / BigInt(1e18)).toString(),
+      cumulative: cumulative.toString(),
+      orders: level.orders,
+    };
+  });
+}
+
+/**
+ * Aggregate orders into bid/ask levels with spread and mid-price
+ */
+export function aggregateDepth(
+  orders: DepthOrder[],
+  params: { poolId: string; tick: bigint; levels: number }
+): OrderDepth {
+  const { poolId, tick, levels } = params;
+  const bids = buildSide(orders, "BUY", tick, levels);
+  const asks = buildSide(orders, "SELL", tick, levels);
+  const bestBid = bids[0] ? BigInt(bids[0].price) : null;
+  const bestAsk = asks[0] ? BigInt(asks[0].price) : null;
+
+  return {
+    poolId,
+    tick: tick.toString(),
+    bids,
+    asks,
+    bestBid: bestBid?.toString() ?? null,
+    bestAsk: bestAsk?.toString() ?? null,
+    spread: bestBid !== null && bestAsk !== null ? (bestAsk - bestBid).toString() : null,
+    midPrice: bestBid !== null && bestAsk !== null ? ((bestBid + bestAsk) / BigInt(2)).toString() : null,
+  };
+}
+
+/**
+ * Depth of a pool's live LIMIT orders (MARKET orders never rest on the book)
+ */
+export async function getOrderDepth(
+  prisma: PrismaClient,
+  params: { poolId: string; tick: bigint; levels: number }
+): Promise<OrderDepth> {
+  const orders = await prisma.order.findMany({
+    where: {
+      poolId: params.poolId,
+      orderType: "LIMIT",
+      status: { in: MATCHABLE_ORDER_STATUSES },
+      expiresAt: { gt: new Date() },
+    },
+    select: { side: true, pricePerToken: true, amount: true, filledAmount: true },
+  });
+  return aggregateDepth(orders, params);
+}
@@ -0,0 +1,93 @@
+import { PrismaClient } from "@prisma/client";
+import { MATCHABLE_ORDER_STATUSES } from "@/lib/orderMatching";
+import { MatchTransitionError, OPEN_MATCH_STATUSES, transitionMatch } from "@/lib/matchLifecycle";
+import { publishOrders } from "@/lib/marketEvents";
+
+/**
+ * Expiry sweeper - transitions stale orders to EXPIRED and voids pending
+ * matches that can no longer settle (OrderBook.executeTrade rejects expired orders).
+ */
+
+const SWEEP_BATCH_SIZE = 500;
+
+export interface ExpirySweepResult {
+  expiredOrders: string[];
+  cancelledMatches: string[];
+}
+
+/**
+ * Run one sweep. Safe to call concurrently: every transition is guarded
+ * by the status it expects, so each order/match is only handled once.
+ */
+export async function sweepExpiredOrders(
+  prisma: PrismaClient,
+  now: Date = new Date()
+): Promise<ExpirySweepResult> {
+  // 1. Void pending matches where either signed order has expired
+  const deadMatches = await prisma.orderMatch.findMany({
+    where: {
+      status: { in: OPEN_MATCH_STATUSES },
+      OR: [
+        { buyOrder: { expiresAt: { lte: now } } },
+        { sellOrder: { expiresAt: { lte: now } } },
+      ],
+    },
+    select: { id: true },
+    take: SWEEP_BATCH_SIZE,
+  });
+
+  const cancelledMatches: string[] = [];
+  for (const match of deadMatches) {
+    try {
+      await transitionMatch(prisma, match.id, "CANCELLED", {
+        reason: "Order expired before settlement",
+      });
+      cancelledMatches.push(match.id);
+    } catch (error) {
+      // Already moved on by a concurrent sweep or settlement
+      if (!(error instanceof MatchTransitionError)) throw error;
+    }
+  }
+
+  // 2. Expire the remaining live orders
+  const staleOrders = await prisma.order.findMany({
+    where: {
+      expiresAt: { lte: now },
+      status: { in: MATCHABLE_ORDER_STATUSES },
+    },
+    select: { id: true, amount: true, filledAmount: true, expiresAt: true },
+    take: SWEEP_BATCH_SIZE,
+  });
+
+  const expiredOrders: string[] = [];
+  for (const order of staleOrders) {
+    const updated = await prisma.order.updateMany({
+      where: { id: order.id, status: { in: MATCHABLE_ORDER_STATUSES } },
+      data: { status: "EXPIRED" },
+    });
+    if (updated.count === 0) continue;
+
+    await prisma.orderHistory.create({
+      data: {
+        orderId: order.id,
+        action: "EXPIRED",
+        amount: (BigInt(order.amount) - BigInt(order.filledAmount)).toString(),
+        details: JSON.stringify({
+          expiresAt: order.expiresAt.toISOString(),
+          filledAmount: order.filledAmount,
+        }),
+      },
+    });
+    expiredOrders.push(order.id);
+  }
+
+  await publishOrders(prisma, expiredOrders);
+
+  if (expiredOrders.length > 0 || cancelledMatches.length > 0) {
+    console.log(
+      `[Expiry] Expired ${expiredOrders.length} order(s), cancelled ${cancelledMatches.length} match(es)`
+    );
+  }
+
+  return { expiredOrders, cancelledMatches };
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { makeOrder, units } from "@/test/orders";
+import {
+  applySlippageCap,
+  comparePriceTimePriority,
+  findBestMatch,
+  getCrossingLiquidity,
+} from "@/lib/orderMatching";
+
+const at = (minute: number) => new Date(Date.UTC(2026, 0, 1, 0, minute));
+
+const incoming = (side: string, price: number, userAddress = "0xtaker") => ({
+  side,
+  userAddress,
+  pricePerToken: units(price),
+  amount: units(10),
+  filledAmount: "0",
+});
+
+describe("comparePriceTimePriority", () => {
+  it("sorts asks by lowest price, then by age", () => {
+    const asks = [
+      makeOrder({ side: "SELL", pricePerToken: units(3), createdAt: at(1) }),
+      makeOrder({ side: "SELL", pricePerToken: units(2), createdAt: at(3) }),
+      makeOrder({ side: "SELL", pricePerToken: units(2), createdAt: at(2) }),
+    ];
+    const sorted = [...asks].sort(comparePriceTimePriority("SELL"));
+    expect(sorted.map((o) => o.id)).toEqual([asks[2].id, asks[1].id, asks[0].id]);
+  });
+
+  it("sorts bids by highest price, then by age", () => {
+    const bids = [
+      makeOrder({ side: "BUY", pricePerToken: units(2), createdAt: at(1) }),
+      makeOrder({ side: "BUY", pricePerToken: units(3), createdAt: at(3) }),
+      makeOrder({ side: "BUY", pricePerToken: units(3), createdAt: at(2) }),
+    ];
+    const sorted = [...bids].sort(comparePriceTimePriority("BUY"));
+    expect(sorted.map((o) => o.id)).toEqual([bids[2].id, bids[1].id, bids[0].id]);
+  });
+});
+
+describe("findBestMatch", () => {
+  it("takes the lowest ask for a BUY and the highest bid for a SELL", () => {
+    const asks = [
+      makeOrder({ side: "SELL", pricePerToken: units(4) }),
+      makeOrder({ side: "SELL", pricePerToken: units(3) }),
+    ];
+    const bids = [
+      makeOrder({ side: "BUY", pricePerToken: units(1) }),
+      makeOrder({ side: "BUY", pricePerToken: units(2) }),
+    ];
+    expect(findBestMatch(incoming("BUY", 5), asks)?.id).toBe(asks[1].id);
+    expect(findBestMatch(incoming("SELL", 1), bids)?.id).toBe(bids[1].id);
+  });
+
+  it("breaks a price tie by age", () => {
+    const newer = makeOrder({ side: "SELL", pricePerToken: units(2), createdAt: at(5) });
+    const older = makeOrder({ side: "SELL", pricePerToken: units(2), createdAt: at(4) });
+    expect(findBestMatch(incoming("BUY", 2), [newer, older])?.id).toBe(older.id);
+  });
+
+  it("returns null when the book does not cross", () => {
+    const asks = [makeOrder({ side: "SELL", pricePerToken: units(3) })];
+    const bids = [makeOrder({ side: "BUY", pricePerToken: units(3) })];
+    expect(findBestMatch(incoming("BUY", 2), asks)).toBeNull();
+    expect(findBestMatch(incoming("SELL", 4), bids)).toBeNull();
+  });
+
+  it("skips exhausted, inactive, expired and self-trade orders", () => {
+    const resting = [
+      makeOrder({ side: "SELL", filledAmount: units(10), status: "PARTIALLY_FILLED" }),
+      makeOrder({ side: "SELL", status: "CANCELLED" }),
+      makeOrder({ side: "SELL", expiresAt: new Date(Date.now() - 1000) }),
+      makeOrder({ side: "SELL", userAddress: "0xTAKER" }),
+    ];
+    expect(findBestMatch(incoming("BUY", 5), resting)).toBeNull();
+
+    const live = makeOrder({ side: "SELL", pricePerToken: units(5) });
+    expect(findBestMatch(incoming("BUY", 5), [...resting, live])?.id).toBe(live.id);
+  });
+});
+
+describe("getCrossingLiquidity", () => {
+  it("sums the remaining amount of crossing orders only (partial cross)", () => {
+    const resting = [
+      makeOrder({ side: "SELL", pricePerToken: units(1), amount: units(4), filledAmount: units(1) }),
+      makeOrder({ side: "SELL", pricePerToken: units(2), amount: units(5) }),
+      makeOrder({ side: "SELL", pricePerToken: units(3), amount: units(7) }),
+    ];
+    expect(getCrossingLiquidity(incoming("BUY", 2), resting)).toBe(BigInt(units(8)));
+  });
+
+  it("is zero when nothing crosses", () => {
+    const resting = [makeOrder({ side: "BUY", pricePerToken: units(1) })];
+    expect(getCrossingLiquidity(incoming("SELL", 2), resting)).toBe(BigInt(0));
+  });
+});
+
+describe("applySlippageCap", () => {
+  const best = BigInt(units(2));
+
+  it("raises the cap for a BUY and lowers it for a SELL", () => {
+    expect(applySlippageCap(best, "BUY", 100)).toBe(BigInt(units(202)) / BigInt(100));
+    expect(applySlippageCap(best, "SELL", 100)).toBe(BigInt(units(198)) / BigInt(100));
+  });
+
+  it("clamps slippage to 0-100% and ignores invalid input", () => {
+    expect(applySlippageCap(best, "BUY", -50)).toBe(best);
+    expect(applySlippageCap(best, "SELL", 20000)).toBe(BigInt(0));
+    expect(applySlippageCap(best, "BUY", Number.NaN)).toBe(best);
+  });
+});
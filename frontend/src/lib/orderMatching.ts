@@ -105,12 +105,12 @@ export function validateOrderMatch(
     errors.push("Sell order is expired");
   }
 
-  // Check orders are open
-  if (buyOrder.status === "CANCELLED") {
-    errors.push("Buy order is cancelled");
+  // Check orders are still live (not FILLED, CANCELLED or EXPIRED)
+  if (!MATCHABLE_ORDER_STATUSES.includes(buyOrder.status)) {
+    errors.push(`Buy order is ${buyOrder.status.toLowerCase()}`);
   }
-  if (sellOrder.status === "CANCELLED") {
-    errors.push("Sell order is cancelled");
+  if (!MATCHABLE_ORDER_STATUSES.includes(sellOrder.status)) {
+    errors.push(`Sell order is ${sellOrder.status.toLowerCase()}`);
   }
 
   // Check price compatibility
@@ -128,6 +128,9 @@ export function validateOrderMatch(
     BigInt(sellOrder.amount) - BigInt(sellOrder.filledAmount);
   const toMatch = BigInt(matchAmount);
 
+  if (toMatch <= BigInt(0)) {
+    errors.push("Match amount must be greater than 0");
+  }
   if (toMatch > buyAvailable) {
     errors.push(
       `Match amount exceeds buy order available amount: ${toMatch} > ${buyAvailable}`
@@ -176,55 +179,139 @@ export function calculateSettlementPrice(
   }
 }
 
+// Resting order statuses that can still be matched
+export const MATCHABLE_ORDER_STATUSES = ["OPEN", "PARTIALLY_FILLED"];
+
+// Time-in-force values that may rest on the book as makers (IOC/FOK never rest)
+export const RESTING_TIME_IN_FORCE = ["GTC", "POST_ONLY"];
+
+export interface BookOrder {
+  id: string;
+  userAddress: string;
+  side: string;
+  poolId: string;
+  ftAddress: string;
+  pricePerToken: string;
+  amount: string;
+  filledAmount: string;
+  status: string;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
 /**
- * Get next available orders to match (simple FIFO matching)
- * Dalam real implementation, bisa lebih sophisticated (best price, time priority, dll)
+ * Check apakah incoming order crosses resting order price
+ * BUY crosses when bid >= ask, SELL crosses when ask <= bid
  */
-export function findBestMatch(
-  buyOrder: {
-    pricePerToken: string;
-    amount: string;
-    filledAmount: string;
-  },
-  sellOrders: Array<{
-    id: string;
-    userAddress: string;
+export function pricesCross(
+  incoming: { side: string; pricePerToken: string },
+  resting: { pricePerToken: string }
+): boolean {
+  const incomingPrice = BigInt(incoming.pricePerToken);
+  const restingPrice = BigInt(resting.pricePerToken);
+  return incoming.side === "BUY" ? restingPrice <= incomingPrice : restingPrice >= incomingPrice;
+}
+
+/**
+ * Price-time priority comparator untuk resting orders di satu sisi book
+ * Asks: lowest price first. Bids: highest price first. Ties: oldest first.
+ */
+export function comparePriceTimePriority(restingSide: string) {
+  return (a: BookOrder, b: BookOrder): number => {
+    const priceA = BigInt(a.pricePerToken);
+    const priceB = BigInt(b.pricePerToken);
+    if (priceA !== priceB) {
+      const ascending = priceA < priceB ? -1 : 1;
+      return restingSide === "BUY" ? -ascending : ascending;
+    }
+    return a.createdAt.getTime() - b.createdAt.getTime();
+  };
+}
+
+/**
+ * Maker = order yang lebih dulu masuk book
+ */
+export function getMakerOrder<T extends { createdAt: Date }>(buyOrder: T, sellOrder: T): T {
+  return buyOrder.createdAt.getTime() <= sellOrder.createdAt.getTime() ? buyOrder : sellOrder;
+}
+
+/**
+ * Execution price = maker (resting) order price
+ */
+export function getExecutionPrice(resting: { pricePerToken: string }): string {
+  return BigInt(resting.pricePerToken).toString();
+}
+
+/**
+ * Get best resting order untuk incoming order (price-time priority)
+ * Works for both sides: BUY takes the lowest ask, SELL hits the highest bid.
+ * Skips exhausted, cancelled/filled, expired and self-trade orders.
+ */
+export function findBestMatch<T extends BookOrder>(
+  incoming: {
     side: string;
-    poolId: string;
-    ftAddress: string;
+    userAddress: string;
     pricePerToken: string;
     amount: string;
     filledAmount: string;
-    status: string;
-    expiresAt: Date;
-    createdAt: Date;
-  }>
-): (typeof sellOrders)[0] | null {
-  // Filter: seller price <= buyer price, dan ada stock available
-  const validSellers = sellOrders.filter((order) => {
-    const sellPrice = BigInt(order.pricePerToken);
-    const buyPrice = BigInt(buyOrder.pricePerToken);
-    const available =
-      BigInt(order.amount) - BigInt(order.filledAmount) > BigInt(0);
-
-    return sellPrice <= buyPrice && available;
+  },
+  restingOrders: T[]
+): T | null {
+  const now = new Date();
+  const restingSide = incoming.side === "BUY" ? "SELL" : "BUY";
+
+  const candidates = restingOrders.filter((order) => {
+    const available = BigInt(order.amount) - BigInt(order.filledAmount) > BigInt(0);
+    return (
+      order.side === restingSide &&
+      MATCHABLE_ORDER_STATUSES.includes(order.status) &&
+      order.expiresAt > now &&
+      order.userAddress.toLowerCase() !== incoming.userAddress.toLowerCase() &&
+      available &&
+      pricesCross(incoming, order)
+    );
   });
 
-  if (validSellers.length === 0) {
+  if (candidates.length === 0) {
     return null;
   }
 
-  // Sort by: best price first, then oldest first (FIFO by time)
-  validSellers.sort((a, b) => {
-    const priceCompare =
-      BigInt(a.pricePerToken) - BigInt(b.pricePerToken);
-    if (priceCompare !== BigInt(0)) {
-      return Number(priceCompare);
-    }
-    return a.createdAt.getTime() - b.createdAt.getTime();
-  });
+  candidates.sort(comparePriceTimePriority(restingSide));
+  return candidates[0];
+}
 
-  return validSellers[0];
+/**
+ * Total amount yang bisa langsung di-fill dari resting orders (untuk FOK)
+ */
+export function getCrossingLiquidity(
+  incoming: { side: string; userAddress: string; pricePerToken: string },
+  restingOrders: BookOrder[]
+): bigint {
+  const now = new Date();
+  const restingSide = incoming.side === "BUY" ? "SELL" : "BUY";
+
+  return restingOrders
+    .filter(
+      (order) =>
+        order.side === restingSide &&
+        MATCHABLE_ORDER_STATUSES.includes(order.status) &&
+        order.expiresAt > now &&
+        order.userAddress.toLowerCase() !== incoming.userAddress.toLowerCase() &&
+        pricesCross(incoming, order)
+    )
+    .reduce((sum, order) => sum + BigInt(order.amount) - BigInt(order.filledAmount), BigInt(0));
+}
+
+/**
+ * Worst acceptable price untuk market order
+ * BUY: best ask + slippage, SELL: best bid - slippage
+ */
+export function applySlippageCap(bestPrice: bigint, side: string, slippageBps: number): bigint {
+  const safeBps = Number.isFinite(slippageBps) ? slippageBps : 0;
+  const bps = BigInt(Math.min(10000, Math.max(0, Math.floor(safeBps))));
+  return side === "BUY"
+    ? (bestPrice * (BigInt(10000) + bps)) / BigInt(10000)
+    : (bestPrice * (BigInt(10000) - bps)) / BigInt(10000);
 }
 
 /**
@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { createFakePrisma } from "@/test/fakePrisma";
+import { makeOrder, units } from "@/test/orders";
+import { CANCEL_ORDER_TYPES, getOrderDomain } from "@/lib/orders";
+import { cancelSignedOrder, OrderRequestError, placeOrder } from "@/lib/orderPlacement";
+
+vi.mock("@/lib/marketEvents", () => ({
+  publishMatches: vi.fn(),
+  publishOrder: vi.fn(),
+  publishOrders: vi.fn(),
+}));
+
+const owner = privateKeyToAccount(generatePrivateKey());
+const stranger = privateKeyToAccount(generatePrivateKey());
+
+function signCancel(account: typeof owner, orderId: string) {
+  return account.signTypedData({
+    domain: getOrderDomain(31337),
+    types: CANCEL_ORDER_TYPES,
+    primaryType: "CancelOrder",
+    message: { orderId, userAddress: owner.address },
+  });
+}
+
+describe("placeOrder", () => {
+  let prisma: ReturnType<typeof createFakePrisma>;
+
+  beforeEach(() => {
+    prisma = createFakePrisma();
+  });
+
+  it.each([
+    ["a zero amount", { amount: "0", pricePerToken: units(1) }],
+    ["a negative amount", { amount: "-5", pricePerToken: units(1) }],
+    ["a zero price", { amount: units(10), pricePerToken: "0" }],
+    ["a negative price", { amount: units(10), pricePerToken: "-1" }],
+  ])("rejects %s before checking the signature", async (_label, values) => {
+    const attempt = placeOrder(prisma, {
+      orderId: "order-1",
+      userAddress: owner.address,
+      side: "BUY",
+      poolId: "1",
+      ftAddress: owner.address,
+      orderType: "LIMIT",
+      timeInForce: "GTC",
+      chainId: 31337,
+      signature: "0x00",
+      nonce: 0,
+      expiresAt: Math.floor(Date.now() / 1000) + 3600,
+      ...values,
+    });
+
+    await expect(attempt).rejects.toBeInstanceOf(OrderRequestError);
+    await expect(attempt).rejects.toMatchObject({ statusCode: 400, message: "Amount and price must be positive" });
+    expect(prisma.tables.order).toHaveLength(0);
+  });
+});
+
+describe("cancelSignedOrder", () => {
+  let prisma: ReturnType<typeof createFakePrisma>;
+
+  beforeEach(() => {
+    prisma = createFakePrisma();
+  });
+
+  it("cancels on the owner's signature and keeps the row and its settled matches", async () => {
+    const order = makeOrder({
+      side: "SELL",
+      userAddress: owner.address.toLowerCase(),
+      status: "PARTIALLY_FILLED",
+      filledAmount: units(3),
+    });
+    const buy = makeOrder({ side: "BUY", status: "FILLED", filledAmount: units(10) });
+    prisma.tables.order.push(order, buy);
+    prisma.tables.orderMatch.push({
+      id: "settled",
+      buyOrderId: buy.id,
+      sellOrderId: order.id,
+      matchedAmount: units(3),
+      matchedPrice: units(1),
+      status: "SETTLED",
+    });
+
+    const cancelled = await cancelSignedOrder(prisma, {
+      orderId: order.id,
+      userAddress: owner.address,
+      signature: await signCancel(owner, order.id),
+    });
+
+    expect(cancelled).toMatchObject({ id: order.id, status: "CANCELLED", filledAmount: units(3) });
+    expect(prisma.tables.order).toHaveLength(2);
+    expect(prisma.tables.orderMatch[0]).toMatchObject({ id: "settled", status: "SETTLED" });
+  });
+
+  it("rejects a signature from anyone but the owner", async () => {
+    const order = makeOrder({ side: "SELL", userAddress: owner.address.toLowerCase() });
+    prisma.tables.order.push(order);
+
+    const attempt = cancelSignedOrder(prisma, {
+      orderId: order.id,
+      userAddress: owner.address,
+      signature: await signCancel(stranger, order.id),
+    });
+
+    await expect(attempt).rejects.toBeInstanceOf(OrderRequestError);
+    await expect(attempt).rejects.toMatchObject({ statusCode: 401 });
+    expect(prisma.tables.order[0]).toMatchObject({ status: "OPEN" });
+  });
+});
@@ -0,0 +1,379 @@
+import { Order, Prisma, PrismaClient } from "@prisma/client";
+import { Address, Hex, isAddress } from "viem";
+import {
+  parseOrderSide,
+  parseOrderType,
+  parseTimeInForce,
+  toSignedOrderMessage,
+  verifyCancelOrderSignature,
+  verifyOrderSignature,
+} from "@/lib/orders";
+import { MATCHABLE_ORDER_STATUSES } from "@/lib/orderMatching";
+import { AutoMatchFill, matchOrder, wouldCrossBook } from "@/lib/matchingEngine";
+import { checkOrderCollateral } from "@/lib/collateral";
+import { cancelOpenMatches } from "@/lib/matchLifecycle";
+import { publishOrder } from "@/lib/marketEvents";
+import { getNonceFloor } from "@/lib/orderCancellation";
+
+/**
+ * Order placement and cancellation shared by /api/orders/create, /api/orders/cancel
+ * and the bulk market maker routes (/api/orders/bulk/*). Validation failures are
+ * thrown as OrderRequestError with the HTTP status the routes respond with.
+ */
+
+export class OrderRequestError extends Error {
+  constructor(message: string, public statusCode: number = 400, public details?: unknown) {
+    super(message);
+    this.name = "OrderRequestError";
+  }
+}
+
+/**
+ * Body of /api/orders/create (one item of a bulk place)
+ */
+export interface PlaceOrderRequest {
+  orderId: string;
+  userAddress: string;
+  side: string; // "BUY" or "SELL"
+  poolId: string | number;
+  ftAddress: string;
+  amount: string;
+  pricePerToken: string; // Limit price; slippage cap for MARKET orders
+  orderType?: string; // "LIMIT" (default) or "MARKET"
+  timeInForce?: string; // "GTC" (default), "IOC", "FOK" or "POST_ONLY"
+  chainId: string | number;
+  signature: string;
+  nonce: string | number;
+  expiresAt: string | number; // Unix timestamp (seconds), exactly as signed
+}
+
+export interface PlacedOrder {
+  order: Order;
+  // Only for IOC/FOK orders, which are matched immediately
+  matches: AutoMatchFill[] | null;
+}
+
+/**
+ * Validate, verify and store a signed order. IOC/FOK orders are matched right away.
+ */
+export async function placeOrder(prisma: PrismaClient, body: PlaceOrderRequest): Promise<PlacedOrder> {
+  const {
+    orderId,
+    userAddress,
+    side,
+    poolId,
+    ftAddress,
+    amount,
+    pricePerToken,
+    orderType,
+    timeInForce,
+    chainId,
+    signature,
+    nonce,
+    expiresAt,
+  } = body;
+
+  // Validate required fields
+  if (!orderId || !userAddress || !side || !poolId || !ftAddress || !amount || !pricePerToken) {
+    throw new OrderRequestError("Missing required fields");
+  }
+
+  if (!signature || nonce === undefined || nonce === null || !chainId || !expiresAt) {
+    throw new OrderRequestError("Missing signature, nonce, chainId or expiresAt");
+  }
+
+  const orderSide = parseOrderSide(side);
+  if (!orderSide) {
+    throw new OrderRequestError("Invalid order side. Must be BUY or SELL");
+  }
+
+  const type = parseOrderType(orderType);
+  const tif = type ? parseTimeInForce(timeInForce, type) : null;
+  if (!type || !tif) {
+    throw new OrderRequestError("Invalid orderType or timeInForce. MARKET orders only support IOC or FOK");
+  }
+
+  if (!isAddress(userAddress) || !isAddress(ftAddress)) {
+    throw new OrderRequestError("Invalid userAddress or ftAddress");
+  }
+
+  // Validate amounts
+  let amountValue: bigint;
+  let priceValue: bigint;
+  try {
+    amountValue = BigInt(amount);
+    priceValue = BigInt(pricePerToken);
+    BigInt(poolId);
+  } catch {
+    throw new OrderRequestError("Invalid amount or price format");
+  }
+
+  if (amountValue <= BigInt(0) || priceValue <= BigInt(0)) {
+    throw new OrderRequestError("Amount and price must be positive");
+  }
+
+  const nonceValue = Number(nonce);
+  const expiresAtSeconds = Number(expiresAt);
+  if (!Number.isSafeInteger(nonceValue) || nonceValue < 0 || !Number.isSafeInteger(expiresAtSeconds)) {
+    throw new OrderRequestError("Invalid nonce or expiresAt");
+  }
+
+  // Check expiration
+  const expiryDate = new Date(expiresAtSeconds * 1000);
+  if (expiryDate <= new Date()) {
+    throw new OrderRequestError("Order already expired");
+  }
+
+  const normalizedUser = userAddress.toLowerCase() as Address;
+  const normalizedFt = ftAddress.toLowerCase() as Address;
+
+  // Canonical message covered by the signature
+  const signedOrder = toSignedOrderMessage({
+    orderId,
+    chainId: Number(chainId),
+    userAddress: normalizedUser,
+    side: orderSide,
+    poolId: BigInt(poolId),
+    ftAddress: normalizedFt,
+    amount: amountValue,
+    pricePerToken: priceValue,
+    createdAt: Math.floor(Date.now() / 1000),
+    expiresAt: expiresAtSeconds,
+    orderType: type,
+    timeInForce: tif,
+    status: "OPEN",
+    filledAmount: BigInt(0),
+    nonce: nonceValue,
+  });
+
+  // Verify signer
+  const validSignature = await verifyOrderSignature(signedOrder, signature as Hex, Number(chainId));
+  if (!validSignature) {
+    throw new OrderRequestError("Invalid order signature", 401);
+  }
+
+  // Reject replays: same orderId (incl. cancelled orders) or same nonce
+  const [existingOrder, existingHistory, nonceUsed] = await Promise.all([
+    prisma.order.findUnique({ where: { orderId } }),
+    prisma.orderHistory.findFirst({ where: { orderId } }),
+    prisma.order.findFirst({
+      where: { userAddress: normalizedUser, chainId: Number(chainId), nonce: nonceValue },
+    }),
+  ]);
+
+  if (existingOrder || existingHistory) {
+    throw new OrderRequestError("Order has already been submitted", 409);
+  }
+
+  if (nonceUsed) {
+    throw new OrderRequestError(`Nonce ${nonceValue} already used`, 409);
+  }
+
+  // Nonces below a signed cancel-all are dead (lib/orderCancellation)
+  const nonceFloor = await getNonceFloor(prisma, {
+    userAddress: normalizedUser,
+    chainId: Number(chainId),
+    poolId: signedOrder.poolId,
+  });
+  if (nonceValue < nonceFloor) {
+    throw new OrderRequestError(`Nonce ${nonceValue} was invalidated by a cancel-all (minimum ${nonceFloor})`, 409);
+  }
+
+  // Pre-trade check: on-chain backing must cover this order plus the user's
+  // other live orders. If the RPC is down the order is accepted but flagged UNCHECKED.
+  let collateralStatus = "UNCHECKED";
+  try {
+    const collateral = await checkOrderCollateral(prisma, {
+      userAddress: normalizedUser,
+      chainId: Number(chainId),
+      ftAddress: normalizedFt,
+      side: orderSide,
+      amount: BigInt(signedOrder.amount),
+      pricePerToken: BigInt(signedOrder.pricePerToken),
+    });
+    if (!collateral.sufficient) {
+      throw new OrderRequestError(collateral.reason ?? "Insufficient collateral", 400, collateral);
+    }
+    collateralStatus = "OK";
+  } catch (err) {
+    if (err instanceof OrderRequestError) throw err;
+    console.warn("[Orders] Collateral check unavailable, flagging order:", (err as Error).message);
+  }
+
+  // Post-only orders must not take liquidity
+  if (tif === "POST_ONLY") {
+    const crosses = await wouldCrossBook(prisma, {
+      side: orderSide,
+      poolId: signedOrder.poolId,
+      ftAddress: normalizedFt,
+      userAddress: normalizedUser,
+      pricePerToken: signedOrder.pricePerToken,
+    });
+    if (crosses) {
+      throw new OrderRequestError("Post-only order would cross the book");
+    }
+  }
+
+  // Create order
+  const totalValue = (BigInt(amount) * BigInt(pricePerToken)) / BigInt(1e18);
+
+  let order: Order;
+  try {
+    order = await prisma.order.create({
+      data: {
+        orderId,
+        userAddress: normalizedUser,
+        side: orderSide,
+        poolId: signedOrder.poolId,
+        ftAddress: normalizedFt,
+        amount: signedOrder.amount,
+        pricePerToken: signedOrder.pricePerToken,
+        totalValue: totalValue.toString(),
+        chainId: Number(chainId),
+        signature,
+        signedOrder: JSON.stringify(signedOrder),
+        nonce: nonceValue,
+        expiresAt: expiryDate,
+        orderType: type,
+        timeInForce: tif,
+        collateralStatus,
+        collateralCheckedAt: collateralStatus === "OK" ? new Date() : null,
+        status: "OPEN",
+        filledAmount: "0",
+      },
+    });
+  } catch (error) {
+    // Concurrent submission of the same orderId/nonce
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      throw new OrderRequestError("Order or nonce already used", 409);
+    }
+    throw error;
+  }
+
+  // Log order creation
+  await prisma.orderHistory.create({
+    data: {
+      orderId,
+      action: "CREATED",
+      amount,
+      details: JSON.stringify({
+        side: orderSide,
+        price: pricePerToken,
+        userAddress: normalizedUser,
+        nonce: nonceValue,
+        orderType: type,
+        timeInForce: tif,
+      }),
+    },
+  });
+
+  publishOrder(order, "order.created");
+
+  // IOC/FOK orders never rest: match immediately, remainder is cancelled
+  if (tif === "IOC" || tif === "FOK") {
+    const matches = await matchOrder(prisma, order.id);
+    const finalOrder = await prisma.order.findUnique({ where: { id: order.id } });
+    return { order: finalOrder ?? order, matches };
+  }
+
+  return { order, matches: null };
+}
+
+/**
+ * Cancel an order of `userAddress` (only while OPEN or PARTIALLY_FILLED and not settling).
+ * The row is kept as CANCELLED so settled matches and trade history stay intact.
+ * Callers must have authenticated userAddress (signature or API key).
+ */
+export async function cancelOrder(
+  prisma: PrismaClient,
+  params: { orderId: string; userAddress: string; reason?: string }
+): Promise<Order> {
+  const { orderId, userAddress, reason = "User cancelled" } = params;
+
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+  });
+
+  if (!order) {
+    throw new OrderRequestError("Order not found", 404);
+  }
+
+  // Verify ownership
+  if (order.userAddress.toLowerCase() !== userAddress.toLowerCase()) {
+    throw new OrderRequestError("Unauthorized - you do not own this order", 403);
+  }
+
+  // Cannot cancel once filled, cancelled or expired
+  if (!MATCHABLE_ORDER_STATUSES.includes(order.status)) {
+    throw new OrderRequestError(`Cannot cancel - order is already ${order.status.toLowerCase()}`);
+  }
+
+  // Cannot cancel while a match is being settled on-chain
+  const settling = await prisma.orderMatch.count({
+    where: {
+      status: "SETTLING",
+      OR: [{ buyOrderId: orderId }, { sellOrderId: orderId }],
+    },
+  });
+  if (settling > 0) {
+    throw new OrderRequestError("Cannot cancel - a match for this order is settling on-chain", 409);
+  }
+
+  // Mark cancelled first so released fills are not re-matched against it
+  const updated = await prisma.order.updateMany({
+    where: { id: orderId, status: { in: MATCHABLE_ORDER_STATUSES } },
+    data: { status: "CANCELLED" },
+  });
+  if (updated.count !== 1) {
+    throw new OrderRequestError("Cannot cancel - order changed concurrently", 409);
+  }
+
+  await prisma.orderHistory.create({
+    data: {
+      orderId,
+      action: "CANCELLED",
+      amount: order.amount,
+      details: JSON.stringify({
+        filledAmount: order.filledAmount,
+        reason,
+      }),
+    },
+  });
+
+  // Cancel pending matches - restores the counter-orders and re-queues them
+  await cancelOpenMatches(prisma, orderId, "Counter-order cancelled by user");
+
+  // Re-read: released matches may have lowered filledAmount
+  const cancelled = await prisma.order.findUnique({ where: { id: orderId } });
+  publishOrder(cancelled ?? { ...order, status: "CANCELLED" });
+  return cancelled ?? { ...order, status: "CANCELLED" };
+}
+
+/**
+ * Cancel an order on a CancelOrder signature of its owner (/api/orders/cancel)
+ */
+export async function cancelSignedOrder(
+  prisma: PrismaClient,
+  params: { orderId: string; userAddress: string; signature: string }
+): Promise<Order> {
+  const { orderId, userAddress, signature } = params;
+
+  if (!isAddress(userAddress)) {
+    throw new OrderRequestError("Invalid userAddress");
+  }
+
+  const order = await prisma.order.findUnique({ where: { id: orderId } });
+  if (!order) {
+    throw new OrderRequestError("Order not found", 404);
+  }
+
+  const valid = await verifyCancelOrderSignature(
+    { orderId, userAddress: userAddress as Address, chainId: order.chainId },
+    signature as Hex
+  );
+  if (!valid) {
+    throw new OrderRequestError("Invalid cancel signature", 401);
+  }
+
+  return cancelOrder(prisma, { orderId, userAddress });
+}
@@ -1,8 +1,14 @@
-import { Address, TypedDataDomain } from "viem";
+import type { Order as OrderRow } from "@prisma/client";
+import { Address, Hex, TypedDataDomain, verifyTypedData, zeroAddress } from "viem";
+import { getContractAddress } from "@/lib/contracts/addresses";
 
 /**
  * Offchain Order System for Bid/Ask
  * User signs message to create order, then can be matched and settled on-chain
+ *
+ * Canonical order model shared by the DB, API routes, hooks and settlement.
+ * App code uses BUY/SELL; the signed EIP-712 struct and OrderBook.sol use BID/ASK.
+ * Convert only through the codecs below.
  */
 
 // Define TypedDataField type for EIP-712
@@ -11,8 +17,12 @@ type TypedDataField = {
   type: string;
 };
 
-export type OrderSide = "BID" | "ASK";
+export type OrderSide = "BUY" | "SELL";
+export type SignedOrderSide = "BID" | "ASK";
 export type OrderStatus = "OPEN" | "PARTIALLY_FILLED" | "FILLED" | "CANCELLED" | "EXPIRED";
+export type OrderType = "LIMIT" | "MARKET";
+// GTC rests until expiresAt, IOC/FOK never rest, POST_ONLY never takes liquidity
+export type TimeInForce = "GTC" | "IOC" | "FOK" | "POST_ONLY";
 
 export interface OffchainOrder {
   // Order metadata
@@ -21,7 +31,7 @@ export interface OffchainOrder {
   userAddress: Address;
 
   // Order details
-  side: OrderSide; // BID or ASK
+  side: OrderSide; // BUY or SELL
   poolId: bigint;
   ftAddress: Address;
 
@@ -33,6 +43,10 @@ export interface OffchainOrder {
   createdAt: number; // Unix timestamp
   expiresAt: number; // Unix timestamp
 
+  // Execution instructions (MARKET: pricePerToken is the slippage cap)
+  orderType?: OrderType;
+  timeInForce?: TimeInForce;
+
   // Status tracking
   status: OrderStatus;
   filledAmount: bigint; // Amount already filled
@@ -43,24 +57,79 @@ export interface OffchainOrder {
 }
 
 export interface BidOrder extends OffchainOrder {
-  side: "BID";
+  side: "BUY";
   // Buyer offers IP to buy FT
 }
 
 export interface AskOrder extends OffchainOrder {
-  side: "ASK";
+  side: "SELL";
   // Seller offers FT with minimum price
 }
 
+/**
+ * Order as sent over the API (bigints as decimal strings)
+ */
+export interface OrderJson {
+  orderId: string;
+  chainId: number;
+  userAddress: Address;
+  side: OrderSide;
+  poolId: string;
+  ftAddress: Address;
+  amount: string;
+  pricePerToken: string;
+  createdAt: number;
+  expiresAt: number;
+  orderType?: OrderType;
+  timeInForce?: TimeInForce;
+  status: OrderStatus;
+  filledAmount: string;
+  signature?: string;
+  nonce: number;
+}
+
+/**
+ * Exact EIP-712 message covered by an order signature.
+ * Numbers are kept as decimal strings so the payload can be stored as JSON
+ * and handed back to OrderBook.executeTrade unchanged.
+ */
+export interface SignedOrderMessage {
+  orderId: string;
+  side: SignedOrderSide;
+  poolId: string;
+  ftAddress: Address;
+  amount: string;
+  pricePerToken: string;
+  userAddress: Address;
+  nonce: string;
+  expiresAt: string;
+}
+
+/**
+ * OrderBook.Order struct - also the viem message shape for signing
+ */
+export type OrderStruct = {
+  orderId: string;
+  side: SignedOrderSide;
+  poolId: bigint;
+  ftAddress: Address;
+  amount: bigint;
+  pricePerToken: bigint;
+  userAddress: Address;
+  nonce: bigint;
+  expiresAt: bigint;
+};
+
 /**
  * EIP-712 Domain Separator for signing
+ * Must match the EIP712("Lixa Order Book", "1") domain of the deployed OrderBook
  */
 export function getOrderDomain(chainId: number): TypedDataDomain {
   return {
     name: "Lixa Order Book",
     version: "1",
     chainId,
-    verifyingContract: "0x0000000000000000000000000000000000000000", // Can be contract address or constant
+    verifyingContract: getContractAddress(chainId, "OrderBook") ?? zeroAddress,
   };
 }
 
@@ -81,6 +150,189 @@ export const ORDER_TYPES: Record<string, TypedDataField[]> = {
   ],
 };
 
+/**
+ * EIP-712 CancelAllBelowNonce - cancels every order of userAddress with nonce < minNonce
+ * (OrderBook.invalidateNoncesBySig)
+ */
+export const CANCEL_ALL_TYPES = {
+  CancelAllBelowNonce: [
+    { name: "userAddress", type: "address" },
+    { name: "minNonce", type: "uint256" },
+  ],
+} as const;
+
+/**
+ * EIP-712 CancelPoolOrders - same, limited to one pool (OrderBook.invalidatePoolNoncesBySig)
+ */
+export const CANCEL_POOL_TYPES = {
+  CancelPoolOrders: [
+    { name: "userAddress", type: "address" },
+    { name: "poolId", type: "uint256" },
+    { name: "minNonce", type: "uint256" },
+  ],
+} as const;
+
+/**
+ * EIP-712 CancelOrder - cancels one order (orderId = Order row id, as taken by
+ * /api/orders/cancel). Off-chain only; cancel-all also invalidates on-chain.
+ */
+export const CANCEL_ORDER_TYPES = {
+  CancelOrder: [
+    { name: "orderId", type: "string" },
+    { name: "userAddress", type: "address" },
+  ],
+} as const;
+
+/**
+ * BUY/SELL -> BID/ASK (signed struct side)
+ */
+export function toSignedSide(side: OrderSide): SignedOrderSide {
+  return side === "BUY" ? "BID" : "ASK";
+}
+
+/**
+ * BID/ASK -> BUY/SELL
+ */
+export function fromSignedSide(side: SignedOrderSide): OrderSide {
+  return side === "BID" ? "BUY" : "SELL";
+}
+
+/**
+ * Parse a side from user input, accepting both BUY/SELL and BID/ASK
+ */
+export function parseOrderSide(value: unknown): OrderSide | null {
+  if (typeof value !== "string") return null;
+  const upper = value.toUpperCase();
+  if (upper === "BUY" || upper === "BID") return "BUY";
+  if (upper === "SELL" || upper === "ASK") return "SELL";
+  return null;
+}
+
+/**
+ * Parse order type, defaulting to LIMIT when absent
+ */
+export function parseOrderType(value: unknown): OrderType | null {
+  if (value === undefined || value === null || value === "") return "LIMIT";
+  if (typeof value !== "string") return null;
+  const upper = value.toUpperCase();
+  return upper === "LIMIT" || upper === "MARKET" ? upper : null;
+}
+
+/**
+ * Resolve time-in-force for an order type.
+ * MARKET orders never rest: they default to IOC and only accept IOC or FOK.
+ */
+export function parseTimeInForce(value: unknown, orderType: OrderType = "LIMIT"): TimeInForce | null {
+  if (value === undefined || value === null || value === "") {
+    return orderType === "MARKET" ? "IOC" : "GTC";
+  }
+  if (typeof value !== "string") return null;
+  const upper = value.toUpperCase().replace("-", "_");
+  if (upper !== "GTC" && upper !== "IOC" && upper !== "FOK" && upper !== "POST_ONLY") return null;
+  if (orderType === "MARKET" && upper !== "IOC" && upper !== "FOK") return null;
+  return upper;
+}
+
+/**
+ * Side that an order matches against
+ */
+export function oppositeSide(side: OrderSide): OrderSide {
+  return side === "BUY" ? "SELL" : "BUY";
+}
+
+/**
+ * Prisma Order row -> domain order
+ */
+export function orderFromRow(row: OrderRow): OffchainOrder {
+  return {
+    orderId: row.orderId,
+    chainId: row.chainId,
+    userAddress: row.userAddress as Address,
+    side: parseOrderSide(row.side) ?? "BUY",
+    poolId: BigInt(row.poolId),
+    ftAddress: row.ftAddress as Address,
+    amount: BigInt(row.amount),
+    pricePerToken: BigInt(row.pricePerToken),
+    createdAt: Math.floor(row.createdAt.getTime() / 1000),
+    expiresAt: Math.floor(row.expiresAt.getTime() / 1000),
+    orderType: parseOrderType(row.orderType) ?? "LIMIT",
+    timeInForce: parseTimeInForce(row.timeInForce) ?? "GTC",
+    status: row.status as OrderStatus,
+    filledAmount: BigInt(row.filledAmount),
+    signature: row.signature ?? undefined,
+    nonce: row.nonce,
+  };
+}
+
+/**
+ * Domain order -> API JSON
+ */
+export function serializeOrder(order: OffchainOrder): OrderJson {
+  return {
+    ...order,
+    poolId: order.poolId.toString(),
+    amount: order.amount.toString(),
+    pricePerToken: order.pricePerToken.toString(),
+    filledAmount: order.filledAmount.toString(),
+  };
+}
+
+/**
+ * API JSON -> domain order
+ */
+export function deserializeOrder(json: OrderJson): OffchainOrder {
+  return {
+    ...json,
+    side: parseOrderSide(json.side) ?? "BUY",
+    poolId: BigInt(json.poolId),
+    amount: BigInt(json.amount),
+    pricePerToken: BigInt(json.pricePerToken),
+    filledAmount: BigInt(json.filledAmount ?? "0"),
+  };
+}
+
+/**
+ * Domain order -> signed EIP-712 message
+ */
+export function toSignedOrderMessage(order: OffchainOrder): SignedOrderMessage {
+  return {
+    orderId: order.orderId,
+    side: toSignedSide(order.side),
+    poolId: order.poolId.toString(),
+    ftAddress: order.ftAddress,
+    amount: order.amount.toString(),
+    pricePerToken: order.pricePerToken.toString(),
+    userAddress: order.userAddress,
+    nonce: order.nonce.toString(),
+    expiresAt: order.expiresAt.toString(),
+  };
+}
+
+/**
+ * Signed message -> OrderBook.Order struct (bigint fields)
+ */
+export function toOrderStruct(message: SignedOrderMessage): OrderStruct {
+  return {
+    ...message,
+    poolId: BigInt(message.poolId),
+    amount: BigInt(message.amount),
+    pricePerToken: BigInt(message.pricePerToken),
+    nonce: BigInt(message.nonce),
+    expiresAt: BigInt(message.expiresAt),
+  };
+}
+
+/**
+ * Signed message stored on an Order row.
+ * Rows created before signing was enforced fall back to their columns.
+ */
+export function signedOrderFromRow(row: OrderRow): SignedOrderMessage {
+  if (row.signedOrder) {
+    return JSON.parse(row.signedOrder) as SignedOrderMessage;
+  }
+  return toSignedOrderMessage(orderFromRow(row));
+}
+
 /**
  * Create order signature payload untuk EIP-712 signing
  */
@@ -89,20 +341,55 @@ export function createOrderSignaturePayload(order: OffchainOrder) {
     types: ORDER_TYPES,
     primaryType: "Order",
     domain: getOrderDomain(order.chainId),
-    message: {
-      orderId: order.orderId,
-      side: order.side,
-      poolId: order.poolId.toString(),
-      ftAddress: order.ftAddress,
-      amount: order.amount.toString(),
-      pricePerToken: order.pricePerToken.toString(),
-      userAddress: order.userAddress,
-      nonce: order.nonce,
-      expiresAt: order.expiresAt,
-    },
+    message: toOrderStruct(toSignedOrderMessage(order)),
   };
 }
 
+/**
+ * Recover the signer of an order message and compare it with message.userAddress
+ */
+export async function verifyOrderSignature(
+  message: SignedOrderMessage,
+  signature: Hex,
+  chainId: number
+): Promise<boolean> {
+  try {
+    return await verifyTypedData({
+      address: message.userAddress,
+      domain: getOrderDomain(chainId),
+      types: ORDER_TYPES,
+      primaryType: "Order",
+      message: toOrderStruct(message),
+      signature,
+    });
+  } catch (err) {
+    console.error("[Orders] Signature verification failed:", err);
+    return false;
+  }
+}
+
+/**
+ * Check a CancelOrder signature for userAddress
+ */
+export async function verifyCancelOrderSignature(
+  params: { orderId: string; userAddress: Address; chainId: number },
+  signature: Hex
+): Promise<boolean> {
+  try {
+    return await verifyTypedData({
+      address: params.userAddress,
+      domain: getOrderDomain(params.chainId),
+      types: CANCEL_ORDER_TYPES,
+      primaryType: "CancelOrder",
+      message: { orderId: params.orderId, userAddress: params.userAddress },
+      signature,
+    });
+  } catch (err) {
+    console.error("[Orders] Cancel signature verification failed:", err);
+    return false;
+  }
+}
+
 /**
  * Validate order before signing
  */
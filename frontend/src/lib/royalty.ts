@@ -0,0 +1,271 @@
+import { Prisma, PrismaClient, RoyaltyReport } from "@prisma/client";
+import { Abi, Address, Hex, parseEventLogs, verifyMessage } from "viem";
+import FractionalizerABI from "@/lib/contracts/Fractionalizer.json";
+import LicenseManagerABI from "@/lib/contracts/LicenseManager.json";
+import { getContractAddress } from "@/lib/contracts/addresses";
+import { getPublicClient } from "@/lib/viem";
+
+/**
+ * Licensee royalty reporting.
+ * A report declares revenue for one period; the royalty owed is
+ * revenue * offer royaltyBPS / 10000 and is paid with Fractionalizer.depositToPool
+ * into the asset's pool, so it reaches FT holders as dividends.
+ * A report is only marked PAID from a DividendsDeposited event in the payment tx.
+ */
+
+const BPS_DENOMINATOR = BigInt(10000);
+
+export type RoyaltyStatus = "OUTSTANDING" | "PAID";
+
+export class RoyaltyReportError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = "RoyaltyReportError";
+  }
+}
+
+export function computeRoyaltyDue(revenue: bigint, royaltyBPS: number): bigint {
+  return (revenue * BigInt(royaltyBPS)) / BPS_DENOMINATOR;
+}
+
+/**
+ * royaltyBPS of an offer: chain indexer first, LicenseManager.offers as fallback
+ */
+async function getOfferRoyaltyBps(prisma: PrismaClient, chainId: number, offerId: number): Promise<number> {
+  const indexed = await prisma.indexedLicenseOffer.findUnique({
+    where: { chainId_offerId: { chainId, offerId } },
+  });
+  if (indexed?.royaltyBPS !== null && indexed?.royaltyBPS !== undefined) return indexed.royaltyBPS;
+
+  const licenseManager = getContractAddress(chainId, "LicenseManager");
+  if (!licenseManager) throw new RoyaltyReportError(`LicenseManager not deployed on chain ${chainId}`, 500);
+  const [, , , , royaltyBPS] = (await getPublicClient(chainId).readContract({
+    address: licenseManager,
+    abi: LicenseManagerABI as Abi,
+    functionName: "offers",
+    args: [BigInt(offerId)],
+  })) as readonly unknown[];
+  return Number(royaltyBPS);
+}
+
+/**
+ * Live pool of an asset: chain indexer first, Fractionalizer.assetToPool as fallback
+ */
+async function getAssetPoolId(prisma: PrismaClient, chainId: number, assetId: number): Promise<number> {
+  const indexed = await prisma.indexedPool.findFirst({
+    where: { chainId, assetId, recombined: false },
+    orderBy: { poolId: "desc" },
+  });
+  if (indexed) return indexed.poolId;
+
+  const fractionalizer = getContractAddress(chainId, "Fractionalizer");
+  if (!fractionalizer) throw new RoyaltyReportError(`Fractionalizer not deployed on chain ${chainId}`, 500);
+  const poolId = (await getPublicClient(chainId).readContract({
+    address: fractionalizer,
+    abi: FractionalizerABI as Abi,
+    functionName: "assetToPool",
+    args: [BigInt(assetId)],
+  })) as bigint;
+  if (poolId === BigInt(0)) {
+    throw new RoyaltyReportError(`Asset #${assetId} has no fractional pool to receive royalties`, 422);
+  }
+  return Number(poolId);
+}
+
+/**
+ * Unsigned depositToPool call for an outstanding report (JSON-safe, amounts in wei strings)
+ */
+export function buildDepositTransaction(report: RoyaltyReport) {
+  const fractionalizer = getContractAddress(report.chainId, "Fractionalizer");
+  if (!fractionalizer) throw new RoyaltyReportError(`Fractionalizer not deployed on chain ${report.chainId}`, 500);
+  return {
+    chainId: report.chainId,
+    address: fractionalizer,
+    functionName: "depositToPool" as const,
+    args: [report.poolId.toString()],
+    value: report.royaltyDue,
+  };
+}
+
+/**
+ * Message the licensee signs (personal_sign) to declare revenue, revenue in wei
+ */
+export function buildRoyaltyReportMessage(
+  licenseId: string,
+  periodStart: Date,
+  periodEnd: Date,
+  revenue: bigint
+): string {
+  return `Report revenue for Lixa license ${licenseId}\nPeriod: ${periodStart.toISOString()} - ${periodEnd.toISOString()}\nRevenue: ${revenue} wei`;
+}
+
+/**
+ * Record a revenue declaration for one license and period.
+ * The signature must recover to the licensee over (licenseId, period, revenue).
+ */
+export async function createRoyaltyReport(
+  prisma: PrismaClient,
+  params: {
+    licenseId: string;
+    licensee: Address;
+    periodStart: Date;
+    periodEnd: Date;
+    revenue: bigint;
+    signature: Hex;
+  }
+): Promise<RoyaltyReport> {
+  const { licenseId, periodStart, periodEnd, revenue } = params;
+  const licensee = params.licensee.toLowerCase();
+
+  if (!(periodStart < periodEnd)) {
+    throw new RoyaltyReportError("periodStart must be before periodEnd");
+  }
+  if (periodEnd > new Date()) {
+    throw new RoyaltyReportError("Revenue can only be reported for a period that has ended");
+  }
+
+  const license = await prisma.license.findUnique({ where: { id: licenseId } });
+  if (!license) {
+    throw new RoyaltyReportError("License not found", 404);
+  }
+  if (license.buyer !== licensee) {
+    throw new RoyaltyReportError("Only the licensee can report revenue for this license", 403);
+  }
+
+  const validSignature = await verifyMessage({
+    address: params.licensee,
+    message: buildRoyaltyReportMessage(licenseId, periodStart, periodEnd, revenue),
+    signature: params.signature,
+  }).catch(() => false);
+  if (!validSignature) {
+    throw new RoyaltyReportError("Invalid signature", 401);
+  }
+  if (license.chainId === null || license.offerId === null || !["VERIFIED", "RECOVERED"].includes(license.syncStatus)) {
+    throw new RoyaltyReportError("License is not linked to a verified on-chain purchase", 409);
+  }
+
+  const overlapping = await prisma.royaltyReport.findFirst({
+    where: { licenseId, periodStart: { lt: periodEnd }, periodEnd: { gt: periodStart } },
+  });
+  if (overlapping) {
+    throw new RoyaltyReportError(
+      `Period overlaps an existing report (${overlapping.periodStart.toISOString()} - ${overlapping.periodEnd.toISOString()})`,
+      409
+    );
+  }
+
+  const [royaltyBPS, poolId] = await Promise.all([
+    getOfferRoyaltyBps(prisma, license.chainId, license.offerId),
+    getAssetPoolId(prisma, license.chainId, license.assetId),
+  ]);
+  const royaltyDue = computeRoyaltyDue(revenue, royaltyBPS);
+
+  return prisma.royaltyReport.create({
+    data: {
+      licenseId,
+      chainId: license.chainId,
+      assetId: license.assetId,
+      offerId: license.offerId,
+      poolId,
+      licensee,
+      periodStart,
+      periodEnd,
+      revenue: revenue.toString(),
+      royaltyBPS,
+      royaltyDue: royaltyDue.toString(),
+      // Nothing owed (0 revenue or 0 bps): settled on creation
+      ...(royaltyDue === BigInt(0) && { status: "PAID", paidAt: new Date() }),
+    },
+  });
+}
+
+/**
+ * Mark a report PAID once its depositToPool tx is confirmed on-chain
+ */
+export async function confirmRoyaltyPayment(
+  prisma: PrismaClient,
+  reportId: string,
+  txHash: Hex
+): Promise<RoyaltyReport> {
+  const report = await prisma.royaltyReport.findUnique({ where: { id: reportId } });
+  if (!report) {
+    throw new RoyaltyReportError("Royalty report not found", 404);
+  }
+  if (report.status === "PAID") {
+    if (report.txHash === txHash.toLowerCase()) return report;
+    throw new RoyaltyReportError("Royalty report is already paid", 409);
+  }
+
+  const fractionalizer = getContractAddress(report.chainId, "Fractionalizer");
+  if (!fractionalizer) throw new RoyaltyReportError(`Fractionalizer not deployed on chain ${report.chainId}`, 500);
+
+  const receipt = await getPublicClient(report.chainId)
+    .getTransactionReceipt({ hash: txHash })
+    .catch(() => null);
+  if (!receipt) {
+    throw new RoyaltyReportError("Transaction receipt not found", 404);
+  }
+  if (receipt.status !== "success") {
+    throw new RoyaltyReportError("Transaction reverted", 422);
+  }
+
+  const deposits = parseEventLogs({
+    abi: FractionalizerABI as Abi,
+    eventName: "DividendsDeposited",
+    logs: receipt.logs.filter((log) => log.address.toLowerCase() === fractionalizer.toLowerCase()),
+  }) as unknown as { args: { poolId: bigint; from: string; amount: bigint } }[];
+
+  const payment = deposits.find(
+    (e) =>
+      Number(e.args.poolId) === report.poolId &&
+      e.args.from.toLowerCase() === report.licensee &&
+      e.args.amount >= BigInt(report.royaltyDue)
+  );
+  if (!payment) {
+    throw new RoyaltyReportError("No matching DividendsDeposited event for this report in transaction", 422);
+  }
+
+  try {
+    return await prisma.royaltyReport.update({
+      where: { id: report.id },
+      data: { status: "PAID", txHash: txHash.toLowerCase(), paidAt: new Date() },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      throw new RoyaltyReportError("Transaction already used for another royalty report", 409);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reports with paid/outstanding totals (wei)
+ */
+export async function listRoyaltyReports(
+  prisma: PrismaClient,
+  filter: { licensee?: string; licenseId?: string; status?: RoyaltyStatus }
+) {
+  const reports = await prisma.royaltyReport.findMany({
+    where: {
+      ...(filter.licensee && { licensee: filter.licensee.toLowerCase() }),
+      ...(filter.licenseId && { licenseId: filter.licenseId }),
+      ...(filter.status && { status: filter.status }),
+    },
+    orderBy: { periodEnd: "desc" },
+  });
+
+  const totals = reports.reduce(
+    (acc, r) => {
+      const due = BigInt(r.royaltyDue);
+      return r.status === "PAID"
+        ? { ...acc, paid: acc.paid + due }
+        : { ...acc, outstanding: acc.outstanding + due };
+    },
+    { paid: BigInt(0), outstanding: BigInt(0) }
+  );
+
+  return {
+    reports,
+    totals: { paid: totals.paid.toString(), outstanding: totals.outstanding.toString() },
+  };
+}
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createFakePrisma } from "@/test/fakePrisma";
+import { makeOrder, units } from "@/test/orders";
+import { settleBatch } from "@/lib/settlement";
+
+vi.mock("@/lib/marketEvents", () => ({
+  publishMatches: vi.fn(),
+  publishOrders: vi.fn(),
+}));
+vi.mock("@/lib/tradeStats", () => ({ recordTradeStats: vi.fn() }));
+vi.mock("@/lib/candles", () => ({ recordTradeCandles: vi.fn() }));
+
+const chain = vi.hoisted(() => ({
+  revertingOrderId: "",
+  submittedTrades: [] as { buyOrder: { orderId: string } }[][],
+}));
+
+vi.mock("@/lib/viem", () => ({
+  getPublicClient: () => ({
+    simulateContract: async ({ functionName, args }: { functionName: string; args: unknown[] }) => {
+      if (functionName === "executeTrade" && (args[0] as { orderId: string }).orderId === chain.revertingOrderId) {
+        throw new Error("Insufficient deposit");
+      }
+      return { request: { functionName, args } };
+    },
+    waitForTransactionReceipt: async () => ({ status: "success", blockNumber: BigInt(7) }),
+  }),
+  getWalletClient: () => ({
+    writeContract: async (request: { args: unknown[] }) => {
+      chain.submittedTrades.push(request.args[0] as { buyOrder: { orderId: string } }[]);
+      return "0x" + "ab".repeat(32);
+    },
+  }),
+}));
+
+describe("settleBatch", () => {
+  let prisma: ReturnType<typeof createFakePrisma>;
+
+  beforeEach(() => {
+    prisma = createFakePrisma();
+    chain.submittedTrades = [];
+    process.env.SETTLEMENT_RELAYER_PRIVATE_KEY = "0x" + "11".repeat(32);
+  });
+
+  it("fails only the trade that reverts in simulation and batches the rest", async () => {
+    const pairs = [0, 1, 2].map(() => {
+      const sell = makeOrder({ side: "SELL", status: "FILLED", filledAmount: units(10) });
+      const buy = makeOrder({ side: "BUY", status: "FILLED", filledAmount: units(10) });
+      prisma.tables.order.push(sell, buy);
+      prisma.tables.orderMatch.push({
+        id: `match-${buy.id}`,
+        buyOrderId: buy.id,
+        sellOrderId: sell.id,
+        matchedAmount: units(10),
+        matchedPrice: units(1),
+        status: "PENDING_EXECUTION",
+        createdAt: buy.createdAt,
+      });
+      return { buy, sell };
+    });
+    chain.revertingOrderId = pairs[1].buy.orderId;
+
+    const { batches } = await settleBatch(prisma);
+
+    expect(batches).toEqual([
+      expect.objectContaining({ status: "FAILED", matchIds: [`match-${pairs[1].buy.id}`], reason: "Insufficient deposit" }),
+      expect.objectContaining({
+        status: "SETTLED",
+        matchIds: [`match-${pairs[0].buy.id}`, `match-${pairs[2].buy.id}`],
+      }),
+    ]);
+    expect(chain.submittedTrades).toHaveLength(1);
+    expect(chain.submittedTrades[0].map((t) => t.buyOrder.orderId)).toEqual([
+      pairs[0].buy.orderId,
+      pairs[2].buy.orderId,
+    ]);
+    expect(await prisma.order.findUnique({ where: { id: pairs[0].buy.id } })).toMatchObject({ status: "FILLED" });
+  });
+});
@@ -0,0 +1,428 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import { Abi, BaseError, ContractFunctionRevertedError, Hex, isHash, keccak256, parseEventLogs, toBytes } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import OrderBookABI from "@/lib/contracts/OrderBook.json";
+import { getContractAddress } from "@/lib/contracts/addresses";
+import { signedOrderFromRow, toOrderStruct } from "@/lib/orders";
+import { getPublicClient, getWalletClient } from "@/lib/viem";
+import {
+  MatchTransitionError,
+  OPEN_MATCH_STATUSES,
+  transitionMatch,
+  transitionMatches,
+} from "@/lib/matchLifecycle";
+
+/**
+ * Server-side settlement executor.
+ * Submits OrderBook.executeTrade with the stored signed orders through a relayer
+ * key (SETTLEMENT_RELAYER_PRIVATE_KEY). The buyer pays from their OrderBook deposit.
+ * settleBatch groups matches per pool and submits them through OrderBook.executeTrades.
+ * Settlements submitted by a client are only accepted through verifySettlementTx.
+ */
+
+// Match statuses that can still be submitted on-chain
+export const SETTLEABLE_MATCH_STATUSES: string[] = OPEN_MATCH_STATUSES;
+
+export class SettlementError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = "SettlementError";
+  }
+}
+
+// Upper bound of trades per executeTrades call (block gas limit)
+const MAX_BATCH_SIZE = 25;
+
+export type SettlementResult =
+  | { status: "SETTLED"; matchId: string; txHash: Hex; blockNumber: string }
+  | { status: "FAILED"; matchId: string; reason: string; txHash?: Hex };
+
+export type BatchSettlementResult =
+  | { status: "SETTLED"; poolId: string; matchIds: string[]; txHash: Hex; blockNumber: string }
+  | { status: "FAILED"; poolId: string; matchIds: string[]; reason: string; txHash?: Hex };
+
+/**
+ * Extract a readable revert reason from a viem error
+ */
+export function decodeRevertReason(error: unknown): string {
+  if (error instanceof BaseError) {
+    const revert = error.walk((e) => e instanceof ContractFunctionRevertedError);
+    if (revert instanceof ContractFunctionRevertedError) {
+      return revert.reason ?? revert.data?.errorName ?? revert.shortMessage;
+    }
+    return error.shortMessage;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function getRelayerAccount() {
+  const key = process.env.SETTLEMENT_RELAYER_PRIVATE_KEY;
+  if (!key) {
+    throw new SettlementError("Settlement relayer not configured", 500);
+  }
+  return privateKeyToAccount((key.startsWith("0x") ? key : `0x${key}`) as Hex);
+}
+
+/**
+ * Settle one OrderMatch on-chain and record the outcome.
+ * The match is only marked SETTLED after a successful receipt.
+ */
+export async function settleMatch(prisma: PrismaClient, matchId: string): Promise<SettlementResult> {
+  const match = await prisma.orderMatch.findUnique({
+    where: { id: matchId },
+    include: {
+      buyOrder: true,
+      sellOrder: true,
+    },
+  });
+
+  if (!match) {
+    throw new SettlementError("Match not found", 404);
+  }
+
+  if (!SETTLEABLE_MATCH_STATUSES.includes(match.status)) {
+    throw new SettlementError(`Match is ${match.status}`);
+  }
+
+  const { buyOrder, sellOrder } = match;
+  if (!buyOrder.signature || !sellOrder.signature) {
+    throw new SettlementError("Both orders must be signed before settlement");
+  }
+
+  const chainId = buyOrder.chainId;
+  const orderBookAddress = getContractAddress(chainId, "OrderBook");
+  if (!orderBookAddress) {
+    throw new SettlementError(`OrderBook not deployed on chain ${chainId}`);
+  }
+
+  const account = getRelayerAccount();
+
+  // Claim the match so concurrent calls do not submit twice
+  try {
+    await transitionMatch(prisma, matchId, "SETTLING", { details: { relayer: account.address } });
+  } catch (error) {
+    if (error instanceof MatchTransitionError) {
+      throw new SettlementError("Match is already being settled", 409);
+    }
+    throw error;
+  }
+
+  const publicClient = getPublicClient(chainId);
+  const walletClient = getWalletClient(chainId, account);
+
+  // FAILED releases the reserved fill and re-queues both orders
+  const markFailed = async (reason: string, txHash?: Hex): Promise<SettlementResult> => {
+    await transitionMatch(prisma, matchId, "FAILED", { reason, txHash });
+    return { status: "FAILED", matchId, reason, txHash };
+  };
+
+  let txHash: Hex | undefined;
+  let receipt;
+  try {
+    // Simulate first so reverts come back with a decoded reason
+    const { request } = await publicClient.simulateContract({
+      account,
+      address: orderBookAddress,
+      abi: OrderBookABI as Abi,
+      functionName: "executeTrade",
+      args: [
+        toOrderStruct(signedOrderFromRow(buyOrder)),
+        buyOrder.signature,
+        toOrderStruct(signedOrderFromRow(sellOrder)),
+        sellOrder.signature,
+        BigInt(match.matchedAmount),
+        BigInt(match.matchedPrice),
+      ],
+    });
+
+    txHash = await walletClient.writeContract(request);
+    receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+  } catch (error) {
+    console.error("[Settlement] executeTrade failed:", error);
+    if (txHash) {
+      // Broadcast but unconfirmed: keep SETTLING so the fill is not released twice
+      await prisma.orderMatch.update({ where: { id: matchId }, data: { txHash } });
+      throw new SettlementError(`Settlement ${txHash} submitted but not confirmed`, 504);
+    }
+    return markFailed(decodeRevertReason(error));
+  }
+
+  if (receipt.status === "reverted") {
+    return markFailed("Transaction reverted on-chain", txHash);
+  }
+
+  // Outside the try: a DB error here must not release a trade that settled on-chain
+  await transitionMatch(prisma, matchId, "SETTLED", {
+    txHash,
+    details: {
+      blockNumber: receipt.blockNumber.toString(),
+      relayer: account.address,
+    },
+  });
+
+  return {
+    status: "SETTLED",
+    matchId,
+    txHash,
+    blockNumber: receipt.blockNumber.toString(),
+  };
+}
+
+/**
+ * Check that txHash settled this match: a successful receipt holding an OrderBook
+ * OrderMatched log with the match's order ids, amount and price. A log can only
+ * back one SETTLED match, so the same tx cannot be replayed for a later re-match.
+ */
+export async function verifySettlementTx(
+  prisma: PrismaClient,
+  matchId: string,
+  txHash: string
+): Promise<{ txHash: Hex; blockNumber: string }> {
+  if (!isHash(txHash)) {
+    throw new SettlementError("Invalid txHash");
+  }
+
+  const match = await prisma.orderMatch.findUnique({
+    where: { id: matchId },
+    include: { buyOrder: true, sellOrder: true },
+  });
+  if (!match) {
+    throw new SettlementError("Match not found", 404);
+  }
+
+  const chainId = match.buyOrder.chainId;
+  const orderBookAddress = getContractAddress(chainId, "OrderBook");
+  if (!orderBookAddress) {
+    throw new SettlementError(`OrderBook not deployed on chain ${chainId}`);
+  }
+
+  const receipt = await getPublicClient(chainId)
+    .getTransactionReceipt({ hash: txHash })
+    .catch(() => null);
+  if (!receipt) {
+    throw new SettlementError("Transaction receipt not found", 404);
+  }
+  if (receipt.status !== "success") {
+    throw new SettlementError("Transaction reverted", 422);
+  }
+
+  // Indexed string args come back as the keccak256 of the string
+  const buyTopic = keccak256(toBytes(match.buyOrder.orderId));
+  const sellTopic = keccak256(toBytes(match.sellOrder.orderId));
+  const events = parseEventLogs({
+    abi: OrderBookABI as Abi,
+    eventName: "OrderMatched",
+    logs: receipt.logs.filter((log) => log.address.toLowerCase() === orderBookAddress.toLowerCase()),
+  }) as unknown as { args: { buyOrderId: Hex; sellOrderId: Hex; amount: bigint; pricePerToken: bigint } }[];
+
+  const matching = events.filter(
+    ({ args }) =>
+      args.buyOrderId.toLowerCase() === buyTopic &&
+      args.sellOrderId.toLowerCase() === sellTopic &&
+      args.amount === BigInt(match.matchedAmount) &&
+      args.pricePerToken === BigInt(match.matchedPrice)
+  );
+  if (matching.length === 0) {
+    throw new SettlementError("No matching OrderMatched event in transaction", 422);
+  }
+
+  const claimed = await prisma.orderMatch.count({
+    where: {
+      id: { not: matchId },
+      status: "SETTLED",
+      txHash: { in: [txHash, txHash.toLowerCase()] },
+      buyOrderId: match.buyOrderId,
+      sellOrderId: match.sellOrderId,
+      matchedAmount: match.matchedAmount,
+      matchedPrice: match.matchedPrice,
+    },
+  });
+  if (claimed >= matching.length) {
+    throw new SettlementError("Transaction already recorded for another match", 409);
+  }
+
+  return { txHash, blockNumber: receipt.blockNumber.toString() };
+}
+
+type MatchWithOrders = Prisma.OrderMatchGetPayload<{ include: { buyOrder: true; sellOrder: true } }>;
+
+/**
+ * OrderBook.Trade struct of one match (executeTrades argument)
+ */
+function toBatchTrade(match: MatchWithOrders) {
+  return {
+    buyOrder: toOrderStruct(signedOrderFromRow(match.buyOrder)),
+    buySignature: match.buyOrder.signature as Hex,
+    sellOrder: toOrderStruct(signedOrderFromRow(match.sellOrder)),
+    sellSignature: match.sellOrder.signature as Hex,
+    amount: BigInt(match.matchedAmount),
+    pricePerToken: BigInt(match.matchedPrice),
+  };
+}
+
+type BatchTrade = ReturnType<typeof toBatchTrade>;
+
+export interface BatchSettlementFilter {
+  poolId?: string;
+  ftAddress?: string;
+  chainId?: number;
+  matchIds?: string[];
+}
+
+/**
+ * Settle every settleable match (optionally filtered) in one executeTrades
+ * transaction per pool. Each trade is simulated first and trades that would
+ * revert are failed on their own; the rest settle or fail together, and their
+ * OrderMatch rows are updated atomically from the single receipt.
+ */
+export async function settleBatch(
+  prisma: PrismaClient,
+  filter: BatchSettlementFilter = {}
+): Promise<{ batches: BatchSettlementResult[]; skipped: { matchId: string; reason: string }[] }> {
+  const now = new Date();
+  const orderFilter = {
+    ...(filter.poolId && { poolId: filter.poolId }),
+    ...(filter.ftAddress && { ftAddress: filter.ftAddress.toLowerCase() }),
+    ...(filter.chainId && { chainId: filter.chainId }),
+  };
+
+  const matches = await prisma.orderMatch.findMany({
+    where: {
+      status: { in: SETTLEABLE_MATCH_STATUSES },
+      ...(filter.matchIds && { id: { in: filter.matchIds } }),
+      buyOrder: orderFilter,
+    },
+    include: { buyOrder: true, sellOrder: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const skipped: { matchId: string; reason: string }[] = [];
+  const groups = new Map<string, typeof matches>();
+  for (const match of matches) {
+    const { buyOrder, sellOrder } = match;
+    if (!buyOrder.signature || !sellOrder.signature) {
+      skipped.push({ matchId: match.id, reason: "Both orders must be signed before settlement" });
+      continue;
+    }
+    // executeTrades would revert the whole batch on an expired order
+    if (buyOrder.expiresAt <= now || sellOrder.expiresAt <= now) {
+      skipped.push({ matchId: match.id, reason: "Order expired" });
+      continue;
+    }
+    const key = [buyOrder.chainId, buyOrder.ftAddress, buyOrder.poolId].join(":");
+    const group = groups.get(key) ?? [];
+    if (group.length >= MAX_BATCH_SIZE) {
+      skipped.push({ matchId: match.id, reason: "Batch size limit reached" });
+      continue;
+    }
+    groups.set(key, [...group, match]);
+  }
+
+  if (groups.size === 0) {
+    return { batches: [], skipped };
+  }
+
+  const account = getRelayerAccount();
+  const batches: BatchSettlementResult[] = [];
+
+  for (const group of groups.values()) {
+    const { chainId, poolId } = group[0].buyOrder;
+    const matchIds = group.map((m) => m.id);
+
+    const orderBookAddress = getContractAddress(chainId, "OrderBook");
+    if (!orderBookAddress) {
+      matchIds.forEach((matchId) => skipped.push({ matchId, reason: `OrderBook not deployed on chain ${chainId}` }));
+      continue;
+    }
+
+    // Claim the whole group; a concurrent settlement of any match aborts the group
+    try {
+      await transitionMatches(prisma, matchIds, "SETTLING", {
+        details: { relayer: account.address, batchSize: matchIds.length },
+      });
+    } catch (error) {
+      if (!(error instanceof MatchTransitionError)) throw error;
+      matchIds.forEach((matchId) => skipped.push({ matchId, reason: "Match is already being settled" }));
+      continue;
+    }
+
+    const publicClient = getPublicClient(chainId);
+    const walletClient = getWalletClient(chainId, account);
+
+    // Simulate every trade on its own: a trade that would revert is failed alone
+    // and left out, instead of reverting (and releasing) the whole pool batch
+    const trades: BatchTrade[] = [];
+    const batchIds: string[] = [];
+    for (const match of group) {
+      const trade = toBatchTrade(match);
+      try {
+        await publicClient.simulateContract({
+          account,
+          address: orderBookAddress,
+          abi: OrderBookABI as Abi,
+          functionName: "executeTrade",
+          args: [
+            trade.buyOrder,
+            trade.buySignature,
+            trade.sellOrder,
+            trade.sellSignature,
+            trade.amount,
+            trade.pricePerToken,
+          ],
+        });
+        trades.push(trade);
+        batchIds.push(match.id);
+      } catch (error) {
+        const reason = decodeRevertReason(error);
+        await transitionMatch(prisma, match.id, "FAILED", { reason });
+        batches.push({ status: "FAILED", poolId, matchIds: [match.id], reason });
+      }
+    }
+    if (trades.length === 0) {
+      continue;
+    }
+
+    const markFailed = async (reason: string, txHash?: Hex) => {
+      await transitionMatches(prisma, batchIds, "FAILED", { reason, txHash });
+      batches.push({ status: "FAILED", poolId, matchIds: batchIds, reason, txHash });
+    };
+
+    let txHash: Hex | undefined;
+    let receipt;
+    try {
+      const { request } = await publicClient.simulateContract({
+        account,
+        address: orderBookAddress,
+        abi: OrderBookABI as Abi,
+        functionName: "executeTrades",
+        args: [trades],
+      });
+
+      txHash = await walletClient.writeContract(request);
+      receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+    } catch (error) {
+      console.error("[Settlement] executeTrades failed:", error);
+      if (txHash) {
+        // Broadcast but unconfirmed: keep SETTLING so the fills are not released twice
+        await prisma.orderMatch.updateMany({ where: { id: { in: batchIds } }, data: { txHash } });
+        throw new SettlementError(`Batch settlement ${txHash} submitted but not confirmed`, 504);
+      }
+      await markFailed(decodeRevertReason(error));
+      continue;
+    }
+
+    if (receipt.status === "reverted") {
+      await markFailed("Transaction reverted on-chain", txHash);
+      continue;
+    }
+
+    const blockNumber = receipt.blockNumber.toString();
+    await transitionMatches(prisma, batchIds, "SETTLED", {
+      txHash,
+      details: { blockNumber, relayer: account.address, batchSize: batchIds.length },
+    });
+    batches.push({ status: "SETTLED", poolId, matchIds: batchIds, txHash, blockNumber });
+  }
+
+  return { batches, skipped };
+}
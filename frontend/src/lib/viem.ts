@@ -1,4 +1,4 @@
-import { createPublicClient, http } from "viem";
+import { Account, createPublicClient, createWalletClient, http } from "viem";
 import { foundry, sepolia, mainnet } from "viem/chains";
 
 const getRpcUrl = (chainId: number): string => {
@@ -26,3 +26,12 @@ export const getPublicClient = (chainId: number) => {
     transport: http(getRpcUrl(chainId)),
   });
 };
+
+export const getWalletClient = (chainId: number, account: Account) => {
+  const chain = [foundry, sepolia, mainnet].find((c) => c.id === chainId) || foundry;
+  return createWalletClient({
+    account,
+    chain,
+    transport: http(getRpcUrl(chainId)),
+  });
+};
@@ -0,0 +1,148 @@
+import type { PrismaClient } from "@prisma/client";
+
+/**
+ * In-memory stand-in for the PrismaClient calls used by the order, match and
+ * license libraries, so their logic can be unit tested without a query engine.
+ * Supports equality, in/notIn, gt/gte/lt/lte, not and OR filters, orderBy on one
+ * field and the OrderMatch -> Order relations. Transactions run inline, without rollback.
+ */
+
+type Row = Record<string, unknown>;
+type Where = Record<string, unknown>;
+
+const RELATIONS: Record<string, Record<string, [string, string]>> = {
+  orderMatch: { buyOrder: ["order", "buyOrderId"], sellOrder: ["order", "sellOrderId"] },
+};
+
+let sequence = 0;
+
+function compare(a: unknown, b: unknown): number {
+  const left = a instanceof Date ? a.getTime() : (a as number | string);
+  const right = b instanceof Date ? b.getTime() : (b as number | string);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function matchesField(value: unknown, filter: unknown): boolean {
+  if (filter === null || typeof filter !== "object" || filter instanceof Date) {
+    return compare(value, filter) === 0;
+  }
+  return Object.entries(filter as Record<string, unknown>).every(([op, arg]) => {
+    switch (op) {
+      case "in":
+        return (arg as unknown[]).some((item) => compare(value, item) === 0);
+      case "notIn":
+        return !(arg as unknown[]).some((item) => compare(value, item) === 0);
+      case "gt":
+        return compare(value, arg) > 0;
+      case "gte":
+        return compare(value, arg) >= 0;
+      case "lt":
+        return compare(value, arg) < 0;
+      case "lte":
+        return compare(value, arg) <= 0;
+      case "not":
+        return !matchesField(value, arg);
+      default:
+        throw new Error(`fakePrisma: unsupported filter ${op}`);
+    }
+  });
+}
+
+function matchesWhere(row: Row, where: Where = {}): boolean {
+  return Object.entries(where).every(([key, filter]) => {
+    if (filter === undefined) return true;
+    if (key === "OR") return (filter as Where[]).some((w) => matchesWhere(row, w));
+    if (key === "AND") return (filter as Where[]).every((w) => matchesWhere(row, w));
+    return matchesField(row[key], filter);
+  });
+}
+
+function applyUpdate(row: Row, data: Row) {
+  for (const [key, value] of Object.entries(data)) {
+    if (value !== null && typeof value === "object" && !(value instanceof Date)) {
+      const op = value as { increment?: number; decrement?: number; set?: unknown };
+      if (op.increment !== undefined) row[key] = (row[key] as number) + op.increment;
+      else if (op.decrement !== undefined) row[key] = (row[key] as number) - op.decrement;
+      else if ("set" in op) row[key] = op.set;
+      continue;
+    }
+    if (value !== undefined) row[key] = value;
+  }
+  row.updatedAt = new Date();
+}
+
+export function createFakePrisma() {
+  const tables: Record<string, Row[]> = { order: [], orderMatch: [], orderHistory: [], license: [] };
+
+  const withIncludes = (model: string, row: Row, include?: Record<string, unknown>): Row => {
+    if (!include) return { ...row };
+    const result = { ...row };
+    for (const name of Object.keys(include)) {
+      const [target, foreignKey] = RELATIONS[model]?.[name] ?? [];
+      if (!target) throw new Error(`fakePrisma: unknown relation ${model}.${name}`);
+      const related = tables[target].find((r) => r.id === row[foreignKey]);
+      result[name] = related ? { ...related } : null;
+    }
+    return result;
+  };
+
+  const delegate = (model: string) => {
+    const rows = () => tables[model];
+    const find = (args: { where?: Where; orderBy?: Record<string, "asc" | "desc">; skip?: number; take?: number }) => {
+      let found = rows().filter((row) => matchesWhere(row, args.where));
+      if (args.orderBy) {
+        const [[field, direction]] = Object.entries(args.orderBy);
+        found = [...found].sort((a, b) => compare(a[field], b[field]) * (direction === "desc" ? -1 : 1));
+      }
+      return found.slice(args.skip ?? 0, args.take === undefined ? undefined : (args.skip ?? 0) + args.take);
+    };
+    const insert = (data: Row): Row => {
+      const now = new Date(Date.now() + sequence++);
+      const row = { id: `${model}-${sequence}`, createdAt: now, updatedAt: now, ...data };
+      rows().push(row);
+      return row;
+    };
+
+    return {
+      findUnique: async (args: { where: Where; include?: Record<string, unknown> }) => {
+        const row = rows().find((r) => matchesWhere(r, args.where));
+        return row ? withIncludes(model, row, args.include) : null;
+      },
+      findFirst: async (args: { where?: Where; include?: Record<string, unknown> } = {}) => {
+        const [row] = find(args);
+        return row ? withIncludes(model, row, args.include) : null;
+      },
+      findMany: async (args: Parameters<typeof find>[0] & { include?: Record<string, unknown> } = {}) =>
+        find(args).map((row) => withIncludes(model, row, args.include)),
+      count: async (args: { where?: Where } = {}) => find(args).length,
+      create: async (args: { data: Row }) => ({ ...insert(args.data) }),
+      createMany: async (args: { data: Row[] }) => {
+        args.data.forEach(insert);
+        return { count: args.data.length };
+      },
+      update: async (args: { where: Where; data: Row }) => {
+        const row = rows().find((r) => matchesWhere(r, args.where));
+        if (!row) throw new Error(`fakePrisma: ${model} not found`);
+        applyUpdate(row, args.data);
+        return { ...row };
+      },
+      updateMany: async (args: { where?: Where; data: Row }) => {
+        const found = rows().filter((row) => matchesWhere(row, args.where));
+        found.forEach((row) => applyUpdate(row, args.data));
+        return { count: found.length };
+      },
+    };
+  };
+
+  const client: Row = {
+    tables,
+    order: delegate("order"),
+    orderMatch: delegate("orderMatch"),
+    orderHistory: delegate("orderHistory"),
+    license: delegate("license"),
+  };
+  client.$transaction = async (arg: unknown) =>
+    typeof arg === "function" ? arg(client) : Promise.all(arg as Promise<unknown>[]);
+
+  return client as unknown as PrismaClient & { tables: typeof tables };
+}
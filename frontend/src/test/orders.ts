@@ -0,0 +1,39 @@
+import type { Order as OrderRow } from "@prisma/client";
+
+const ONE = BigInt(10) ** BigInt(18);
+
+export const units = (value: number) => (BigInt(value) * ONE).toString();
+
+let counter = 0;
+
+/**
+ * Order row with sensible defaults for tests (amounts in whole tokens)
+ */
+export function makeOrder(overrides: Partial<OrderRow> & { side: string }): OrderRow {
+  counter++;
+  const createdAt = overrides.createdAt ?? new Date(Date.UTC(2026, 0, 1, 0, 0, counter));
+  return {
+    id: `order-${counter}`,
+    orderId: `order-id-${counter}`,
+    userAddress: `0x${counter.toString(16).padStart(40, "0")}`,
+    poolId: "1",
+    ftAddress: "0x00000000000000000000000000000000000000f7",
+    amount: units(10),
+    pricePerToken: units(1),
+    totalValue: units(10),
+    orderType: "LIMIT",
+    timeInForce: "GTC",
+    collateralStatus: "OK",
+    collateralCheckedAt: null,
+    status: "OPEN",
+    filledAmount: "0",
+    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    updatedAt: createdAt,
+    signature: "0x",
+    nonce: counter,
+    signedOrder: null,
+    chainId: 31337,
+    ...overrides,
+    createdAt,
+  };
+}
@@ -17,6 +17,9 @@ import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
  * 2. Backend match orders
  * 3. Caller execute trade dengan signatures dari buyer dan seller
  * 4. Smart contract verifikasi signatures dan execute transfer
+ *
+ * Buyer bisa bayar lewat msg.value, atau deposit IP dulu supaya relayer
+ * bisa settle tanpa buyer online (msg.value = 0).
  */
 
 contract OrderBook is EIP712, Ownable {
@@ -36,18 +39,39 @@ contract OrderBook is EIP712, Ownable {
         uint256 expiresAt;
     }
 
+    // Satu trade dalam batch settlement
+    struct Trade {
+        Order buyOrder;
+        bytes buySignature;
+        Order sellOrder;
+        bytes sellSignature;
+        uint256 amount;
+        uint256 pricePerToken;
+    }
+
     // Type hash untuk EIP-712
     bytes32 private constant ORDER_TYPEHASH =
         keccak256(
             "Order(string orderId,string side,uint256 poolId,address ftAddress,uint256 amount,uint256 pricePerToken,address userAddress,uint256 nonce,uint256 expiresAt)"
         );
 
-    // Tracking nonces untuk prevent replay attacks
+    bytes32 private constant CANCEL_ALL_TYPEHASH =
+        keccak256("CancelAllBelowNonce(address userAddress,uint256 minNonce)");
+    bytes32 private constant CANCEL_POOL_TYPEHASH =
+        keccak256("CancelPoolOrders(address userAddress,uint256 poolId,uint256 minNonce)");
+
+    // Nonce floor per user: orders dengan nonce di bawahnya tidak bisa di-settle lagi
     mapping(address => uint256) public userNonces;
 
+    // Nonce floor per user per pool (cancel all orders in one pool)
+    mapping(address => mapping(uint256 => uint256)) public poolNonces;
+
     // Track executed orders
     mapping(string => uint256) public executedAmounts; // orderId -> amountFilled
 
+    // Escrowed IP per buyer, spent when a trade is settled without msg.value
+    mapping(address => uint256) public deposits;
+
     // Platform fee (25 = 2.5%)
     uint256 public platformFee = 25;
     address public feeRecipient;
@@ -64,11 +88,39 @@ contract OrderBook is EIP712, Ownable {
     );
 
     event OrderCancelled(string indexed orderId, address indexed user);
+    event NoncesInvalidated(address indexed user, uint256 minNonce);
+    event PoolNoncesInvalidated(address indexed user, uint256 indexed poolId, uint256 minNonce);
+
+    event Deposited(address indexed user, uint256 amount);
+    event Withdrawn(address indexed user, uint256 amount);
 
     constructor() EIP712("Lixa Order Book", "1") Ownable(msg.sender) {
         feeRecipient = msg.sender;
     }
 
+    /**
+     * @notice Deposit IP untuk dipakai settle BID orders oleh relayer
+     */
+    function deposit() external payable {
+        require(msg.value > 0, "Amount must be > 0");
+        deposits[msg.sender] += msg.value;
+        emit Deposited(msg.sender, msg.value);
+    }
+
+    /**
+     * @notice Withdraw unused deposit
+     */
+    function withdraw(uint256 amount) external {
+        require(amount > 0, "Amount must be > 0");
+        require(deposits[msg.sender] >= amount, "Insufficient deposit");
+        deposits[msg.sender] -= amount;
+
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        require(success, "Withdraw failed");
+
+        emit Withdrawn(msg.sender, amount);
+    }
+
     /**
      * @notice Execute trade antara bid dan ask order
      * @param buyOrder Signed bid order dari buyer
@@ -76,20 +128,158 @@ contract OrderBook is EIP712, Ownable {
      * @param sellOrder Signed ask order dari seller
      * @param sellSignature Signature dari seller
      * @param amount Jumlah yang di-trade (bisa partial fill)
+     * @param pricePerToken Execution price, harus di antara ask dan bid price
+     * @dev Jika msg.value = 0, pembayaran diambil dari deposit buyer
      */
     function executeTrade(
         Order calldata buyOrder,
         bytes calldata buySignature,
         Order calldata sellOrder,
         bytes calldata sellSignature,
-        uint256 amount
+        uint256 amount,
+        uint256 pricePerToken
     ) external payable {
+        uint256 totalValue = (amount * pricePerToken) / 1e18;
+
+        // Fund the trade from msg.value or the buyer's deposit
+        if (msg.value == 0) {
+            require(deposits[buyOrder.userAddress] >= totalValue, "Insufficient buyer deposit");
+            deposits[buyOrder.userAddress] -= totalValue;
+        } else {
+            require(msg.value >= totalValue, "Insufficient ETH sent");
+        }
+
+        _settle(buyOrder, buySignature, sellOrder, sellSignature, amount, pricePerToken);
+
+        // Refund excess ETH
+        if (msg.value > totalValue) {
+            (bool refundSuccess, ) = payable(msg.sender).call{value: msg.value - totalValue}("");
+            require(refundSuccess, "Refund failed");
+        }
+    }
+
+    /**
+     * @notice Settle beberapa matched trades dalam satu transaksi
+     * @param trades Signed order pairs dengan amount dan execution price
+     * @dev Semua trade dibayar dari deposit buyer. All-or-nothing: satu trade gagal, semua revert
+     */
+    function executeTrades(Trade[] calldata trades) external {
+        require(trades.length > 0, "No trades");
+
+        for (uint256 i = 0; i < trades.length; i++) {
+            Trade calldata trade = trades[i];
+            uint256 totalValue = (trade.amount * trade.pricePerToken) / 1e18;
+
+            address buyer = trade.buyOrder.userAddress;
+            require(deposits[buyer] >= totalValue, "Insufficient buyer deposit");
+            deposits[buyer] -= totalValue;
+
+            _settle(
+                trade.buyOrder,
+                trade.buySignature,
+                trade.sellOrder,
+                trade.sellSignature,
+                trade.amount,
+                trade.pricePerToken
+            );
+        }
+    }
+
+    /**
+     * @notice Cancel order (only order creator)
+     */
+    function cancelOrder(Order calldata order, bytes calldata signature) external {
+        // Verify caller is order creator
+        require(msg.sender == order.userAddress, "Only order creator can cancel");
+
+        // Verify signature
+        _verifyOrderSignature(order, signature);
+
+        // Mark as executed (full amount) to prevent further trades
+        executedAmounts[order.orderId] = order.amount;
+
+        emit OrderCancelled(order.orderId, order.userAddress);
+    }
+
+    /**
+     * @notice Cancel all caller orders with nonce < minNonce
+     */
+    function invalidateNonces(uint256 minNonce) external {
+        _invalidateNonces(msg.sender, minNonce);
+    }
+
+    /**
+     * @notice Relayer version of invalidateNonces dengan signed CancelAllBelowNonce dari user
+     */
+    function invalidateNoncesBySig(address user, uint256 minNonce, bytes calldata signature) external {
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(CANCEL_ALL_TYPEHASH, user, minNonce)));
+        require(digest.recover(signature) == user, "Invalid signature");
+        _invalidateNonces(user, minNonce);
+    }
+
+    /**
+     * @notice Cancel all caller orders in one pool with nonce < minNonce
+     */
+    function invalidatePoolNonces(uint256 poolId, uint256 minNonce) external {
+        _invalidatePoolNonces(msg.sender, poolId, minNonce);
+    }
+
+    /**
+     * @notice Relayer version of invalidatePoolNonces dengan signed CancelPoolOrders dari user
+     */
+    function invalidatePoolNoncesBySig(
+        address user,
+        uint256 poolId,
+        uint256 minNonce,
+        bytes calldata signature
+    ) external {
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(CANCEL_POOL_TYPEHASH, user, poolId, minNonce)));
+        require(digest.recover(signature) == user, "Invalid signature");
+        _invalidatePoolNonces(user, poolId, minNonce);
+    }
+
+    /**
+     * @notice Lowest nonce that can still settle for a user in a pool
+     */
+    function minNonceOf(address user, uint256 poolId) public view returns (uint256) {
+        uint256 poolFloor = poolNonces[user][poolId];
+        return poolFloor > userNonces[user] ? poolFloor : userNonces[user];
+    }
+
+    // Floors only move up, so a replayed signature cannot lower them again
+    function _invalidateNonces(address user, uint256 minNonce) internal {
+        require(minNonce > userNonces[user], "Nonce floor must increase");
+        userNonces[user] = minNonce;
+        emit NoncesInvalidated(user, minNonce);
+    }
+
+    function _invalidatePoolNonces(address user, uint256 poolId, uint256 minNonce) internal {
+        require(minNonce > poolNonces[user][poolId], "Nonce floor must increase");
+        poolNonces[user][poolId] = minNonce;
+        emit PoolNoncesInvalidated(user, poolId, minNonce);
+    }
+
+    /**
+     * @notice Internal: Validate orders, pay seller and fee, transfer FT to buyer
+     * @dev Caller must have funded totalValue into this contract
+     */
+    function _settle(
+        Order calldata buyOrder,
+        bytes calldata buySignature,
+        Order calldata sellOrder,
+        bytes calldata sellSignature,
+        uint256 amount,
+        uint256 pricePerToken
+    ) internal returns (uint256 totalValue) {
         // Validasi orders
         require(equal(buyOrder.side, "BID"), "Buy order must be BID");
         require(equal(sellOrder.side, "ASK"), "Sell order must be ASK");
         require(buyOrder.ftAddress == sellOrder.ftAddress, "Tokens must match");
         require(buyOrder.poolId == sellOrder.poolId, "Pools must match");
-        require(buyOrder.pricePerToken == sellOrder.pricePerToken, "Prices must match");
+        require(
+            pricePerToken >= sellOrder.pricePerToken && pricePerToken <= buyOrder.pricePerToken,
+            "Price outside order limits"
+        );
 
         // Validasi amount
         require(amount > 0, "Amount must be > 0");
@@ -100,19 +290,24 @@ contract OrderBook is EIP712, Ownable {
         require(buyOrder.expiresAt > block.timestamp, "Buy order expired");
         require(sellOrder.expiresAt > block.timestamp, "Sell order expired");
 
-        // Verify signatures (disabled for testing/MVP)
-        // TODO: Enable signature verification for production
-        // _verifyOrderSignature(buyOrder, buySignature);
-        // _verifyOrderSignature(sellOrder, sellSignature);
+        // Validasi nonce floors (cancel-all)
+        require(buyOrder.nonce >= minNonceOf(buyOrder.userAddress, buyOrder.poolId), "Buy order nonce invalidated");
+        require(sellOrder.nonce >= minNonceOf(sellOrder.userAddress, sellOrder.poolId), "Sell order nonce invalidated");
+
+        // Verify signatures
+        _verifyOrderSignature(buyOrder, buySignature);
+        _verifyOrderSignature(sellOrder, sellSignature);
+
+        // Update filled amounts before external calls
+        executedAmounts[buyOrder.orderId] += amount;
+        executedAmounts[sellOrder.orderId] += amount;
 
         // Calculate payment
-        uint256 totalValue = (amount * buyOrder.pricePerToken) / 1e18;
+        totalValue = (amount * pricePerToken) / 1e18;
         uint256 feeAmount = (totalValue * platformFee) / 10000;
         uint256 sellerReceives = totalValue - feeAmount;
 
-        // Execute transfer
-        // 1. Buyer sends ETH to seller
-        require(msg.value >= totalValue, "Insufficient ETH sent");
+        // 1. Buyer's IP to seller
         (bool success, ) = payable(sellOrder.userAddress).call{value: sellerReceives}("");
         require(success, "ETH transfer to seller failed");
 
@@ -129,17 +324,6 @@ contract OrderBook is EIP712, Ownable {
             amount
         );
 
-        // Update filled amounts
-        executedAmounts[buyOrder.orderId] += amount;
-        executedAmounts[sellOrder.orderId] += amount;
-
-        // Refund excess ETH
-        uint256 excess = msg.value - totalValue;
-        if (excess > 0) {
-            (bool refundSuccess, ) = payable(msg.sender).call{value: excess}("");
-            require(refundSuccess, "Refund failed");
-        }
-
         emit OrderMatched(
             buyOrder.orderId,
             sellOrder.orderId,
@@ -147,27 +331,11 @@ contract OrderBook is EIP712, Ownable {
             sellOrder.userAddress,
             buyOrder.ftAddress,
             amount,
-            buyOrder.pricePerToken,
+            pricePerToken,
             totalValue
         );
     }
 
-    /**
-     * @notice Cancel order (only order creator)
-     */
-    function cancelOrder(Order calldata order, bytes calldata signature) external {
-        // Verify caller is order creator
-        require(msg.sender == order.userAddress, "Only order creator can cancel");
-
-        // Verify signature
-        _verifyOrderSignature(order, signature);
-
-        // Mark as executed (full amount) to prevent further trades
-        executedAmounts[order.orderId] = order.amount;
-
-        emit OrderCancelled(order.orderId, order.userAddress);
-    }
-
     /**
      * @notice Internal: Verify EIP-712 order signature
      */
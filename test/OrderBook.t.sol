@@ -0,0 +1,308 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "forge-std/Test.sol";
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "../src/contract/OrderBook.sol";
+
+contract MockFT is ERC20 {
+    constructor() ERC20("Mock Fraction", "MFT") {}
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
+
+/**
+ * @title OrderBook Test
+ * @notice Test suite for signed order settlement (wallet and relayer paths)
+ */
+contract OrderBookTest is Test {
+    OrderBook book;
+    MockFT ft;
+
+    uint256 buyerKey = 0xB0B;
+    uint256 sellerKey = 0x5E11;
+    address buyer;
+    address seller;
+    address relayer = address(0x7);
+    address feeRecipient = address(0x99);
+
+    uint256 constant POOL_ID = 1;
+
+    function setUp() public {
+        book = new OrderBook();
+        book.setFeeRecipient(feeRecipient);
+        ft = new MockFT();
+
+        buyer = vm.addr(buyerKey);
+        seller = vm.addr(sellerKey);
+
+        ft.mint(seller, 100 ether);
+        vm.prank(seller);
+        ft.approve(address(book), type(uint256).max);
+
+        vm.deal(buyer, 100 ether);
+        vm.deal(relayer, 1 ether);
+    }
+
+    function _order(string memory orderId, string memory side, address user, uint256 amount, uint256 price)
+        internal
+        view
+        returns (OrderBook.Order memory)
+    {
+        return OrderBook.Order({
+            orderId: orderId,
+            side: side,
+            poolId: POOL_ID,
+            ftAddress: address(ft),
+            amount: amount,
+            pricePerToken: price,
+            userAddress: user,
+            nonce: 0,
+            expiresAt: block.timestamp + 1 days
+        });
+    }
+
+    function _sign(OrderBook.Order memory order, uint256 key) internal view returns (bytes memory) {
+        bytes32 structHash = keccak256(
+            abi.encode(
+                keccak256(
+                    "Order(string orderId,string side,uint256 poolId,address ftAddress,uint256 amount,uint256 pricePerToken,address userAddress,uint256 nonce,uint256 expiresAt)"
+                ),
+                keccak256(bytes(order.orderId)),
+                keccak256(bytes(order.side)),
+                order.poolId,
+                order.ftAddress,
+                order.amount,
+                order.pricePerToken,
+                order.userAddress,
+                order.nonce,
+                order.expiresAt
+            )
+        );
+        return _signDigest(structHash, key);
+    }
+
+    function _signDigest(bytes32 structHash, uint256 key) internal view returns (bytes memory) {
+        bytes32 domainSeparator = keccak256(
+            abi.encode(
+                keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"),
+                keccak256(bytes("Lixa Order Book")),
+                keccak256(bytes("1")),
+                block.chainid,
+                address(book)
+            )
+        );
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", domainSeparator, structHash));
+        (uint8 v, bytes32 r, bytes32 s) = vm.sign(key, digest);
+        return abi.encodePacked(r, s, v);
+    }
+
+    function testRelayerSettlesFromBuyerDeposit() public {
+        OrderBook.Order memory bid = _order("bid-1", "BID", buyer, 10 ether, 0.02 ether);
+        OrderBook.Order memory ask = _order("ask-1", "ASK", seller, 10 ether, 0.01 ether);
+
+        vm.prank(buyer);
+        book.deposit{value: 1 ether}();
+
+        // Execute at the ask (maker) price, inside both limits
+        vm.prank(relayer);
+        book.executeTrade(bid, _sign(bid, buyerKey), ask, _sign(ask, sellerKey), 4 ether, 0.01 ether);
+
+        uint256 totalValue = 0.04 ether;
+        uint256 fee = (totalValue * 25) / 10000;
+
+        assertEq(ft.balanceOf(buyer), 4 ether, "Buyer should receive tokens");
+        assertEq(seller.balance, totalValue - fee, "Seller should receive payment");
+        assertEq(feeRecipient.balance, fee, "Fee recipient should receive fee");
+        assertEq(book.deposits(buyer), 1 ether - totalValue, "Deposit should be debited");
+        assertEq(book.executedAmounts("bid-1"), 4 ether, "Bid fill mismatch");
+        assertEq(book.executedAmounts("ask-1"), 4 ether, "Ask fill mismatch");
+        assertEq(relayer.balance, 1 ether, "Relayer should not pay for the trade");
+    }
+
+    function testWalletSettlementRefundsExcess() public {
+        OrderBook.Order memory bid = _order("bid-2", "BID", buyer, 10 ether, 0.01 ether);
+        OrderBook.Order memory ask = _order("ask-2", "ASK", seller, 10 ether, 0.01 ether);
+
+        uint256 balanceBefore = buyer.balance;
+
+        vm.prank(buyer);
+        book.executeTrade{value: 1 ether}(bid, _sign(bid, buyerKey), ask, _sign(ask, sellerKey), 10 ether, 0.01 ether);
+
+        assertEq(buyer.balance, balanceBefore - 0.1 ether, "Buyer should only pay total value");
+        assertEq(ft.balanceOf(buyer), 10 ether, "Buyer should receive tokens");
+    }
+
+    function testRevertsOnForgedSignature() public {
+        OrderBook.Order memory bid = _order("bid-3", "BID", buyer, 10 ether, 0.01 ether);
+        OrderBook.Order memory ask = _order("ask-3", "ASK", seller, 10 ether, 0.01 ether);
+
+        vm.prank(buyer);
+        book.deposit{value: 1 ether}();
+
+        // Buy order signed by the seller's key instead of the buyer's
+        bytes memory forged = _sign(bid, sellerKey);
+        bytes memory askSig = _sign(ask, sellerKey);
+
+        vm.prank(relayer);
+        vm.expectRevert("Invalid signature");
+        book.executeTrade(bid, forged, ask, askSig, 1 ether, 0.01 ether);
+    }
+
+    function testRevertsWhenPriceOutsideLimits() public {
+        OrderBook.Order memory bid = _order("bid-4", "BID", buyer, 10 ether, 0.01 ether);
+        OrderBook.Order memory ask = _order("ask-4", "ASK", seller, 10 ether, 0.02 ether);
+        bytes memory bidSig = _sign(bid, buyerKey);
+        bytes memory askSig = _sign(ask, sellerKey);
+
+        vm.prank(buyer);
+        vm.expectRevert("Price outside order limits");
+        book.executeTrade{value: 1 ether}(bid, bidSig, ask, askSig, 1 ether, 0.015 ether);
+    }
+
+    function testRevertsWithoutDeposit() public {
+        OrderBook.Order memory bid = _order("bid-5", "BID", buyer, 10 ether, 0.01 ether);
+        OrderBook.Order memory ask = _order("ask-5", "ASK", seller, 10 ether, 0.01 ether);
+        bytes memory bidSig = _sign(bid, buyerKey);
+        bytes memory askSig = _sign(ask, sellerKey);
+
+        vm.prank(relayer);
+        vm.expectRevert("Insufficient buyer deposit");
+        book.executeTrade(bid, bidSig, ask, askSig, 1 ether, 0.01 ether);
+    }
+
+    function _trade(
+        OrderBook.Order memory bid,
+        OrderBook.Order memory ask,
+        uint256 amount,
+        uint256 price
+    ) internal view returns (OrderBook.Trade memory) {
+        return OrderBook.Trade({
+            buyOrder: bid,
+            buySignature: _sign(bid, buyerKey),
+            sellOrder: ask,
+            sellSignature: _sign(ask, sellerKey),
+            amount: amount,
+            pricePerToken: price
+        });
+    }
+
+    function testBatchSettlesSweepAgainstSeveralAsks() public {
+        // One bid sweeping two asks at their own prices
+        OrderBook.Order memory bid = _order("bid-6", "BID", buyer, 10 ether, 0.03 ether);
+        OrderBook.Order memory ask1 = _order("ask-6a", "ASK", seller, 3 ether, 0.01 ether);
+        OrderBook.Order memory ask2 = _order("ask-6b", "ASK", seller, 5 ether, 0.02 ether);
+
+        vm.prank(buyer);
+        book.deposit{value: 1 ether}();
+
+        OrderBook.Trade[] memory trades = new OrderBook.Trade[](2);
+        trades[0] = _trade(bid, ask1, 3 ether, 0.01 ether);
+        trades[1] = _trade(bid, ask2, 5 ether, 0.02 ether);
+
+        vm.prank(relayer);
+        book.executeTrades(trades);
+
+        uint256 totalValue = 0.03 ether + 0.1 ether;
+        assertEq(ft.balanceOf(buyer), 8 ether, "Buyer should receive both fills");
+        assertEq(book.executedAmounts("bid-6"), 8 ether, "Bid fill mismatch");
+        assertEq(book.deposits(buyer), 1 ether - totalValue, "Deposit should cover both trades");
+    }
+
+    function testBatchRevertsAtomically() public {
+        OrderBook.Order memory bid = _order("bid-7", "BID", buyer, 10 ether, 0.01 ether);
+        OrderBook.Order memory ask = _order("ask-7", "ASK", seller, 10 ether, 0.01 ether);
+
+        vm.prank(buyer);
+        book.deposit{value: 1 ether}();
+
+        // Second trade over-fills the ask, so the whole batch must revert
+        OrderBook.Trade[] memory trades = new OrderBook.Trade[](2);
+        trades[0] = _trade(bid, ask, 6 ether, 0.01 ether);
+        trades[1] = _trade(bid, ask, 6 ether, 0.01 ether);
+
+        vm.prank(relayer);
+        vm.expectRevert("Buy order insufficient");
+        book.executeTrades(trades);
+
+        assertEq(ft.balanceOf(buyer), 0, "No tokens should move");
+        assertEq(book.deposits(buyer), 1 ether, "Deposit should be untouched");
+    }
+
+    function testWithdrawDeposit() public {
+        vm.startPrank(buyer);
+        book.deposit{value: 1 ether}();
+        book.withdraw(0.4 ether);
+        vm.stopPrank();
+
+        assertEq(book.deposits(buyer), 0.6 ether, "Remaining deposit mismatch");
+        assertEq(buyer.balance, 99.4 ether, "Buyer balance mismatch");
+    }
+
+    function testInvalidateNoncesBlocksOlderOrders() public {
+        OrderBook.Order memory bid = _order("bid-8", "BID", buyer, 10 ether, 0.01 ether);
+        OrderBook.Order memory ask = _order("ask-8", "ASK", seller, 10 ether, 0.01 ether);
+        bytes memory bidSig = _sign(bid, buyerKey);
+        bytes memory askSig = _sign(ask, sellerKey);
+
+        // Seller cancels everything signed with nonce < 1
+        vm.prank(seller);
+        book.invalidateNonces(1);
+        assertEq(book.minNonceOf(seller, POOL_ID), 1, "Floor should apply to every pool");
+
+        vm.prank(buyer);
+        vm.expectRevert("Sell order nonce invalidated");
+        book.executeTrade{value: 1 ether}(bid, bidSig, ask, askSig, 1 ether, 0.01 ether);
+
+        // Floors never move down
+        vm.prank(seller);
+        vm.expectRevert("Nonce floor must increase");
+        book.invalidateNonces(1);
+    }
+
+    function testRelayerInvalidatesPoolNoncesBySig() public {
+        OrderBook.Order memory bid = _order("bid-9", "BID", buyer, 10 ether, 0.01 ether);
+        OrderBook.Order memory ask = _order("ask-9", "ASK", seller, 10 ether, 0.01 ether);
+        bytes memory bidSig = _sign(bid, buyerKey);
+        bytes memory askSig = _sign(ask, sellerKey);
+
+        bytes memory cancelSig = _signDigest(
+            keccak256(
+                abi.encode(
+                    keccak256("CancelPoolOrders(address userAddress,uint256 poolId,uint256 minNonce)"),
+                    buyer,
+                    POOL_ID,
+                    uint256(1)
+                )
+            ),
+            buyerKey
+        );
+
+        vm.prank(relayer);
+        book.invalidatePoolNoncesBySig(buyer, POOL_ID, 1, cancelSig);
+        assertEq(book.poolNonces(buyer, POOL_ID), 1, "Pool floor mismatch");
+        assertEq(book.minNonceOf(buyer, POOL_ID + 1), 0, "Other pools should be unaffected");
+
+        vm.prank(buyer);
+        vm.expectRevert("Buy order nonce invalidated");
+        book.executeTrade{value: 1 ether}(bid, bidSig, ask, askSig, 1 ether, 0.01 ether);
+
+        // The same signature cannot be replayed
+        vm.prank(relayer);
+        vm.expectRevert("Nonce floor must increase");
+        book.invalidatePoolNoncesBySig(buyer, POOL_ID, 1, cancelSig);
+    }
+
+    function testInvalidateBySigRejectsOtherSigner() public {
+        bytes memory forged = _signDigest(
+            keccak256(abi.encode(keccak256("CancelAllBelowNonce(address userAddress,uint256 minNonce)"), buyer, uint256(5))),
+            sellerKey
+        );
+
+        vm.prank(relayer);
+        vm.expectRevert("Invalid signature");
+        book.invalidateNoncesBySig(buyer, 5, forged);
+    }
+}